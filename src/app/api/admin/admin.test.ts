@@ -34,6 +34,51 @@ vi.mock('@/lib/logger', () => ({
 // Mock supabaseServer
 vi.mock('@/lib/supabaseServer', () => ({
     updateGlobalWeights: vi.fn().mockResolvedValue(true),
+    getGlobalWeights: vi.fn().mockResolvedValue(null),
+    updateRegimeWeights: vi.fn().mockResolvedValue(true),
+    resetRegimeWeights: vi.fn().mockResolvedValue(true),
+    getWeightCandidate: vi.fn().mockResolvedValue(null),
+    saveWeightCandidate: vi.fn().mockResolvedValue(undefined),
+    getTrailingStopConfig: vi.fn().mockResolvedValue({
+        mode: 'ATR', atrMultiplier: 2, trailPct: 3, activationR: 1, breakevenR: 1,
+    }),
+    saveTrailingStopConfig: vi.fn().mockResolvedValue(undefined),
+    getRiskPolicy: vi.fn().mockResolvedValue({
+        minRiskReward: 1.5, minRiskPct: 0.5, maxRiskPct: 10, minRewardPct: 1,
+        atrMultipliers: { stopLoss: 1.5, takeProfit: 3 },
+        regimeAtrMultipliers: { HIGH_VOL_CHOP: { stopLoss: 2, takeProfit: 4 } },
+    }),
+    saveRiskPolicy: vi.fn().mockResolvedValue(undefined),
+    getExpiryConfig: vi.fn().mockResolvedValue({
+        defaultHours: 72, byTimeframe: { '1h': 24, '4h': 72 }, byRegime: { HIGH_VOL_CHOP: 48 },
+    }),
+    saveExpiryConfig: vi.fn().mockResolvedValue(undefined),
+    getIntrabarConfig: vi.fn().mockResolvedValue({
+        enabled: true, interval: '1m', tieBreak: 'PESSIMISTIC', maxLookbackHours: 6,
+    }),
+    saveIntrabarConfig: vi.fn().mockResolvedValue(undefined),
+    getCircuitBreakerConfig: vi.fn().mockResolvedValue({
+        enabled: true, drawdownWindow: 30, pauseDrawdownPct: 15, pauseLossStreak: 6, warnDrawdownPct: 8,
+        warnLossStreak: 3, minWinRate: 40, minTrades: 5, minDirectionalTrades: 5, raisedMinScore: 60, cooldownHours: 12,
+    }),
+    saveCircuitBreakerConfig: vi.fn().mockResolvedValue(undefined),
+    getCircuitBreakerState: vi.fn().mockResolvedValue({
+        mode: 'PAUSE', direction: null, minScore: null, reasons: ['7 consecutive losses'],
+        trippedAt: '2026-01-01T00:00:00Z', clearedAt: null, updatedAt: '2026-01-01T00:00:00Z', metrics: null,
+    }),
+    saveCircuitBreakerState: vi.fn().mockResolvedValue(undefined),
+    getRegimeModelConfig: vi.fn().mockResolvedValue({
+        shadow: true, method: 'HMM', states: 4, trainingBars: 500, refitHours: 24,
+    }),
+    saveRegimeModelConfig: vi.fn().mockResolvedValue(undefined),
+    getRegimeModel: vi.fn().mockResolvedValue(null),
+    saveRegimeModel: vi.fn().mockResolvedValue(undefined),
+    saveRegimeAdjustments: vi.fn().mockResolvedValue(true),
+    getRiskRejections: vi.fn().mockResolvedValue([
+        { coin: 'ETH', direction: 'LONG', score: 68, regime: 'BULL_TREND', reason: 'Risk percent 12% too high', at: '2026-01-01T00:00:00Z' },
+    ]),
+    getStoredCandles: vi.fn().mockResolvedValue(null),
+    upsertCandles: vi.fn().mockResolvedValue(true),
     supabaseServer: {
         from: vi.fn().mockReturnValue({
             delete: vi.fn().mockReturnValue({
@@ -178,4 +223,462 @@ describe('Admin Route Authorization', () => {
             expect(json.success).toBe(true);
         });
     });
+
+    describe('Optimize Weights Route', () => {
+        it('returns 401 when user is not authenticated', async () => {
+            mockUser = null;
+            mockAuthError = new Error('Not authenticated');
+
+            const { POST } = await import('@/app/api/admin/optimize-weights/route');
+            const request = new NextRequest('http://localhost/api/admin/optimize-weights', {
+                method: 'POST',
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(401);
+        });
+
+        it('returns 403 when user is not admin', async () => {
+            mockUser = { email: 'nonadmin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/optimize-weights/route');
+            const request = new NextRequest('http://localhost/api/admin/optimize-weights', {
+                method: 'POST',
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(403);
+        });
+    });
+
+    describe('Restore Weights Route', () => {
+        it('returns 404 when the optimizer candidate does not exist', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/restore-weights/route');
+            const request = new NextRequest('http://localhost/api/admin/restore-weights', {
+                method: 'POST',
+                body: JSON.stringify({ candidateId: 'wf-123' }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(404);
+        });
+
+        it('applies a candidate globally and drops the regime vectors', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+            const { getWeightCandidate, updateGlobalWeights, resetRegimeWeights } = await import('@/lib/supabaseServer');
+            (getWeightCandidate as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                id: 'wf-123', weights: { rsi: 7 }, report: { outOfSample: null },
+            });
+            (resetRegimeWeights as ReturnType<typeof vi.fn>).mockClear();
+
+            const { POST } = await import('@/app/api/admin/restore-weights/route');
+            const request = new NextRequest('http://localhost/api/admin/restore-weights', {
+                method: 'POST',
+                body: JSON.stringify({ candidateId: 'wf-123' }),
+            });
+            const json = await (await POST(request)).json();
+
+            expect(json.regime).toBeNull();
+            expect(getWeightCandidate).toHaveBeenCalledWith('wf-123');
+            expect(updateGlobalWeights).toHaveBeenCalledWith({ rsi: 7 });
+            expect(resetRegimeWeights).toHaveBeenCalled();
+        });
+
+        it('applies a candidate to the chosen regime only', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+            const { getWeightCandidate, updateRegimeWeights, resetRegimeWeights } = await import('@/lib/supabaseServer');
+            (getWeightCandidate as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                id: 'wf-123', weights: { rsi: 7 }, report: { outOfSample: null },
+            });
+            (resetRegimeWeights as ReturnType<typeof vi.fn>).mockClear();
+
+            const { POST } = await import('@/app/api/admin/restore-weights/route');
+            const request = new NextRequest('http://localhost/api/admin/restore-weights', {
+                method: 'POST',
+                body: JSON.stringify({ candidateId: 'wf-123', regime: 'BEAR_TREND' }),
+            });
+            const json = await (await POST(request)).json();
+
+            expect(json.regime).toBe('BEAR_TREND');
+            expect(updateRegimeWeights).toHaveBeenCalledWith('BEAR_TREND', { rsi: 7 });
+            expect(resetRegimeWeights).not.toHaveBeenCalled();
+        });
+
+        it('rejects an unknown target regime', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/restore-weights/route');
+            const request = new NextRequest('http://localhost/api/admin/restore-weights', {
+                method: 'POST',
+                body: JSON.stringify({ candidateId: 'wf-123', regime: 'SIDEWAYS' }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(400);
+        });
+    });
+
+    describe('Restore Regime Adjustments Route', () => {
+        it('rejects an unknown regime', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/restore-regime-adjustments/route');
+            const request = new NextRequest('http://localhost/api/admin/restore-regime-adjustments', {
+                method: 'POST',
+                body: JSON.stringify({ regime: 'SIDEWAYS' }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(400);
+        });
+
+        it('returns 403 when user is not admin', async () => {
+            mockUser = { email: 'nonadmin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/restore-regime-adjustments/route');
+            const request = new NextRequest('http://localhost/api/admin/restore-regime-adjustments', {
+                method: 'POST',
+                body: JSON.stringify({ regime: 'BULL_TREND' }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(403);
+        });
+
+        it('resets a regime to its defaults when admin is authenticated', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/restore-regime-adjustments/route');
+            const { saveRegimeAdjustments } = await import('@/lib/supabaseServer');
+            const request = new NextRequest('http://localhost/api/admin/restore-regime-adjustments', {
+                method: 'POST',
+                body: JSON.stringify({ regime: 'HIGH_VOL_CHOP' }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(200);
+            expect(saveRegimeAdjustments).toHaveBeenCalledWith(
+                'HIGH_VOL_CHOP', expect.objectContaining({ scoreThresholdMultiplier: 1.3 })
+            );
+        });
+    });
+
+    describe('Trailing Stops Route', () => {
+        it('returns 403 when user is not admin', async () => {
+            mockUser = { email: 'nonadmin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/trailing-stops/route');
+            const request = new NextRequest('http://localhost/api/admin/trailing-stops', {
+                method: 'POST',
+                body: JSON.stringify({ mode: 'NONE' }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(403);
+        });
+
+        it('rejects an unknown mode', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/trailing-stops/route');
+            const request = new NextRequest('http://localhost/api/admin/trailing-stops', {
+                method: 'POST',
+                body: JSON.stringify({ mode: 'CHANDELIER' }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(400);
+        });
+
+        it('merges and bounds the update when admin is authenticated', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/trailing-stops/route');
+            const request = new NextRequest('http://localhost/api/admin/trailing-stops', {
+                method: 'POST',
+                body: JSON.stringify({ mode: 'PERCENT', trailPct: 99, breakevenR: null }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(200);
+            const json = await response.json();
+            expect(json.config).toEqual({
+                mode: 'PERCENT', atrMultiplier: 2, trailPct: 25, activationR: 1, breakevenR: null,
+            });
+        });
+    });
+
+    describe('Risk Policy Route', () => {
+        it('returns 403 when user is not admin', async () => {
+            mockUser = { email: 'nonadmin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/risk-policy/route');
+            const request = new NextRequest('http://localhost/api/admin/risk-policy', {
+                method: 'POST',
+                body: JSON.stringify({ minRiskReward: 2 }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(403);
+        });
+
+        it('returns the policy and recent rejections for an empty body', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/risk-policy/route');
+            const request = new NextRequest('http://localhost/api/admin/risk-policy', { method: 'POST' });
+            const json = await (await POST(request)).json();
+
+            expect(json.policy.minRiskReward).toBe(1.5);
+            expect(json.rejections[0].reason).toBe('Risk percent 12% too high');
+        });
+
+        it('rejects an unknown regime', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/risk-policy/route');
+            const request = new NextRequest('http://localhost/api/admin/risk-policy', {
+                method: 'POST',
+                body: JSON.stringify({ regimeAtrMultipliers: { SIDEWAYS: { stopLoss: 2, takeProfit: 4 } } }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(400);
+        });
+
+        it('merges and bounds the update when admin is authenticated', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/risk-policy/route');
+            const request = new NextRequest('http://localhost/api/admin/risk-policy', {
+                method: 'POST',
+                body: JSON.stringify({
+                    minRiskReward: 2,
+                    maxRiskPct: 80,
+                    atrMultipliers: { takeProfit: 4 },
+                    regimeAtrMultipliers: { HIGH_VOL_CHOP: null, BEAR_TREND: { stopLoss: 1 } },
+                }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(200);
+            const json = await response.json();
+            expect(json.policy).toEqual({
+                minRiskReward: 2, minRiskPct: 0.5, maxRiskPct: 50, minRewardPct: 1,
+                atrMultipliers: { stopLoss: 1.5, takeProfit: 4 },
+                regimeAtrMultipliers: { BEAR_TREND: { stopLoss: 1, takeProfit: 3 } },
+            });
+        });
+    });
+
+    describe('Signal Expiry Route', () => {
+        it('returns 403 when user is not admin', async () => {
+            mockUser = { email: 'nonadmin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/signal-expiry/route');
+            const request = new NextRequest('http://localhost/api/admin/signal-expiry', {
+                method: 'POST',
+                body: JSON.stringify({ defaultHours: 48 }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(403);
+        });
+
+        it('rejects an unknown timeframe', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/signal-expiry/route');
+            const request = new NextRequest('http://localhost/api/admin/signal-expiry', {
+                method: 'POST',
+                body: JSON.stringify({ byTimeframe: { '15m': 6 } }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(400);
+        });
+
+        it('merges and bounds the update when admin is authenticated', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/signal-expiry/route');
+            const request = new NextRequest('http://localhost/api/admin/signal-expiry', {
+                method: 'POST',
+                body: JSON.stringify({
+                    byTimeframe: { '1d': 5000 },
+                    byRegime: { HIGH_VOL_CHOP: null, BEAR_TREND: 36 },
+                }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(200);
+            const json = await response.json();
+            expect(json.config).toEqual({
+                defaultHours: 72,
+                byTimeframe: { '1h': 24, '4h': 72, '1d': 720 },
+                byRegime: { BEAR_TREND: 36 },
+            });
+        });
+    });
+
+    describe('Intrabar Route', () => {
+        it('returns 403 when user is not admin', async () => {
+            mockUser = { email: 'nonadmin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/intrabar/route');
+            const request = new NextRequest('http://localhost/api/admin/intrabar', {
+                method: 'POST',
+                body: JSON.stringify({ tieBreak: 'OPTIMISTIC' }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(403);
+        });
+
+        it('rejects an unknown tie-break', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/intrabar/route');
+            const request = new NextRequest('http://localhost/api/admin/intrabar', {
+                method: 'POST',
+                body: JSON.stringify({ tieBreak: 'MIDPOINT' }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(400);
+        });
+
+        it('merges and bounds the update when admin is authenticated', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/intrabar/route');
+            const request = new NextRequest('http://localhost/api/admin/intrabar', {
+                method: 'POST',
+                body: JSON.stringify({ interval: '5m', tieBreak: 'OPTIMISTIC', maxLookbackHours: 100 }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(200);
+            const json = await response.json();
+            expect(json.config).toEqual({ enabled: true, interval: '5m', tieBreak: 'OPTIMISTIC', maxLookbackHours: 24 });
+        });
+    });
+
+    describe('Circuit Breaker Route', () => {
+        it('returns 403 when user is not admin', async () => {
+            mockUser = { email: 'nonadmin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/circuit-breaker/route');
+            const request = new NextRequest('http://localhost/api/admin/circuit-breaker', {
+                method: 'POST',
+                body: JSON.stringify({ clear: true }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(403);
+        });
+
+        it('rejects warn thresholds above the pause thresholds', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/circuit-breaker/route');
+            const request = new NextRequest('http://localhost/api/admin/circuit-breaker', {
+                method: 'POST',
+                body: JSON.stringify({ warnDrawdownPct: 20 }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(400);
+        });
+
+        it('clears a tripped breaker when admin is authenticated', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+            const { saveCircuitBreakerState } = await import('@/lib/supabaseServer');
+
+            const { POST } = await import('@/app/api/admin/circuit-breaker/route');
+            const request = new NextRequest('http://localhost/api/admin/circuit-breaker', {
+                method: 'POST',
+                body: JSON.stringify({ clear: true }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(200);
+            const json = await response.json();
+            expect(json.state).toMatchObject({ mode: null, reasons: [], trippedAt: null });
+            expect(json.state.clearedAt).toEqual(expect.any(String));
+            expect(saveCircuitBreakerState).toHaveBeenCalledWith(json.state);
+        });
+    });
+
+    describe('Regime Model Route', () => {
+        it('returns 403 when user is not admin', async () => {
+            mockUser = { email: 'nonadmin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/regime-model/route');
+            const request = new NextRequest('http://localhost/api/admin/regime-model', {
+                method: 'POST',
+                body: JSON.stringify({ method: 'KMEANS' }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(403);
+        });
+
+        it('rejects an unknown method', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/regime-model/route');
+            const request = new NextRequest('http://localhost/api/admin/regime-model', {
+                method: 'POST',
+                body: JSON.stringify({ method: 'GMM' }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(400);
+        });
+
+        it('merges and bounds the update when admin is authenticated', async () => {
+            mockUser = { email: 'admin@test.com' };
+            mockAuthError = null;
+
+            const { POST } = await import('@/app/api/admin/regime-model/route');
+            const request = new NextRequest('http://localhost/api/admin/regime-model', {
+                method: 'POST',
+                body: JSON.stringify({ method: 'KMEANS', states: 12, trainingBars: 50 }),
+            });
+            const response = await POST(request);
+
+            expect(response.status).toBe(200);
+            const json = await response.json();
+            expect(json.config).toEqual({ shadow: true, method: 'KMEANS', states: 6, trainingBars: 150, refitHours: 24 });
+        });
+    });
 });
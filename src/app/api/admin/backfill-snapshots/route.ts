@@ -28,6 +28,7 @@ interface LearningCycle {
     created_at: string;
     adjustments: WeightAdjustment[];
     weights_snapshot: Record<string, number> | null;
+    regime: string | null;
 }
 
 export async function POST(request: NextRequest) {
@@ -67,7 +68,7 @@ export async function POST(request: NextRequest) {
         // Fetch all learning cycles in chronological order
         const { data: allCycles, error: cyclesError } = await supabaseServer
             .from('learning_cycles')
-            .select('id, created_at, adjustments, weights_snapshot')
+            .select('id, created_at, adjustments, weights_snapshot, regime')
             .order('created_at', { ascending: true });
 
         if (cyclesError) {
@@ -75,12 +76,19 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Failed to fetch learning cycles' }, { status: 500 });
         }
 
-        // Replay from defaults and update each cycle
-        const weights: Record<string, number> = { ...DEFAULT_WEIGHTS };
+        // Replay from defaults and update each cycle. Regime cycles replay their own
+        // vector, which starts from the global weights at the time of its first cycle.
+        const globalWeights: Record<string, number> = { ...DEFAULT_WEIGHTS };
+        const regimeWeights: Record<string, Record<string, number>> = {};
         let updatedCount = 0;
         let skippedCount = 0;
 
         for (const cycle of (allCycles as LearningCycle[])) {
+            if (cycle.regime && !regimeWeights[cycle.regime]) {
+                regimeWeights[cycle.regime] = { ...globalWeights };
+            }
+            const weights = cycle.regime ? regimeWeights[cycle.regime] : globalWeights;
+
             // Apply this cycle's adjustments
             if (cycle.adjustments && Array.isArray(cycle.adjustments)) {
                 for (const adj of cycle.adjustments) {
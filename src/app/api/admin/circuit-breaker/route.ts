@@ -0,0 +1,112 @@
+/**
+ * Admin: Drawdown Circuit Breaker
+ *
+ * POST with optional { clear, enabled, drawdownWindow, pauseDrawdownPct, pauseLossStreak,
+ * warnDrawdownPct, warnLossStreak, minWinRate, minTrades, minDirectionalTrades,
+ * raisedMinScore, cooldownHours }
+ * clear: true resumes normal generation now; the learn cron can trip it again once
+ * another signal closes. Disabling the breaker clears it as well.
+ * Omitted fields keep their current value; an empty body returns the config and state.
+ * Admin-only endpoint.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import {
+    getCircuitBreakerConfig,
+    saveCircuitBreakerConfig,
+    getCircuitBreakerState,
+    saveCircuitBreakerState,
+} from '@/lib/supabaseServer';
+import { clearedCircuitBreakerState, CircuitBreakerConfig } from '@/lib/engine/circuitBreaker';
+import { logger } from '@/lib/logger';
+
+const log = logger.withContext('AdminCircuitBreaker');
+const ADMIN_EMAIL = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
+
+const bounded = (value: unknown, min: number, max: number, fallback: number) =>
+    Number.isFinite(Number(value)) ? Math.max(min, Math.min(max, Number(value))) : fallback;
+
+export async function POST(request: NextRequest) {
+    try {
+        // Create server-side Supabase client to get current user
+        const cookieStore = await cookies();
+        const supabase = createServerClient(
+            process.env.NEXT_PUBLIC_SUPABASE_URL!,
+            process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+            {
+                cookies: {
+                    getAll() {
+                        return cookieStore.getAll();
+                    },
+                    setAll(cookiesToSet) {
+                        cookiesToSet.forEach(({ name, value, options }) =>
+                            cookieStore.set(name, value, options)
+                        );
+                    },
+                },
+            }
+        );
+
+        // Get current user
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        // Admin check
+        if (!ADMIN_EMAIL || user.email !== ADMIN_EMAIL) {
+            log.warn(`Non-admin circuit breaker update attempt by ${user.email}`);
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const current = await getCircuitBreakerConfig();
+        let state = await getCircuitBreakerState();
+
+        // Parse options (body is optional)
+        const body = await request.json().catch(() => ({}));
+        if (Object.keys(body).length === 0) {
+            return NextResponse.json({ success: true, config: current, state });
+        }
+
+        const { clear, ...settings } = body;
+        let config = current;
+
+        if (Object.keys(settings).length > 0) {
+            config = {
+                enabled: typeof settings.enabled === 'boolean' ? settings.enabled : current.enabled,
+                drawdownWindow: Math.round(bounded(settings.drawdownWindow, 5, 200, current.drawdownWindow)),
+                pauseDrawdownPct: bounded(settings.pauseDrawdownPct, 1, 100, current.pauseDrawdownPct),
+                pauseLossStreak: Math.round(bounded(settings.pauseLossStreak, 2, 50, current.pauseLossStreak)),
+                warnDrawdownPct: bounded(settings.warnDrawdownPct, 1, 100, current.warnDrawdownPct),
+                warnLossStreak: Math.round(bounded(settings.warnLossStreak, 2, 50, current.warnLossStreak)),
+                minWinRate: bounded(settings.minWinRate, 0, 100, current.minWinRate),
+                minTrades: Math.round(bounded(settings.minTrades, 1, 100, current.minTrades)),
+                minDirectionalTrades: Math.round(bounded(settings.minDirectionalTrades, 1, 100, current.minDirectionalTrades)),
+                raisedMinScore: Math.round(bounded(settings.raisedMinScore, 0, 100, current.raisedMinScore)),
+                cooldownHours: bounded(settings.cooldownHours, 0, 168, current.cooldownHours),
+            } satisfies CircuitBreakerConfig;
+
+            if (config.warnDrawdownPct > config.pauseDrawdownPct || config.warnLossStreak > config.pauseLossStreak) {
+                return NextResponse.json({ error: 'warn thresholds must not exceed pause thresholds' }, { status: 400 });
+            }
+
+            await saveCircuitBreakerConfig(config);
+            log.info(`Admin ${user.email} updated circuit breaker: ${JSON.stringify(config)}`);
+        }
+
+        if (clear === true || !config.enabled) {
+            state = clearedCircuitBreakerState(state);
+            await saveCircuitBreakerState(state);
+            log.info(`Admin ${user.email} cleared the circuit breaker`);
+        }
+
+        return NextResponse.json({ success: true, config, state });
+
+    } catch (error) {
+        log.error('Circuit breaker config error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * Admin: Intrabar SL/TP Replay
+ *
+ * POST with optional { enabled, interval, tieBreak, maxLookbackHours }
+ * Updates how the monitor cron replays candles between runs to catch wicks through SL/TP.
+ * interval: '1m' | '5m'; tieBreak: 'PESSIMISTIC' (stop first) | 'OPTIMISTIC' (target first)
+ * decides which level counts when one candle spans both.
+ * Omitted fields keep their current value; an empty body returns the current config.
+ * Admin-only endpoint.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getIntrabarConfig, saveIntrabarConfig } from '@/lib/supabaseServer';
+import type { IntrabarConfig, IntrabarTieBreak } from '@/lib/engine/outcome';
+import { logger } from '@/lib/logger';
+
+const log = logger.withContext('AdminIntrabar');
+const ADMIN_EMAIL = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
+
+const INTERVALS: IntrabarConfig['interval'][] = ['1m', '5m'];
+const TIE_BREAKS: IntrabarTieBreak[] = ['PESSIMISTIC', 'OPTIMISTIC'];
+
+export async function POST(request: NextRequest) {
+    try {
+        // Create server-side Supabase client to get current user
+        const cookieStore = await cookies();
+        const supabase = createServerClient(
+            process.env.NEXT_PUBLIC_SUPABASE_URL!,
+            process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+            {
+                cookies: {
+                    getAll() {
+                        return cookieStore.getAll();
+                    },
+                    setAll(cookiesToSet) {
+                        cookiesToSet.forEach(({ name, value, options }) =>
+                            cookieStore.set(name, value, options)
+                        );
+                    },
+                },
+            }
+        );
+
+        // Get current user
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        // Admin check
+        if (!ADMIN_EMAIL || user.email !== ADMIN_EMAIL) {
+            log.warn(`Non-admin intrabar config update attempt by ${user.email}`);
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const current = await getIntrabarConfig();
+
+        // Parse options (body is optional)
+        const body = await request.json().catch(() => ({}));
+        if (Object.keys(body).length === 0) {
+            return NextResponse.json({ success: true, config: current });
+        }
+
+        if (body.interval !== undefined && !INTERVALS.includes(body.interval)) {
+            return NextResponse.json({ error: `interval must be one of ${INTERVALS.join(', ')}` }, { status: 400 });
+        }
+        if (body.tieBreak !== undefined && !TIE_BREAKS.includes(body.tieBreak)) {
+            return NextResponse.json({ error: `tieBreak must be one of ${TIE_BREAKS.join(', ')}` }, { status: 400 });
+        }
+
+        const bounded = (value: unknown, min: number, max: number, fallback: number) =>
+            Number.isFinite(Number(value)) ? Math.max(min, Math.min(max, Number(value))) : fallback;
+
+        const config: IntrabarConfig = {
+            enabled: typeof body.enabled === 'boolean' ? body.enabled : current.enabled,
+            interval: body.interval ?? current.interval,
+            tieBreak: body.tieBreak ?? current.tieBreak,
+            maxLookbackHours: bounded(body.maxLookbackHours, 0.5, 24, current.maxLookbackHours),
+        };
+
+        await saveIntrabarConfig(config);
+
+        log.info(`Admin ${user.email} updated intrabar replay: ${JSON.stringify(config)}`);
+
+        return NextResponse.json({ success: true, config });
+
+    } catch (error) {
+        log.error('Intrabar config error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
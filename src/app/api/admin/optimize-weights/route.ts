@@ -0,0 +1,150 @@
+/**
+ * Admin: Walk-Forward Weight Optimization
+ *
+ * POST with optional { coins, method, folds, trainBars, testBars, iterations, seed }
+ * Replays stored 4h candles, runs a walk-forward search from the current global
+ * weights, and saves the result as a candidate for review. Nothing is applied here —
+ * apply the candidate via /api/admin/restore-weights with { candidateId }.
+ * Runs inside the request, so each call takes at most MAX_OPTIMIZER_COINS coins
+ * (the rest come back as deferredCoins) and iterations shrink to the evaluation budget.
+ * Each run saves its own candidate, so runs over deferred coins don't replace earlier ones.
+ * Admin-only endpoint.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getGlobalWeights, getRiskPolicy, saveWeightCandidate, WeightCandidate } from '@/lib/supabaseServer';
+import { getCandles } from '@/lib/candleRepository';
+import { DEFAULT_WEIGHTS, IndicatorWeights, normalizeWeights } from '@/lib/engine/scoring';
+import {
+    iterationBudget,
+    walkForwardOptimize,
+    MAX_OPTIMIZER_COINS,
+    SearchMethod,
+} from '@/lib/engine/optimizer';
+import { CURATED_ASSETS } from '@/lib/constants/assets';
+import { logger } from '@/lib/logger';
+
+const log = logger.withContext('AdminOptimizeWeights');
+const ADMIN_EMAIL = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
+
+// A full evaluation budget can outlast the platform's default function timeout
+export const maxDuration = 300;
+
+// Extra bars so the first training window has indicator warmup
+const WARMUP_BARS = 100;
+
+export async function POST(request: NextRequest) {
+    try {
+        // Create server-side Supabase client to get current user
+        const cookieStore = await cookies();
+        const supabase = createServerClient(
+            process.env.NEXT_PUBLIC_SUPABASE_URL!,
+            process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+            {
+                cookies: {
+                    getAll() {
+                        return cookieStore.getAll();
+                    },
+                    setAll(cookiesToSet) {
+                        cookiesToSet.forEach(({ name, value, options }) =>
+                            cookieStore.set(name, value, options)
+                        );
+                    },
+                },
+            }
+        );
+
+        // Get current user
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        // Admin check
+        if (!ADMIN_EMAIL || user.email !== ADMIN_EMAIL) {
+            log.warn(`Non-admin optimize attempt by ${user.email}`);
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        // Parse options (body is optional)
+        const body = await request.json().catch(() => ({}));
+        const requestedCoins: string[] = Array.isArray(body.coins) && body.coins.length > 0
+            ? body.coins.map((c: string) => String(c).toUpperCase())
+            : CURATED_ASSETS;
+        const coins = requestedCoins.slice(0, MAX_OPTIMIZER_COINS);
+        const deferredCoins = requestedCoins.slice(MAX_OPTIMIZER_COINS);
+        const method: SearchMethod = body.method === 'coordinate' ? 'coordinate' : 'random';
+        const folds = Math.max(1, Math.min(8, Number(body.folds) || 4));
+        const trainBars = Math.max(100, Math.min(600, Number(body.trainBars) || 300));
+        const testBars = Math.max(50, Math.min(300, Number(body.testBars) || 100));
+        const requestedIterations = Math.max(5, Math.min(200, Number(body.iterations) || 40));
+        const seed = Number.isFinite(Number(body.seed)) ? Number(body.seed) : 42;
+
+        // Start from the live weights so the candidate is a reviewable diff
+        const stored = await getGlobalWeights();
+        const baseWeights = stored
+            ? normalizeWeights({ ...DEFAULT_WEIGHTS, ...stored } as IndicatorWeights)
+            : DEFAULT_WEIGHTS;
+
+        // Load history from the candle store
+        const barsNeeded = WARMUP_BARS + trainBars + folds * testBars;
+        const coinData = await Promise.all(
+            coins.map(async coin => ({ coin, data: await getCandles(coin, '4h', barsNeeded) }))
+        );
+        const usable = coinData.filter(c => c.data.length >= trainBars + folds * testBars);
+
+        if (usable.length === 0) {
+            return NextResponse.json({ error: 'Not enough candle history for the requested windows' }, { status: 400 });
+        }
+
+        const iterations = iterationBudget(usable.length, folds, requestedIterations);
+
+        const result = walkForwardOptimize(usable, {
+            baseWeights,
+            method,
+            folds,
+            trainBars,
+            testBars,
+            iterations,
+            seed,
+            // Score candidates on the trades the live engine would actually take
+            backtest: { riskPolicy: await getRiskPolicy() },
+        });
+
+        if (!result) {
+            return NextResponse.json({ error: 'Not enough candle history for the requested windows' }, { status: 400 });
+        }
+
+        const { candidate: weights, ...report } = result;
+        const candidate: WeightCandidate = {
+            id: `wf-${Date.now()}`,
+            createdAt: new Date().toISOString(),
+            createdBy: user.email ?? 'admin',
+            coins: usable.map(c => c.coin),
+            weights,
+            report,
+        };
+
+        await saveWeightCandidate(candidate);
+
+        log.info(`Admin ${user.email} ran walk-forward optimization (${method}, ${folds} folds, ${iterations} iterations, ${usable.length} coins) → candidate ${candidate.id}`);
+
+        return NextResponse.json({
+            success: true,
+            candidateId: candidate.id,
+            coins: candidate.coins,
+            skippedCoins: coinData.filter(c => !usable.includes(c)).map(c => c.coin),
+            deferredCoins,
+            iterations,
+            weights,
+            ...report,
+        });
+
+    } catch (error) {
+        log.error('Optimize weights error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
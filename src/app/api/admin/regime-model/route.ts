@@ -0,0 +1,109 @@
+/**
+ * Admin: Statistical Regime Model
+ *
+ * POST with optional { shadow, method, states, trainingBars, refitHours, refit }
+ * Configures the k-means / Gaussian HMM regime classifier that the generate cron runs in
+ * shadow mode next to detectMarketRegime. method: 'HMM' | 'KMEANS'. Changing method or
+ * states, or refit: true, makes the next generate run refit the cached model.
+ * Omitted fields keep their current value; an empty body returns the config and the fitted model.
+ * Admin-only endpoint.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import {
+    getRegimeModelConfig,
+    saveRegimeModelConfig,
+    getRegimeModel,
+    saveRegimeModel,
+} from '@/lib/supabaseServer';
+import type { RegimeModelConfig, RegimeModelMethod } from '@/lib/engine/regimeModel';
+import { logger } from '@/lib/logger';
+
+const log = logger.withContext('AdminRegimeModel');
+const ADMIN_EMAIL = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
+
+const METHODS: RegimeModelMethod[] = ['HMM', 'KMEANS'];
+
+const bounded = (value: unknown, min: number, max: number, fallback: number) =>
+    Number.isFinite(Number(value)) ? Math.max(min, Math.min(max, Number(value))) : fallback;
+
+export async function POST(request: NextRequest) {
+    try {
+        // Create server-side Supabase client to get current user
+        const cookieStore = await cookies();
+        const supabase = createServerClient(
+            process.env.NEXT_PUBLIC_SUPABASE_URL!,
+            process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+            {
+                cookies: {
+                    getAll() {
+                        return cookieStore.getAll();
+                    },
+                    setAll(cookiesToSet) {
+                        cookiesToSet.forEach(({ name, value, options }) =>
+                            cookieStore.set(name, value, options)
+                        );
+                    },
+                },
+            }
+        );
+
+        // Get current user
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        // Admin check
+        if (!ADMIN_EMAIL || user.email !== ADMIN_EMAIL) {
+            log.warn(`Non-admin regime model update attempt by ${user.email}`);
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const current = await getRegimeModelConfig();
+        const stored = await getRegimeModel();
+        const summary = stored && {
+            method: stored.model.method,
+            features: stored.model.features,
+            states: stored.model.states.map(s => ({ regime: s.regime, weight: Math.round(s.weight * 1000) / 1000 })),
+            trainedBars: stored.model.trainedBars,
+            fittedAt: new Date(stored.fittedAt).toISOString(),
+        };
+
+        // Parse options (body is optional)
+        const body = await request.json().catch(() => ({}));
+        if (Object.keys(body).length === 0) {
+            return NextResponse.json({ success: true, config: current, model: summary });
+        }
+
+        if (body.method !== undefined && !METHODS.includes(body.method)) {
+            return NextResponse.json({ error: `method must be one of ${METHODS.join(', ')}` }, { status: 400 });
+        }
+
+        const config: RegimeModelConfig = {
+            shadow: typeof body.shadow === 'boolean' ? body.shadow : current.shadow,
+            method: body.method ?? current.method,
+            states: Math.round(bounded(body.states, 2, 6, current.states)),
+            trainingBars: Math.round(bounded(body.trainingBars, 150, 1000, current.trainingBars)),
+            refitHours: bounded(body.refitHours, 1, 168, current.refitHours),
+        };
+
+        await saveRegimeModelConfig(config);
+
+        // Backdating the fit makes the next generate run refit
+        if (body.refit === true && stored) {
+            await saveRegimeModel(stored.model, 0);
+        }
+
+        log.info(`Admin ${user.email} updated regime model: ${JSON.stringify(config)}${body.refit === true ? ' (refit requested)' : ''}`);
+
+        return NextResponse.json({ success: true, config, model: summary });
+
+    } catch (error) {
+        log.error('Regime model config error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
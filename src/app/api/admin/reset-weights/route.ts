@@ -1,13 +1,14 @@
 /**
  * Admin: Reset Global Weights to Defaults
  * 
+ * Also drops the per-regime weight vectors, so every regime scores with the defaults again.
  * POST only, admin-only endpoint
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
-import { updateGlobalWeights } from '@/lib/supabaseServer';
+import { updateGlobalWeights, resetRegimeWeights } from '@/lib/supabaseServer';
 import { DEFAULT_WEIGHTS } from '@/lib/engine/scoring';
 import { logger } from '@/lib/logger';
 
@@ -48,14 +49,14 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
-        // Reset global weights to defaults
-        const success = await updateGlobalWeights(DEFAULT_WEIGHTS);
+        // Reset global weights to defaults and drop the regime vectors
+        const success = await updateGlobalWeights(DEFAULT_WEIGHTS) && await resetRegimeWeights();
 
         if (!success) {
             return NextResponse.json({ error: 'Failed to reset weights' }, { status: 500 });
         }
 
-        log.info(`Admin ${user.email} reset global weights to defaults`);
+        log.info(`Admin ${user.email} reset global and regime weights to defaults`);
 
         return NextResponse.json({
             success: true,
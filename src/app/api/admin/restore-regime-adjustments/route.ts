@@ -0,0 +1,124 @@
+/**
+ * Admin: Restore Regime Adjustments
+ *
+ * POST with { cycleId: string }
+ * Sets that regime's adjustments back to the snapshot stored with the regime learning event.
+ *
+ * POST with { regime: string }
+ * Resets one regime's adjustments to the engine defaults.
+ * Admin-only endpoint.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { saveRegimeAdjustments, supabaseServer } from '@/lib/supabaseServer';
+import { DEFAULT_REGIME_ADJUSTMENTS, MarketRegime, RegimeAdjustments } from '@/lib/engine/regime';
+import { logger } from '@/lib/logger';
+
+const log = logger.withContext('AdminRestoreRegimeAdjustments');
+const ADMIN_EMAIL = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
+
+export async function POST(request: NextRequest) {
+    try {
+        // Parse request body
+        const body = await request.json().catch(() => ({}));
+        const { cycleId, regime } = body;
+
+        if (!cycleId && !regime) {
+            return NextResponse.json({ error: 'cycleId or regime required' }, { status: 400 });
+        }
+
+        if (regime && !(regime in DEFAULT_REGIME_ADJUSTMENTS)) {
+            return NextResponse.json({ error: `Unknown regime: ${regime}` }, { status: 400 });
+        }
+
+        // Create server-side Supabase client to get current user
+        const cookieStore = await cookies();
+        const supabase = createServerClient(
+            process.env.NEXT_PUBLIC_SUPABASE_URL!,
+            process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+            {
+                cookies: {
+                    getAll() {
+                        return cookieStore.getAll();
+                    },
+                    setAll(cookiesToSet) {
+                        cookiesToSet.forEach(({ name, value, options }) =>
+                            cookieStore.set(name, value, options)
+                        );
+                    },
+                },
+            }
+        );
+
+        // Get current user
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        // Admin check
+        if (!ADMIN_EMAIL || user.email !== ADMIN_EMAIL) {
+            log.warn(`Non-admin regime adjustment restore attempt by ${user.email}`);
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        // Reset one regime to the defaults
+        if (!cycleId) {
+            const target = regime as MarketRegime;
+            const success = await saveRegimeAdjustments(target, DEFAULT_REGIME_ADJUSTMENTS[target]);
+
+            if (!success) {
+                return NextResponse.json({ error: 'Failed to update regime adjustments' }, { status: 500 });
+            }
+
+            log.info(`Admin ${user.email} reset ${target} adjustments to defaults`);
+
+            return NextResponse.json({
+                success: true,
+                message: `${target} adjustments reset to defaults`,
+                regime: target,
+                adjustments: DEFAULT_REGIME_ADJUSTMENTS[target],
+            });
+        }
+
+        // Fetch the target regime learning event
+        const { data: targetCycle, error: targetError } = await supabaseServer
+            .from('regime_learning_cycles')
+            .select('id, regime, created_at, adjustments_snapshot')
+            .eq('id', cycleId)
+            .single();
+
+        if (targetError || !targetCycle) {
+            return NextResponse.json({ error: 'Regime learning cycle not found' }, { status: 404 });
+        }
+
+        const target = targetCycle.regime as MarketRegime;
+        const restored: RegimeAdjustments = {
+            ...DEFAULT_REGIME_ADJUSTMENTS[target],
+            ...(targetCycle.adjustments_snapshot as Partial<RegimeAdjustments>),
+        };
+
+        const success = await saveRegimeAdjustments(target, restored);
+
+        if (!success) {
+            return NextResponse.json({ error: 'Failed to update regime adjustments' }, { status: 500 });
+        }
+
+        log.info(`Admin ${user.email} restored ${target} adjustments to regime learning event ${cycleId}`);
+
+        return NextResponse.json({
+            success: true,
+            message: `${target} adjustments restored to state after learning event`,
+            regime: target,
+            targetEvent: targetCycle.created_at,
+            adjustments: restored,
+        });
+
+    } catch (error) {
+        log.error('Restore regime adjustments error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
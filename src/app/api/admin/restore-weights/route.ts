@@ -3,14 +3,23 @@
  * 
  * POST with { learningCycleId: string }
  * Calculates weights at that point by replaying adjustments from DEFAULT.
+ * Events that adjusted a regime's weight set restore that regime's vector.
+ *
+ * POST with { candidateId: string, regime?: string }
+ * Applies the walk-forward optimizer candidate saved by /api/admin/optimize-weights,
+ * to the given regime's vector or, without one, to the global weights.
+ *
+ * Restoring the global weights drops the per-regime vectors (as reset-weights does),
+ * otherwise regimes with their own vector would keep scoring with them.
  * Admin-only endpoint.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
-import { updateGlobalWeights, supabaseServer } from '@/lib/supabaseServer';
+import { updateGlobalWeights, updateRegimeWeights, resetRegimeWeights, getWeightCandidate, supabaseServer } from '@/lib/supabaseServer';
 import { DEFAULT_WEIGHTS, IndicatorWeights } from '@/lib/engine/scoring';
+import { DEFAULT_REGIME_ADJUSTMENTS, MarketRegime } from '@/lib/engine/regime';
 import { logger } from '@/lib/logger';
 
 const log = logger.withContext('AdminRestoreWeights');
@@ -30,14 +39,26 @@ interface LearningCycle {
     adjustments: WeightAdjustment[];
 }
 
+/**
+ * Write a weight set: the regime's vector, or the global weights with the regime vectors dropped
+ */
+async function applyWeightSet(regime: MarketRegime | null, weights: Record<string, number>): Promise<boolean> {
+    if (regime) return updateRegimeWeights(regime, weights);
+    return await updateGlobalWeights(weights) && await resetRegimeWeights();
+}
+
 export async function POST(request: NextRequest) {
     try {
         // Parse request body
         const body = await request.json();
-        const { learningCycleId } = body;
+        const { learningCycleId, candidateId, regime: targetRegime } = body;
 
-        if (!learningCycleId) {
-            return NextResponse.json({ error: 'learningCycleId required' }, { status: 400 });
+        if (!learningCycleId && !candidateId) {
+            return NextResponse.json({ error: 'learningCycleId or candidateId required' }, { status: 400 });
+        }
+
+        if (targetRegime && !(targetRegime in DEFAULT_REGIME_ADJUSTMENTS)) {
+            return NextResponse.json({ error: `Unknown regime: ${targetRegime}` }, { status: 400 });
         }
 
         // Create server-side Supabase client to get current user
@@ -72,10 +93,37 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
+        // Optimizer candidate: apply the reviewed weight set as-is
+        if (candidateId) {
+            const candidate = await getWeightCandidate(candidateId);
+
+            if (!candidate) {
+                return NextResponse.json({ error: 'Weight candidate not found' }, { status: 404 });
+            }
+
+            const regime = (targetRegime as MarketRegime | undefined) ?? null;
+            const success = await applyWeightSet(regime, candidate.weights);
+
+            if (!success) {
+                return NextResponse.json({ error: 'Failed to update weights' }, { status: 500 });
+            }
+
+            log.info(`Admin ${user.email} applied optimizer candidate ${candidateId} to ${regime ?? 'global'} weights`);
+
+            return NextResponse.json({
+                success: true,
+                message: 'Weights set to optimizer candidate',
+                candidateId,
+                regime,
+                outOfSample: candidate.report.outOfSample,
+                weights: candidate.weights,
+            });
+        }
+
         // Fetch the target learning cycle
         const { data: targetCycle, error: targetError } = await supabaseServer
             .from('learning_cycles')
-            .select('id, created_at, adjustments, weights_snapshot')
+            .select('id, created_at, adjustments, weights_snapshot, regime')
             .eq('id', learningCycleId)
             .single();
 
@@ -83,6 +131,7 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Learning cycle not found' }, { status: 404 });
         }
 
+        const regime = (targetCycle.regime as MarketRegime | null) ?? null;
         let restoredWeights: Record<string, number>;
 
         // Fast path: use snapshot if available
@@ -93,12 +142,15 @@ export async function POST(request: NextRequest) {
             // Fallback: replay adjustments from DEFAULT
             log.debug(`No snapshot found, replaying adjustments for cycle ${learningCycleId}`);
 
-            // Fetch all learning cycles up to this point (chronologically)
-            const { data: allCycles, error: cyclesError } = await supabaseServer
+            // Fetch all learning cycles of the same weight set up to this point (chronologically)
+            const cyclesQuery = supabaseServer
                 .from('learning_cycles')
                 .select('id, created_at, adjustments')
-                .lte('created_at', targetCycle.created_at)
-                .order('created_at', { ascending: true });
+                .lte('created_at', targetCycle.created_at);
+            const { data: allCycles, error: cyclesError } = await (regime
+                ? cyclesQuery.eq('regime', regime)
+                : cyclesQuery.is('regime', null)
+            ).order('created_at', { ascending: true });
 
             if (cyclesError) {
                 log.error('Failed to fetch learning cycles', cyclesError);
@@ -119,20 +171,21 @@ export async function POST(request: NextRequest) {
             }
         }
 
-        // Apply the restored weights
-        const success = await updateGlobalWeights(restoredWeights);
+        // Apply the restored weights to the set the event adjusted
+        const success = await applyWeightSet(regime, restoredWeights);
 
         if (!success) {
             return NextResponse.json({ error: 'Failed to update weights' }, { status: 500 });
         }
 
-        log.info(`Admin ${user.email} restored weights to learning event ${learningCycleId}`);
+        log.info(`Admin ${user.email} restored ${regime ?? 'global'} weights to learning event ${learningCycleId}`);
 
         return NextResponse.json({
             success: true,
             message: `Weights restored to state after learning event`,
             targetEvent: targetCycle.created_at,
             usedSnapshot: !!targetCycle.weights_snapshot,
+            regime,
             weights: restoredWeights,
         });
 
@@ -0,0 +1,120 @@
+/**
+ * Admin: Risk Policy
+ *
+ * POST with optional { minRiskReward, minRiskPct, maxRiskPct, minRewardPct, atrMultipliers, regimeAtrMultipliers }
+ * Updates the limits every signal's levels must pass in the generate cron, /api/engine-signals
+ * and backtests. atrMultipliers is { stopLoss, takeProfit }; regimeAtrMultipliers maps a regime
+ * to its own { stopLoss, takeProfit } (null removes that regime's override).
+ * Omitted fields keep their current value; an empty body returns the current policy
+ * and the most recent rejections.
+ * Admin-only endpoint.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getRiskPolicy, getRiskRejections, saveRiskPolicy } from '@/lib/supabaseServer';
+import type { AtrMultipliers, RiskPolicy } from '@/lib/engine/risk';
+import type { MarketRegime } from '@/lib/engine/regime';
+import { logger } from '@/lib/logger';
+
+const log = logger.withContext('AdminRiskPolicy');
+const ADMIN_EMAIL = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
+
+const REGIMES: MarketRegime[] = [
+    'BULL_TREND', 'BEAR_TREND', 'HIGH_VOL_CHOP', 'RECOVERY_PUMP', 'DISTRIBUTION', 'ACCUMULATION', 'UNKNOWN',
+];
+
+const bounded = (value: unknown, min: number, max: number, fallback: number) =>
+    Number.isFinite(Number(value)) ? Math.max(min, Math.min(max, Number(value))) : fallback;
+
+function parseMultipliers(value: unknown, fallback: AtrMultipliers): AtrMultipliers {
+    const input = (value ?? {}) as Partial<AtrMultipliers>;
+    return {
+        stopLoss: bounded(input.stopLoss, 0.25, 10, fallback.stopLoss),
+        takeProfit: bounded(input.takeProfit, 0.5, 20, fallback.takeProfit),
+    };
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        // Create server-side Supabase client to get current user
+        const cookieStore = await cookies();
+        const supabase = createServerClient(
+            process.env.NEXT_PUBLIC_SUPABASE_URL!,
+            process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+            {
+                cookies: {
+                    getAll() {
+                        return cookieStore.getAll();
+                    },
+                    setAll(cookiesToSet) {
+                        cookiesToSet.forEach(({ name, value, options }) =>
+                            cookieStore.set(name, value, options)
+                        );
+                    },
+                },
+            }
+        );
+
+        // Get current user
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        // Admin check
+        if (!ADMIN_EMAIL || user.email !== ADMIN_EMAIL) {
+            log.warn(`Non-admin risk policy update attempt by ${user.email}`);
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const current = await getRiskPolicy();
+
+        // Parse options (body is optional)
+        const body = await request.json().catch(() => ({}));
+        if (Object.keys(body).length === 0) {
+            const rejections = await getRiskRejections();
+            return NextResponse.json({ success: true, policy: current, rejections });
+        }
+
+        const overrides = body.regimeAtrMultipliers ?? {};
+        const unknownRegime = Object.keys(overrides).find(r => !REGIMES.includes(r as MarketRegime));
+        if (unknownRegime) {
+            return NextResponse.json({ error: `Unknown regime: ${unknownRegime}` }, { status: 400 });
+        }
+
+        const regimeAtrMultipliers = { ...current.regimeAtrMultipliers };
+        for (const regime of Object.keys(overrides) as MarketRegime[]) {
+            if (overrides[regime] === null) {
+                delete regimeAtrMultipliers[regime];
+            } else {
+                regimeAtrMultipliers[regime] = parseMultipliers(
+                    overrides[regime],
+                    regimeAtrMultipliers[regime] ?? current.atrMultipliers
+                );
+            }
+        }
+
+        const minRiskPct = bounded(body.minRiskPct, 0.1, 10, current.minRiskPct);
+        const policy: RiskPolicy = {
+            minRiskReward: bounded(body.minRiskReward, 0.5, 10, current.minRiskReward),
+            minRiskPct,
+            maxRiskPct: bounded(body.maxRiskPct, minRiskPct, 50, current.maxRiskPct),
+            minRewardPct: bounded(body.minRewardPct, 0, 50, current.minRewardPct),
+            atrMultipliers: parseMultipliers(body.atrMultipliers, current.atrMultipliers),
+            regimeAtrMultipliers,
+        };
+
+        await saveRiskPolicy(policy);
+
+        log.info(`Admin ${user.email} updated risk policy: ${JSON.stringify(policy)}`);
+
+        return NextResponse.json({ success: true, policy });
+
+    } catch (error) {
+        log.error('Risk policy config error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,125 @@
+/**
+ * Admin: Signal Expiry
+ *
+ * POST with optional { defaultHours, byTimeframe, byRegime }
+ * Updates the maximum holding period after which the monitor cron closes a PENDING
+ * signal at the mark as EXPIRED. byTimeframe maps a timeframe ('1h', '4h', '1d') and
+ * byRegime a regime to hours (null removes that override); a regime override wins.
+ * Omitted fields keep their current value; an empty body returns the current config.
+ * Admin-only endpoint.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getExpiryConfig, saveExpiryConfig } from '@/lib/supabaseServer';
+import type { ExpiryConfig } from '@/lib/engine/outcome';
+import type { MarketRegime } from '@/lib/engine/regime';
+import { logger } from '@/lib/logger';
+
+const log = logger.withContext('AdminSignalExpiry');
+const ADMIN_EMAIL = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
+
+const TIMEFRAMES = ['1h', '4h', '1d'];
+const REGIMES: MarketRegime[] = [
+    'BULL_TREND', 'BEAR_TREND', 'HIGH_VOL_CHOP', 'RECOVERY_PUMP', 'DISTRIBUTION', 'ACCUMULATION', 'UNKNOWN',
+];
+
+/** One hour to 30 days */
+const MIN_HOURS = 1;
+const MAX_HOURS = 720;
+
+const bounded = (value: unknown, min: number, max: number, fallback: number) =>
+    Number.isFinite(Number(value)) ? Math.max(min, Math.min(max, Number(value))) : fallback;
+
+/**
+ * Apply per-key hour overrides on top of the current map (null removes a key)
+ */
+function mergeHours<K extends string>(
+    current: Partial<Record<K, number>>,
+    overrides: Record<string, unknown>,
+    fallback: number
+): Partial<Record<K, number>> {
+    const merged = { ...current };
+    for (const key of Object.keys(overrides) as K[]) {
+        if (overrides[key] === null) {
+            delete merged[key];
+        } else {
+            merged[key] = bounded(overrides[key], MIN_HOURS, MAX_HOURS, merged[key] ?? fallback);
+        }
+    }
+    return merged;
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        // Create server-side Supabase client to get current user
+        const cookieStore = await cookies();
+        const supabase = createServerClient(
+            process.env.NEXT_PUBLIC_SUPABASE_URL!,
+            process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+            {
+                cookies: {
+                    getAll() {
+                        return cookieStore.getAll();
+                    },
+                    setAll(cookiesToSet) {
+                        cookiesToSet.forEach(({ name, value, options }) =>
+                            cookieStore.set(name, value, options)
+                        );
+                    },
+                },
+            }
+        );
+
+        // Get current user
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        // Admin check
+        if (!ADMIN_EMAIL || user.email !== ADMIN_EMAIL) {
+            log.warn(`Non-admin signal expiry update attempt by ${user.email}`);
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const current = await getExpiryConfig();
+
+        // Parse options (body is optional)
+        const body = await request.json().catch(() => ({}));
+        if (Object.keys(body).length === 0) {
+            return NextResponse.json({ success: true, config: current });
+        }
+
+        const timeframeOverrides = body.byTimeframe ?? {};
+        const unknownTimeframe = Object.keys(timeframeOverrides).find(tf => !TIMEFRAMES.includes(tf));
+        if (unknownTimeframe) {
+            return NextResponse.json({ error: `timeframe must be one of ${TIMEFRAMES.join(', ')}` }, { status: 400 });
+        }
+
+        const regimeOverrides = body.byRegime ?? {};
+        const unknownRegime = Object.keys(regimeOverrides).find(r => !REGIMES.includes(r as MarketRegime));
+        if (unknownRegime) {
+            return NextResponse.json({ error: `Unknown regime: ${unknownRegime}` }, { status: 400 });
+        }
+
+        const defaultHours = bounded(body.defaultHours, MIN_HOURS, MAX_HOURS, current.defaultHours);
+        const config: ExpiryConfig = {
+            defaultHours,
+            byTimeframe: mergeHours<string>(current.byTimeframe, timeframeOverrides, defaultHours) as Record<string, number>,
+            byRegime: mergeHours<MarketRegime>(current.byRegime, regimeOverrides, defaultHours),
+        };
+
+        await saveExpiryConfig(config);
+
+        log.info(`Admin ${user.email} updated signal expiry: ${JSON.stringify(config)}`);
+
+        return NextResponse.json({ success: true, config });
+
+    } catch (error) {
+        log.error('Signal expiry config error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * Admin: Trailing Stop Config
+ *
+ * POST with optional { mode, atrMultiplier, trailPct, activationR, breakevenR }
+ * Updates the breakeven / trailing rules the monitor cron applies to open signals.
+ * Omitted fields keep their current value; an empty body returns the current config.
+ * mode: 'ATR' | 'PERCENT' | 'NONE'; breakevenR: null disables the breakeven move.
+ * Admin-only endpoint.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getTrailingStopConfig, saveTrailingStopConfig } from '@/lib/supabaseServer';
+import type { TrailingMode, TrailingStopConfig } from '@/lib/engine/outcome';
+import { logger } from '@/lib/logger';
+
+const log = logger.withContext('AdminTrailingStops');
+const ADMIN_EMAIL = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
+
+const TRAILING_MODES: TrailingMode[] = ['ATR', 'PERCENT', 'NONE'];
+
+export async function POST(request: NextRequest) {
+    try {
+        // Create server-side Supabase client to get current user
+        const cookieStore = await cookies();
+        const supabase = createServerClient(
+            process.env.NEXT_PUBLIC_SUPABASE_URL!,
+            process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+            {
+                cookies: {
+                    getAll() {
+                        return cookieStore.getAll();
+                    },
+                    setAll(cookiesToSet) {
+                        cookiesToSet.forEach(({ name, value, options }) =>
+                            cookieStore.set(name, value, options)
+                        );
+                    },
+                },
+            }
+        );
+
+        // Get current user
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        // Admin check
+        if (!ADMIN_EMAIL || user.email !== ADMIN_EMAIL) {
+            log.warn(`Non-admin trailing stop update attempt by ${user.email}`);
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const current = await getTrailingStopConfig();
+
+        // Parse options (body is optional)
+        const body = await request.json().catch(() => ({}));
+        if (Object.keys(body).length === 0) {
+            return NextResponse.json({ success: true, config: current });
+        }
+
+        if (body.mode !== undefined && !TRAILING_MODES.includes(body.mode)) {
+            return NextResponse.json({ error: `mode must be one of ${TRAILING_MODES.join(', ')}` }, { status: 400 });
+        }
+
+        const bounded = (value: unknown, min: number, max: number, fallback: number) =>
+            Number.isFinite(Number(value)) ? Math.max(min, Math.min(max, Number(value))) : fallback;
+
+        const config: TrailingStopConfig = {
+            mode: body.mode ?? current.mode,
+            atrMultiplier: bounded(body.atrMultiplier, 0.5, 10, current.atrMultiplier),
+            trailPct: bounded(body.trailPct, 0.1, 25, current.trailPct),
+            activationR: bounded(body.activationR, 0, 10, current.activationR),
+            breakevenR: body.breakevenR === null
+                ? null
+                : body.breakevenR === undefined
+                    ? current.breakevenR
+                    : bounded(body.breakevenR, 0.1, 10, current.breakevenR ?? 1),
+        };
+
+        await saveTrailingStopConfig(config);
+
+        log.info(`Admin ${user.email} updated trailing stops: ${JSON.stringify(config)}`);
+
+        return NextResponse.json({ success: true, config });
+
+    } catch (error) {
+        log.error('Trailing stop config error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
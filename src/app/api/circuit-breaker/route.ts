@@ -0,0 +1,26 @@
+/**
+ * API: Circuit Breaker
+ * 
+ * Returns whether the drawdown circuit breaker is throttling signal generation,
+ * for the dashboard banner. Thresholds and metrics stay admin-only.
+ */
+
+import { NextResponse } from 'next/server';
+import { getCircuitBreakerState } from '@/lib/supabaseServer';
+
+export async function GET() {
+    try {
+        const state = await getCircuitBreakerState();
+        return NextResponse.json({
+            active: Boolean(state?.mode),
+            mode: state?.mode ?? null,
+            direction: state?.direction ?? null,
+            minScore: state?.minScore ?? null,
+            reasons: state?.reasons ?? [],
+            trippedAt: state?.trippedAt ?? null,
+        });
+    } catch (error) {
+        console.error('Failed to fetch circuit breaker:', error);
+        return NextResponse.json({ active: false }, { status: 500 });
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * API: Cross-Asset Correlation
+ *
+ * Returns the 4h return correlation matrix of the curated assets and each
+ * coin's beta and relative-strength rank vs BTC and the basket.
+ * Shown on the /proof and /watchlist pages.
+ */
+
+import { NextResponse } from 'next/server';
+import { analyzeCrossAsset, CorrelationMatrix, CrossAssetStats } from '@/lib/engine';
+import { CURATED_ASSETS } from '@/lib/constants/assets';
+import { getCandles } from '@/lib/candleRepository';
+
+export interface CorrelationResponse {
+    matrix: CorrelationMatrix;
+    relativeStrength: CrossAssetStats[];    // Strongest first
+    interval: '4h';
+    lastUpdated: string;
+}
+
+export async function GET() {
+    try {
+        // One coin failing to load shouldn't blank the matrix
+        const results = await Promise.allSettled(
+            CURATED_ASSETS.map(async coin => ({ coin, data: await getCandles(coin, '4h', 100) }))
+        );
+        const assets = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+
+        const { stats, matrix } = analyzeCrossAsset(assets);
+
+        return NextResponse.json({
+            matrix,
+            relativeStrength: [...stats.values()].sort((a, b) => a.rank - b.rank),
+            interval: '4h',
+            lastUpdated: new Date().toISOString(),
+        } as CorrelationResponse);
+    } catch (error) {
+        console.error('Correlation API error:', error);
+        return NextResponse.json({
+            matrix: { coins: [], matrix: [], window: 0 },
+            relativeStrength: [],
+            interval: '4h',
+            lastUpdated: new Date().toISOString(),
+            error: 'Failed to compute correlation',
+        }, { status: 500 });
+    }
+}
@@ -36,12 +36,32 @@ vi.mock('@/lib/logger', () => ({
 vi.mock('@/lib/supabaseServer', () => ({
     getAllPendingSignals: vi.fn().mockResolvedValue([]),
     updateSignalOutcomeServer: vi.fn().mockResolvedValue(null),
+    updateSignalStop: vi.fn().mockResolvedValue(true),
+    updateSignalFills: vi.fn().mockResolvedValue(true),
+    getTrailingStopConfig: vi.fn().mockResolvedValue({
+        mode: 'ATR', atrMultiplier: 2, trailPct: 3, activationR: 1, breakevenR: 1,
+    }),
+    getExpiryConfig: vi.fn().mockResolvedValue({
+        defaultHours: 72, byTimeframe: { '4h': 72 }, byRegime: { HIGH_VOL_CHOP: 48 },
+    }),
+    getIntrabarConfig: vi.fn().mockResolvedValue({
+        enabled: true, interval: '1m', tieBreak: 'PESSIMISTIC', maxLookbackHours: 6,
+    }),
+    getMonitorLastRun: vi.fn().mockResolvedValue(null),
+    saveMonitorLastRun: vi.fn().mockResolvedValue(undefined),
+    getRiskPolicy: vi.fn().mockResolvedValue({
+        minRiskReward: 1.5, minRiskPct: 0.5, maxRiskPct: 10, minRewardPct: 1,
+        atrMultipliers: { stopLoss: 1.5, takeProfit: 3 }, regimeAtrMultipliers: {},
+    }),
+    recordRiskRejections: vi.fn().mockResolvedValue(undefined),
     getAllUserIds: vi.fn().mockResolvedValue([]),
     getUserPendingSignals: vi.fn().mockResolvedValue([]),
     addSignalServer: vi.fn().mockResolvedValue(null),
     addGlobalSignal: vi.fn().mockResolvedValue(null),
     getGlobalWeights: vi.fn().mockResolvedValue(null),
     updateGlobalWeights: vi.fn().mockResolvedValue(true),
+    getRegimeWeights: vi.fn().mockResolvedValue({}),
+    updateRegimeWeights: vi.fn().mockResolvedValue(true),
     getLastLearnedSignalId: vi.fn().mockResolvedValue(null),
     findUnprocessedLossStreak: vi.fn().mockResolvedValue({ count: 0, signalIds: [], streakEndTime: null }),
     findUnprocessedWinStreak: vi.fn().mockResolvedValue({ count: 0, signalIds: [], streakEndTime: null }),
@@ -50,6 +70,9 @@ vi.mock('@/lib/supabaseServer', () => ({
     upsertMarketSnapshot: vi.fn().mockResolvedValue(null),
     getCacheValue: vi.fn().mockResolvedValue(null),
     setCacheValue: vi.fn().mockResolvedValue(null),
+    // Candle store unavailable → routes fall back to direct exchange fetches
+    getStoredCandles: vi.fn().mockResolvedValue(null),
+    upsertCandles: vi.fn().mockResolvedValue(true),
     // Phase 4: Context-aware learning mocks
     getTrailingWinRate: vi.fn().mockResolvedValue({ winRate: 70, wins: 7, losses: 3, total: 10 }),
     getDirectionalStats: vi.fn().mockResolvedValue({
@@ -57,6 +80,32 @@ vi.mock('@/lib/supabaseServer', () => ({
         short: { wins: 4, losses: 3, winRate: 57.1 },
     }),
     getTradesSinceIndicatorLoss: vi.fn().mockResolvedValue(10),
+    // Circuit breaker: defaults, never tripped unless a test says so
+    getRecentClosedReturns: vi.fn().mockResolvedValue({ returns: [], lastClosedAt: null }),
+    getCircuitBreakerConfig: vi.fn().mockResolvedValue({
+        enabled: true, drawdownWindow: 30, pauseDrawdownPct: 15, pauseLossStreak: 6, warnDrawdownPct: 8,
+        warnLossStreak: 3, minWinRate: 40, minTrades: 5, minDirectionalTrades: 5, raisedMinScore: 60, cooldownHours: 12,
+    }),
+    getCircuitBreakerState: vi.fn().mockResolvedValue(null),
+    saveCircuitBreakerState: vi.fn().mockResolvedValue(undefined),
+    recordRegimeObservation: vi.fn().mockResolvedValue('NEUTRAL'),
+    getRegimeModelConfig: vi.fn().mockResolvedValue({
+        shadow: false, method: 'HMM', states: 4, trainingBars: 500, refitHours: 24,
+    }),
+    getRegimeModel: vi.fn().mockResolvedValue(null),
+    saveRegimeModel: vi.fn().mockResolvedValue(undefined),
+    // Regime adjustments: defaults, nothing to tune unless a test says so
+    getRegimeAdjustmentTable: vi.fn().mockResolvedValue({}),
+    saveRegimeAdjustments: vi.fn().mockResolvedValue(true),
+    getRegimeOutcomes: vi.fn().mockResolvedValue([]),
+    getLastRegimeLearningTimes: vi.fn().mockResolvedValue(new Map()),
+    recordRegimeLearningCycle: vi.fn().mockResolvedValue(undefined),
+    // Paper trading: no accounts follow signals unless a test says so
+    getAutoFollowPaperAccounts: vi.fn().mockResolvedValue([]),
+    getOpenPaperPositions: vi.fn().mockResolvedValue([]),
+    addPaperPosition: vi.fn().mockResolvedValue(null),
+    updatePaperPosition: vi.fn().mockResolvedValue(true),
+    applyPaperCashFlow: vi.fn().mockResolvedValue(true),
     supabaseServer: {
         from: vi.fn().mockReturnValue({
             select: vi.fn().mockReturnThis(),
@@ -79,7 +128,8 @@ vi.mock('@/lib/engine/hyperliquidData', () => ({
 }));
 
 // Mock engine/regime module
-vi.mock('@/lib/engine/regime', () => ({
+vi.mock('@/lib/engine/regime', async () => ({
+    ...(await vi.importActual<typeof import('@/lib/engine/regime')>('@/lib/engine/regime')),
     detectMarketRegime: vi.fn().mockReturnValue({ regime: 'NEUTRAL', confidence: 0.5 }),
     MarketRegime: { NEUTRAL: 'NEUTRAL', BULLISH: 'BULLISH', BEARISH: 'BEARISH' },
 }));
@@ -223,6 +273,291 @@ describe('Cron Route Response Structure', () => {
             expect(json).toHaveProperty('duration');
             expect(typeof json.duration).toBe('number');
         });
+
+        it('moves the stop to breakeven at +1R and records the move', async () => {
+            const { getAllPendingSignals, updateSignalStop } = await import('@/lib/supabaseServer');
+            const { fetchCurrentPrices } = await import('@/lib/engine/prices');
+            (getAllPendingSignals as ReturnType<typeof vi.fn>).mockResolvedValue([{
+                id: 'sig-1', coin: 'BTC', direction: 'LONG', entry_price: 100, stop_loss: 98, take_profit: 110,
+                initial_stop_loss: 98, stop_history: [], indicator_snapshot: {},
+                created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+            }]);
+            (fetchCurrentPrices as ReturnType<typeof vi.fn>).mockResolvedValue(new Map([['BTC', 102.5]]));
+
+            const { GET } = await import('@/app/api/cron/monitor/route');
+            const request = createNextRequest('http://localhost/api/cron/monitor?secret=test-secret-123');
+            const json = await (await GET(request)).json();
+
+            expect(updateSignalStop).toHaveBeenCalledWith(
+                expect.objectContaining({ id: 'sig-1' }),
+                expect.objectContaining({ from: 98, to: 100, reason: 'BREAKEVEN', price: 102.5 })
+            );
+            expect(json.stopMoves).toEqual([{ id: 'sig-1', coin: 'BTC', reason: 'BREAKEVEN', from: 98, to: 100 }]);
+            expect(json.updated).toEqual([]);
+        });
+
+        it('closes a tranche at TP1 and keeps the rest of the signal open', async () => {
+            const { getAllPendingSignals, updateSignalFills, updateSignalOutcomeServer } = await import('@/lib/supabaseServer');
+            const { fetchCurrentPrices } = await import('@/lib/engine/prices');
+            (getAllPendingSignals as ReturnType<typeof vi.fn>).mockResolvedValue([{
+                id: 'sig-2', coin: 'ETH', direction: 'LONG', entry_price: 100, stop_loss: 99, take_profit: 103,
+                initial_stop_loss: 99, stop_history: [], indicator_snapshot: {},
+                take_profit_targets: [
+                    { price: 101, fraction: 1 / 3, rMultiple: 1 },
+                    { price: 102, fraction: 1 / 3, rMultiple: 2 },
+                    { price: 103, fraction: 1 / 3, rMultiple: 3 },
+                ],
+                tp_fills: [],
+                created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+            }]);
+            (fetchCurrentPrices as ReturnType<typeof vi.fn>).mockResolvedValue(new Map([['ETH', 101.5]]));
+
+            const { GET } = await import('@/app/api/cron/monitor/route');
+            const request = createNextRequest('http://localhost/api/cron/monitor?secret=test-secret-123');
+            const json = await (await GET(request)).json();
+
+            expect(updateSignalFills).toHaveBeenCalledWith(expect.objectContaining({ id: 'sig-2' }), [
+                expect.objectContaining({ target: 0, price: 101.5, profitPct: 1.5 }),
+            ]);
+            expect(json.partialFills).toEqual([{ id: 'sig-2', coin: 'ETH', targets: [1], remaining: 0.67 }]);
+            expect(updateSignalOutcomeServer).not.toHaveBeenCalled();
+        });
+
+        it('blends earlier tranches into the exit of the remainder', async () => {
+            const { getAllPendingSignals, updateSignalOutcomeServer } = await import('@/lib/supabaseServer');
+            const { fetchCurrentPrices } = await import('@/lib/engine/prices');
+            (getAllPendingSignals as ReturnType<typeof vi.fn>).mockResolvedValue([{
+                id: 'sig-3', coin: 'SOL', direction: 'LONG', entry_price: 100, stop_loss: 100, take_profit: 103,
+                initial_stop_loss: 99, stop_history: [], indicator_snapshot: {},
+                take_profit_targets: [
+                    { price: 101, fraction: 0.5, rMultiple: 1 },
+                    { price: 103, fraction: 0.5, rMultiple: 3 },
+                ],
+                tp_fills: [{ target: 0, price: 101, fraction: 0.5, profitPct: 1, at: new Date().toISOString() }],
+                created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+            }]);
+            (fetchCurrentPrices as ReturnType<typeof vi.fn>).mockResolvedValue(new Map([['SOL', 99.8]]));
+
+            const { GET } = await import('@/app/api/cron/monitor/route');
+            const request = createNextRequest('http://localhost/api/cron/monitor?secret=test-secret-123');
+            await GET(request);
+
+            // Runner stopped at breakeven after TP1: 0.5 × 1% + 0.5 × -0.2% = +0.4%
+            const [id, outcome, exitPrice, exitReason, profitPct, fills] =
+                (updateSignalOutcomeServer as ReturnType<typeof vi.fn>).mock.calls[0];
+            expect([id, outcome, exitPrice, exitReason]).toEqual(['sig-3', 'WON', 99.8, 'TRAILING_STOP']);
+            expect(profitPct).toBeCloseTo(0.4, 10);
+            expect(fills).toHaveLength(1);
+        });
+
+        it('scales out paper positions that follow the signal', async () => {
+            const { getAllPendingSignals, getOpenPaperPositions, updatePaperPosition, applyPaperCashFlow } =
+                await import('@/lib/supabaseServer');
+            const { fetchCurrentPrices } = await import('@/lib/engine/prices');
+            (getAllPendingSignals as ReturnType<typeof vi.fn>).mockResolvedValue([{
+                id: 'sig-4', coin: 'ETH', direction: 'LONG', entry_price: 100, stop_loss: 99, take_profit: 103,
+                initial_stop_loss: 99, stop_history: [], indicator_snapshot: {},
+                take_profit_targets: [
+                    { price: 101, fraction: 1 / 3, rMultiple: 1 },
+                    { price: 102, fraction: 1 / 3, rMultiple: 2 },
+                    { price: 103, fraction: 1 / 3, rMultiple: 3 },
+                ],
+                tp_fills: [],
+                created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+            }]);
+            (getOpenPaperPositions as ReturnType<typeof vi.fn>).mockImplementation(async (signalId?: string) =>
+                signalId === undefined || signalId === 'sig-4'
+                    ? [{
+                        id: 'pp-1', user_id: 'user-1', signal_id: 'sig-4', coin: 'ETH', direction: 'LONG',
+                        entry_price: 100, quantity: 20, notional: 2000, closed_fraction: 0, realized_pnl: 0,
+                        fees_paid: 0.9, funding_paid: 0, fills: [], status: 'OPEN',
+                        opened_at: new Date().toISOString(), funding_at: new Date().toISOString(),
+                    }]
+                    : []
+            );
+            (fetchCurrentPrices as ReturnType<typeof vi.fn>).mockResolvedValue(new Map([['ETH', 101.5]]));
+
+            const { GET } = await import('@/app/api/cron/monitor/route');
+            const request = createNextRequest('http://localhost/api/cron/monitor?secret=test-secret-123');
+            const json = await (await GET(request)).json();
+
+            // A third of 20 ETH sold at 101.5 less 0.05% slippage: 6.67 × 1.449 ≈ $9.66
+            expect(updatePaperPosition).toHaveBeenCalledWith('pp-1', expect.objectContaining({
+                closed_fraction: expect.closeTo(1 / 3, 6),
+                realized_pnl: 9.66,
+                fills: [expect.objectContaining({ side: 'CLOSE', reason: 'TP1' })],
+            }));
+            expect(applyPaperCashFlow).toHaveBeenCalledWith('user-1', { pnl: 9.66, fees: 0.3 });
+            expect(json.paperUpdates).toBe(1);
+            // No Hyperliquid funding rate for ETH in the mock → nothing charged
+            expect(json.paperFunding).toBe(0);
+        });
+
+        it('leaves paper positions alone when another writer closed the tranche first', async () => {
+            const { getAllPendingSignals, updateSignalFills } = await import('@/lib/supabaseServer');
+            const { fetchCurrentPrices } = await import('@/lib/engine/prices');
+            (getAllPendingSignals as ReturnType<typeof vi.fn>).mockResolvedValue([{
+                id: 'sig-4', coin: 'ETH', direction: 'LONG', entry_price: 100, stop_loss: 99, take_profit: 103,
+                initial_stop_loss: 99, stop_history: [], indicator_snapshot: {},
+                take_profit_targets: [
+                    { price: 101, fraction: 0.5, rMultiple: 1 },
+                    { price: 103, fraction: 0.5, rMultiple: 3 },
+                ],
+                tp_fills: [],
+                created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+            }]);
+            (fetchCurrentPrices as ReturnType<typeof vi.fn>).mockResolvedValue(new Map([['ETH', 101.5]]));
+            // Compare-and-set lost: the stored tranches no longer match what this run read
+            (updateSignalFills as ReturnType<typeof vi.fn>).mockResolvedValueOnce(false);
+
+            const { GET } = await import('@/app/api/cron/monitor/route');
+            const request = createNextRequest('http://localhost/api/cron/monitor?secret=test-secret-123');
+            const json = await (await GET(request)).json();
+
+            expect(json.partialFills).toEqual([]);
+            expect(json.paperUpdates).toBe(0);
+        });
+
+        it('closes at the stop when a 1m wick reached it between runs', async () => {
+            const { getAllPendingSignals, getMonitorLastRun, saveMonitorLastRun, updateSignalOutcomeServer } =
+                await import('@/lib/supabaseServer');
+            const { fetchCurrentPrices } = await import('@/lib/engine/prices');
+            const lastRun = Date.now() - 15 * 60 * 1000;
+            const wickAt = Math.ceil(lastRun / 60000) * 60000 + 5 * 60000;
+            (getAllPendingSignals as ReturnType<typeof vi.fn>).mockResolvedValue([{
+                id: 'sig-8', coin: 'BTC', direction: 'LONG', entry_price: 100, stop_loss: 95, take_profit: 110,
+                initial_stop_loss: 95, stop_history: [], indicator_snapshot: {},
+                created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+            }]);
+            (fetchCurrentPrices as ReturnType<typeof vi.fn>).mockResolvedValue(new Map([['BTC', 99]]));
+            (getMonitorLastRun as ReturnType<typeof vi.fn>).mockResolvedValueOnce(lastRun);
+            // Binance klines: [openTime, open, high, low, close, volume]
+            mockFetch.mockResolvedValue({
+                ok: true,
+                json: async () => [
+                    [wickAt - 60000, '99.5', '100', '99', '99.2', '10'],
+                    [wickAt, '99.2', '99.4', '94.8', '98.9', '10'],
+                ],
+            });
+            (updateSignalOutcomeServer as ReturnType<typeof vi.fn>).mockClear();
+
+            const { GET } = await import('@/app/api/cron/monitor/route');
+            const request = createNextRequest('http://localhost/api/cron/monitor?secret=test-secret-123');
+            await GET(request);
+
+            const [id, outcome, exitPrice, exitReason, profitPct, , , closedAt] =
+                (updateSignalOutcomeServer as ReturnType<typeof vi.fn>).mock.calls[0];
+            expect([id, outcome, exitPrice, exitReason, profitPct]).toEqual(['sig-8', 'LOST', 95, 'STOP_LOSS', -5]);
+            expect(closedAt).toBe(new Date(wickAt).toISOString());
+            expect(saveMonitorLastRun).toHaveBeenCalled();
+        });
+
+        it('expires signals past their max holding period at the mark', async () => {
+            const { getAllPendingSignals, updateSignalOutcomeServer } = await import('@/lib/supabaseServer');
+            const { fetchCurrentPrices } = await import('@/lib/engine/prices');
+            const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+            const base = { direction: 'LONG', entry_price: 100, stop_loss: 95, take_profit: 110, initial_stop_loss: 95, stop_history: [] };
+            (getAllPendingSignals as ReturnType<typeof vi.fn>).mockResolvedValue([
+                { ...base, id: 'sig-5', coin: 'BTC', indicator_snapshot: {}, created_at: hoursAgo(80) },
+                { ...base, id: 'sig-6', coin: 'ETH', indicator_snapshot: { regime: 'HIGH_VOL_CHOP' }, created_at: hoursAgo(50) },
+                { ...base, id: 'sig-7', coin: 'SOL', indicator_snapshot: { timeframe: '4h' }, created_at: hoursAgo(50) },
+            ]);
+            (fetchCurrentPrices as ReturnType<typeof vi.fn>).mockResolvedValue(new Map([['BTC', 101], ['ETH', 99], ['SOL', 101]]));
+            (updateSignalOutcomeServer as ReturnType<typeof vi.fn>).mockClear();
+
+            const { GET } = await import('@/app/api/cron/monitor/route');
+            const request = createNextRequest('http://localhost/api/cron/monitor?secret=test-secret-123');
+            await GET(request);
+
+            const closed = (updateSignalOutcomeServer as ReturnType<typeof vi.fn>).mock.calls
+                .map(([id, outcome, exitPrice, exitReason, profitPct]) => [id, outcome, exitPrice, exitReason, profitPct]);
+            // 4h default is 72h; chop regimes get 48h; SOL (4h, 50h old) stays open
+            expect(closed).toEqual([
+                ['sig-5', 'EXPIRED', 101, 'EXPIRED', 1],
+                ['sig-6', 'EXPIRED', 99, 'EXPIRED', -1],
+            ]);
+        });
+
+        it('records a stop move before closing the signal in the same check', async () => {
+            const { getAllPendingSignals, updateSignalStop, updateSignalOutcomeServer } = await import('@/lib/supabaseServer');
+            const { fetchCurrentPrices } = await import('@/lib/engine/prices');
+            (getAllPendingSignals as ReturnType<typeof vi.fn>).mockResolvedValue([{
+                id: 'sig-8', coin: 'BTC', direction: 'LONG', entry_price: 100, stop_loss: 98, take_profit: 110,
+                initial_stop_loss: 98, stop_history: [], indicator_snapshot: {}, tp_fills: [],
+                created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+            }]);
+            (fetchCurrentPrices as ReturnType<typeof vi.fn>).mockResolvedValue(new Map([['BTC', 110.5]]));
+            (updateSignalOutcomeServer as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ id: 'sig-8' });
+
+            const { GET } = await import('@/app/api/cron/monitor/route');
+            const request = createNextRequest('http://localhost/api/cron/monitor?secret=test-secret-123');
+            const json = await (await GET(request)).json();
+
+            const stopCall = vi.mocked(updateSignalStop).mock.calls.findIndex(([signal]) => signal.id === 'sig-8');
+            const closeCall = vi.mocked(updateSignalOutcomeServer).mock.calls.findIndex(([id]) => id === 'sig-8');
+            expect(vi.mocked(updateSignalStop).mock.calls[stopCall][1]).toMatchObject({ from: 98, to: 100, reason: 'BREAKEVEN' });
+            expect(vi.mocked(updateSignalStop).mock.invocationCallOrder[stopCall])
+                .toBeLessThan(vi.mocked(updateSignalOutcomeServer).mock.invocationCallOrder[closeCall]);
+            expect(json.stopMoves).toEqual([{ id: 'sig-8', coin: 'BTC', reason: 'BREAKEVEN', from: 98, to: 100 }]);
+            expect(json.updated).toEqual([expect.objectContaining({ id: 'sig-8', outcome: 'WON' })]);
+        });
+
+        it('leaves the close to the other writer when the stop changed since it was read', async () => {
+            const { getAllPendingSignals, updateSignalStop, updateSignalOutcomeServer } = await import('@/lib/supabaseServer');
+            const { fetchCurrentPrices } = await import('@/lib/engine/prices');
+            (getAllPendingSignals as ReturnType<typeof vi.fn>).mockResolvedValue([{
+                id: 'sig-9', coin: 'BTC', direction: 'LONG', entry_price: 100, stop_loss: 98, take_profit: 110,
+                initial_stop_loss: 98, stop_history: [], indicator_snapshot: {}, tp_fills: [],
+                created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+            }]);
+            (fetchCurrentPrices as ReturnType<typeof vi.fn>).mockResolvedValue(new Map([['BTC', 110.5]]));
+            (updateSignalStop as ReturnType<typeof vi.fn>).mockResolvedValueOnce(false);
+
+            const { GET } = await import('@/app/api/cron/monitor/route');
+            const request = createNextRequest('http://localhost/api/cron/monitor?secret=test-secret-123');
+            const json = await (await GET(request)).json();
+
+            expect(json.stopMoves).toEqual([]);
+            expect(vi.mocked(updateSignalOutcomeServer).mock.calls.some(([id]) => id === 'sig-9')).toBe(false);
+        });
+
+        it('fills ladder targets a 1m candle reached before the stop between runs', async () => {
+            const { getAllPendingSignals, getMonitorLastRun, updateSignalOutcomeServer } = await import('@/lib/supabaseServer');
+            const { fetchCurrentPrices } = await import('@/lib/engine/prices');
+            const lastRun = Date.now() - 15 * 60 * 1000;
+            const spikeAt = Math.ceil(lastRun / 60000) * 60000 + 5 * 60000;
+            (getAllPendingSignals as ReturnType<typeof vi.fn>).mockResolvedValue([{
+                id: 'sig-10', coin: 'BTC', direction: 'LONG', entry_price: 100, stop_loss: 95, take_profit: 115,
+                initial_stop_loss: 95, stop_history: [], indicator_snapshot: {}, tp_fills: [],
+                take_profit_targets: [
+                    { price: 105, fraction: 1 / 3, rMultiple: 1 },
+                    { price: 110, fraction: 1 / 3, rMultiple: 2 },
+                    { price: 115, fraction: 1 / 3, rMultiple: 3 },
+                ],
+                created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+            }]);
+            (fetchCurrentPrices as ReturnType<typeof vi.fn>).mockResolvedValue(new Map([['BTC', 99]]));
+            (getMonitorLastRun as ReturnType<typeof vi.fn>).mockResolvedValueOnce(lastRun);
+            mockFetch.mockResolvedValue({
+                ok: true,
+                json: async () => [
+                    [spikeAt, '100', '106', '99.5', '104', '10'],
+                    [spikeAt + 60000, '104', '104.5', '94.8', '96', '10'],
+                ],
+            });
+
+            const { GET } = await import('@/app/api/cron/monitor/route');
+            const request = createNextRequest('http://localhost/api/cron/monitor?secret=test-secret-123');
+            await GET(request);
+
+            const call = vi.mocked(updateSignalOutcomeServer).mock.calls.find(([id]) => id === 'sig-10')!;
+            const [, outcome, exitPrice, exitReason, profitPct, fills] = call;
+            expect([outcome, exitPrice, exitReason]).toEqual(['LOST', 95, 'STOP_LOSS']);
+            expect(profitPct).toBeCloseTo(-5 / 3, 10);
+            expect(fills).toEqual([
+                { target: 0, price: 105, fraction: 1 / 3, profitPct: 5, at: new Date(spikeAt).toISOString() },
+            ]);
+        });
     });
 
     describe('Generate Route', () => {
@@ -247,9 +582,132 @@ describe('Cron Route Response Structure', () => {
             expect(json.success).toBe(true);
             expect(json).toHaveProperty('duration');
         });
+
+        it('skips generation while the circuit breaker is paused', async () => {
+            const { getAllPendingSignals, getRecentlyClosedCoins, getCircuitBreakerState, addGlobalSignal } =
+                await import('@/lib/supabaseServer');
+            (getAllPendingSignals as ReturnType<typeof vi.fn>).mockResolvedValueOnce([]);
+            (getRecentlyClosedCoins as ReturnType<typeof vi.fn>).mockResolvedValueOnce([]);
+            (getCircuitBreakerState as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                mode: 'PAUSE', direction: null, minScore: null, reasons: ['Rolling drawdown 18.0% ≥ 15%'],
+                trippedAt: '2026-01-01T00:00:00Z', clearedAt: null, updatedAt: '2026-01-01T00:00:00Z', metrics: null,
+            });
+            (addGlobalSignal as ReturnType<typeof vi.fn>).mockClear();
+
+            const { GET } = await import('@/app/api/cron/generate/route');
+            const request = createNextRequest('http://localhost/api/cron/generate?secret=test-secret-123');
+            const json = await (await GET(request)).json();
+
+            expect(json.success).toBe(true);
+            expect(json.circuitBreaker.mode).toBe('PAUSE');
+            expect(addGlobalSignal).not.toHaveBeenCalled();
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
     });
 
     describe('Learn Route', () => {
+        it('trips the circuit breaker on a long loss streak', async () => {
+            const { findUnprocessedLossStreak, saveCircuitBreakerState } = await import('@/lib/supabaseServer');
+            (findUnprocessedLossStreak as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                count: 7, signalIds: [], streakEndTime: null,
+            });
+
+            const { GET } = await import('@/app/api/cron/learn/route');
+            const request = createNextRequest('http://localhost/api/cron/learn?secret=test-secret-123');
+            const json = await (await GET(request)).json();
+
+            expect(json.circuitBreaker).toEqual({
+                mode: 'PAUSE', direction: null, minScore: null, reasons: ['7 consecutive losses'],
+            });
+            expect(saveCircuitBreakerState).toHaveBeenCalledWith(expect.objectContaining({ mode: 'PAUSE' }));
+        });
+
+        it('tunes a regime from its tagged outcomes and records a restore point', async () => {
+            const { getRegimeAdjustmentTable, getRegimeOutcomes, saveRegimeAdjustments, recordRegimeLearningCycle } = await import('@/lib/supabaseServer');
+            const { DEFAULT_REGIME_ADJUSTMENTS } = await vi.importActual<typeof import('@/lib/engine/regime')>('@/lib/engine/regime');
+            (getRegimeAdjustmentTable as ReturnType<typeof vi.fn>).mockResolvedValueOnce(DEFAULT_REGIME_ADJUSTMENTS);
+            (getRegimeOutcomes as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+                Array.from({ length: 10 }, (_, i) => ({
+                    regime: 'BULL_TREND', direction: 'LONG', outcome: 'LOST', indicators: {},
+                    closedAt: new Date(Date.UTC(2026, 0, 1, i)).toISOString(),
+                }))
+            );
+
+            const { GET } = await import('@/app/api/cron/learn/route');
+            const request = createNextRequest('http://localhost/api/cron/learn?secret=test-secret-123');
+            const json = await (await GET(request)).json();
+
+            expect(json.regimeTuningTriggered).toBe(true);
+            expect(json.regimeTunings[0]).toMatchObject({ regime: 'BULL_TREND', winRate: 0 });
+            expect(saveRegimeAdjustments).toHaveBeenCalledWith(
+                'BULL_TREND', expect.objectContaining({ scoreThresholdMultiplier: 0.99 })
+            );
+            expect(recordRegimeLearningCycle).toHaveBeenCalledWith(expect.objectContaining({ regime: 'BULL_TREND' }));
+        });
+
+        it('adjusts only the weight set of the regime the losses were scored in', async () => {
+            const { findUnprocessedLossStreak, supabaseServer, updateRegimeWeights } = await import('@/lib/supabaseServer');
+            const streak = { count: 3, signalIds: [], streakEndTime: null };
+            (findUnprocessedLossStreak as ReturnType<typeof vi.fn>)
+                .mockResolvedValueOnce(streak)  // circuit breaker
+                .mockResolvedValueOnce(streak); // loss learning
+            (supabaseServer.from as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+                select: vi.fn().mockReturnThis(),
+                eq: vi.fn().mockReturnThis(),
+                order: vi.fn().mockReturnThis(),
+                limit: vi.fn().mockResolvedValue({
+                    data: Array.from({ length: 3 }, () => ({
+                        direction: 'LONG', outcome: 'LOST', indicator_snapshot: { regime: 'BEAR_TREND', rsi: 30 },
+                    })),
+                    error: null,
+                }),
+            });
+
+            const { GET } = await import('@/app/api/cron/learn/route');
+            const request = createNextRequest('http://localhost/api/cron/learn?secret=test-secret-123');
+            const json = await (await GET(request)).json();
+
+            expect(json.results[0].weightSets).toEqual(['BEAR_TREND']);
+            expect(updateRegimeWeights).toHaveBeenCalledWith('BEAR_TREND', expect.objectContaining({ rsi: expect.any(Number) }));
+        });
+
+        it('marks a streak processed when no weight set has enough of its losses', async () => {
+            const { findUnprocessedLossStreak, supabaseServer } = await import('@/lib/supabaseServer');
+            const streak = { count: 3, signalIds: [], streakEndTime: '2026-01-01T00:00:00.000Z' };
+            (findUnprocessedLossStreak as ReturnType<typeof vi.fn>)
+                .mockResolvedValueOnce(streak)  // circuit breaker
+                .mockResolvedValueOnce(streak); // loss learning
+            const insert = vi.fn().mockResolvedValue({ data: null, error: null });
+            (supabaseServer.from as ReturnType<typeof vi.fn>)
+                .mockReturnValueOnce({
+                    select: vi.fn().mockReturnThis(),
+                    eq: vi.fn().mockReturnThis(),
+                    order: vi.fn().mockReturnThis(),
+                    limit: vi.fn().mockResolvedValue({
+                        data: [
+                            { direction: 'LONG', outcome: 'LOST', indicator_snapshot: { regime: 'BEAR_TREND', rsi: 30 } },
+                            { direction: 'LONG', outcome: 'LOST', indicator_snapshot: { regime: 'BEAR_TREND', rsi: 30 } },
+                            { direction: 'LONG', outcome: 'LOST', indicator_snapshot: { regime: 'RANGING', rsi: 30 } },
+                        ],
+                        error: null,
+                    }),
+                })
+                .mockReturnValueOnce({ insert });
+
+            const { GET } = await import('@/app/api/cron/learn/route');
+            const request = createNextRequest('http://localhost/api/cron/learn?secret=test-secret-123');
+            const json = await (await GET(request)).json();
+
+            expect(json.streaksProcessed).toBe(1);
+            expect(json.results[0].weightSets).toEqual([]);
+            expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+                triggered_by: 'consecutive_losses',
+                adjustments: [],
+                regime: null,
+                created_at: '2026-01-01T00:00:00.100Z',
+            }));
+        });
+
         it('includes required fields when no learning triggered', async () => {
             const { GET } = await import('@/app/api/cron/learn/route');
             const request = createNextRequest('http://localhost/api/cron/learn?secret=test-secret-123');
@@ -3,6 +3,14 @@
  * 
  * Generates GLOBAL signals for coins that don't have pending signals.
  * All users see the same signals (shared engine).
+ * SL/TP are rebuilt from the live price with the risk policy's ATR multipliers for the
+ * current regime; setups that fail the policy are rejected and reported with their reason.
+ * Signals are scored with the detected regime's weight vector once the learn cron has built one.
+ * Auto-follow paper accounts open a simulated position on each new signal.
+ * A tripped circuit breaker (evaluated by the learn cron) pauses generation, raises the
+ * minimum score or restricts signals to the direction that is still winning.
+ * A 4h signal the 1h or 1d timeframe points against is vetoed (multi-timeframe confluence)
+ * and reported apart from the risk-policy rejections.
  * 
  * Called every 15 minutes by external cron service.
  */
@@ -13,118 +21,47 @@ import {
     getAllPendingSignals,
     addGlobalSignal,
     getGlobalWeights,
+    getRegimeWeights,
     findUnprocessedLossStreak,
     getRecentlyClosedCoins,
     getMarketSnapshots,
     upsertMarketSnapshot,
     getCacheValue,
     setCacheValue,
+    getRiskPolicy,
+    getRegimeAdjustmentTable,
+    recordRiskRejections,
+    RiskRejection,
+    getCircuitBreakerState,
+    recordRegimeObservation,
 } from '@/lib/supabaseServer';
 import {
-    generateSignal,
-    OHLCV,
     DEFAULT_WEIGHTS,
     IndicatorWeights,
+    normalizeWeights,
     HyperliquidContext,
+    weightsForRegime,
+    analyzeCrossAsset,
+    buildTakeProfitLadder,
+    calculateRiskLevels,
+    validateRiskLevels,
+    atrMultipliersFor,
+    circuitBreakerBlock,
 } from '@/lib/engine';
 import { CURATED_ASSETS } from '@/lib/constants/assets';
 import { fetchHyperliquidMarketContext } from '@/lib/engine/hyperliquidData';
 import { detectMarketRegime, MarketContext, MarketRegime } from '@/lib/engine/regime';
 import { fetchCurrentPrices } from '@/lib/engine/prices';
-
-const HYPERLIQUID_API = 'https://api.hyperliquid.xyz/info';
+import { getCandles } from '@/lib/candleRepository';
+import { openPaperPositionsForSignal } from '@/lib/paperTrading';
+import { classifyShadowRegime } from '@/lib/regimeShadow';
+import { generateMultiTimeframeSignal, confluenceBlock, confluenceSnapshot } from '@/lib/engine/confluence';
 
 const log = logger.withContext('CronGenerate');
 
 // Convert curated assets to format needed for generation
 const COINS_TO_ANALYZE = CURATED_ASSETS;
 
-/**
- * Fetch OHLCV data - Binance primary, Hyperliquid fallback
- * IMPORTANT: We use Binance first because HL 4h candles have stale close prices
- */
-async function fetchOHLCV(symbol: string): Promise<OHLCV[]> {
-    // Try Binance first (primary) - has more recent candle data
-    try {
-        const binanceData = await fetchBinanceCandles(symbol);
-        if (binanceData.length >= 50) {
-            return binanceData;
-        }
-    } catch {
-        // Binance failed, try Hyperliquid
-    }
-
-    // Fallback to Hyperliquid
-    try {
-        const hlData = await fetchHyperliquidCandles(symbol);
-        if (hlData.length >= 50) {
-            return hlData;
-        }
-    } catch {
-        // Both failed
-    }
-
-    return [];
-}
-
-/**
- * Fetch candles from Binance (fallback)
- */
-async function fetchBinanceCandles(symbol: string): Promise<OHLCV[]> {
-    try {
-        const binanceSymbol = `${symbol.toUpperCase()}USDT`;
-        const url = `https://api.binance.com/api/v3/klines?symbol=${binanceSymbol}&interval=4h&limit=100`;
-        const response = await fetch(url);
-
-        if (!response.ok) return [];
-
-        const klines = await response.json();
-        return klines.map((k: number[]) => ({
-            timestamp: k[0],
-            open: parseFloat(String(k[1])),
-            high: parseFloat(String(k[2])),
-            low: parseFloat(String(k[3])),
-            close: parseFloat(String(k[4])),
-            volume: parseFloat(String(k[5])),
-        }));
-    } catch {
-        return [];
-    }
-}
-
-/**
- * Fetch candles from Hyperliquid
- */
-async function fetchHyperliquidCandles(symbol: string): Promise<OHLCV[]> {
-    try {
-        const endTime = Date.now();
-        const startTime = endTime - (100 * 4 * 60 * 60 * 1000);
-
-        const response = await fetch(HYPERLIQUID_API, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                type: 'candleSnapshot',
-                req: { coin: symbol.toUpperCase(), interval: '4h', startTime, endTime },
-            }),
-        });
-
-        if (!response.ok) return [];
-
-        const candles = await response.json();
-        return candles.map((c: { t: number; o: string; h: string; l: string; c: string; v: string }) => ({
-            timestamp: c.t,
-            open: parseFloat(c.o),
-            high: parseFloat(c.h),
-            low: parseFloat(c.l),
-            close: parseFloat(c.c),
-            volume: parseFloat(c.v),
-        }));
-    } catch {
-        return [];
-    }
-}
-
 /**
  * Fetch Fear & Greed index
  */
@@ -196,11 +133,29 @@ export async function GET(request: NextRequest) {
             });
         }
 
+        // Circuit breaker: a pause skips the whole run
+        const circuitBreaker = await getCircuitBreakerState();
+        if (circuitBreaker?.mode === 'PAUSE') {
+            log.info(`Circuit breaker paused generation: ${circuitBreaker.reasons.join('; ')}`);
+            return NextResponse.json({
+                success: true,
+                message: 'Signal generation paused by the circuit breaker',
+                circuitBreaker: { mode: circuitBreaker.mode, reasons: circuitBreaker.reasons, trippedAt: circuitBreaker.trippedAt },
+                pendingCount: pending.length,
+                duration: Date.now() - startTime,
+            });
+        }
+
         // 3. Get GLOBAL weights (or use defaults)
         const weights = await getGlobalWeights();
+        // Stored weights predating a newly registered indicator fall back to its default, rescaled to 100
         const effectiveWeights = weights
-            ? Object.assign({} as IndicatorWeights, weights)
+            ? normalizeWeights({ ...DEFAULT_WEIGHTS, ...weights } as IndicatorWeights)
             : DEFAULT_WEIGHTS;
+        // Per-regime weight vectors (regimes without one score with the global weights)
+        const regimeWeights = await getRegimeWeights();
+        const riskPolicy = await getRiskPolicy();
+        const regimeAdjustments = await getRegimeAdjustmentTable();
 
         // 4. Fetch Fear & Greed once
         const fearGreed = await fetchFearGreed();
@@ -210,7 +165,7 @@ export async function GET(request: NextRequest) {
         log.debug(`Fetched HL context for ${hlMarketContext?.assets.size || 0} coins`);
 
         // 6. Detect market regime (NEW)
-        const btcOHLCV = await fetchOHLCV('BTC');
+        const btcOHLCV = await getCandles('BTC', '4h', 100);
 
         // Fetch previous market snapshots FIRST — used for both regime detection and signal generation
         const prevSnapshots = await getMarketSnapshots(coinsToGenerate);
@@ -232,7 +187,7 @@ export async function GET(request: NextRequest) {
         // Parallelized for performance — these fetches are independent
         const altcoins = coinsToGenerate.filter(c => c !== 'BTC');
         const altOHLVResults = await Promise.allSettled(
-            altcoins.map(c => fetchOHLCV(c))
+            altcoins.map(c => getCandles(c, '4h', 100))
         );
         const altcoinChanges: number[] = [];
         for (const result of altOHLVResults) {
@@ -254,6 +209,33 @@ export async function GET(request: NextRequest) {
         const regimeAnalysis = detectMarketRegime(regimeContext);
         log.info(`Market regime: ${regimeAnalysis.regime} (${Math.round(regimeAnalysis.confidence * 100)}% confidence)`);
 
+        // Shadow mode: the statistical model classifies alongside, without driving signals
+        const shadowRegime = await classifyShadowRegime();
+        if (shadowRegime) {
+            log.debug(`Shadow regime (${shadowRegime.method}): ${shadowRegime.regime} (${Math.round(shadowRegime.confidence * 100)}%)`);
+        }
+
+        // Persist to the regime time series (debounced — the recorded regime lags one noisy run)
+        const recordedRegime = await recordRegimeObservation(regimeAnalysis, shadowRegime?.regime ?? null);
+        if (recordedRegime && recordedRegime !== regimeAnalysis.regime) {
+            log.debug(`Regime ${regimeAnalysis.regime} not yet confirmed, recorded regime stays ${recordedRegime}`);
+        }
+
+        // The weight set that scores this run — learning attributes outcomes back to it via the snapshot regime
+        const scoringWeights = weightsForRegime(regimeAnalysis.regime, effectiveWeights, regimeWeights);
+        if (regimeWeights[regimeAnalysis.regime]) {
+            log.debug(`Scoring with the ${regimeAnalysis.regime} weight set`);
+        }
+
+        // Relative strength is ranked against the full curated basket, not just the coins being generated
+        const basketResults = await Promise.allSettled(
+            COINS_TO_ANALYZE.map(async coin => ({ coin, data: await getCandles(coin, '4h', 100) }))
+        );
+        const crossAsset = analyzeCrossAsset(
+            basketResults.flatMap(result => result.status === 'fulfilled' ? [result.value] : [])
+        );
+        log.debug(`Cross-asset stats for ${crossAsset.stats.size} coins`);
+
         // 7. Fetch LIVE prices for accurate entry_price (CRITICAL FIX)
         const livePrices = await fetchCurrentPrices();
         log.debug(`Fetched live prices for ${livePrices.size} assets`);
@@ -262,10 +244,18 @@ export async function GET(request: NextRequest) {
         const snapshotsToUpsert: { coin: string; oi: number; vol: number; funding: number; prevAvg: number; prevUpdatedAt: string | null }[] = [];
 
         // 9. Generate signals for missing coins
-        const generated: { coin: string; direction: string; score: number }[] = [];
+        const generated: { coin: string; direction: string; score: number; confluence: string }[] = [];
+        const rejected: RiskRejection[] = [];
+        const confluenceVetoed: { coin: string; direction: string; score: number; reason: string }[] = [];
+        let paperPositionsOpened = 0;
 
         for (const coin of coinsToGenerate) {
-            const ohlcv = await fetchOHLCV(coin);
+            // Multi-timeframe: 4h is traded, 1h and 1d grade it via confluence
+            const [ohlcv1h, ohlcv, ohlcv1d] = await Promise.all([
+                getCandles(coin, '1h', 100),
+                getCandles(coin, '4h', 100),
+                getCandles(coin, '1d', 100),
+            ]);
 
             if (ohlcv.length < 50) {
                 log.debug(`Insufficient data for ${coin}`);
@@ -302,6 +292,7 @@ export async function GET(request: NextRequest) {
                     avgVolume: prevSnapshot?.volume_7d_avg || hlAsset.volume24h,
                     // #4 FIX: Previous funding rate for velocity boost (use ?? to preserve zero)
                     prevFunding: prevSnapshot?.funding_rate ?? undefined,
+                    maxLeverage: hlAsset.maxLeverage,
                 };
 
                 // Queue snapshot upsert (pass snapshot for timestamp check)
@@ -315,10 +306,37 @@ export async function GET(request: NextRequest) {
                 });
             }
 
-            const signal = generateSignal(ohlcv, coin, fearGreed, effectiveWeights, hlContext, '4h', regimeAnalysis.regime);
+            const signal = generateMultiTimeframeSignal(
+                { '1h': ohlcv1h, '4h': ohlcv, '1d': ohlcv1d },
+                coin, fearGreed, effectiveWeights, hlContext, regimeAnalysis.regime,
+                '4h', crossAsset.stats.get(coin.toUpperCase()) ?? null, riskPolicy, regimeAdjustments, regimeWeights
+            );
 
             // Only add if not HOLD
-            if (signal.direction !== 'HOLD') {
+            if (signal && signal.direction !== 'HOLD') {
+                // A throttling circuit breaker rejects the wrong direction or a low score
+                const breakerReason = circuitBreakerBlock(circuitBreaker, signal.direction, signal.score);
+                if (breakerReason) {
+                    log.info(`REJECTED ${coin} ${signal.direction}: ${breakerReason}`);
+                    rejected.push({
+                        coin: signal.coin,
+                        direction: signal.direction,
+                        score: signal.score,
+                        regime: regimeAnalysis.regime,
+                        reason: breakerReason,
+                        at: new Date().toISOString(),
+                    });
+                    continue;
+                }
+
+                // Confluence vetoes a 4h signal the 1h or 1d points against (not a risk-policy rejection)
+                const confluenceReason = confluenceBlock(signal.confluence);
+                if (confluenceReason) {
+                    log.info(`VETOED ${coin} ${signal.direction}: ${confluenceReason}`);
+                    confluenceVetoed.push({ coin: signal.coin, direction: signal.direction, score: signal.score, reason: confluenceReason });
+                    continue;
+                }
+
                 // SAFEGUARD 1: Require live price - NEVER use stale candle data
                 if (!livePrice) {
                     log.info(`BLOCKED ${coin}: No live price available - skipping to prevent stale entry`);
@@ -342,23 +360,37 @@ export async function GET(request: NextRequest) {
 
                 // CRITICAL FIX: Recalculate SL/TP from LIVE price, not stale candle
                 // The generateSignal() used candle close which can be hours old
-                // We use the ATR ratio from the signal to maintain proper risk:reward
-                const atrPercent = signal.indicators?.atr && signal.entryPrice
-                    ? (signal.indicators.atr as number) / signal.entryPrice
-                    : 0.015; // 1.5% default ATR if unavailable
-
-                let liveStopLoss: number;
-                let liveTakeProfit: number;
-
-                if (signal.direction === 'LONG') {
-                    liveStopLoss = livePrice * (1 - (atrPercent * 1.5));
-                    liveTakeProfit = livePrice * (1 + (atrPercent * 3));
-                } else {
-                    // SHORT
-                    liveStopLoss = livePrice * (1 + (atrPercent * 1.5));
-                    liveTakeProfit = livePrice * (1 - (atrPercent * 3));
+                const multipliers = atrMultipliersFor(riskPolicy, regimeAnalysis.regime);
+                const levels = calculateRiskLevels(
+                    ohlcv, signal.direction, multipliers.stopLoss, multipliers.takeProfit, livePrice
+                );
+
+                // SAFEGUARD 3: Live levels must pass the risk policy
+                const riskCheck = validateRiskLevels(levels, riskPolicy);
+                if (!riskCheck.isValid) {
+                    log.info(`REJECTED ${coin} ${signal.direction}: ${riskCheck.reason}`);
+                    rejected.push({
+                        coin: signal.coin,
+                        direction: signal.direction,
+                        score: signal.score,
+                        regime: regimeAnalysis.regime,
+                        reason: riskCheck.reason ?? 'Risk policy',
+                        at: new Date().toISOString(),
+                    });
+                    continue;
                 }
 
+                const liveStopLoss = levels.stopLoss;
+                const liveTakeProfit = levels.takeProfit;
+
+                // Scale-out targets from the same live levels
+                const takeProfitTargets = buildTakeProfitLadder({
+                    direction: signal.direction,
+                    entryPrice: livePrice,
+                    stopLoss: liveStopLoss,
+                    takeProfit: liveTakeProfit,
+                }).map(target => ({ ...target, price: Number(target.price.toFixed(6)) }));
+
                 const added = await addGlobalSignal({
                     coin: signal.coin,
                     direction: signal.direction,
@@ -367,13 +399,21 @@ export async function GET(request: NextRequest) {
                     // CRITICAL: Use live price for entry AND recalculated SL/TP
                     entry_price: livePrice!,
                     stop_loss: Number(liveStopLoss.toFixed(6)),
+                    initial_stop_loss: Number(liveStopLoss.toFixed(6)),
                     take_profit: Number(liveTakeProfit.toFixed(6)),
+                    take_profit_targets: takeProfitTargets,
                     indicator_snapshot: {
                         ...signal.indicators,
+                        timeframe: '4h',    // Traded timeframe — picks the max holding period
                         regime: regimeAnalysis.regime,
                         regimeConfidence: regimeAnalysis.confidence,
+                        ...(shadowRegime && {
+                            shadowRegime: shadowRegime.regime,
+                            shadowRegimeConfidence: shadowRegime.confidence,
+                        }),
+                        ...confluenceSnapshot(signal.confluence),
                     },
-                    weights_used: weightsToRecord(effectiveWeights),
+                    weights_used: weightsToRecord(scoringWeights),
                 });
 
                 if (added) {
@@ -381,12 +421,17 @@ export async function GET(request: NextRequest) {
                         coin: signal.coin,
                         direction: signal.direction,
                         score: signal.score,
+                        confluence: signal.confluence.quality,
                     });
-                    log.debug(`Added ${signal.coin} ${signal.direction}`);
+                    log.debug(`Added ${signal.coin} ${signal.direction} (confluence ${signal.confluence.quality})`);
+
+                    paperPositionsOpened += await openPaperPositionsForSignal(added);
                 }
             }
         }
 
+        await recordRiskRejections(rejected);
+
         // 10. Check if learning should trigger (global)
         const lossStreak = await findUnprocessedLossStreak();
         const consecutiveLosses = lossStreak.count;
@@ -417,7 +462,13 @@ export async function GET(request: NextRequest) {
             pendingBefore: pending.length,
             signalsGenerated: generated.length,
             signals: generated,
+            riskRejections: rejected.length,
+            rejected: rejected.map(({ coin, direction, score, reason }) => ({ coin, direction, score, reason })),
+            confluenceRejections: confluenceVetoed.length,
+            confluenceVetoed,
+            paperPositionsOpened,
             consecutiveLosses,
+            circuitBreaker: circuitBreaker?.mode ?? null,
             duration: Date.now() - startTime,
         });
 
@@ -3,6 +3,10 @@
  * 
  * v4.1: Bidirectional — analyzes GLOBAL signal performance and
  * adjusts shared weights on both consecutive losses AND wins.
+ * Each signal's outcome only adjusts the weight set that scored it: the vector of the
+ * regime in its indicator_snapshot, or the global weights for untagged signals.
+ * Also re-evaluates the drawdown circuit breaker that the generate cron enforces,
+ * and tunes the per-regime scoring adjustments from regime-tagged outcomes.
  * 
  * Called every hour by external cron service.
  */
@@ -14,12 +18,33 @@ import {
     findUnprocessedWinStreak,
     getGlobalWeights,
     updateGlobalWeights,
+    getRegimeWeights,
+    updateRegimeWeights,
     supabaseServer,
     getTrailingWinRate,
     getDirectionalStats,
     getTradesSinceIndicatorLoss,
+    getRecentClosedReturns,
+    getCircuitBreakerConfig,
+    getCircuitBreakerState,
+    saveCircuitBreakerState,
+    getRegimeAdjustmentTable,
+    saveRegimeAdjustments,
+    getRegimeOutcomes,
+    getLastRegimeLearningTimes,
+    recordRegimeLearningCycle,
 } from '@/lib/supabaseServer';
-import { DEFAULT_WEIGHTS, IndicatorWeights, normalizeWeights } from '@/lib/engine/scoring';
+import { DEFAULT_WEIGHTS, IndicatorWeights, RegimeWeightSet, normalizeWeights } from '@/lib/engine/scoring';
+import { INDICATORS } from '@/lib/engine/registry';
+import { nextCircuitBreakerState, rollingDrawdownPct } from '@/lib/engine/circuitBreaker';
+import { DEFAULT_REGIME_ADJUSTMENTS, MarketRegime } from '@/lib/engine/regime';
+import {
+    tuneRegimeAdjustments,
+    recoverRegimeAdjustments,
+    applyRegimeChanges,
+    RegimeAdjustmentChange,
+    RegimeTuning,
+} from '@/lib/engine/regimeLearning';
 
 const log = logger.withContext('CronLearn');
 
@@ -52,36 +77,77 @@ const LEARNING_CONFIG = {
     // Phase 4: Proactive detection
     proactiveWinRateThreshold: 50, // Trigger warning if trailing win rate drops below this
     proactiveWindowSize: 10,      // Window size for trailing win rate calculation
+    minSetSignals: 3,             // Signals a weight set needs in the analyzed batch before it is adjusted
 };
 
 // ============================================================================
-// GLOBAL LEARNING FUNCTIONS
+// WEIGHT SETS
 // ============================================================================
 
+type Snapshot = Record<string, unknown> | null;
+
 /**
- * F4 FIX: Shared indicator-to-weight mapping used by both loss and win analysis.
- * Extracted to module level to prevent asymmetry if a new indicator is added to one side.
+ * Group signals by the weight set that scored them: the regime in their snapshot,
+ * or the global weights (null) for signals generated before regime tagging
  */
-const INDICATOR_TO_WEIGHT: Record<string, keyof IndicatorWeights> = {
-    rsi: 'rsi',
-    stochRSI: 'stochRSI',
-    macd: 'macd',
-    williamsR: 'williamsR',
-    cci: 'cci',
-    emaAlignment: 'emaAlignment',
-    ichimoku: 'ichimoku',
-    adx: 'adx',
-    bollinger: 'bollinger',
-    obvTrend: 'obvTrend',
-    volumeRatio: 'volumeRatio',
-    zScore: 'zScore',
-    // v4.1: HL-native indicators (24pts total)
-    fearGreed: 'fearGreed',
-    fundingRate: 'fundingRate',
-    oiChange: 'oiChange',
-    basisPremium: 'basisPremium',
-    hlVolume: 'hlVolume',
-};
+function groupByWeightSet<T extends { indicator_snapshot: Record<string, number> }>(
+    signals: T[]
+): Map<MarketRegime | null, T[]> {
+    const groups = new Map<MarketRegime | null, T[]>();
+    for (const signal of signals) {
+        const regime = ((signal.indicator_snapshot as Snapshot)?.regime as MarketRegime | undefined) ?? null;
+        groups.set(regime, [...(groups.get(regime) ?? []), signal]);
+    }
+    return groups;
+}
+
+/**
+ * Current weights of a set. A regime without its own vector starts from the global weights.
+ */
+function weightSetFor(
+    regime: MarketRegime | null,
+    regimeWeights: RegimeWeightSet,
+    globalWeights: Record<string, number> | null
+): IndicatorWeights {
+    const stored = (regime && regimeWeights[regime]) || globalWeights;
+    return stored ? { ...DEFAULT_WEIGHTS, ...stored } as IndicatorWeights : { ...DEFAULT_WEIGHTS };
+}
+
+/**
+ * Store a set's weights: its regime vector, or the global weights
+ */
+async function saveWeightSet(regime: MarketRegime | null, weights: IndicatorWeights): Promise<boolean> {
+    return regime ? updateRegimeWeights(regime, weights) : updateGlobalWeights(weights);
+}
+
+/**
+ * Mark a streak as processed when no weight set had enough of its signals to adjust.
+ * The streak finders use the latest learning_cycles row as their cutoff, so without
+ * it the same streak would trigger again on every run.
+ */
+async function recordProcessedStreak(
+    triggeredBy: 'consecutive_losses' | 'consecutive_wins',
+    signalsAnalyzed: number,
+    consecutiveLosses: number,
+    globalWeights: IndicatorWeights,
+    createdAt: string
+): Promise<void> {
+    const { error } = await supabaseServer.from('learning_cycles').insert({
+        user_id: null,
+        triggered_by: triggeredBy,
+        signals_analyzed: signalsAnalyzed,
+        adjustments: [],
+        consecutive_losses: consecutiveLosses,
+        weights_snapshot: globalWeights, // Unchanged, so a restore to this event is a no-op
+        regime: null,
+        created_at: createdAt,
+    });
+    if (error) log.error('Failed to record processed streak', error);
+}
+
+// ============================================================================
+// GLOBAL LEARNING FUNCTIONS
+// ============================================================================
 
 /**
  * Get recent losing signals (global)
@@ -110,94 +176,17 @@ function analyzeLosingSignals(
 ): Map<keyof IndicatorWeights, { wrongCount: number; avgConfidence: number }> {
     const indicatorStats = new Map<keyof IndicatorWeights, { wrongCount: number; totalConfidence: number }>();
 
-    // F4 FIX: Uses shared INDICATOR_TO_WEIGHT instead of local duplicate
-
+    // Attribution rules come from the indicator registry (same list scoring uses)
     for (const signal of losingSignals) {
         const direction = signal.direction;
         const indicators = signal.indicator_snapshot || {};
 
-        for (const [name, weightKey] of Object.entries(INDICATOR_TO_WEIGHT)) {
-            const value = indicators[name];
-            if (value === undefined) continue;
-
-            let wasWronglyConfident = false;
-
-            // RSI analysis
-            if (name === 'rsi') {
-                if (direction === 'LONG' && value < 40) wasWronglyConfident = true;
-                if (direction === 'SHORT' && value > 60) wasWronglyConfident = true;
-            }
-
-            // MACD analysis
-            if (name === 'macd') {
-                if (direction === 'LONG' && value > 0) wasWronglyConfident = true;
-                if (direction === 'SHORT' && value < 0) wasWronglyConfident = true;
-            }
+        for (const def of INDICATORS) {
+            const weightKey = def.id;
+            const value = indicators[def.id];
+            if (value === undefined || !def.learning) continue;
 
-            // EMA Alignment analysis
-            if (name === 'emaAlignment') {
-                if (direction === 'LONG' && value > 50) wasWronglyConfident = true;
-                if (direction === 'SHORT' && value < 50) wasWronglyConfident = true;
-            }
-
-            // Ichimoku analysis
-            if (name === 'ichimoku') {
-                if (direction === 'LONG' && value > 0) wasWronglyConfident = true;
-                if (direction === 'SHORT' && value < 0) wasWronglyConfident = true;
-            }
-
-            // ADX analysis - FIXED: Only penalize if ADX direction matched signal direction
-            // ADX > 25 just means strong trend, we need to check if plusDI > minusDI (bullish) or not
-            if (name === 'adx' && value > 25) {
-                const plusDI = indicators['plusDI'];
-                const minusDI = indicators['minusDI'];
-                if (plusDI !== undefined && minusDI !== undefined) {
-                    const adxDirection = plusDI > minusDI ? 'LONG' : 'SHORT';
-                    // Only penalize if ADX was pointing in our direction but we still lost
-                    if (adxDirection === direction) {
-                        wasWronglyConfident = true;
-                    }
-                }
-                // If plusDI/minusDI not available (legacy signals), don't penalize
-            }
-
-            // Volume indicators
-            if (name === 'obvTrend' || name === 'volumeRatio') {
-                if (direction === 'LONG' && value > 1) wasWronglyConfident = true;
-                if (direction === 'SHORT' && value < 1) wasWronglyConfident = true;
-            }
-
-            // Fear & Greed: high greed on LONG that lost = wrongly confident
-            if (name === 'fearGreed') {
-                if (direction === 'LONG' && value > 60) wasWronglyConfident = true;  // Greedy LONG lost
-                if (direction === 'SHORT' && value < 40) wasWronglyConfident = true; // Fearful SHORT lost
-            }
-
-            // Funding Rate (contrarian): positive value = crowded longs = bearish signal
-            if (name === 'fundingRate') {
-                // If LONG lost and funding was negative (bearish crowd = bullish signal), funding was wrong
-                if (direction === 'LONG' && value < 0) wasWronglyConfident = true;
-                // If SHORT lost and funding was positive (bullish crowd = bearish signal), funding was wrong
-                if (direction === 'SHORT' && value > 0) wasWronglyConfident = true;
-            }
-
-            // OI Change: positive = bullish signal
-            if (name === 'oiChange') {
-                if (direction === 'LONG' && value > 0) wasWronglyConfident = true;
-                if (direction === 'SHORT' && value < 0) wasWronglyConfident = true;
-            }
-
-            // Basis Premium (contrarian): positive premium = crowded longs = bearish
-            if (name === 'basisPremium') {
-                if (direction === 'LONG' && value < 0) wasWronglyConfident = true;  // Negative premium = bullish signal, but LONG lost
-                if (direction === 'SHORT' && value > 0) wasWronglyConfident = true; // Positive premium = bearish signal, but SHORT lost
-            }
-
-            // HL Volume: ratio > 1.5 with price move = conviction signal
-            if (name === 'hlVolume') {
-                if (direction === 'LONG' && value > 1.5) wasWronglyConfident = true;  // Volume confirmed but LONG lost
-                if (direction === 'SHORT' && value > 1.5) wasWronglyConfident = true; // Volume confirmed but SHORT lost
-            }
+            const wasWronglyConfident = def.learning.wrongOnLoss(direction, value, indicators);
 
             if (wasWronglyConfident) {
                 const existing = indicatorStats.get(weightKey) || { wrongCount: 0, totalConfidence: 0 };
@@ -221,11 +210,13 @@ function analyzeLosingSignals(
 
 /**
  * Run GLOBAL learning cycle
+ * The streak is global; each weight set learns only from the losses it scored.
  */
 async function runGlobalLearningCycle(): Promise<{
     triggered: boolean;
     consecutiveLosses: number;
     adjustments: WeightAdjustment[];
+    weightSets: string[];
 }> {
     const lossStreak = await findUnprocessedLossStreak();
     const consecutiveLosses = lossStreak.count;
@@ -236,83 +227,99 @@ async function runGlobalLearningCycle(): Promise<{
     });
 
     if (consecutiveLosses < LEARNING_CONFIG.consecutiveLossThreshold) {
-        return { triggered: false, consecutiveLosses, adjustments: [] };
+        return { triggered: false, consecutiveLosses, adjustments: [], weightSets: [] };
     }
 
 
     const losingSignals = await getRecentLosingSignals(20);
 
     if (losingSignals.length === 0) {
-        return { triggered: false, consecutiveLosses, adjustments: [] };
+        return { triggered: false, consecutiveLosses, adjustments: [], weightSets: [] };
     }
 
-    const indicatorAnalysis = analyzeLosingSignals(losingSignals);
-
-    // Get current global weights or defaults
+    // Get current global and per-regime weights
     const storedWeights = await getGlobalWeights();
-    const currentWeights: IndicatorWeights = storedWeights
-        ? { ...DEFAULT_WEIGHTS, ...storedWeights } as IndicatorWeights
-        : { ...DEFAULT_WEIGHTS };
-
-    const adjustments: WeightAdjustment[] = [];
-
-    for (const [indicator, stats] of indicatorAnalysis.entries()) {
-        const wrongRatio = stats.wrongCount / losingSignals.length;
-
-        if (wrongRatio >= 0.5) {
-            const reduction = Math.min(
-                LEARNING_CONFIG.maxWeightChange,
-                wrongRatio * LEARNING_CONFIG.maxWeightChange
-            );
-
-            const oldWeight = currentWeights[indicator];
-            const newWeight = Math.max(
-                LEARNING_CONFIG.minWeight,
-                oldWeight * (1 - reduction / 100)
-            );
-
-            if (Math.abs(newWeight - oldWeight) > 0.01) {
-                currentWeights[indicator] = newWeight;
-
-                adjustments.push({
-                    indicator,
-                    oldWeight: Math.round(oldWeight * 100) / 100,
-                    newWeight: Math.round(newWeight * 100) / 100,
-                    changePercent: Math.round(((newWeight - oldWeight) / oldWeight) * 10000) / 100,
-                    reason: `Wrong in ${Math.round(wrongRatio * 100)}% of ${losingSignals.length} losses`,
-                });
+    const regimeWeights = await getRegimeWeights();
+
+    // Calculate the learning event timestamp: 100ms after the 3rd loss
+    const learningEventTime = lossStreak.streakEndTime
+        ? new Date(new Date(lossStreak.streakEndTime).getTime() + 100).toISOString()
+        : new Date().toISOString();
+
+    const allAdjustments: WeightAdjustment[] = [];
+    const weightSets: string[] = [];
+
+    for (const [regime, setSignals] of groupByWeightSet(losingSignals)) {
+        if (setSignals.length < LEARNING_CONFIG.minSetSignals) continue;
+
+        const indicatorAnalysis = analyzeLosingSignals(setSignals);
+        const currentWeights = weightSetFor(regime, regimeWeights, storedWeights);
+        const adjustments: WeightAdjustment[] = [];
+
+        for (const [indicator, stats] of indicatorAnalysis.entries()) {
+            const wrongRatio = stats.wrongCount / setSignals.length;
+
+            if (wrongRatio >= 0.5) {
+                const reduction = Math.min(
+                    LEARNING_CONFIG.maxWeightChange,
+                    wrongRatio * LEARNING_CONFIG.maxWeightChange
+                );
+
+                const oldWeight = currentWeights[indicator];
+                const newWeight = Math.max(
+                    LEARNING_CONFIG.minWeight,
+                    oldWeight * (1 - reduction / 100)
+                );
+
+                if (Math.abs(newWeight - oldWeight) > 0.01) {
+                    currentWeights[indicator] = newWeight;
+
+                    adjustments.push({
+                        indicator,
+                        oldWeight: Math.round(oldWeight * 100) / 100,
+                        newWeight: Math.round(newWeight * 100) / 100,
+                        changePercent: Math.round(((newWeight - oldWeight) / oldWeight) * 10000) / 100,
+                        reason: `Wrong in ${Math.round(wrongRatio * 100)}% of ${setSignals.length} ${regime ?? 'untagged'} losses`,
+                    });
+                }
             }
         }
+
+        if (adjustments.length > 0) {
+            // #9 FIX: Renormalize to maintain 100-point total
+            const normalizedWeights = normalizeWeights(currentWeights);
+            Object.assign(currentWeights, normalizedWeights);
+            await saveWeightSet(regime, currentWeights);
+
+            // Record learning cycle (global, no user_id) for the weight set it adjusted
+            await supabaseServer.from('learning_cycles').insert({
+                user_id: null, // Global learning
+                triggered_by: 'consecutive_losses',
+                signals_analyzed: setSignals.length,
+                adjustments,
+                consecutive_losses: consecutiveLosses,
+                weights_snapshot: currentWeights, // Store weights after this event for fast restore
+                regime,
+                created_at: learningEventTime, // Position at streak occurrence, not now
+            });
+
+            allAdjustments.push(...adjustments);
+            weightSets.push(regime ?? 'GLOBAL');
+        }
     }
 
-    if (adjustments.length > 0) {
-        // Update global weights
-        // #9 FIX: Renormalize to maintain 100-point total
-        const normalizedWeights = normalizeWeights(currentWeights);
-        Object.assign(currentWeights, normalizedWeights);
-        await updateGlobalWeights(currentWeights);
-
-        // Calculate the learning event timestamp: 100ms after the 3rd loss
-        const learningEventTime = lossStreak.streakEndTime
-            ? new Date(new Date(lossStreak.streakEndTime).getTime() + 100).toISOString()
-            : new Date().toISOString();
-
-        // Record learning cycle (global, no user_id)
-        await supabaseServer.from('learning_cycles').insert({
-            user_id: null, // Global learning
-            triggered_by: 'consecutive_losses',
-            signals_analyzed: losingSignals.length,
-            adjustments,
-            consecutive_losses: consecutiveLosses,
-            weights_snapshot: currentWeights, // Store weights after this event for fast restore
-            created_at: learningEventTime, // Position at streak occurrence, not now
-        });
+    if (weightSets.length === 0) {
+        await recordProcessedStreak(
+            'consecutive_losses', losingSignals.length, consecutiveLosses,
+            weightSetFor(null, regimeWeights, storedWeights), learningEventTime
+        );
     }
 
     return {
         triggered: true,
         consecutiveLosses,
-        adjustments,
+        adjustments: allAdjustments,
+        weightSets,
     };
 }
 
@@ -348,93 +355,23 @@ function analyzeWinningSignals(
 ): Map<keyof IndicatorWeights, { correctCount: number; avgConfidence: number }> {
     const indicatorStats = new Map<keyof IndicatorWeights, { correctCount: number; totalConfidence: number }>();
 
-    // F4 FIX: Uses shared INDICATOR_TO_WEIGHT instead of local duplicate
-
+    // Attribution rules come from the indicator registry (same list scoring uses)
     for (const signal of winningSignals) {
         const direction = signal.direction;
         const indicators = signal.indicator_snapshot || {};
 
-        for (const [name, weightKey] of Object.entries(INDICATOR_TO_WEIGHT)) {
-            const value = indicators[name];
-            if (value === undefined) continue;
-
-            let wasCorrectlyConfident = false;
-
-            // RSI: correctly signaled direction
-            if (name === 'rsi') {
-                if (direction === 'LONG' && value > 50) wasCorrectlyConfident = true;
-                if (direction === 'SHORT' && value < 50) wasCorrectlyConfident = true;
-            }
-
-            // MACD: histogram aligned with direction
-            if (name === 'macd') {
-                if (direction === 'LONG' && value > 0) wasCorrectlyConfident = true;
-                if (direction === 'SHORT' && value < 0) wasCorrectlyConfident = true;
-            }
-
-            // EMA Alignment
-            if (name === 'emaAlignment') {
-                if (direction === 'LONG' && value > 50) wasCorrectlyConfident = true;
-                if (direction === 'SHORT' && value < 50) wasCorrectlyConfident = true;
-            }
-
-            // Ichimoku
-            if (name === 'ichimoku') {
-                if (direction === 'LONG' && value > 0) wasCorrectlyConfident = true;
-                if (direction === 'SHORT' && value < 0) wasCorrectlyConfident = true;
-            }
-
-            // ADX: direction aligned
-            if (name === 'adx' && value > 25) {
-                const plusDI = indicators['plusDI'];
-                const minusDI = indicators['minusDI'];
-                if (plusDI !== undefined && minusDI !== undefined) {
-                    const adxDirection = plusDI > minusDI ? 'LONG' : 'SHORT';
-                    if (adxDirection === direction) wasCorrectlyConfident = true;
-                }
-            }
-
-            // Volume
-            if (name === 'obvTrend' || name === 'volumeRatio') {
-                if (direction === 'LONG' && value > 1) wasCorrectlyConfident = true;
-                if (direction === 'SHORT' && value < 1) wasCorrectlyConfident = true;
-            }
-
-            // Fear & Greed: greedy on winning LONG = correctly confident
-            if (name === 'fearGreed') {
-                if (direction === 'LONG' && value > 60) wasCorrectlyConfident = true;
-                if (direction === 'SHORT' && value < 40) wasCorrectlyConfident = true;
-            }
-
-            // Funding Rate (contrarian)
-            if (name === 'fundingRate') {
-                if (direction === 'LONG' && value < 0) wasCorrectlyConfident = true;
-                if (direction === 'SHORT' && value > 0) wasCorrectlyConfident = true;
-            }
-
-            // OI Change
-            if (name === 'oiChange') {
-                if (direction === 'LONG' && value > 0) wasCorrectlyConfident = true;
-                if (direction === 'SHORT' && value < 0) wasCorrectlyConfident = true;
-            }
+        for (const def of INDICATORS) {
+            const weightKey = def.id;
+            const value = indicators[def.id];
+            if (value === undefined || !def.learning) continue;
 
-            // Basis Premium (contrarian)
-            if (name === 'basisPremium') {
-                if (direction === 'LONG' && value < 0) wasCorrectlyConfident = true;
-                if (direction === 'SHORT' && value > 0) wasCorrectlyConfident = true;
-            }
-
-            // HL Volume
-            if (name === 'hlVolume') {
-                if (direction === 'LONG' && value > 1.5) wasCorrectlyConfident = true;
-                if (direction === 'SHORT' && value > 1.5) wasCorrectlyConfident = true;
-            }
+            const wasCorrectlyConfident = def.learning.rightOnWin(direction, value, indicators);
 
             if (wasCorrectlyConfident) {
-                const existing = indicatorStats.get(weightKey as keyof IndicatorWeights) || { correctCount: 0, totalConfidence: 0 };
+                const existing = indicatorStats.get(weightKey) || { correctCount: 0, totalConfidence: 0 };
                 existing.correctCount++;
                 existing.totalConfidence += Math.abs(value);
-                indicatorStats.set(weightKey as keyof IndicatorWeights, existing);
+                indicatorStats.set(weightKey, existing);
             }
         }
     }
@@ -452,12 +389,14 @@ function analyzeWinningSignals(
 
 /**
  * v4.1: Run GLOBAL win-boost cycle
- * Inverse of loss learning — boosts indicators that consistently predicted correctly.
+ * Inverse of loss learning — boosts indicators that consistently predicted correctly,
+ * in the weight set that scored the wins.
  */
 async function runGlobalWinBoostCycle(): Promise<{
     triggered: boolean;
     consecutiveWins: number;
     adjustments: WeightAdjustment[];
+    weightSets: string[];
 }> {
     const winStreak = await findUnprocessedWinStreak();
     const consecutiveWins = winStreak.count;
@@ -468,132 +407,206 @@ async function runGlobalWinBoostCycle(): Promise<{
     });
 
     if (consecutiveWins < LEARNING_CONFIG.consecutiveWinThreshold) {
-        return { triggered: false, consecutiveWins, adjustments: [] };
+        return { triggered: false, consecutiveWins, adjustments: [], weightSets: [] };
     }
 
     const winningSignals = await getRecentWinningSignals(20);
 
     if (winningSignals.length === 0) {
-        return { triggered: false, consecutiveWins, adjustments: [] };
+        return { triggered: false, consecutiveWins, adjustments: [], weightSets: [] };
     }
 
-    const indicatorAnalysis = analyzeWinningSignals(winningSignals);
-
     const storedWeights = await getGlobalWeights();
-    const currentWeights: IndicatorWeights = storedWeights
-        ? { ...DEFAULT_WEIGHTS, ...storedWeights } as IndicatorWeights
-        : { ...DEFAULT_WEIGHTS };
-
-    const adjustments: WeightAdjustment[] = [];
-
-    for (const [indicator, stats] of indicatorAnalysis.entries()) {
-        const correctRatio = stats.correctCount / winningSignals.length;
-
-        if (correctRatio >= 0.6) { // 60%+ correct across wins
-            const boost = Math.min(
-                LEARNING_CONFIG.maxWinBoost,
-                correctRatio * LEARNING_CONFIG.maxWinBoost
-            );
-
-            const oldWeight = currentWeights[indicator];
-            const newWeight = Math.min(
-                LEARNING_CONFIG.maxWeight,
-                oldWeight * (1 + boost / 100)
-            );
-
-            if (Math.abs(newWeight - oldWeight) > 0.01) {
-                currentWeights[indicator] = newWeight;
-
-                adjustments.push({
-                    indicator,
-                    oldWeight: Math.round(oldWeight * 100) / 100,
-                    newWeight: Math.round(newWeight * 100) / 100,
-                    changePercent: Math.round(((newWeight - oldWeight) / oldWeight) * 10000) / 100,
-                    reason: `Correct in ${Math.round(correctRatio * 100)}% of ${winningSignals.length} wins`,
-                });
+    const regimeWeights = await getRegimeWeights();
+
+    const boostEventTime = winStreak.streakEndTime
+        ? new Date(new Date(winStreak.streakEndTime).getTime() + 100).toISOString()
+        : new Date().toISOString();
+
+    const allAdjustments: WeightAdjustment[] = [];
+    const weightSets: string[] = [];
+
+    for (const [regime, setSignals] of groupByWeightSet(winningSignals)) {
+        if (setSignals.length < LEARNING_CONFIG.minSetSignals) continue;
+
+        const indicatorAnalysis = analyzeWinningSignals(setSignals);
+        const currentWeights = weightSetFor(regime, regimeWeights, storedWeights);
+        const adjustments: WeightAdjustment[] = [];
+
+        for (const [indicator, stats] of indicatorAnalysis.entries()) {
+            const correctRatio = stats.correctCount / setSignals.length;
+
+            if (correctRatio >= 0.6) { // 60%+ correct across wins
+                const boost = Math.min(
+                    LEARNING_CONFIG.maxWinBoost,
+                    correctRatio * LEARNING_CONFIG.maxWinBoost
+                );
+
+                const oldWeight = currentWeights[indicator];
+                const newWeight = Math.min(
+                    LEARNING_CONFIG.maxWeight,
+                    oldWeight * (1 + boost / 100)
+                );
+
+                if (Math.abs(newWeight - oldWeight) > 0.01) {
+                    currentWeights[indicator] = newWeight;
+
+                    adjustments.push({
+                        indicator,
+                        oldWeight: Math.round(oldWeight * 100) / 100,
+                        newWeight: Math.round(newWeight * 100) / 100,
+                        changePercent: Math.round(((newWeight - oldWeight) / oldWeight) * 10000) / 100,
+                        reason: `Correct in ${Math.round(correctRatio * 100)}% of ${setSignals.length} ${regime ?? 'untagged'} wins`,
+                    });
+                }
             }
         }
+
+        if (adjustments.length > 0) {
+            // #9 FIX: Renormalize to maintain 100-point total
+            const normalizedWeights = normalizeWeights(currentWeights);
+            Object.assign(currentWeights, normalizedWeights);
+            await saveWeightSet(regime, currentWeights);
+
+            await supabaseServer.from('learning_cycles').insert({
+                user_id: null,
+                triggered_by: 'consecutive_wins',
+                signals_analyzed: setSignals.length,
+                adjustments,
+                consecutive_losses: 0, // It's a win streak, not a loss
+                weights_snapshot: currentWeights,
+                regime,
+                created_at: boostEventTime,
+            });
+
+            allAdjustments.push(...adjustments);
+            weightSets.push(regime ?? 'GLOBAL');
+        }
     }
 
-    if (adjustments.length > 0) {
-        // #9 FIX: Renormalize to maintain 100-point total
-        const normalizedWeights = normalizeWeights(currentWeights);
-        Object.assign(currentWeights, normalizedWeights);
-        await updateGlobalWeights(currentWeights);
-
-        const boostEventTime = winStreak.streakEndTime
-            ? new Date(new Date(winStreak.streakEndTime).getTime() + 100).toISOString()
-            : new Date().toISOString();
-
-        await supabaseServer.from('learning_cycles').insert({
-            user_id: null,
-            triggered_by: 'consecutive_wins',
-            signals_analyzed: winningSignals.length,
-            adjustments,
-            consecutive_losses: 0, // It's a win streak, not a loss
-            weights_snapshot: currentWeights,
-            created_at: boostEventTime,
-        });
+    if (weightSets.length === 0) {
+        await recordProcessedStreak(
+            'consecutive_wins', winningSignals.length, 0,
+            weightSetFor(null, regimeWeights, storedWeights), boostEventTime
+        );
     }
 
     return {
         triggered: true,
         consecutiveWins,
-        adjustments,
+        adjustments: allAdjustments,
+        weightSets,
     };
 }
 
 /**
  * Check for weights that should be recovered toward defaults
  * Weights recover if the indicator hasn't appeared in a loss for N trades
+ * (a regime's weight set only counts trades generated in that regime)
  */
 async function checkWeightRecovery(): Promise<WeightAdjustment[]> {
     const storedWeights = await getGlobalWeights();
-    if (!storedWeights) return [];
+    const regimeWeights = await getRegimeWeights();
 
-    const currentWeights = { ...DEFAULT_WEIGHTS, ...storedWeights } as IndicatorWeights;
+    const sets: [MarketRegime | null, Record<string, number>][] = [
+        ...(storedWeights ? [[null, storedWeights] as [null, Record<string, number>]] : []),
+        ...(Object.entries(regimeWeights) as [MarketRegime, IndicatorWeights][]),
+    ];
     const recoveryAdjustments: WeightAdjustment[] = [];
 
-    // Check each indicator that's below its default weight
-    for (const [indicator, defaultWeight] of Object.entries(DEFAULT_WEIGHTS) as [keyof IndicatorWeights, number][]) {
-        const currentWeight = currentWeights[indicator];
-
-        // Only recover if weight is below default (it was penalized)
-        if (currentWeight < defaultWeight) {
-            const tradesSinceLoss = await getTradesSinceIndicatorLoss(indicator);
-
-            if (tradesSinceLoss >= LEARNING_CONFIG.recoveryThreshold) {
-                // Calculate recovery amount (5% of the difference back toward default)
-                const difference = defaultWeight - currentWeight;
-                const recoveryAmount = difference * LEARNING_CONFIG.recoveryRate;
-                const newWeight = Math.min(defaultWeight, currentWeight + recoveryAmount);
-
-                if (Math.abs(newWeight - currentWeight) > 0.01) {
-                    currentWeights[indicator] = newWeight;
-
-                    recoveryAdjustments.push({
-                        indicator,
-                        oldWeight: Math.round(currentWeight * 100) / 100,
-                        newWeight: Math.round(newWeight * 100) / 100,
-                        changePercent: Math.round(((newWeight - currentWeight) / currentWeight) * 10000) / 100,
-                        reason: `Recovered: ${tradesSinceLoss} trades since last loss`,
-                    });
+    for (const [regime, stored] of sets) {
+        const currentWeights = { ...DEFAULT_WEIGHTS, ...stored } as IndicatorWeights;
+        const setAdjustments: WeightAdjustment[] = [];
+
+        // Check each indicator that's below its default weight
+        for (const [indicator, defaultWeight] of Object.entries(DEFAULT_WEIGHTS) as [keyof IndicatorWeights, number][]) {
+            const currentWeight = currentWeights[indicator];
+
+            // Only recover if weight is below default (it was penalized)
+            if (currentWeight < defaultWeight) {
+                const tradesSinceLoss = await getTradesSinceIndicatorLoss(indicator, 50, regime);
+
+                if (tradesSinceLoss >= LEARNING_CONFIG.recoveryThreshold) {
+                    // Calculate recovery amount (5% of the difference back toward default)
+                    const difference = defaultWeight - currentWeight;
+                    const recoveryAmount = difference * LEARNING_CONFIG.recoveryRate;
+                    const newWeight = Math.min(defaultWeight, currentWeight + recoveryAmount);
+
+                    if (Math.abs(newWeight - currentWeight) > 0.01) {
+                        currentWeights[indicator] = newWeight;
+
+                        setAdjustments.push({
+                            indicator,
+                            oldWeight: Math.round(currentWeight * 100) / 100,
+                            newWeight: Math.round(newWeight * 100) / 100,
+                            changePercent: Math.round(((newWeight - currentWeight) / currentWeight) * 10000) / 100,
+                            reason: `Recovered: ${tradesSinceLoss}${regime ? ` ${regime}` : ''} trades since last loss`,
+                        });
+                    }
                 }
             }
         }
+
+        if (setAdjustments.length > 0) {
+            // #9 FIX: Renormalize to maintain 100-point total
+            const normalizedWeights = normalizeWeights(currentWeights);
+            Object.assign(currentWeights, normalizedWeights);
+            await saveWeightSet(regime, currentWeights);
+            recoveryAdjustments.push(...setAdjustments);
+        }
     }
 
     if (recoveryAdjustments.length > 0) {
-        // #9 FIX: Renormalize to maintain 100-point total
-        const normalizedWeights = normalizeWeights(currentWeights);
-        Object.assign(currentWeights, normalizedWeights);
-        await updateGlobalWeights(currentWeights);
         log.info(`Weight recovery: ${recoveryAdjustments.length} indicators recovered`);
     }
 
     return recoveryAdjustments;
 }
 
+// ============================================================================
+// REGIME ADJUSTMENT LEARNING
+// ============================================================================
+
+/**
+ * Tune each regime's adjustments from its outcomes since its last tuning.
+ * A regime with nothing to tune recovers toward its defaults instead (not recorded, like weight recovery).
+ */
+async function runRegimeLearningCycle(): Promise<{
+    tuned: RegimeTuning[];
+    recovered: { regime: MarketRegime; changes: RegimeAdjustmentChange[] }[];
+}> {
+    const table = await getRegimeAdjustmentTable();
+    const outcomes = await getRegimeOutcomes();
+    const lastTuned = await getLastRegimeLearningTimes();
+
+    const tuned: RegimeTuning[] = [];
+    const recovered: { regime: MarketRegime; changes: RegimeAdjustmentChange[] }[] = [];
+
+    for (const regime of Object.keys(DEFAULT_REGIME_ADJUSTMENTS) as MarketRegime[]) {
+        const since = lastTuned.get(regime);
+        const fresh = outcomes.filter(o =>
+            o.regime === regime && (!since || new Date(o.closedAt) > new Date(since))
+        );
+
+        const tuning = tuneRegimeAdjustments(regime, table[regime], fresh);
+
+        if (tuning.changes.length > 0) {
+            await saveRegimeAdjustments(regime, tuning.adjustments);
+            await recordRegimeLearningCycle(tuning);
+            tuned.push(tuning);
+            continue;
+        }
+
+        const changes = recoverRegimeAdjustments(regime, table[regime], fresh.length);
+        if (changes.length > 0) {
+            await saveRegimeAdjustments(regime, applyRegimeChanges(table[regime], changes));
+            recovered.push({ regime, changes });
+        }
+    }
+
+    return { tuned, recovered };
+}
+
 // ============================================================================
 // API HANDLER
 // ============================================================================
@@ -624,11 +637,30 @@ export async function GET(request: NextRequest) {
             log.info(`Proactive warning: Win rate dropped to ${trailingStats.winRate.toFixed(1)}% (${trailingStats.wins}W/${trailingStats.losses}L)`);
         }
 
+        // Circuit breaker: evaluated before the streaks below are marked as learned
+        const breakerConfig = await getCircuitBreakerConfig();
+        const recentReturns = await getRecentClosedReturns(breakerConfig.drawdownWindow);
+        const lossStreak = await findUnprocessedLossStreak();
+        const breakerState = nextCircuitBreakerState(await getCircuitBreakerState(), {
+            drawdownPct: rollingDrawdownPct(recentReturns.returns),
+            lossStreak: lossStreak.count,
+            trailingWinRate: trailingStats.winRate,
+            trailingTrades: trailingStats.total,
+            long: directionalStats.long,
+            short: directionalStats.short,
+            lastClosedAt: recentReturns.lastClosedAt,
+        }, breakerConfig);
+        await saveCircuitBreakerState(breakerState);
+
+        if (breakerState.mode) {
+            log.info(`Circuit breaker ${breakerState.mode}: ${breakerState.reasons.join('; ')}`);
+        }
+
         // Phase 4: Check for weight recovery opportunities
         const recoveryAdjustments = await checkWeightRecovery();
 
         // Loop to process ALL unprocessed loss streaks in one run
-        const allResults: { consecutiveLosses: number; adjustments: WeightAdjustment[] }[] = [];
+        const allResults: { consecutiveLosses: number; adjustments: WeightAdjustment[]; weightSets: string[] }[] = [];
         let totalAdjustments = 0;
         const MAX_ITERATIONS = 10; // Safety limit
 
@@ -643,13 +675,14 @@ export async function GET(request: NextRequest) {
             allResults.push({
                 consecutiveLosses: result.consecutiveLosses,
                 adjustments: result.adjustments,
+                weightSets: result.weightSets,
             });
             totalAdjustments += result.adjustments.length;
             log.debug(`Loss iteration ${i + 1}: Processed streak of ${result.consecutiveLosses} with ${result.adjustments.length} adjustments`);
         }
 
         // v4.1: Process ALL unprocessed win streaks
-        const winResults: { consecutiveWins: number; adjustments: WeightAdjustment[] }[] = [];
+        const winResults: { consecutiveWins: number; adjustments: WeightAdjustment[]; weightSets: string[] }[] = [];
         let totalWinBoosts = 0;
 
         for (let i = 0; i < MAX_ITERATIONS; i++) {
@@ -663,11 +696,18 @@ export async function GET(request: NextRequest) {
             winResults.push({
                 consecutiveWins: result.consecutiveWins,
                 adjustments: result.adjustments,
+                weightSets: result.weightSets,
             });
             totalWinBoosts += result.adjustments.length;
             log.debug(`Win iteration ${i + 1}: Boosted ${result.adjustments.length} indicators from ${result.consecutiveWins} win streak`);
         }
 
+        // Per-regime adjustments, tuned from outcomes tagged with their regime
+        const regimeLearning = await runRegimeLearningCycle();
+        for (const tuning of regimeLearning.tuned) {
+            log.info(`Regime ${tuning.regime} tuned: ${tuning.changes.map(c => `${c.field} ${c.oldValue} → ${c.newValue}`).join(', ')}`);
+        }
+
         // Build comprehensive response
         const response = {
             success: true,
@@ -684,8 +724,20 @@ export async function GET(request: NextRequest) {
             // Weight recovery
             recoveryTriggered: recoveryAdjustments.length > 0,
             recoveryAdjustments: recoveryAdjustments.length > 0 ? recoveryAdjustments : undefined,
+            // Regime adjustments
+            regimeTuningTriggered: regimeLearning.tuned.length > 0,
+            regimeTunings: regimeLearning.tuned.length > 0
+                ? regimeLearning.tuned.map(t => ({ regime: t.regime, winRate: Math.round(t.winRate * 10) / 10, changes: t.changes }))
+                : undefined,
+            regimeRecoveries: regimeLearning.recovered.length > 0 ? regimeLearning.recovered : undefined,
             // Proactive monitoring
             proactiveWarning,
+            circuitBreaker: {
+                mode: breakerState.mode,
+                direction: breakerState.direction,
+                minScore: breakerState.minScore,
+                reasons: breakerState.reasons,
+            },
             trailingWinRate: Math.round(trailingStats.winRate * 10) / 10,
             directionalStats: {
                 long: {
@@ -700,10 +752,11 @@ export async function GET(request: NextRequest) {
             duration: Date.now() - startTime,
         };
 
-        if (allResults.length === 0 && recoveryAdjustments.length === 0 && winResults.length === 0) {
+        if (allResults.length === 0 && recoveryAdjustments.length === 0 && winResults.length === 0
+            && regimeLearning.tuned.length === 0 && regimeLearning.recovered.length === 0) {
             log.debug('No learning, recovery, or boost actions taken');
         } else {
-            log.info(`Learning complete: ${allResults.length} loss streaks, ${winResults.length} win boosts, ${recoveryAdjustments.length} recoveries`);
+            log.info(`Learning complete: ${allResults.length} loss streaks, ${winResults.length} win boosts, ${recoveryAdjustments.length} recoveries, ${regimeLearning.tuned.length} regime tunings`);
         }
 
         return NextResponse.json(response);
@@ -1,14 +1,16 @@
 import { NextResponse } from 'next/server';
 import {
-    generateSignal,
-    OHLCV,
+    generateMultiTimeframeSignal,
+    confluenceBlock,
     SignalOutput,
     DEFAULT_WEIGHTS,
-    HyperliquidContext
+    HyperliquidContext,
+    analyzeCrossAsset,
 } from '@/lib/engine';
 import { CURATED_ASSETS, COIN_METADATA } from '@/lib/constants/assets';
 import { detectMarketRegime, MarketRegime } from '@/lib/engine/regime';
-import { getMarketSnapshots } from '@/lib/supabaseServer';
+import { getMarketSnapshots, getRiskPolicy, getRegimeAdjustmentTable } from '@/lib/supabaseServer';
+import { getCandles } from '@/lib/candleRepository';
 
 // Hyperliquid API
 const HYPERLIQUID_API = 'https://api.hyperliquid.xyz/info';
@@ -23,7 +25,7 @@ interface HyperliquidAssetCtx {
 }
 
 interface HyperliquidMeta {
-    universe: { name: string }[];
+    universe: { name: string; maxLeverage: number }[];
 }
 
 interface HLEnrichedData {
@@ -32,6 +34,7 @@ interface HLEnrichedData {
     openInterest: number;
     premium: number;
     volume24h: number;
+    maxLeverage: number;
     fundingSignal: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
 }
 
@@ -69,6 +72,7 @@ async function fetchHyperliquidData(): Promise<Map<string, HLEnrichedData>> {
                 openInterest,
                 premium,
                 volume24h,
+                maxLeverage: asset.maxLeverage,
                 fundingSignal,
             });
         });
@@ -80,15 +84,6 @@ async function fetchHyperliquidData(): Promise<Map<string, HLEnrichedData>> {
 }
 
 // Types for external API responses
-interface BinanceKline {
-    0: number;  // Open time
-    1: string;  // Open
-    2: string;  // High
-    3: string;  // Low
-    4: string;  // Close
-    5: string;  // Volume
-}
-
 interface CoinGeckoMarket {
     id: string;
     symbol: string;
@@ -98,85 +93,6 @@ interface CoinGeckoMarket {
     sparkline_in_7d?: { price: number[] };
 }
 
-// Convert Binance klines to OHLCV format
-function binanceToOHLCV(klines: BinanceKline[]): OHLCV[] {
-    return klines.map(k => ({
-        timestamp: k[0],
-        open: parseFloat(k[1]),
-        high: parseFloat(k[2]),
-        low: parseFloat(k[3]),
-        close: parseFloat(k[4]),
-        volume: parseFloat(k[5]),
-    }));
-}
-
-// Fetch OHLCV from Hyperliquid (for coins not on Binance)
-async function fetchHyperliquidCandles(symbol: string, limit: number = 100): Promise<OHLCV[]> {
-    try {
-        const endTime = Date.now();
-        const startTime = endTime - (limit * 4 * 60 * 60 * 1000); // 4h candles
-
-        const response = await fetch(HYPERLIQUID_API, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                type: 'candleSnapshot',
-                req: {
-                    coin: symbol.toUpperCase(),
-                    interval: '4h',
-                    startTime,
-                    endTime,
-                }
-            }),
-            next: { revalidate: 300 },
-        });
-
-        if (!response.ok) return [];
-
-        const candles = await response.json();
-        return candles.map((c: { t: number; o: string; h: string; l: string; c: string; v: string }) => ({
-            timestamp: c.t,
-            open: parseFloat(c.o),
-            high: parseFloat(c.h),
-            low: parseFloat(c.l),
-            close: parseFloat(c.c),
-            volume: parseFloat(c.v),
-        }));
-    } catch {
-        return [];
-    }
-}
-
-// Coins that should use Hyperliquid instead of Binance
-const HYPERLIQUID_ONLY_COINS = ['HYPE'];
-
-// Fetch OHLCV data from Binance (or Hyperliquid fallback)
-async function fetchOHLCV(symbol: string, interval: string = '4h', limit: number = 100): Promise<OHLCV[]> {
-    // Use Hyperliquid for coins not on Binance
-    if (HYPERLIQUID_ONLY_COINS.includes(symbol.toUpperCase())) {
-        return fetchHyperliquidCandles(symbol, limit);
-    }
-
-    try {
-        const binanceSymbol = `${symbol.toUpperCase()}USDT`;
-        const url = `https://api.binance.com/api/v3/klines?symbol=${binanceSymbol}&interval=${interval}&limit=${limit}`;
-        const response = await fetch(url, { next: { revalidate: 300 } }); // Cache 5 min
-
-        if (!response.ok) {
-            console.error(`Binance API error for ${symbol}: ${response.status}`);
-            // Try Hyperliquid as fallback
-            return fetchHyperliquidCandles(symbol, limit);
-        }
-
-        const klines = await response.json();
-        return binanceToOHLCV(klines);
-    } catch (error) {
-        console.error(`Failed to fetch OHLCV for ${symbol}:`, error);
-        // Try Hyperliquid as fallback
-        return fetchHyperliquidCandles(symbol, limit);
-    }
-}
-
 // Fetch Fear & Greed Index
 async function fetchFearGreed(): Promise<number | null> {
     try {
@@ -214,6 +130,8 @@ export interface EngineSignalResponse {
     fearGreed: number | null;
     regime: MarketRegime;
     regimeConfidence: number;
+    riskRejections: number;         // Directional signals shown as HOLD because they failed the risk policy
+    confluenceRejections: number;   // Directional signals shown as HOLD because the 1h or 1d opposes them
     lastUpdated: string;
     weightsVersion: string;
 }
@@ -221,18 +139,24 @@ export interface EngineSignalResponse {
 export async function GET() {
     try {
         // Fetch Fear & Greed and Hyperliquid data in parallel
-        const [fearGreed, hyperliquidData] = await Promise.all([
+        const [fearGreed, hyperliquidData, riskPolicy, regimeAdjustments] = await Promise.all([
             fetchFearGreed(),
             fetchHyperliquidData(),
+            getRiskPolicy(),
+            getRegimeAdjustmentTable(),
         ]);
 
         // Get current engine weights (server-side uses defaults; user weights from Supabase in cron routes)
         const weights = DEFAULT_WEIGHTS;
 
-        // Fetch OHLCV data for each coin in parallel
+        // Fetch OHLCV data for each coin in parallel (4h is scored, 1h and 1d grade it via confluence)
         const ohlcvPromises = COINS_TO_ANALYZE.map(async coin => {
-            const data = await fetchOHLCV(coin.symbol);
-            return { ...coin, data };
+            const [data1h, data, data1d] = await Promise.all([
+                getCandles(coin.symbol, '1h', 100),
+                getCandles(coin.symbol, '4h', 100),
+                getCandles(coin.symbol, '1d', 100),
+            ]);
+            return { ...coin, data, data1h, data1d };
         });
 
         const coinData = await Promise.all(ohlcvPromises);
@@ -287,8 +211,13 @@ export async function GET() {
             }
         }
 
+        // Relative strength vs BTC and the rest of the basket
+        const crossAsset = analyzeCrossAsset(coinData.map(c => ({ coin: c.symbol, data: c.data })));
+
         // Generate signals for coins with sufficient data
         const signals: EngineSignalResponse['signals'] = [];
+        let riskRejections = 0;
+        let confluenceRejections = 0;
 
         for (const coin of coinData) {
             if (coin.data.length < 50) {
@@ -320,10 +249,31 @@ export async function GET() {
                         prevOpenInterest: prevSnapshot?.open_interest ?? undefined,
                         avgVolume: prevSnapshot?.volume_7d_avg || hlData.volume24h,
                         prevFunding: prevSnapshot?.funding_rate ?? undefined,
+                        maxLeverage: hlData.maxLeverage,
                     };
                 }
 
-                const signal = generateSignal(coin.data, coin.symbol, fearGreed, weights, hlContext, '4h', regime);
+                const graded = generateMultiTimeframeSignal(
+                    { '1h': coin.data1h, '4h': coin.data, '1d': coin.data1d },
+                    coin.symbol, fearGreed, weights, hlContext, regime, '4h',
+                    crossAsset.stats.get(coin.symbol.toUpperCase()) ?? null, riskPolicy, regimeAdjustments
+                );
+                if (!graded) continue;
+                const { confluence, ...signal } = graded;
+
+                // Same policy as the generate cron — a setup it would reject is not tradeable here either
+                const riskRejected = !signal.riskCheck.isValid;
+                const confluenceRejected = signal.direction !== 'HOLD' && confluenceBlock(confluence) !== null;
+                if (riskRejected) riskRejections++;
+                else if (confluenceRejected) confluenceRejections++;
+
+                if (riskRejected || confluenceRejected) {
+                    signal.direction = 'HOLD';
+                    signal.takeProfitTargets = [];
+                    signal.recommendedLeverage = 0;
+                    signal.liquidationPrice = 0;
+                    signal.leverageWarning = null;
+                }
 
                 // Extract 7D sparkline (last 42 candles at 4h = 7 days)
                 const sparklineData = coin.data.slice(-42).map(d => d.close);
@@ -352,6 +302,8 @@ export async function GET() {
             fearGreed,
             regime,
             regimeConfidence,
+            riskRejections,
+            confluenceRejections,
             lastUpdated: new Date().toISOString(),
             weightsVersion: 'v1',
         } as EngineSignalResponse);
@@ -365,6 +317,8 @@ export async function GET() {
             fearGreed: null,
             regime: 'UNKNOWN' as MarketRegime,
             regimeConfidence: 0,
+            riskRejections: 0,
+            confluenceRejections: 0,
             lastUpdated: new Date().toISOString(),
             weightsVersion: 'v1',
             error: 'Failed to generate signals',
@@ -0,0 +1,85 @@
+/**
+ * API: Follow a Signal on the Paper Account
+ *
+ * POST with { signalId } → opens a paper position on an open global signal at the
+ * current mark price, sized by the account's risk rules. A signal can be followed once.
+ * Authenticated endpoint (any signed-in user with a paper account).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getAllPendingSignals, getPaperAccount } from '@/lib/supabaseServer';
+import { fetchCurrentPrices } from '@/lib/engine/prices';
+import { followSignal } from '@/lib/paperTrading';
+import { logger } from '@/lib/logger';
+
+const log = logger.withContext('Paper');
+
+/**
+ * Signed-in user from the session cookies (null when not signed in)
+ */
+async function getSessionUser() {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                getAll() {
+                    return cookieStore.getAll();
+                },
+                setAll(cookiesToSet) {
+                    cookiesToSet.forEach(({ name, value, options }) =>
+                        cookieStore.set(name, value, options)
+                    );
+                },
+            },
+        }
+    );
+
+    const { data: { user }, error } = await supabase.auth.getUser();
+    return error ? null : user;
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json().catch(() => ({}));
+        if (typeof body.signalId !== 'string' || !body.signalId) {
+            return NextResponse.json({ error: 'signalId is required' }, { status: 400 });
+        }
+
+        const account = await getPaperAccount(user.id);
+        if (!account) {
+            return NextResponse.json({ error: 'Open a paper account first' }, { status: 404 });
+        }
+
+        const pending = await getAllPendingSignals();
+        const signal = pending.find(s => s.id === body.signalId && s.user_id === null);
+        if (!signal || (signal.direction !== 'LONG' && signal.direction !== 'SHORT')) {
+            return NextResponse.json({ error: 'Signal is not open' }, { status: 404 });
+        }
+
+        const prices = await fetchCurrentPrices('Paper');
+        const markPrice = prices.get(signal.coin.toUpperCase());
+        if (!markPrice) {
+            return NextResponse.json({ error: `No live price for ${signal.coin}` }, { status: 503 });
+        }
+
+        const position = await followSignal(account, signal, markPrice);
+        if (!position) {
+            return NextResponse.json({ error: 'Already following this signal or no size available' }, { status: 409 });
+        }
+
+        return NextResponse.json({ success: true, position });
+
+    } catch (error) {
+        log.error('Paper follow error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,182 @@
+/**
+ * LISAN INTELLIGENCE — Paper Trading Route Test Suite
+ *
+ * Tests authentication, account opening, marking to market and manual follows.
+ * Does NOT call real Supabase or Hyperliquid.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// ============================================================================
+// MOCK SETUP
+// ============================================================================
+
+const ORIGINAL_ENV = process.env;
+
+// Mock logger
+vi.mock('@/lib/logger', () => ({
+    logger: {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        withContext: () => ({
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+        }),
+    },
+}));
+
+const ACCOUNT = {
+    user_id: 'user-1', starting_balance: 10000, balance: 9999.1, fees_paid: 0.9, funding_paid: 0,
+    risk_per_trade_pct: 1, max_leverage: 3, auto_follow: true,
+    created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z',
+};
+
+// Mock supabaseServer
+vi.mock('@/lib/supabaseServer', () => ({
+    getPaperAccount: vi.fn().mockResolvedValue(null),
+    getPaperPositions: vi.fn().mockResolvedValue([
+        {
+            id: 'pp-1', user_id: 'user-1', signal_id: 'sig-1', coin: 'ETH', direction: 'LONG',
+            entry_price: 100, quantity: 20, notional: 2000, closed_fraction: 0, realized_pnl: 0,
+            fees_paid: 0.9, funding_paid: 0, status: 'OPEN', closed_at: null,
+            fills: [{ side: 'OPEN', price: 100, fraction: 1, pnl: 0, fee: 0.9, reason: 'ENTRY', at: '2026-01-01T01:00:00Z' }],
+            opened_at: '2026-01-01T01:00:00Z', funding_at: '2026-01-01T01:00:00Z',
+        },
+    ]),
+    getAllPendingSignals: vi.fn().mockResolvedValue([
+        { id: 'sig-1', user_id: null, coin: 'ETH', direction: 'LONG', score: 70, entry_price: 100, stop_loss: 95 },
+        { id: 'sig-2', user_id: null, coin: 'SOL', direction: 'SHORT', score: 35, entry_price: 50, stop_loss: 52 },
+        { id: 'sig-3', user_id: null, coin: 'BTC', direction: 'HOLD', score: 50, entry_price: 1, stop_loss: 1 },
+    ]),
+    resetPaperAccount: vi.fn(async (userId: string, settings: { startingBalance: number }) => ({
+        ...ACCOUNT, user_id: userId, starting_balance: settings.startingBalance, balance: settings.startingBalance,
+    })),
+    updatePaperSettings: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock('@/lib/engine/prices', () => ({
+    fetchCurrentPrices: vi.fn().mockResolvedValue(new Map([['ETH', 105], ['SOL', 49]])),
+}));
+
+vi.mock('@/lib/paperTrading', () => ({
+    followSignal: vi.fn().mockResolvedValue({ id: 'pp-2' }),
+}));
+
+// Track mock auth state
+let mockUser: { id: string; email: string } | null = null;
+
+// Mock @supabase/ssr
+vi.mock('@supabase/ssr', () => ({
+    createServerClient: vi.fn(() => ({
+        auth: {
+            getUser: vi.fn(async () => ({
+                data: { user: mockUser },
+                error: mockUser ? null : new Error('Not authenticated'),
+            })),
+        },
+    })),
+}));
+
+// Mock next/headers cookies
+vi.mock('next/headers', () => ({
+    cookies: vi.fn(async () => ({
+        getAll: vi.fn().mockReturnValue([]),
+        set: vi.fn(),
+    })),
+}));
+
+function postRequest(url: string, body: unknown): NextRequest {
+    return new NextRequest(url, { method: 'POST', body: JSON.stringify(body) });
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Paper Trading Routes', () => {
+    beforeEach(() => {
+        vi.resetModules();
+        process.env = {
+            ...ORIGINAL_ENV,
+            NEXT_PUBLIC_SUPABASE_URL: 'https://test.supabase.co',
+            NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test-anon-key',
+        };
+        mockUser = null;
+    });
+
+    afterEach(() => {
+        process.env = ORIGINAL_ENV;
+    });
+
+    it('returns 401 when user is not authenticated', async () => {
+        const { GET, POST } = await import('@/app/api/paper/route');
+        const follow = await import('@/app/api/paper/follow/route');
+
+        expect((await GET()).status).toBe(401);
+        expect((await POST(postRequest('http://localhost/api/paper', {}))).status).toBe(401);
+        expect((await follow.POST(postRequest('http://localhost/api/paper/follow', { signalId: 'sig-2' }))).status).toBe(401);
+    });
+
+    it('returns no account with defaults before one is opened', async () => {
+        mockUser = { id: 'user-1', email: 'user@test.com' };
+
+        const { GET } = await import('@/app/api/paper/route');
+        const json = await (await GET()).json();
+
+        expect(json.account).toBeNull();
+        expect(json.defaults).toMatchObject({ startingBalance: 10000, autoFollow: true });
+    });
+
+    it('opens an account with bounded settings', async () => {
+        mockUser = { id: 'user-1', email: 'user@test.com' };
+        const { resetPaperAccount } = await import('@/lib/supabaseServer');
+
+        const { POST } = await import('@/app/api/paper/route');
+        const json = await (await POST(postRequest('http://localhost/api/paper', {
+            startingBalance: 5000, maxLeverage: 500, autoFollow: false,
+        }))).json();
+
+        expect(resetPaperAccount).toHaveBeenCalledWith('user-1', {
+            startingBalance: 5000, riskPerTradePct: 1, maxLeverage: 50, autoFollow: false,
+        });
+        expect(json.account.balance).toBe(5000);
+    });
+
+    it('marks open positions to market and lists signals still to follow', async () => {
+        mockUser = { id: 'user-1', email: 'user@test.com' };
+        const { getPaperAccount } = await import('@/lib/supabaseServer');
+        (getPaperAccount as ReturnType<typeof vi.fn>).mockResolvedValue(ACCOUNT);
+
+        const { GET } = await import('@/app/api/paper/route');
+        const json = await (await GET()).json();
+
+        // 20 ETH from 100 marked at 105
+        expect(json.openPositions[0]).toMatchObject({ markPrice: 105, unrealizedPnl: 100 });
+        expect(json.summary).toMatchObject({ equity: 10099.1, unrealizedPnl: 100, feesPaid: 0.9, openPositions: 1 });
+        expect(json.equityCurve.map((p: { equity: number }) => p.equity)).toEqual([10000, 9999.1, 10099.1]);
+        expect(json.trades).toHaveLength(1);
+        // Already following ETH; HOLD is never followable
+        expect(json.followable.map((s: { id: string }) => s.id)).toEqual(['sig-2']);
+    });
+
+    it('follows an open signal at the live price', async () => {
+        mockUser = { id: 'user-1', email: 'user@test.com' };
+        const { getPaperAccount } = await import('@/lib/supabaseServer');
+        (getPaperAccount as ReturnType<typeof vi.fn>).mockResolvedValue(ACCOUNT);
+        const { followSignal } = await import('@/lib/paperTrading');
+
+        const { POST } = await import('@/app/api/paper/follow/route');
+        const response = await POST(postRequest('http://localhost/api/paper/follow', { signalId: 'sig-2' }));
+
+        expect(response.status).toBe(200);
+        expect(followSignal).toHaveBeenCalledWith(ACCOUNT, expect.objectContaining({ id: 'sig-2' }), 49);
+
+        const missing = await POST(postRequest('http://localhost/api/paper/follow', { signalId: 'sig-3' }));
+        expect(missing.status).toBe(404);
+    });
+});
@@ -0,0 +1,188 @@
+/**
+ * API: Paper Trading Account
+ *
+ * GET  → the signed-in user's paper account: equity (cash + unrealized), fees and
+ *        funding paid, open positions marked to market, equity curve, trade log
+ *        and the open global signals they can still follow. { account: null } before opening one.
+ * POST with optional { startingBalance, riskPerTradePct, maxLeverage, autoFollow, reset } →
+ *        opens the account (or resets it when reset is true, clearing all positions);
+ *        otherwise updates sizing and auto-follow, keeping omitted fields.
+ * Authenticated endpoint (any signed-in user).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import {
+    getAllPendingSignals,
+    getPaperAccount,
+    getPaperPositions,
+    resetPaperAccount,
+    updatePaperSettings,
+} from '@/lib/supabaseServer';
+import { fetchCurrentPrices } from '@/lib/engine/prices';
+import { buildEquityCurve, unrealizedPnl, DEFAULT_PAPER_SETTINGS, PaperSettings } from '@/lib/engine';
+import { logger } from '@/lib/logger';
+
+const log = logger.withContext('Paper');
+
+/**
+ * Signed-in user from the session cookies (null when not signed in)
+ */
+async function getSessionUser() {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                getAll() {
+                    return cookieStore.getAll();
+                },
+                setAll(cookiesToSet) {
+                    cookiesToSet.forEach(({ name, value, options }) =>
+                        cookieStore.set(name, value, options)
+                    );
+                },
+            },
+        }
+    );
+
+    const { data: { user }, error } = await supabase.auth.getUser();
+    return error ? null : user;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export async function GET() {
+    try {
+        const user = await getSessionUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const account = await getPaperAccount(user.id);
+        if (!account) {
+            return NextResponse.json({ account: null, defaults: DEFAULT_PAPER_SETTINGS });
+        }
+
+        const [positions, pending, prices] = await Promise.all([
+            getPaperPositions(user.id),
+            getAllPendingSignals(),
+            fetchCurrentPrices('Paper'),
+        ]);
+
+        // Mark open positions (entry price when the coin has no live price)
+        const open = positions
+            .filter(p => p.status === 'OPEN')
+            .map(p => {
+                const markPrice = prices.get(p.coin.toUpperCase()) ?? Number(p.entry_price);
+                const unrealized = unrealizedPnl({
+                    direction: p.direction,
+                    entryPrice: Number(p.entry_price),
+                    quantity: Number(p.quantity),
+                    closedFraction: Number(p.closed_fraction),
+                }, markPrice);
+                return { ...p, markPrice, unrealizedPnl: unrealized };
+            });
+
+        const balance = Number(account.balance);
+        const unrealized = open.reduce((sum, p) => sum + p.unrealizedPnl, 0);
+        const equity = round2(balance + unrealized);
+        const startingBalance = Number(account.starting_balance);
+        const now = new Date().toISOString();
+
+        const equityCurve = buildEquityCurve(
+            startingBalance,
+            account.created_at,
+            positions.map(p => ({ fills: p.fills, fundingPaid: Number(p.funding_paid), closedAt: p.closed_at })),
+            { at: now, equity }
+        );
+
+        // Every simulated execution, newest first
+        const trades = positions
+            .flatMap(p => p.fills.map(fill => ({ positionId: p.id, coin: p.coin, direction: p.direction, ...fill })))
+            .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+
+        const followed = new Set(positions.map(p => p.signal_id));
+        const followable = pending
+            .filter(s => s.user_id === null && (s.direction === 'LONG' || s.direction === 'SHORT') && !followed.has(s.id))
+            .map(s => ({ id: s.id, coin: s.coin, direction: s.direction, score: s.score, entryPrice: s.entry_price, createdAt: s.created_at }));
+
+        return NextResponse.json({
+            account,
+            summary: {
+                equity,
+                balance: round2(balance),
+                unrealizedPnl: round2(unrealized),
+                returnPct: startingBalance > 0 ? round2(((equity - startingBalance) / startingBalance) * 100) : 0,
+                feesPaid: round2(Number(account.fees_paid)),
+                fundingPaid: round2(Number(account.funding_paid)),
+                openPositions: open.length,
+                closedPositions: positions.length - open.length,
+            },
+            openPositions: open,
+            closedPositions: positions.filter(p => p.status === 'CLOSED'),
+            equityCurve,
+            trades,
+            followable,
+            lastUpdated: now,
+        });
+
+    } catch (error) {
+        log.error('Paper account error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const account = await getPaperAccount(user.id);
+        const body = await request.json().catch(() => ({}));
+
+        const bounded = (value: unknown, min: number, max: number, fallback: number) =>
+            value !== undefined && value !== null && Number.isFinite(Number(value))
+                ? Math.max(min, Math.min(max, Number(value)))
+                : fallback;
+
+        const current: PaperSettings = account
+            ? {
+                startingBalance: Number(account.starting_balance),
+                riskPerTradePct: Number(account.risk_per_trade_pct),
+                maxLeverage: Number(account.max_leverage),
+                autoFollow: account.auto_follow,
+            }
+            : DEFAULT_PAPER_SETTINGS;
+
+        const settings: PaperSettings = {
+            startingBalance: bounded(body.startingBalance, 100, 1e9, current.startingBalance),
+            riskPerTradePct: bounded(body.riskPerTradePct, 0.1, 10, current.riskPerTradePct),
+            maxLeverage: bounded(body.maxLeverage, 1, 50, current.maxLeverage),
+            autoFollow: typeof body.autoFollow === 'boolean' ? body.autoFollow : current.autoFollow,
+        };
+
+        if (!account || body.reset === true) {
+            const opened = await resetPaperAccount(user.id, settings);
+            if (!opened) {
+                return NextResponse.json({ error: 'Failed to open paper account' }, { status: 500 });
+            }
+            return NextResponse.json({ success: true, account: opened });
+        }
+
+        const saved = await updatePaperSettings(user.id, settings);
+        if (!saved) {
+            return NextResponse.json({ error: 'Failed to save settings' }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true, settings });
+
+    } catch (error) {
+        log.error('Paper settings error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
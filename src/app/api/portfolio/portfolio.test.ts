@@ -0,0 +1,145 @@
+/**
+ * LISAN INTELLIGENCE — Portfolio Route Test Suite
+ *
+ * Tests authentication, per-user sizing and settings validation.
+ * Does NOT call real Supabase.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// ============================================================================
+// MOCK SETUP
+// ============================================================================
+
+const ORIGINAL_ENV = process.env;
+
+// Mock logger
+vi.mock('@/lib/logger', () => ({
+    logger: {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        withContext: () => ({
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+        }),
+    },
+}));
+
+// Mock supabaseServer
+vi.mock('@/lib/supabaseServer', () => ({
+    getAllPendingSignals: vi.fn().mockResolvedValue([
+        {
+            id: 'sig-1', user_id: null, coin: 'ETH', direction: 'LONG', score: 70,
+            entry_price: 100, stop_loss: 100, initial_stop_loss: 95, take_profit: 110, tp_fills: [],
+        },
+        {
+            id: 'sig-2', user_id: null, coin: 'SOL', direction: 'HOLD', score: 40,
+            entry_price: 50, stop_loss: 50, take_profit: 50,
+        },
+        {
+            id: 'sig-3', user_id: 'someone', coin: 'DOGE', direction: 'SHORT', score: 60,
+            entry_price: 1, stop_loss: 1.05, take_profit: 0.9,
+        },
+    ]),
+    getPortfolioSettings: vi.fn().mockResolvedValue({
+        accountSize: 20000, riskPerTradePct: 0.5, maxGrossExposurePct: 200,
+        maxNetExposurePct: 100, maxCorrelatedExposurePct: 100, correlationThreshold: 0.7,
+    }),
+    savePortfolioSettings: vi.fn().mockResolvedValue(true),
+}));
+
+// No candle history → no correlation clusters
+vi.mock('@/lib/candleRepository', () => ({
+    getCandles: vi.fn().mockResolvedValue([]),
+}));
+
+// Track mock auth state
+let mockUser: { id: string; email: string } | null = null;
+
+// Mock @supabase/ssr
+vi.mock('@supabase/ssr', () => ({
+    createServerClient: vi.fn(() => ({
+        auth: {
+            getUser: vi.fn(async () => ({
+                data: { user: mockUser },
+                error: mockUser ? null : new Error('Not authenticated'),
+            })),
+        },
+    })),
+}));
+
+// Mock next/headers cookies
+vi.mock('next/headers', () => ({
+    cookies: vi.fn(async () => ({
+        getAll: vi.fn().mockReturnValue([]),
+        set: vi.fn(),
+    })),
+}));
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Portfolio Route', () => {
+    beforeEach(() => {
+        vi.resetModules();
+        process.env = {
+            ...ORIGINAL_ENV,
+            NEXT_PUBLIC_SUPABASE_URL: 'https://test.supabase.co',
+            NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test-anon-key',
+        };
+        mockUser = null;
+    });
+
+    afterEach(() => {
+        process.env = ORIGINAL_ENV;
+    });
+
+    it('returns 401 when user is not authenticated', async () => {
+        const { GET, POST } = await import('@/app/api/portfolio/route');
+
+        expect((await GET()).status).toBe(401);
+        const request = new NextRequest('http://localhost/api/portfolio', {
+            method: 'POST',
+            body: JSON.stringify({ accountSize: 5000 }),
+        });
+        expect((await POST(request)).status).toBe(401);
+    });
+
+    it('sizes open global signals for the user account', async () => {
+        mockUser = { id: 'user-1', email: 'user@test.com' };
+        const { getPortfolioSettings } = await import('@/lib/supabaseServer');
+
+        const { GET } = await import('@/app/api/portfolio/route');
+        const response = await GET();
+        const json = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(getPortfolioSettings).toHaveBeenCalledWith('user-1');
+        // HOLD and user-owned signals are not part of the global book
+        expect(json.positions).toHaveLength(1);
+        // 0.5% of 20k = $100 at risk over the 5% initial stop → $2,000
+        expect(json.positions[0]).toMatchObject({ coin: 'ETH', notional: 2000, riskAmount: 100 });
+        expect(json.exposure.grossPct).toBe(10);
+    });
+
+    it('bounds and saves settings, keeping omitted fields', async () => {
+        mockUser = { id: 'user-1', email: 'user@test.com' };
+        const { savePortfolioSettings } = await import('@/lib/supabaseServer');
+
+        const { POST } = await import('@/app/api/portfolio/route');
+        const request = new NextRequest('http://localhost/api/portfolio', {
+            method: 'POST',
+            body: JSON.stringify({ riskPerTradePct: 50, accountSize: 'abc', correlationThreshold: 0.8 }),
+        });
+        const json = await (await POST(request)).json();
+
+        expect(json.settings).toMatchObject({ accountSize: 20000, riskPerTradePct: 10, correlationThreshold: 0.8 });
+        expect(savePortfolioSettings).toHaveBeenCalledWith('user-1', json.settings);
+    });
+});
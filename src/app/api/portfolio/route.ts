@@ -0,0 +1,126 @@
+/**
+ * API: Portfolio
+ *
+ * GET  → sizes every open global signal for the signed-in user's account and
+ *        applies their gross, net and correlated exposure caps.
+ * POST with optional { accountSize, riskPerTradePct, maxGrossExposurePct, maxNetExposurePct,
+ *        maxCorrelatedExposurePct, correlationThreshold } → saves the user's settings.
+ *        Omitted fields keep their current value.
+ * Authenticated endpoint (any signed-in user).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getAllPendingSignals, getPortfolioSettings, savePortfolioSettings } from '@/lib/supabaseServer';
+import { analyzeCrossAsset, buildPortfolio, remainingFraction, PortfolioSettings, PortfolioSignal } from '@/lib/engine';
+import { getCandles } from '@/lib/candleRepository';
+import { logger } from '@/lib/logger';
+
+const log = logger.withContext('Portfolio');
+
+/**
+ * Signed-in user from the session cookies (null when not signed in)
+ */
+async function getSessionUser() {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                getAll() {
+                    return cookieStore.getAll();
+                },
+                setAll(cookiesToSet) {
+                    cookiesToSet.forEach(({ name, value, options }) =>
+                        cookieStore.set(name, value, options)
+                    );
+                },
+            },
+        }
+    );
+
+    const { data: { user }, error } = await supabase.auth.getUser();
+    return error ? null : user;
+}
+
+export async function GET() {
+    try {
+        const user = await getSessionUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const settings = await getPortfolioSettings(user.id);
+
+        // Global signals only — the same book every user sees, sized per account
+        const pending = await getAllPendingSignals();
+        const signals: PortfolioSignal[] = pending
+            .filter(s => s.user_id === null && (s.direction === 'LONG' || s.direction === 'SHORT'))
+            .map(s => ({
+                id: s.id,
+                coin: s.coin,
+                direction: s.direction as 'LONG' | 'SHORT',
+                score: s.score,
+                entryPrice: s.entry_price,
+                // Size from the stop at entry — a trailed stop shouldn't grow the position
+                stopLoss: s.initial_stop_loss ?? s.stop_loss,
+                takeProfit: s.take_profit,
+                openFraction: remainingFraction(s.tp_fills ?? []),
+            }));
+
+        // Correlation of the coins in the book (plus the BTC benchmark)
+        const coins = [...new Set(['BTC', ...signals.map(s => s.coin.toUpperCase())])];
+        const results = await Promise.allSettled(
+            coins.map(async coin => ({ coin, data: await getCandles(coin, '4h', 100) }))
+        );
+        const assets = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+        const { matrix } = analyzeCrossAsset(assets);
+
+        const plan = buildPortfolio(signals, settings, matrix);
+
+        return NextResponse.json({ ...plan, lastUpdated: new Date().toISOString() });
+
+    } catch (error) {
+        log.error('Portfolio error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const current = await getPortfolioSettings(user.id);
+        const body = await request.json().catch(() => ({}));
+
+        const bounded = (value: unknown, min: number, max: number, fallback: number) =>
+            value !== undefined && value !== null && Number.isFinite(Number(value))
+                ? Math.max(min, Math.min(max, Number(value)))
+                : fallback;
+
+        const settings: PortfolioSettings = {
+            accountSize: bounded(body.accountSize, 100, 1e9, current.accountSize),
+            riskPerTradePct: bounded(body.riskPerTradePct, 0.1, 10, current.riskPerTradePct),
+            maxGrossExposurePct: bounded(body.maxGrossExposurePct, 10, 1000, current.maxGrossExposurePct),
+            maxNetExposurePct: bounded(body.maxNetExposurePct, 0, 1000, current.maxNetExposurePct),
+            maxCorrelatedExposurePct: bounded(body.maxCorrelatedExposurePct, 10, 1000, current.maxCorrelatedExposurePct),
+            correlationThreshold: bounded(body.correlationThreshold, 0, 1, current.correlationThreshold),
+        };
+
+        const saved = await savePortfolioSettings(user.id, settings);
+        if (!saved) {
+            return NextResponse.json({ error: 'Failed to save settings' }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true, settings });
+
+    } catch (error) {
+        log.error('Portfolio settings error', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
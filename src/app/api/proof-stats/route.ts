@@ -3,10 +3,19 @@
  * 
  * Returns aggregated signal statistics from Supabase for the /proof page.
  * This is the source of truth for performance data.
+ *
+ * ?returns=net → returns after estimated fees, spread and funding (net_profit_pct);
+ * default is gross mark-to-mark profit_pct. Signals closed before costs were
+ * recorded count at their gross return in both views (see summary.costedSignals).
+ *
+ * EXPIRED signals (closed at the mark after the max holding period) are their own
+ * category: their returns count toward P&L, but not toward wins, losses or win rate.
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabaseServer';
+import type { CumulativeReturn, TakeProfitTarget, TradeCosts, TrancheFill } from '@/lib/types/database';
+import { remainingFraction } from '@/lib/engine/outcome';
 
 // ============================================================================
 // TYPES
@@ -19,8 +28,9 @@ interface ScoreBucketStats {
     total: number;
     wins: number;
     losses: number;
+    expired: number;
     open: number;
-    winRate: number;
+    winRate: number;          // Wins over wins + losses (expired excluded)
 }
 
 interface RecentOutcome {
@@ -31,41 +41,52 @@ interface RecentOutcome {
     entry_price: number;
     exit_price: number | null;
     profit_pct: number | null;
+    net_profit_pct: number | null;
+    trade_costs: TradeCosts | null;
     outcome: string;
     exit_reason: string | null;
+    take_profit_targets: TakeProfitTarget[] | null;
+    tp_fills: TrancheFill[] | null;     // Tranches closed before the final exit
     created_at: string;
     closed_at: string | null;
 }
 
+/**
+ * Open signal that has already closed part of its position at ladder targets
+ */
+interface PartialPosition {
+    id: string;
+    coin: string;
+    direction: string;
+    score: number;
+    entryPrice: number;
+    targetsHit: number;
+    targetsTotal: number;
+    closedFraction: number;   // 0-1 share of the position already closed
+    realizedPct: number;      // Return locked in so far, weighted by closed fraction
+    createdAt: string;
+}
+
 interface PerformanceSummary {
     totalSignals: number;
     completedSignals: number;
     openSignals: number;
+    partiallyClosed: number;  // Open signals with at least one tranche closed
     wins: number;
     losses: number;
+    expired: number;
     overallWinRate: number;
     avgWinPct: number;       // Average win percentage
     avgLossPct: number;      // Average loss percentage (positive number)
+    avgExpiredPct: number;   // Average return of expired signals (signed)
     totalPct: number;        // Sum of all trade returns
+    returnsBasis: ReturnsBasis;
+    costedSignals: number;   // Completed signals with recorded costs
+    avgCostPct: number;      // Average round-trip cost of those signals
     isEarlyData: boolean;
     earlyDataThreshold: number;
 }
 
-interface CumulativeReturn {
-    signalIndex: number;
-    coin: string;
-    direction: string;
-    score: number;
-    outcome: 'WON' | 'LOST';
-    profitPct: number;        // Individual trade return
-    cumulativePct: number;    // Running sum of all returns
-    closedAt: string;
-    entryPrice: number;
-    exitPrice: number;
-    exitReason: string | null;
-    durationHours: number;    // How long the trade was open
-}
-
 interface LearningEvent {
     occurredAt: string;
     triggeredBy: string;
@@ -78,6 +99,9 @@ interface ExitBreakdown {
     takeProfit: number;
     stopLoss: number;
     momentumExit: number;
+    trailingStop: number;
+    expired: number;
+    scaledOut: number;        // Closed trades that took profit on at least one tranche first
 }
 
 interface BestWorstTrade {
@@ -87,6 +111,8 @@ interface BestWorstTrade {
     closedAt: string;
 }
 
+type ReturnsBasis = 'gross' | 'net';
+
 // ============================================================================
 // SCORE BUCKETS
 // ============================================================================
@@ -103,12 +129,14 @@ const SCORE_BUCKETS = [
 // API HANDLER
 // ============================================================================
 
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
+        const returnsBasis: ReturnsBasis = request.nextUrl.searchParams.get('returns') === 'net' ? 'net' : 'gross';
+
         // Fetch ALL signals across all users (public proof page)
         const { data: signals, error } = await supabaseServer
             .from('signals')
-            .select('id, coin, direction, score, entry_price, exit_price, profit_pct, outcome, exit_reason, created_at, closed_at')
+            .select('id, coin, direction, score, entry_price, exit_price, profit_pct, net_profit_pct, trade_costs, outcome, exit_reason, take_profit_targets, tp_fills, created_at, closed_at')
             .order('created_at', { ascending: false });
 
         if (error) {
@@ -118,6 +146,10 @@ export async function GET() {
 
         const allSignals = signals || [];
 
+        // Return of a closed signal in the requested basis (gross when no costs were recorded)
+        const returnPct = (s: { profit_pct: number | null; net_profit_pct: number | null }): number =>
+            (returnsBasis === 'net' ? s.net_profit_pct ?? s.profit_pct : s.profit_pct) || 0;
+
         // Calculate bucket stats
         const bucketStats: ScoreBucketStats[] = SCORE_BUCKETS.map(bucket => {
             const bucketSignals = allSignals.filter(
@@ -125,6 +157,7 @@ export async function GET() {
             );
             const wins = bucketSignals.filter(s => s.outcome === 'WON').length;
             const losses = bucketSignals.filter(s => s.outcome === 'LOST').length;
+            const expired = bucketSignals.filter(s => s.outcome === 'EXPIRED').length;
             const open = bucketSignals.filter(s => s.outcome === 'PENDING').length;
             const completed = wins + losses;
 
@@ -135,6 +168,7 @@ export async function GET() {
                 total: bucketSignals.length,
                 wins,
                 losses,
+                expired,
                 open,
                 winRate: completed > 0 ? Math.round((wins / completed) * 100) : 0,
             };
@@ -142,7 +176,7 @@ export async function GET() {
 
         // Calculate cumulative returns (sorted by closed_at, oldest first)
         const completedSignals = allSignals
-            .filter(s => s.outcome === 'WON' || s.outcome === 'LOST')
+            .filter(s => s.outcome === 'WON' || s.outcome === 'LOST' || s.outcome === 'EXPIRED')
             .sort((a, b) => {
                 const aTime = a.closed_at ? new Date(a.closed_at).getTime() : 0;
                 const bTime = b.closed_at ? new Date(b.closed_at).getTime() : 0;
@@ -152,7 +186,7 @@ export async function GET() {
         // Calculate percentage-based cumulative returns with enhanced data
         let runningPct = 0;
         const cumulativeReturns: CumulativeReturn[] = completedSignals.map((signal, index) => {
-            const profitPct = signal.profit_pct || 0;
+            const profitPct = returnPct(signal);
             runningPct += profitPct;
 
             // Calculate duration in hours
@@ -165,7 +199,7 @@ export async function GET() {
                 coin: signal.coin,
                 direction: signal.direction,
                 score: signal.score,
-                outcome: signal.outcome as 'WON' | 'LOST',
+                outcome: signal.outcome as 'WON' | 'LOST' | 'EXPIRED',
                 profitPct: Math.round(profitPct * 100) / 100,
                 cumulativePct: Math.round(runningPct * 100) / 100,
                 closedAt: signal.closed_at || signal.created_at,
@@ -179,35 +213,71 @@ export async function GET() {
         // Calculate summary with percentage metrics
         const wins = allSignals.filter(s => s.outcome === 'WON').length;
         const losses = allSignals.filter(s => s.outcome === 'LOST').length;
+        const expired = allSignals.filter(s => s.outcome === 'EXPIRED').length;
         const open = allSignals.filter(s => s.outcome === 'PENDING').length;
-        const completed = wins + losses;
+        const resolved = wins + losses;
+        const completed = resolved + expired;
         const EARLY_DATA_THRESHOLD = 30;
 
         // Calculate average win and loss percentages
         const winSignals = completedSignals.filter(s => s.outcome === 'WON');
         const lossSignals = completedSignals.filter(s => s.outcome === 'LOST');
+        const expiredSignals = completedSignals.filter(s => s.outcome === 'EXPIRED');
 
         const avgWinPct = winSignals.length > 0
-            ? winSignals.reduce((sum, s) => sum + (s.profit_pct || 0), 0) / winSignals.length
+            ? winSignals.reduce((sum, s) => sum + returnPct(s), 0) / winSignals.length
             : 0;
         const avgLossPct = lossSignals.length > 0
-            ? Math.abs(lossSignals.reduce((sum, s) => sum + (s.profit_pct || 0), 0) / lossSignals.length)
+            ? Math.abs(lossSignals.reduce((sum, s) => sum + returnPct(s), 0) / lossSignals.length)
+            : 0;
+        const avgExpiredPct = expiredSignals.length > 0
+            ? expiredSignals.reduce((sum, s) => sum + returnPct(s), 0) / expiredSignals.length
             : 0;
 
         const totalPct = cumulativeReturns.length > 0
             ? cumulativeReturns[cumulativeReturns.length - 1].cumulativePct
             : 0;
 
+        const costed = completedSignals.filter(s => s.trade_costs);
+        const avgCostPct = costed.length > 0
+            ? costed.reduce((sum, s) => sum + (s.trade_costs?.totalPct ?? 0), 0) / costed.length
+            : 0;
+
+        // Open signals already scaled out at one or more targets (profit_pct is set only on the final exit)
+        const partialPositions: PartialPosition[] = allSignals
+            .filter(s => s.outcome === 'PENDING' && (s.tp_fills?.length ?? 0) > 0)
+            .map(s => {
+                const fills: TrancheFill[] = s.tp_fills ?? [];
+                return {
+                    id: s.id,
+                    coin: s.coin,
+                    direction: s.direction,
+                    score: s.score,
+                    entryPrice: s.entry_price,
+                    targetsHit: fills.length,
+                    targetsTotal: s.take_profit_targets?.length ?? fills.length,
+                    closedFraction: Math.round((1 - remainingFraction(fills)) * 100) / 100,
+                    realizedPct: Math.round(fills.reduce((sum, f) => sum + f.fraction * f.profitPct, 0) * 100) / 100,
+                    createdAt: s.created_at,
+                };
+            });
+
         const summary: PerformanceSummary = {
             totalSignals: allSignals.length,
             completedSignals: completed,
             openSignals: open,
+            partiallyClosed: partialPositions.length,
             wins,
             losses,
-            overallWinRate: completed > 0 ? Math.round((wins / completed) * 100) : 0,
+            expired,
+            overallWinRate: resolved > 0 ? Math.round((wins / resolved) * 100) : 0,
             avgWinPct: Math.round(avgWinPct * 100) / 100,
             avgLossPct: Math.round(avgLossPct * 100) / 100,
+            avgExpiredPct: Math.round(avgExpiredPct * 100) / 100,
             totalPct: Math.round(totalPct * 100) / 100,
+            returnsBasis,
+            costedSignals: costed.length,
+            avgCostPct: Math.round(avgCostPct * 100) / 100,
             isEarlyData: completed < EARLY_DATA_THRESHOLD,
             earlyDataThreshold: EARLY_DATA_THRESHOLD,
         };
@@ -236,24 +306,27 @@ export async function GET() {
             takeProfit: completedSignals.filter(s => s.exit_reason === 'TAKE_PROFIT').length,
             stopLoss: completedSignals.filter(s => s.exit_reason === 'STOP_LOSS').length,
             momentumExit: completedSignals.filter(s => s.exit_reason === 'MOMENTUM_EXIT').length,
+            trailingStop: completedSignals.filter(s => s.exit_reason === 'TRAILING_STOP').length,
+            expired: completedSignals.filter(s => s.exit_reason === 'EXPIRED').length,
+            scaledOut: completedSignals.filter(s => (s.tp_fills?.length ?? 0) > 0).length,
         };
 
         // Find best and worst trades
         const sortedByProfit = completedSignals
             .filter(s => s.profit_pct !== null)
-            .sort((a, b) => (b.profit_pct || 0) - (a.profit_pct || 0));
+            .sort((a, b) => returnPct(b) - returnPct(a));
 
         const bestTrade: BestWorstTrade | null = sortedByProfit.length > 0 ? {
             coin: sortedByProfit[0].coin,
             direction: sortedByProfit[0].direction,
-            profitPct: Math.round((sortedByProfit[0].profit_pct || 0) * 100) / 100,
+            profitPct: Math.round(returnPct(sortedByProfit[0]) * 100) / 100,
             closedAt: sortedByProfit[0].closed_at || sortedByProfit[0].created_at,
         } : null;
 
         const worstTrade: BestWorstTrade | null = sortedByProfit.length > 0 ? {
             coin: sortedByProfit[sortedByProfit.length - 1].coin,
             direction: sortedByProfit[sortedByProfit.length - 1].direction,
-            profitPct: Math.round((sortedByProfit[sortedByProfit.length - 1].profit_pct || 0) * 100) / 100,
+            profitPct: Math.round(returnPct(sortedByProfit[sortedByProfit.length - 1]) * 100) / 100,
             closedAt: sortedByProfit[sortedByProfit.length - 1].closed_at || sortedByProfit[sortedByProfit.length - 1].created_at,
         } : null;
 
@@ -267,6 +340,7 @@ export async function GET() {
             bucketStats,
             summary,
             recentOutcomes,
+            partialPositions,
             cumulativeReturns,
             learningEvents,
             exitBreakdown,
@@ -0,0 +1,35 @@
+/**
+ * API: Regime Adjustments
+ *
+ * Returns the per-regime scoring multipliers the engine is using (learned values merged
+ * over the defaults), the defaults themselves and the latest regime tunings by the learn cron.
+ * Uses the server-side Supabase client to bypass RLS. Shown on the /learning page.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRegimeAdjustmentTable, getRegimeLearningCycles } from '@/lib/supabaseServer';
+import type { DbRegimeLearningCycle } from '@/lib/supabaseServer';
+import { DEFAULT_REGIME_ADJUSTMENTS, RegimeAdjustmentTable } from '@/lib/engine/regime';
+
+export interface RegimeAdjustmentsResponse {
+    adjustments: RegimeAdjustmentTable;
+    defaults: RegimeAdjustmentTable;
+    cycles: DbRegimeLearningCycle[];
+}
+
+export async function GET() {
+    try {
+        const [adjustments, cycles] = await Promise.all([
+            getRegimeAdjustmentTable(),
+            getRegimeLearningCycles(50),
+        ]);
+        return NextResponse.json({ adjustments, defaults: DEFAULT_REGIME_ADJUSTMENTS, cycles } satisfies RegimeAdjustmentsResponse);
+    } catch (error) {
+        console.error('Failed to fetch regime adjustments:', error);
+        return NextResponse.json({
+            adjustments: DEFAULT_REGIME_ADJUSTMENTS,
+            defaults: DEFAULT_REGIME_ADJUSTMENTS,
+            cycles: [],
+        } satisfies RegimeAdjustmentsResponse, { status: 500 });
+    }
+}
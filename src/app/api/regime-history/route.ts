@@ -0,0 +1,101 @@
+/**
+ * API: Regime History
+ *
+ * Returns the debounced market regime over time as bands, the latest observation,
+ * win rate per regime (from each signal's regime at generation) and win rate per
+ * regime transition (signals opened in the band that followed it).
+ * With the statistical model in shadow mode, also its win rate per regime and how often
+ * it agrees with the rule-based detector. Shown on the /proof page.
+ *
+ * ?days=30 → history window, 1-90 days
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    getRegimeHistory,
+    getResolvedSignalsSince,
+    getSignalsByRegime,
+} from '@/lib/supabaseServer';
+import {
+    buildRegimeBands,
+    regimeTransitionStats,
+    MarketRegime,
+    RegimeBand,
+    RegimeTransitionStats,
+} from '@/lib/engine/regime';
+
+export interface RegimeHistoryResponse {
+    days: number;
+    current: {
+        regime: string;
+        observedRegime: string;
+        confidence: number;
+        btcTrend: string;
+        volatilityLevel: string;
+        marketBias: string;
+        recordedAt: string;
+    } | null;
+    bands: RegimeBand[];
+    byRegime: { regime: string; wins: number; losses: number; total: number; winRate: number }[];
+    transitions: RegimeTransitionStats[];
+    shadow: {
+        byRegime: { regime: string; wins: number; losses: number; total: number; winRate: number }[];
+        agreement: number | null;   // Share of shadowed runs where model and rules matched, 0-1
+        runs: number;
+    };
+}
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+
+export async function GET(request: NextRequest) {
+    const requested = Number(request.nextUrl.searchParams.get('days') ?? DEFAULT_DAYS);
+    const days = Number.isFinite(requested) ? Math.max(1, Math.min(MAX_DAYS, Math.round(requested))) : DEFAULT_DAYS;
+    const since = new Date(Date.now() - days * 24 * 3600000);
+
+    try {
+        const [history, signals, regimeStats, shadowStats] = await Promise.all([
+            getRegimeHistory(since),
+            getResolvedSignalsSince(since),
+            getSignalsByRegime(200),
+            getSignalsByRegime(200, 'shadowRegime'),
+        ]);
+
+        const shadowed = history.filter(h => h.shadow_regime);
+        const toRows = (stats: typeof regimeStats) => [...stats.entries()]
+            .map(([regime, s]) => ({ regime, ...s }))
+            .sort((a, b) => b.total - a.total);
+
+        const bands = buildRegimeBands(history.map(h => ({ regime: h.regime as MarketRegime, at: h.recorded_at })));
+        const latest = history[history.length - 1];
+
+        return NextResponse.json({
+            days,
+            current: latest ? {
+                regime: latest.regime,
+                observedRegime: latest.observed_regime,
+                confidence: latest.confidence,
+                btcTrend: latest.btc_trend,
+                volatilityLevel: latest.volatility_level,
+                marketBias: latest.market_bias,
+                recordedAt: latest.recorded_at,
+            } : null,
+            bands,
+            byRegime: toRows(regimeStats),
+            transitions: regimeTransitionStats(bands, signals),
+            shadow: {
+                byRegime: toRows(shadowStats),
+                agreement: shadowed.length > 0
+                    ? Math.round((shadowed.filter(h => h.shadow_regime === h.observed_regime).length / shadowed.length) * 1000) / 1000
+                    : null,
+                runs: shadowed.length,
+            },
+        } as RegimeHistoryResponse);
+    } catch (error) {
+        console.error('Regime history API error:', error);
+        return NextResponse.json({
+            days, current: null, bands: [], byRegime: [], transitions: [],
+            shadow: { byRegime: [], agreement: null, runs: 0 },
+        } as RegimeHistoryResponse, { status: 500 });
+    }
+}
@@ -1,19 +1,20 @@
 /**
  * API: Global Weights
  * 
- * Returns the current global engine weights.
+ * Returns the current global engine weights and the per-regime weight vectors
+ * (only regimes that have one — the rest score with the global weights).
  * Uses the server-side Supabase client to bypass RLS.
  */
 
 import { NextResponse } from 'next/server';
-import { getGlobalWeights } from '@/lib/supabaseServer';
+import { getGlobalWeights, getRegimeWeights } from '@/lib/supabaseServer';
 
 export async function GET() {
     try {
-        const weights = await getGlobalWeights();
-        return NextResponse.json({ weights });
+        const [weights, regimeWeights] = await Promise.all([getGlobalWeights(), getRegimeWeights()]);
+        return NextResponse.json({ weights, regimeWeights });
     } catch (error) {
         console.error('Failed to fetch weights:', error);
-        return NextResponse.json({ weights: null }, { status: 500 });
+        return NextResponse.json({ weights: null, regimeWeights: {} }, { status: 500 });
     }
 }
@@ -302,7 +302,7 @@ export default function DocsPage() {
                             </ul>
 
                             <p className="mb-6">
-                                Weights sum to 100 points. Here&apos;s every indicator, why it matters, and how it&apos;s scored:
+                                Points below are relative — the full set is scaled to sum to 100. Here&apos;s every indicator, why it matters, and how it&apos;s scored:
                             </p>
 
                             <div className="space-y-10">
@@ -310,7 +310,7 @@ export default function DocsPage() {
                                 <div>
                                     <h4 className="text-xl font-semibold text-cyan-700 mb-4 flex items-center gap-3">
                                         <span className="w-3 h-3 rounded-full bg-cyan-500"></span>
-                                        Momentum Cluster (25 points)
+                                        Momentum Cluster (29 points)
                                     </h4>
                                     <p className="text-slate-600 mb-4">
                                         Momentum indicators measure the <em>speed</em> of price movement. They&apos;re leading indicators —
@@ -351,6 +351,15 @@ export default function DocsPage() {
                                                 Above 100 = bearish (price is statistically expensive).
                                             </p>
                                         </div>
+                                        <div>
+                                            <p className="font-semibold text-slate-700">Divergence — RSI / MACD / OBV vs Price (4 pts)</p>
+                                            <p className="text-slate-600">
+                                                Compares the last two swing lows and swing highs with RSI, the MACD histogram and OBV at the same bars.
+                                                Price making a lower low while the oscillator makes a higher low = bullish (regular divergence);
+                                                a higher low in price with a lower low in the oscillator = bullish continuation (hidden divergence).
+                                                Highs work the same way in reverse. Each oscillator that diverges adds to the strength.
+                                            </p>
+                                        </div>
                                     </div>
                                 </div>
 
@@ -358,7 +367,7 @@ export default function DocsPage() {
                                 <div>
                                     <h4 className="text-xl font-semibold text-purple-700 mb-4 flex items-center gap-3">
                                         <span className="w-3 h-3 rounded-full bg-purple-500"></span>
-                                        Trend Cluster (25 points)
+                                        Trend Cluster (31 points)
                                     </h4>
                                     <p className="text-slate-600 mb-4">
                                         Trend indicators identify the <em>direction</em> of the market. Are we in an uptrend, downtrend,
@@ -394,6 +403,22 @@ export default function DocsPage() {
                                                 At the upper band = potential bearish reversal. Squeeze (bands narrowing) often precedes big moves.
                                             </p>
                                         </div>
+                                        <div>
+                                            <p className="font-semibold text-slate-700">Anchored VWAP (3 pts)</p>
+                                            <p className="text-slate-600">
+                                                Volume-weighted average price measured from the last significant swing high or low — the average cost of
+                                                everyone who traded since that turn. Price above it = buyers since the swing are in profit (bullish); below = bearish.
+                                                Further away in ATR terms = stronger.
+                                            </p>
+                                        </div>
+                                        <div>
+                                            <p className="font-semibold text-slate-700">Relative Strength — vs BTC &amp; Basket (3 pts)</p>
+                                            <p className="text-slate-600">
+                                                7-day return compared with the rest of the curated basket, ranked across all coins. Leaders (top third,
+                                                outperforming) = bullish; laggards (bottom third, underperforming) = bearish. Correlation and beta vs BTC
+                                                are shown alongside for context.
+                                            </p>
+                                        </div>
                                     </div>
                                 </div>
 
@@ -401,7 +426,7 @@ export default function DocsPage() {
                                 <div>
                                     <h4 className="text-xl font-semibold text-blue-700 mb-4 flex items-center gap-3">
                                         <span className="w-3 h-3 rounded-full bg-blue-500"></span>
-                                        Volume Cluster (16 points)
+                                        Volume Cluster (19 points)
                                     </h4>
                                     <p className="text-slate-600 mb-4">
                                         Volume is the fuel for price movement. A breakout without volume is suspect.
@@ -422,6 +447,14 @@ export default function DocsPage() {
                                                 We don&apos;t trust breakouts that happen on average or below-average volume.
                                             </p>
                                         </div>
+                                        <div>
+                                            <p className="font-semibold text-slate-700">Volume Profile (3 pts)</p>
+                                            <p className="text-slate-600">
+                                                Volume traded at each price level. The point of control is the busiest level; the value area holds 70% of the volume.
+                                                Price accepted above the value area = bullish, below = bearish. The value-area edges also serve as candidate
+                                                stop loss and take profit levels alongside swing support and resistance.
+                                            </p>
+                                        </div>
                                     </div>
                                 </div>
 
@@ -509,6 +542,34 @@ export default function DocsPage() {
                                         </div>
                                     </div>
                                 </div>
+
+                                {/* Structure */}
+                                <div>
+                                    <h4 className="text-xl font-semibold text-teal-700 mb-4 flex items-center gap-3">
+                                        <span className="w-3 h-3 rounded-full bg-teal-500"></span>
+                                        Structure Cluster (4 points)
+                                    </h4>
+                                    <p className="text-slate-600 mb-4">
+                                        Price patterns read straight from the candles. This cluster only counts when a pattern is present —
+                                        quiet charts don&apos;t dilute the score.
+                                    </p>
+                                    <div className="bg-slate-50 rounded-lg p-4 space-y-4">
+                                        <div>
+                                            <p className="font-semibold text-slate-700">Candlestick Patterns</p>
+                                            <p className="text-slate-600">
+                                                Engulfing candles, pin bars (long rejection wicks) and inside bars on the latest candles.
+                                                A bullish engulfing or a pin bar rejecting lower prices = bullish, and the reverse for bearish.
+                                            </p>
+                                        </div>
+                                        <div>
+                                            <p className="font-semibold text-slate-700">Chart Structure</p>
+                                            <p className="text-slate-600">
+                                                Double tops and bottoms confirmed by a neckline break, higher-high/higher-low (or lower-high/lower-low)
+                                                swing sequences, and breakouts from tight ranges — with full strength when volume confirms.
+                                            </p>
+                                        </div>
+                                    </div>
+                                </div>
                             </div>
 
 
@@ -607,6 +668,17 @@ export default function DocsPage() {
                                 </p>
                             </div>
 
+                            <div className="bg-slate-50 rounded-lg p-4 mb-4">
+                                <p className="font-semibold text-slate-700 mb-2">Scaling Out — Take-Profit Ladder</p>
+                                <p className="text-slate-600">
+                                    Each signal exits in thirds: <strong>TP1 at 1R</strong>, <strong>TP2 at 2R</strong> and{' '}
+                                    <strong>TP3 at 3R</strong>, where R is the distance from entry to the initial stop. Targets
+                                    beyond the take profit are pulled in to it, so the position is always fully closed by then.
+                                    If the rest of the position is stopped out after TP1, the recorded return is blended across
+                                    every tranche — a trade that banked TP1 and was stopped at breakeven still counts as a win.
+                                </p>
+                            </div>
+
                             <div className="bg-slate-50 rounded-lg p-4">
                                 <p className="font-semibold text-slate-700 mb-2">Risk:Reward = 1:2</p>
                                 <p className="text-slate-600">
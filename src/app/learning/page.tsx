@@ -2,7 +2,8 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import Header from '@/components/Header';
-import { IndicatorWeights, DEFAULT_WEIGHTS } from '@/lib/engine/scoring';
+import { IndicatorWeights, RegimeWeightSet, DEFAULT_WEIGHTS } from '@/lib/engine/scoring';
+import { INDICATORS, getIndicator } from '@/lib/engine/registry';
 import { useAuth } from '@/context/auth-context';
 import {
     getUserSignals,
@@ -12,6 +13,8 @@ import {
     DbLearningCycle
 } from '@/lib/supabase';
 import { supabase } from '@/lib/supabase';
+import type { RegimeAdjustmentsResponse } from '@/app/api/regime-adjustments/route';
+import type { MarketRegime, RegimeAdjustments } from '@/lib/engine/regime';
 
 
 interface TrackingStats {
@@ -39,14 +42,36 @@ interface LearningCycle {
         reason?: string;
     }>;
     consecutiveLosses: number;
+    regime: MarketRegime | null;
 }
 
+const REGIME_LABELS: Record<MarketRegime, string> = {
+    BULL_TREND: 'Bull Trend',
+    BEAR_TREND: 'Bear Trend',
+    HIGH_VOL_CHOP: 'Choppy',
+    RECOVERY_PUMP: 'Recovery Pump',
+    DISTRIBUTION: 'Distribution',
+    ACCUMULATION: 'Accumulation',
+    UNKNOWN: 'Unknown',
+};
+
+const ADJUSTMENT_COLUMNS: { field: keyof RegimeAdjustments; label: string }[] = [
+    { field: 'scoreThresholdMultiplier', label: 'Threshold' },
+    { field: 'trendWeightMultiplier', label: 'Trend' },
+    { field: 'momentumWeightMultiplier', label: 'Momentum' },
+    { field: 'positioningWeightMultiplier', label: 'Positioning' },
+    { field: 'directionBias', label: 'Bias' },
+];
+
 export default function LearningPage() {
     const { user, isAdmin } = useAuth();
     const [weights, setWeights] = useState<IndicatorWeights>(DEFAULT_WEIGHTS);
     const [history, setHistory] = useState<LearningCycle[]>([]);
     const [signals, setSignals] = useState<DbSignal[]>([]);
     const [stats, setStats] = useState<TrackingStats | null>(null);
+    const [regimeData, setRegimeData] = useState<RegimeAdjustmentsResponse | null>(null);
+    const [regimeWeights, setRegimeWeights] = useState<RegimeWeightSet>({});
+    const [weightSet, setWeightSet] = useState<MarketRegime | 'GLOBAL'>('GLOBAL');
     const [mounted, setMounted] = useState(false);
 
     const loadData = useCallback(async () => {
@@ -56,6 +81,8 @@ export default function LearningPage() {
             // Fetch weights via API (uses server-side Supabase, bypasses RLS)
             const weightsRes = await fetch('/api/weights');
             const weightsData = weightsRes.ok ? await weightsRes.json() : null;
+            const regimeRes = await fetch('/api/regime-adjustments');
+            if (regimeRes.ok) setRegimeData(await regimeRes.json());
 
             const [userSignals, userStats, learningHistory] = await Promise.all([
                 getUserSignals(),
@@ -67,6 +94,7 @@ export default function LearningPage() {
             if (weightsData?.weights) {
                 setWeights({ ...DEFAULT_WEIGHTS, ...weightsData.weights } as IndicatorWeights);
             }
+            setRegimeWeights(weightsData?.regimeWeights ?? {});
             // Transform DB learning cycles to display format
             setHistory(learningHistory.map((cycle: DbLearningCycle) => ({
                 id: cycle.id,
@@ -74,7 +102,8 @@ export default function LearningPage() {
                 triggeredBy: cycle.triggered_by,
                 signalsAnalyzed: cycle.signals_analyzed,
                 adjustments: cycle.adjustments || [],
-                consecutiveLosses: cycle.consecutive_losses || 0
+                consecutiveLosses: cycle.consecutive_losses || 0,
+                regime: (cycle.regime as MarketRegime | null) ?? null
             })));
         } catch (error) {
             console.error('Failed to load learning data:', error);
@@ -101,6 +130,8 @@ export default function LearningPage() {
 
                 if (response.ok) {
                     setWeights(DEFAULT_WEIGHTS);
+                    setRegimeWeights({});
+                    setWeightSet('GLOBAL');
                     loadData(); // Refresh all data
                 } else {
                     console.error('Failed to reset weights:', await response.text());
@@ -163,6 +194,29 @@ export default function LearningPage() {
         }
     };
 
+    const handleRegimeRestore = async (payload: { cycleId: string } | { regime: MarketRegime }, message: string) => {
+        if (!user) return;
+        if (confirm(message)) {
+            try {
+                const response = await fetch('/api/admin/restore-regime-adjustments', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(payload),
+                });
+
+                if (response.ok) {
+                    loadData(); // Refresh all data
+                } else {
+                    const error = await response.text();
+                    console.error('Failed to restore regime adjustments:', error);
+                    alert('Failed to restore regime adjustments: ' + error);
+                }
+            } catch (error) {
+                console.error('Error restoring regime adjustments:', error);
+            }
+        }
+    };
+
     if (!mounted) {
         return (
             <>
@@ -176,13 +230,23 @@ export default function LearningPage() {
         );
     }
 
-    // Calculate weight changes from defaults
-    const weightChanges = Object.entries(weights).map(([key, value]) => ({
-        indicator: key,
-        current: value,
-        default: DEFAULT_WEIGHTS[key as keyof IndicatorWeights],
-        change: value - DEFAULT_WEIGHTS[key as keyof IndicatorWeights],
-        changePercent: ((value - DEFAULT_WEIGHTS[key as keyof IndicatorWeights]) / DEFAULT_WEIGHTS[key as keyof IndicatorWeights] * 100).toFixed(1),
+    // Calculate weight changes from defaults (one row per registered indicator)
+    // Regime sets are shown against the defaults and against the global weights they diverged from
+    const regimeSets = (Object.keys(REGIME_LABELS) as MarketRegime[]).filter(regime => regimeWeights[regime]);
+    const shownWeights = weightSet === 'GLOBAL'
+        ? weights
+        : { ...DEFAULT_WEIGHTS, ...regimeWeights[weightSet] } as IndicatorWeights;
+
+    const weightChanges = INDICATORS.map(def => ({
+        indicator: def.id,
+        label: def.label,
+        category: def.category,
+        current: shownWeights[def.id],
+        default: Math.round(DEFAULT_WEIGHTS[def.id] * 100) / 100,
+        change: shownWeights[def.id] - DEFAULT_WEIGHTS[def.id],
+        changePercent: ((shownWeights[def.id] - DEFAULT_WEIGHTS[def.id]) / DEFAULT_WEIGHTS[def.id] * 100).toFixed(1),
+        global: weights[def.id],
+        globalChangePercent: ((shownWeights[def.id] - weights[def.id]) / weights[def.id] * 100).toFixed(1),
     }));
 
     return (
@@ -226,22 +290,37 @@ export default function LearningPage() {
                         <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
                             <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center">
                                 <h2 className="text-xl font-bold text-slate-900">Current Weights</h2>
-                                {isAdmin && (
-                                    <button
-                                        onClick={handleReset}
-                                        className="text-sm text-red-600 hover:text-red-700 font-medium"
-                                    >
-                                        Reset to Defaults
-                                    </button>
-                                )}
+                                <div className="flex items-center gap-4">
+                                    {regimeSets.length > 0 && (
+                                        <select
+                                            value={weightSet}
+                                            onChange={e => setWeightSet(e.target.value as MarketRegime | 'GLOBAL')}
+                                            className="text-sm border border-slate-200 rounded px-2 py-1 text-slate-700"
+                                        >
+                                            <option value="GLOBAL">Global</option>
+                                            {regimeSets.map(regime => (
+                                                <option key={regime} value={regime}>{REGIME_LABELS[regime]}</option>
+                                            ))}
+                                        </select>
+                                    )}
+                                    {isAdmin && (
+                                        <button
+                                            onClick={handleReset}
+                                            className="text-sm text-red-600 hover:text-red-700 font-medium"
+                                        >
+                                            Reset to Defaults
+                                        </button>
+                                    )}
+                                </div>
                             </div>
                             <div className="divide-y divide-slate-100">
                                 {weightChanges.map(w => (
                                     <div key={w.indicator} className="px-6 py-3 flex justify-between items-center">
                                         <div>
-                                            <span className="font-medium text-slate-900">{w.indicator}</span>
+                                            <span className="font-medium text-slate-900">{w.label}</span>
                                             <span className="text-slate-500 ml-2">
-                                                (default: {w.default})
+                                                {w.category} · default: {w.default}
+                                                {weightSet !== 'GLOBAL' && <> · global: {w.global}</>}
                                             </span>
                                         </div>
                                         <div className="flex items-center gap-3">
@@ -252,6 +331,11 @@ export default function LearningPage() {
                                                     {w.change > 0 ? '+' : ''}{w.changePercent}%
                                                 </span>
                                             )}
+                                            {weightSet !== 'GLOBAL' && w.current !== w.global && (
+                                                <span className="text-xs text-slate-500">
+                                                    ({w.current > w.global ? '+' : ''}{w.globalChangePercent}% vs global)
+                                                </span>
+                                            )}
                                         </div>
                                     </div>
                                 ))}
@@ -281,6 +365,11 @@ export default function LearningPage() {
                                             <div className="flex justify-between items-start mb-2">
                                                 <span className="text-sm font-medium text-cyan-600">
                                                     {event.triggeredBy.replace('_', ' ')}
+                                                    {event.regime && (
+                                                        <span className="ml-2 text-xs text-slate-500">
+                                                            {REGIME_LABELS[event.regime] ?? event.regime} weights
+                                                        </span>
+                                                    )}
                                                 </span>
                                                 <span className="text-xs text-slate-500">
                                                     {new Date(event.timestamp).toLocaleString()}
@@ -305,7 +394,7 @@ export default function LearningPage() {
                                                     {event.adjustments.map((adj, i) => (
                                                         <div key={i} className="bg-slate-50 rounded-lg p-3 border border-slate-100">
                                                             <div className="flex justify-between items-center mb-1">
-                                                                <span className="font-semibold text-slate-800">{adj.indicator}</span>
+                                                                <span className="font-semibold text-slate-800">{getIndicator(adj.indicator)?.label ?? adj.indicator}</span>
                                                                 <span className={`text-sm font-medium ${adj.changePercent < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
                                                                     {adj.changePercent > 0 ? '+' : ''}{adj.changePercent.toFixed(1)}%
                                                                 </span>
@@ -329,6 +418,105 @@ export default function LearningPage() {
                         </div>
                     </div>
 
+                    {/* Regime Adjustments */}
+                    {regimeData && (
+                        <div className="mt-8 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+                            <div className="px-6 py-4 border-b border-slate-200">
+                                <h2 className="text-xl font-bold text-slate-900">Regime Adjustments</h2>
+                                <p className="text-sm text-slate-500">
+                                    Multipliers applied in each market regime, tuned from the outcomes of signals generated in it
+                                </p>
+                            </div>
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-slate-50 text-left">
+                                        <tr>
+                                            <th className="px-4 py-3 font-medium text-slate-600">Regime</th>
+                                            {ADJUSTMENT_COLUMNS.map(col => (
+                                                <th key={col.field} className="px-4 py-3 font-medium text-slate-600">{col.label}</th>
+                                            ))}
+                                            {isAdmin && <th className="px-4 py-3" />}
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {(Object.keys(REGIME_LABELS) as MarketRegime[]).map(regime => {
+                                            const current = regimeData.adjustments[regime];
+                                            const defaults = regimeData.defaults[regime];
+                                            const drifted = ADJUSTMENT_COLUMNS.some(col => current[col.field] !== defaults[col.field]);
+                                            return (
+                                                <tr key={regime} className="hover:bg-slate-50">
+                                                    <td className="px-4 py-3 font-medium">{REGIME_LABELS[regime]}</td>
+                                                    {ADJUSTMENT_COLUMNS.map(col => {
+                                                        const change = current[col.field] - defaults[col.field];
+                                                        return (
+                                                            <td key={col.field} className="px-4 py-3">
+                                                                <span className="font-semibold text-slate-900">{current[col.field].toFixed(2)}</span>
+                                                                {Math.abs(change) >= 0.005 && (
+                                                                    <span className={`ml-1 text-xs ${change > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                                                                        {change > 0 ? '+' : ''}{change.toFixed(2)}
+                                                                    </span>
+                                                                )}
+                                                            </td>
+                                                        );
+                                                    })}
+                                                    {isAdmin && (
+                                                        <td className="px-4 py-3 text-right">
+                                                            {drifted && (
+                                                                <button
+                                                                    onClick={() => handleRegimeRestore({ regime }, `Reset ${REGIME_LABELS[regime]} adjustments to defaults?`)}
+                                                                    className="text-xs text-red-600 hover:text-red-700 font-medium"
+                                                                >
+                                                                    Reset
+                                                                </button>
+                                                            )}
+                                                        </td>
+                                                    )}
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                            {regimeData.cycles.length > 0 && (
+                                <div className="border-t border-slate-200 divide-y divide-slate-100 max-h-72 overflow-y-auto">
+                                    {regimeData.cycles.map(cycle => (
+                                        <div key={cycle.id} className="px-6 py-3">
+                                            <div className="flex justify-between items-center mb-1">
+                                                <span className="text-sm font-medium text-cyan-600">
+                                                    {REGIME_LABELS[cycle.regime as MarketRegime] ?? cycle.regime}
+                                                    <span className="text-slate-500 font-normal ml-2">
+                                                        {cycle.signals_analyzed} signals · {cycle.win_rate.toFixed(0)}% win rate
+                                                    </span>
+                                                </span>
+                                                <div className="flex items-center gap-3">
+                                                    <span className="text-xs text-slate-500">{new Date(cycle.created_at).toLocaleString()}</span>
+                                                    {isAdmin && (
+                                                        <button
+                                                            onClick={() => handleRegimeRestore(
+                                                                { cycleId: cycle.id },
+                                                                `Restore ${REGIME_LABELS[cycle.regime as MarketRegime] ?? cycle.regime} adjustments to state after ${new Date(cycle.created_at).toLocaleString()}?`
+                                                            )}
+                                                            className="text-xs text-cyan-600 hover:text-cyan-700 font-medium px-2 py-1 rounded border border-cyan-200 hover:bg-cyan-50"
+                                                        >
+                                                            Restore
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                            {cycle.adjustments.map((adj, i) => (
+                                                <div key={i} className="text-xs text-slate-600">
+                                                    {ADJUSTMENT_COLUMNS.find(col => col.field === adj.field)?.label ?? adj.field}:{' '}
+                                                    {adj.oldValue.toFixed(2)} → {adj.newValue.toFixed(2)}
+                                                    <span className="text-slate-400 italic ml-2">{adj.reason}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Signal History */}
                     <div className="mt-8 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
                         <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center">
@@ -392,7 +580,9 @@ export default function LearningPage() {
                                                     ) : (
                                                         <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${record.outcome === 'WON'
                                                             ? 'bg-emerald-100 text-emerald-700'
-                                                            : 'bg-red-100 text-red-700'
+                                                            : record.outcome === 'EXPIRED'
+                                                                ? 'bg-slate-100 text-slate-600'
+                                                                : 'bg-red-100 text-red-700'
                                                             }`}>
                                                             {record.outcome}
                                                         </span>
@@ -417,6 +607,8 @@ export default function LearningPage() {
                             <li>• <strong>Analysis:</strong> Identifies which indicators were &quot;confidently wrong&quot;</li>
                             <li>• <strong>Adjustment:</strong> Reduces weight of problematic indicators (max 10% per cycle)</li>
                             <li>• <strong>Bounds:</strong> Weights stay between 1-20 points, no indicator is ever disabled</li>
+                            <li>• <strong>Weight sets:</strong> Signals scored in a regime with its own weight vector only adjust that vector; a regime&apos;s vector starts from the global weights the first time it learns</li>
+                            <li>• <strong>Regimes:</strong> Each regime&apos;s threshold, category multipliers and direction bias are tuned in small bounded steps from its own outcomes, and drift back to defaults once it performs</li>
                         </ul>
                     </div>
                 </div>
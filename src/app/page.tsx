@@ -5,6 +5,7 @@ import Header from '@/components/Header';
 import MarketOverview from '@/components/MarketOverview';
 import FearGreedWidget from '@/components/FearGreedWidget';
 import MarketRegimeBadge from '@/components/MarketRegimeBadge';
+import CircuitBreakerBanner from '@/components/CircuitBreakerBanner';
 import QuickStats from '@/components/QuickStats';
 import EngineSignals from '@/components/EngineSignals';
 import Link from 'next/link';
@@ -19,6 +20,8 @@ export default function Dashboard() {
       <Header />
       <main className="pt-32 pb-16 px-8 lg:px-16 xl:px-20 max-w-[1600px] mx-auto">
 
+        <CircuitBreakerBanner />
+
         {/* Top Grid: Market Stats + Sidebar */}
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-8 mb-12">
           <div className="lg:col-span-3">
@@ -0,0 +1,465 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Header from '@/components/Header';
+import type { PaperEquityPoint, PaperSettings } from '@/lib/engine';
+import type { DbPaperAccount, DbPaperPosition, PaperFill } from '@/lib/types/database';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface PaperSummary {
+    equity: number;
+    balance: number;
+    unrealizedPnl: number;
+    returnPct: number;
+    feesPaid: number;
+    fundingPaid: number;
+    openPositions: number;
+    closedPositions: number;
+}
+
+interface MarkedPosition extends DbPaperPosition {
+    markPrice: number;
+    unrealizedPnl: number;
+}
+
+interface PaperTrade extends PaperFill {
+    positionId: string;
+    coin: string;
+    direction: 'LONG' | 'SHORT';
+}
+
+interface FollowableSignal {
+    id: string;
+    coin: string;
+    direction: 'LONG' | 'SHORT';
+    score: number;
+    entryPrice: number;
+    createdAt: string;
+}
+
+interface PaperData {
+    account: DbPaperAccount | null;
+    defaults?: PaperSettings;
+    summary?: PaperSummary;
+    openPositions?: MarkedPosition[];
+    closedPositions?: DbPaperPosition[];
+    equityCurve?: PaperEquityPoint[];
+    trades?: PaperTrade[];
+    followable?: FollowableSignal[];
+}
+
+// ============================================================================
+// SETTINGS FORM
+// ============================================================================
+
+const SETTING_FIELDS: { key: 'startingBalance' | 'riskPerTradePct' | 'maxLeverage'; label: string; suffix: string; step: number }[] = [
+    { key: 'startingBalance', label: 'Starting Balance', suffix: 'USD', step: 100 },
+    { key: 'riskPerTradePct', label: 'Risk per Trade', suffix: '%', step: 0.1 },
+    { key: 'maxLeverage', label: 'Max Leverage', suffix: '×', step: 0.5 },
+];
+
+const formatUsd = (value: number) =>
+    `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 2, minimumFractionDigits: 2 })}`;
+
+const formatSignedUsd = (value: number) => `${value > 0 ? '+' : ''}${formatUsd(value)}`;
+
+const formatPrice = (price: number) => {
+    if (price >= 1000) return `$${price.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+    if (price >= 1) return `$${price.toFixed(2)}`;
+    if (price >= 0.01) return `$${price.toFixed(4)}`;
+    return `$${price.toFixed(6)}`;
+};
+
+const formatDateTime = (dateStr: string) =>
+    new Date(dateStr).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const pnlColor = (value: number) =>
+    value > 0 ? 'text-[var(--accent-green)]' : value < 0 ? 'text-[var(--accent-red)]' : '';
+
+const accountSettings = (account: DbPaperAccount): PaperSettings => ({
+    startingBalance: Number(account.starting_balance),
+    riskPerTradePct: Number(account.risk_per_trade_pct),
+    maxLeverage: Number(account.max_leverage),
+    autoFollow: account.auto_follow,
+});
+
+// ============================================================================
+// PAGE COMPONENT
+// ============================================================================
+
+export default function PaperPage() {
+    const [data, setData] = useState<PaperData | null>(null);
+    const [draft, setDraft] = useState<PaperSettings | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [following, setFollowing] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadAccount = useCallback(async () => {
+        try {
+            const res = await fetch('/api/paper');
+            if (!res.ok) throw new Error('Failed to load paper account');
+            const json: PaperData = await res.json();
+            setData(json);
+            setDraft(json.account ? accountSettings(json.account) : json.defaults ?? null);
+            setError(null);
+        } catch (err) {
+            console.error(err);
+            setError('Failed to load paper account');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadAccount();
+    }, [loadAccount]);
+
+    const saveSettings = async (reset: boolean) => {
+        if (!draft) return;
+        if (reset && !confirm('Reset the paper account? All positions and history will be cleared.')) return;
+        setSaving(true);
+        try {
+            const res = await fetch('/api/paper', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ...draft, reset }),
+            });
+            if (!res.ok) throw new Error('Failed to save paper account');
+            await loadAccount();
+        } catch (err) {
+            console.error(err);
+            setError('Failed to save paper account');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleFollow = async (signalId: string) => {
+        setFollowing(signalId);
+        try {
+            const res = await fetch('/api/paper/follow', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ signalId }),
+            });
+            if (!res.ok) {
+                const json = await res.json().catch(() => ({}));
+                throw new Error(json.error || 'Failed to follow signal');
+            }
+            await loadAccount();
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'Failed to follow signal');
+        } finally {
+            setFollowing(null);
+        }
+    };
+
+    const account = data?.account ?? null;
+    const summary = data?.summary;
+
+    return (
+        <>
+            <Header />
+            <main className="min-h-screen pt-28 pb-20 px-6 lg:px-12">
+                <div className="max-w-6xl mx-auto space-y-8">
+
+                    {/* Header */}
+                    <header className="card p-6">
+                        <h1 className="text-3xl md:text-4xl font-semibold mb-2 text-[var(--text-primary)]">Paper Trading</h1>
+                        <p className="text-[var(--text-secondary)] max-w-2xl">
+                            What following the engine would have done to a balance. Positions open at the live price when a
+                            signal fires, scale out with its take-profit ladder and close on its exit — paying taker fees,
+                            slippage and Hyperliquid funding along the way.
+                        </p>
+                    </header>
+
+                    {error && (
+                        <div className="card p-4 border-l-4 border-l-[var(--accent-red)] text-[var(--accent-red)]">{error}</div>
+                    )}
+
+                    {loading && (
+                        <div className="card p-6">
+                            <div className="skeleton h-6 w-48 mb-4" />
+                            <div className="skeleton h-64 w-full rounded-lg" />
+                        </div>
+                    )}
+
+                    {/* Settings */}
+                    {draft && (
+                        <section className="card p-6">
+                            <h2 className="text-xl font-semibold mb-4">{account ? 'Account Settings' : 'Open a Paper Account'}</h2>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                                {SETTING_FIELDS.map(field => (
+                                    <label key={field.key} className="text-sm">
+                                        <span className="block text-[var(--text-muted)] mb-1">
+                                            {field.label} <span className="text-xs">({field.suffix})</span>
+                                        </span>
+                                        <input
+                                            type="number"
+                                            step={field.step}
+                                            value={draft[field.key]}
+                                            onChange={e => setDraft({ ...draft, [field.key]: Number(e.target.value) })}
+                                            className="w-full px-3 py-2 rounded-lg border border-[var(--border-primary)] bg-[var(--bg-secondary)] font-mono"
+                                        />
+                                    </label>
+                                ))}
+                                <label className="text-sm flex items-end gap-2 pb-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={draft.autoFollow}
+                                        onChange={e => setDraft({ ...draft, autoFollow: e.target.checked })}
+                                    />
+                                    <span>Follow every new signal</span>
+                                </label>
+                            </div>
+                            <div className="flex flex-wrap gap-3">
+                                <button onClick={() => saveSettings(false)} disabled={saving} className="btn btn-primary">
+                                    {saving ? 'Saving...' : account ? 'Save Settings' : 'Open Account'}
+                                </button>
+                                {account && (
+                                    <button onClick={() => saveSettings(true)} disabled={saving} className="btn btn-secondary">
+                                        Reset Account
+                                    </button>
+                                )}
+                            </div>
+                            {account && (
+                                <p className="text-xs text-[var(--text-muted)] mt-3">
+                                    The starting balance only changes on reset.
+                                </p>
+                            )}
+                        </section>
+                    )}
+
+                    {/* Summary */}
+                    {summary && (
+                        <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <div className="card p-5 text-center">
+                                <p className="text-3xl font-bold">{formatUsd(summary.equity)}</p>
+                                <p className="text-sm text-[var(--text-muted)] mt-1">Equity</p>
+                                <p className={`text-xs ${pnlColor(summary.returnPct)}`}>
+                                    {summary.returnPct > 0 ? '+' : ''}{summary.returnPct}% since start
+                                </p>
+                            </div>
+                            <div className="card p-5 text-center">
+                                <p className={`text-3xl font-bold ${pnlColor(summary.unrealizedPnl)}`}>{formatSignedUsd(summary.unrealizedPnl)}</p>
+                                <p className="text-sm text-[var(--text-muted)] mt-1">Unrealized</p>
+                                <p className="text-xs text-[var(--text-muted)]">{summary.openPositions} open positions</p>
+                            </div>
+                            <div className="card p-5 text-center">
+                                <p className="text-3xl font-bold text-[var(--accent-red)]">{formatUsd(summary.feesPaid)}</p>
+                                <p className="text-sm text-[var(--text-muted)] mt-1">Fees Paid</p>
+                                <p className="text-xs text-[var(--text-muted)]">{summary.closedPositions} closed positions</p>
+                            </div>
+                            <div className="card p-5 text-center">
+                                <p className={`text-3xl font-bold ${pnlColor(-summary.fundingPaid)}`}>{formatSignedUsd(-summary.fundingPaid)}</p>
+                                <p className="text-sm text-[var(--text-muted)] mt-1">Funding</p>
+                                <p className="text-xs text-[var(--text-muted)]">{summary.fundingPaid >= 0 ? 'Net paid' : 'Net received'}</p>
+                            </div>
+                        </section>
+                    )}
+
+                    {/* Equity Curve */}
+                    {account && data?.equityCurve && (
+                        <section className="card p-6">
+                            <h2 className="text-xl font-semibold mb-4">Equity Curve</h2>
+                            <EquityCurve points={data.equityCurve} startingBalance={Number(account.starting_balance)} />
+                        </section>
+                    )}
+
+                    {/* Open Positions */}
+                    {account && data?.openPositions && (
+                        <section className="card p-6">
+                            <h2 className="text-xl font-semibold mb-4">Open Positions</h2>
+                            {data.openPositions.length > 0 ? (
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="border-b border-[var(--border-primary)]">
+                                                <th className="text-left py-3 px-2 text-[var(--text-muted)] font-medium">Coin</th>
+                                                <th className="text-left py-3 px-2 text-[var(--text-muted)] font-medium">Dir</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Entry</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Mark</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Size</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Open</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Unrealized</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Funding</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {data.openPositions.map(position => (
+                                                <tr key={position.id} className="border-b border-[var(--border-secondary)]">
+                                                    <td className="py-3 px-2 font-medium">{position.coin}</td>
+                                                    <td className="py-3 px-2"><DirectionBadge direction={position.direction} /></td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs">{formatPrice(Number(position.entry_price))}</td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs">{formatPrice(position.markPrice)}</td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs">{formatUsd(Number(position.notional))}</td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs">
+                                                        {Math.round((1 - Number(position.closed_fraction)) * 100)}%
+                                                    </td>
+                                                    <td className={`py-3 px-2 text-right font-mono text-xs ${pnlColor(position.unrealizedPnl)}`}>
+                                                        {formatSignedUsd(position.unrealizedPnl)}
+                                                    </td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs">{formatSignedUsd(-Number(position.funding_paid))}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ) : (
+                                <div className="h-24 flex items-center justify-center text-[var(--text-muted)]">
+                                    No open positions
+                                </div>
+                            )}
+                        </section>
+                    )}
+
+                    {/* Followable Signals */}
+                    {account && data?.followable && data.followable.length > 0 && (
+                        <section className="card p-6">
+                            <h2 className="text-xl font-semibold mb-2">Open Signals</h2>
+                            <p className="text-sm text-[var(--text-secondary)] mb-4">
+                                Signals this account isn&apos;t in yet. Following one opens a position at the current price.
+                            </p>
+                            <div className="space-y-3">
+                                {data.followable.map(signal => (
+                                    <div key={signal.id} className="flex items-center justify-between text-sm">
+                                        <span className="flex items-center gap-3">
+                                            <span className="font-medium">{signal.coin}</span>
+                                            <DirectionBadge direction={signal.direction} />
+                                            <span className="text-[var(--text-muted)]">Score {signal.score}</span>
+                                            <span className="font-mono text-xs text-[var(--text-muted)]">from {formatPrice(signal.entryPrice)}</span>
+                                        </span>
+                                        <button
+                                            onClick={() => handleFollow(signal.id)}
+                                            disabled={following !== null}
+                                            className="btn btn-secondary text-xs"
+                                        >
+                                            {following === signal.id ? 'Opening...' : 'Follow'}
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    )}
+
+                    {/* Trade Log */}
+                    {account && data?.trades && (
+                        <section className="card p-6">
+                            <h2 className="text-xl font-semibold mb-4">Trade Log</h2>
+                            {data.trades.length > 0 ? (
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="border-b border-[var(--border-primary)]">
+                                                <th className="text-left py-3 px-2 text-[var(--text-muted)] font-medium">Time</th>
+                                                <th className="text-left py-3 px-2 text-[var(--text-muted)] font-medium">Coin</th>
+                                                <th className="text-left py-3 px-2 text-[var(--text-muted)] font-medium">Dir</th>
+                                                <th className="text-left py-3 px-2 text-[var(--text-muted)] font-medium">Action</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Price</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Size</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">P&L</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Fee</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {data.trades.map((trade, i) => (
+                                                <tr key={`${trade.positionId}-${i}`} className="border-b border-[var(--border-secondary)]">
+                                                    <td className="py-3 px-2 text-xs text-[var(--text-muted)]">{formatDateTime(trade.at)}</td>
+                                                    <td className="py-3 px-2 font-medium">{trade.coin}</td>
+                                                    <td className="py-3 px-2"><DirectionBadge direction={trade.direction} /></td>
+                                                    <td className="py-3 px-2 text-xs">
+                                                        {trade.side === 'OPEN' ? 'Open' : 'Close'}
+                                                        <span className="text-[var(--text-muted)]"> · {trade.reason.replace(/_/g, ' ')}</span>
+                                                    </td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs">{formatPrice(trade.price)}</td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs">{Math.round(trade.fraction * 100)}%</td>
+                                                    <td className={`py-3 px-2 text-right font-mono text-xs ${pnlColor(trade.pnl)}`}>
+                                                        {trade.side === 'OPEN' ? '-' : formatSignedUsd(trade.pnl)}
+                                                    </td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs text-[var(--text-muted)]">{formatUsd(trade.fee)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ) : (
+                                <div className="h-24 flex items-center justify-center text-[var(--text-muted)]">
+                                    No trades yet — positions open with the next signal
+                                </div>
+                            )}
+                        </section>
+                    )}
+                </div>
+            </main>
+        </>
+    );
+}
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+function DirectionBadge({ direction }: { direction: 'LONG' | 'SHORT' }) {
+    return (
+        <span className={`text-xs font-semibold px-2 py-0.5 rounded ${direction === 'LONG'
+            ? 'bg-[rgba(16,185,129,0.15)] text-[var(--accent-green)]'
+            : 'bg-[rgba(239,68,68,0.15)] text-[var(--accent-red)]'}`}>
+            {direction}
+        </span>
+    );
+}
+
+function EquityCurve({ points, startingBalance }: { points: PaperEquityPoint[]; startingBalance: number }) {
+    if (points.length < 2) {
+        return (
+            <div className="h-48 flex items-center justify-center text-[var(--text-muted)] rounded-lg bg-black/40">
+                No trades yet
+            </div>
+        );
+    }
+
+    const chartHeight = 240;
+    const values = points.map(p => p.equity);
+    const max = Math.max(...values, startingBalance);
+    const min = Math.min(...values, startingBalance);
+    const padding = Math.max((max - min) * 0.1, startingBalance * 0.005);
+    const top = max + padding;
+    const range = top - (min - padding);
+
+    const getX = (index: number) => 2 + (index / (points.length - 1)) * 96;
+    const getY = (equity: number) => 10 + ((top - equity) / range) * (chartHeight - 20);
+
+    const linePath = `M ${points.map((p, i) => `${getX(i)},${getY(p.equity)}`).join(' L ')}`;
+    const baseY = getY(startingBalance);
+    const final = points[points.length - 1].equity;
+
+    return (
+        <div>
+            <div className="relative rounded-lg overflow-hidden bg-black" style={{ height: `${chartHeight}px` }}>
+                <div className="absolute left-2 top-1 text-[11px] text-white/70">{formatUsd(max)}</div>
+                <div className="absolute left-2 bottom-1 text-[11px] text-white/70">{formatUsd(min)}</div>
+                <svg viewBox={`0 0 100 ${chartHeight}`} preserveAspectRatio="none" className="w-full h-full">
+                    {/* Starting balance */}
+                    <line x1="0" y1={baseY} x2="100" y2={baseY} stroke="rgba(255,255,255,0.15)" strokeWidth="0.2" />
+                    <path
+                        d={linePath}
+                        fill="none"
+                        stroke={final >= startingBalance ? '#22c55e' : '#ef4444'}
+                        strokeWidth="0.7"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                    />
+                </svg>
+            </div>
+            <div className="flex justify-between text-xs text-[var(--text-muted)] mt-2">
+                <span>{formatDateTime(points[0].at)}</span>
+                <span>Now · {formatUsd(final)}</span>
+            </div>
+        </div>
+    );
+}
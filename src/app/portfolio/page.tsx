@@ -0,0 +1,249 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Header from '@/components/Header';
+import type { PortfolioPlan, PortfolioSettings } from '@/lib/engine';
+
+// ============================================================================
+// SETTINGS FORM
+// ============================================================================
+
+const SETTING_FIELDS: { key: keyof PortfolioSettings; label: string; suffix: string; step: number }[] = [
+    { key: 'accountSize', label: 'Account Size', suffix: 'USD', step: 100 },
+    { key: 'riskPerTradePct', label: 'Risk per Trade', suffix: '%', step: 0.1 },
+    { key: 'maxGrossExposurePct', label: 'Max Gross Exposure', suffix: '%', step: 10 },
+    { key: 'maxNetExposurePct', label: 'Max Net Exposure', suffix: '%', step: 10 },
+    { key: 'maxCorrelatedExposurePct', label: 'Max Correlated Exposure', suffix: '%', step: 10 },
+    { key: 'correlationThreshold', label: 'Correlation Threshold', suffix: 'ρ', step: 0.05 },
+];
+
+const formatUsd = (value: number) =>
+    `$${value.toLocaleString(undefined, { maximumFractionDigits: value >= 100 ? 0 : 2 })}`;
+
+const formatPrice = (price: number) => {
+    if (price >= 1000) return `$${price.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+    if (price >= 1) return `$${price.toFixed(2)}`;
+    if (price >= 0.01) return `$${price.toFixed(4)}`;
+    return `$${price.toFixed(6)}`;
+};
+
+// ============================================================================
+// PAGE COMPONENT
+// ============================================================================
+
+export default function PortfolioPage() {
+    const [plan, setPlan] = useState<PortfolioPlan | null>(null);
+    const [draft, setDraft] = useState<PortfolioSettings | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadPlan = useCallback(async () => {
+        try {
+            const res = await fetch('/api/portfolio');
+            if (!res.ok) throw new Error('Failed to load portfolio');
+            const data: PortfolioPlan = await res.json();
+            setPlan(data);
+            setDraft(data.settings);
+            setError(null);
+        } catch (err) {
+            console.error(err);
+            setError('Failed to load portfolio');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadPlan();
+    }, [loadPlan]);
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setSaving(true);
+        try {
+            const res = await fetch('/api/portfolio', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(draft),
+            });
+            if (!res.ok) throw new Error('Failed to save settings');
+            await loadPlan();
+        } catch (err) {
+            console.error(err);
+            setError('Failed to save settings');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const exposure = plan?.exposure;
+
+    return (
+        <>
+            <Header />
+            <main className="min-h-screen pt-28 pb-20 px-6 lg:px-12">
+                <div className="max-w-6xl mx-auto space-y-8">
+
+                    {/* Header */}
+                    <header className="card p-6">
+                        <h1 className="text-3xl md:text-4xl font-semibold mb-2 text-[var(--text-primary)]">Portfolio</h1>
+                        <p className="text-[var(--text-secondary)] max-w-2xl">
+                            What every open signal would mean for your book: each position risks a fixed share of your
+                            account at its stop, then gets scaled down to fit your gross, net and correlated exposure limits.
+                        </p>
+                    </header>
+
+                    {error && (
+                        <div className="card p-4 border-l-4 border-l-[var(--accent-red)] text-[var(--accent-red)]">{error}</div>
+                    )}
+
+                    {/* Settings */}
+                    {draft && (
+                        <section className="card p-6">
+                            <h2 className="text-xl font-semibold mb-4">Account & Limits</h2>
+                            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
+                                {SETTING_FIELDS.map(field => (
+                                    <label key={field.key} className="text-sm">
+                                        <span className="block text-[var(--text-muted)] mb-1">
+                                            {field.label} <span className="text-xs">({field.suffix})</span>
+                                        </span>
+                                        <input
+                                            type="number"
+                                            step={field.step}
+                                            value={draft[field.key]}
+                                            onChange={e => setDraft({ ...draft, [field.key]: Number(e.target.value) })}
+                                            className="w-full px-3 py-2 rounded-lg border border-[var(--border-primary)] bg-[var(--bg-secondary)] font-mono"
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                            <button onClick={handleSave} disabled={saving} className="btn btn-primary">
+                                {saving ? 'Saving...' : 'Save & Recalculate'}
+                            </button>
+                        </section>
+                    )}
+
+                    {loading && (
+                        <div className="card p-6">
+                            <div className="skeleton h-6 w-48 mb-4" />
+                            <div className="skeleton h-64 w-full rounded-lg" />
+                        </div>
+                    )}
+
+                    {/* Exposure Summary */}
+                    {exposure && (
+                        <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <div className="card p-5 text-center">
+                                <p className="text-3xl font-bold">{exposure.grossPct}%</p>
+                                <p className="text-sm text-[var(--text-muted)] mt-1">Gross Exposure</p>
+                                <p className="text-xs text-[var(--text-muted)]">{formatUsd(exposure.gross)}</p>
+                            </div>
+                            <div className="card p-5 text-center">
+                                <p className={`text-3xl font-bold ${exposure.net >= 0 ? 'text-[var(--accent-green)]' : 'text-[var(--accent-red)]'}`}>
+                                    {exposure.netPct >= 0 ? '+' : ''}{exposure.netPct}%
+                                </p>
+                                <p className="text-sm text-[var(--text-muted)] mt-1">Net Exposure</p>
+                                <p className="text-xs text-[var(--text-muted)]">
+                                    {formatUsd(exposure.long)} long / {formatUsd(exposure.short)} short
+                                </p>
+                            </div>
+                            <div className="card p-5 text-center">
+                                <p className="text-3xl font-bold text-[var(--accent-red)]">-{exposure.totalRiskPct}%</p>
+                                <p className="text-sm text-[var(--text-muted)] mt-1">Risk if All Stops Hit</p>
+                                <p className="text-xs text-[var(--text-muted)]">{formatUsd(exposure.totalRisk)}</p>
+                            </div>
+                            <div className="card p-5 text-center">
+                                <p className="text-3xl font-bold">{plan.positions.filter(p => p.notional > 0).length}</p>
+                                <p className="text-sm text-[var(--text-muted)] mt-1">Positions</p>
+                                <p className="text-xs text-[var(--text-muted)]">
+                                    {plan.positions.filter(p => p.cappedBy.length > 0).length} scaled down by limits
+                                </p>
+                            </div>
+                        </section>
+                    )}
+
+                    {/* Positions */}
+                    {plan && (
+                        <section className="card p-6">
+                            <h2 className="text-xl font-semibold mb-4">Positions</h2>
+                            {plan.positions.length > 0 ? (
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="border-b border-[var(--border-primary)]">
+                                                <th className="text-left py-3 px-2 text-[var(--text-muted)] font-medium">Coin</th>
+                                                <th className="text-left py-3 px-2 text-[var(--text-muted)] font-medium">Dir</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Entry</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Stop</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Size</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Quantity</th>
+                                                <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Risk</th>
+                                                <th className="text-left py-3 px-2 text-[var(--text-muted)] font-medium">Limits</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {plan.positions.map(position => (
+                                                <tr key={position.id} className="border-b border-[var(--border-secondary)]">
+                                                    <td className="py-3 px-2 font-medium">{position.coin}</td>
+                                                    <td className="py-3 px-2">
+                                                        <span className={`text-xs font-semibold px-2 py-0.5 rounded ${position.direction === 'LONG'
+                                                            ? 'bg-[rgba(16,185,129,0.15)] text-[var(--accent-green)]'
+                                                            : 'bg-[rgba(239,68,68,0.15)] text-[var(--accent-red)]'}`}>
+                                                            {position.direction}
+                                                        </span>
+                                                    </td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs">{formatPrice(position.entryPrice)}</td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs">{formatPrice(position.stopLoss)}</td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs">
+                                                        {formatUsd(position.notional)}
+                                                        {position.scale > 0 && position.scale < 1 && (
+                                                            <span className="block text-[var(--text-muted)]">of {formatUsd(position.targetNotional)}</span>
+                                                        )}
+                                                    </td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs">{position.quantity}</td>
+                                                    <td className="py-3 px-2 text-right font-mono text-xs text-[var(--accent-red)]">
+                                                        {formatUsd(position.riskAmount)} ({position.riskPct}%)
+                                                    </td>
+                                                    <td className="py-3 px-2 text-xs text-[var(--text-muted)]">
+                                                        {!position.valid ? position.reason : position.cappedBy.join(', ') || '-'}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ) : (
+                                <div className="h-32 flex items-center justify-center text-[var(--text-muted)]">
+                                    No open signals to size
+                                </div>
+                            )}
+                        </section>
+                    )}
+
+                    {/* Correlated Clusters */}
+                    {plan && plan.clusters.some(c => c.coins.length > 1) && (
+                        <section className="card p-6">
+                            <h2 className="text-xl font-semibold mb-4">Correlated Exposure</h2>
+                            <p className="text-sm text-[var(--text-secondary)] mb-6">
+                                Same-direction positions whose 4h returns correlate above {plan.settings.correlationThreshold} share
+                                one {plan.settings.maxCorrelatedExposurePct}% budget — they tend to win and lose together.
+                            </p>
+                            <div className="space-y-3">
+                                {plan.clusters.filter(c => c.coins.length > 1).map(cluster => (
+                                    <div key={cluster.coins.join('-')} className="flex items-center justify-between text-sm">
+                                        <span>
+                                            <span className="font-semibold mr-2">{cluster.direction}</span>
+                                            {cluster.coins.join(', ')}
+                                        </span>
+                                        <span className="font-mono text-xs">{formatUsd(cluster.notional)} ({cluster.exposurePct}%)</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    )}
+                </div>
+            </main>
+        </>
+    );
+}
@@ -2,11 +2,15 @@
 
 import { useEffect, useState } from 'react';
 import Header from '@/components/Header';
+import CorrelationMatrix from '@/components/CorrelationMatrix';
+import RegimeHistory from '@/components/RegimeHistory';
 
 // ============================================================================
 // TYPES (from API response)
 // ============================================================================
 
+type ReturnsBasis = 'gross' | 'net';
+
 interface ScoreBucketStats {
     range: string;
     minScore: number;
@@ -14,6 +18,7 @@ interface ScoreBucketStats {
     total: number;
     wins: number;
     losses: number;
+    expired: number;
     open: number;
     winRate: number;
 }
@@ -26,22 +31,45 @@ interface RecentOutcome {
     entry_price: number;
     exit_price: number | null;
     profit_pct: number | null;
+    net_profit_pct: number | null;
+    trade_costs: { feesPct: number; spreadPct: number; fundingPct: number; totalPct: number } | null;
     outcome: string;
     exit_reason: string | null;
+    take_profit_targets: { price: number; fraction: number; rMultiple: number }[] | null;
+    tp_fills: { target: number; price: number; fraction: number; profitPct: number; at: string }[] | null;
     created_at: string;
     closed_at: string | null;
 }
 
+interface PartialPosition {
+    id: string;
+    coin: string;
+    direction: string;
+    score: number;
+    entryPrice: number;
+    targetsHit: number;
+    targetsTotal: number;
+    closedFraction: number;
+    realizedPct: number;
+    createdAt: string;
+}
+
 interface PerformanceSummary {
     totalSignals: number;
     completedSignals: number;
     openSignals: number;
+    partiallyClosed: number;
     wins: number;
     losses: number;
+    expired: number;
     overallWinRate: number;
     avgWinPct: number;
     avgLossPct: number;
+    avgExpiredPct: number;
     totalPct: number;
+    returnsBasis: ReturnsBasis;
+    costedSignals: number;
+    avgCostPct: number;
     isEarlyData: boolean;
     earlyDataThreshold: number;
 }
@@ -51,7 +79,7 @@ interface CumulativeReturn {
     coin: string;
     direction: string;
     score: number;
-    outcome: 'WON' | 'LOST';
+    outcome: 'WON' | 'LOST' | 'EXPIRED';
     profitPct: number;
     cumulativePct: number;
     closedAt: string;
@@ -73,6 +101,9 @@ interface ExitBreakdown {
     takeProfit: number;
     stopLoss: number;
     momentumExit: number;
+    trailingStop: number;
+    expired: number;
+    scaledOut: number;
 }
 
 interface BestWorstTrade {
@@ -90,12 +121,14 @@ export default function ProofPage() {
     const [bucketStats, setBucketStats] = useState<ScoreBucketStats[]>([]);
     const [summary, setSummary] = useState<PerformanceSummary | null>(null);
     const [recentOutcomes, setRecentOutcomes] = useState<RecentOutcome[]>([]);
+    const [partialPositions, setPartialPositions] = useState<PartialPosition[]>([]);
     const [cumulativeReturns, setCumulativeReturns] = useState<CumulativeReturn[]>([]);
     const [learningEvents, setLearningEvents] = useState<LearningEvent[]>([]);
     const [exitBreakdown, setExitBreakdown] = useState<ExitBreakdown | null>(null);
     const [bestTrade, setBestTrade] = useState<BestWorstTrade | null>(null);
     const [worstTrade, setWorstTrade] = useState<BestWorstTrade | null>(null);
     const [avgDurationHours, setAvgDurationHours] = useState<number>(0);
+    const [returnsBasis, setReturnsBasis] = useState<ReturnsBasis>('gross');
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
@@ -111,15 +144,15 @@ export default function ProofPage() {
     useEffect(() => {
         async function loadStats() {
             try {
-                setIsLoading(true);
                 // Fetch ALL signals (public, server-wide proof)
-                const response = await fetch('/api/proof-stats');
+                const response = await fetch(`/api/proof-stats?returns=${returnsBasis}`);
                 if (!response.ok) throw new Error('Failed to load stats');
 
                 const data = await response.json();
                 setBucketStats(data.bucketStats || []);
                 setSummary(data.summary || null);
                 setRecentOutcomes(data.recentOutcomes || []);
+                setPartialPositions(data.partialPositions || []);
                 setCumulativeReturns(data.cumulativeReturns || []);
                 setLearningEvents(data.learningEvents || []);
                 setExitBreakdown(data.exitBreakdown || null);
@@ -134,7 +167,7 @@ export default function ProofPage() {
             }
         }
         loadStats();
-    }, []);
+    }, [returnsBasis]);
 
     if (isLoading) {
         return (
@@ -165,6 +198,26 @@ export default function ProofPage() {
                                 and how it performed. Judge for yourself.
                             </p>
                         </div>
+                        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                            <div className="inline-flex rounded-lg bg-[var(--bg-secondary)] p-1 w-fit">
+                                {([['gross', 'Gross'], ['net', 'Net of costs']] as const).map(([basis, label]) => (
+                                    <button
+                                        key={basis}
+                                        onClick={() => setReturnsBasis(basis)}
+                                        className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${returnsBasis === basis
+                                            ? 'bg-white text-[var(--text-primary)] shadow-sm'
+                                            : 'text-[var(--text-muted)] hover:text-[var(--text-primary)]'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-xs text-[var(--text-muted)]">
+                                {returnsBasis === 'net'
+                                    ? `After taker fees, estimated spread and funding — ${summary?.costedSignals ?? 0} of ${summary?.completedSignals ?? 0} closed trades costed (avg ${summary?.avgCostPct ?? 0}% per trade); older trades count gross.`
+                                    : 'Mark-to-mark price moves, before fees, spread and funding.'}
+                            </p>
+                        </div>
                     </header>
 
                     {/* Early Data Warning */}
@@ -197,7 +250,7 @@ export default function ProofPage() {
                                 {summary?.overallWinRate || 0}%
                             </p>
                             <p className="text-sm text-[var(--text-muted)] mt-1">Win Rate</p>
-                            <p className="text-xs text-[var(--text-muted)]">{summary?.wins || 0} of {summary?.completedSignals || 0}</p>
+                            <p className="text-xs text-[var(--text-muted)]">{summary?.wins || 0} of {(summary?.wins || 0) + (summary?.losses || 0)}</p>
                         </div>
                         <div className="card p-5 text-center">
                             <p className="text-3xl font-bold text-[var(--accent-green)]">
@@ -225,6 +278,79 @@ export default function ProofPage() {
                         </div>
                     </section>
 
+                    {/* Exit Breakdown */}
+                    {exitBreakdown && (summary?.completedSignals || 0) > 0 && (
+                        <section className="card p-6">
+                            <h2 className="text-xl font-semibold mb-4">How Trades Closed</h2>
+                            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                                {[
+                                    { label: 'Take Profit', count: exitBreakdown.takeProfit, color: 'text-[var(--accent-green)]' },
+                                    { label: 'Trailing Stop', count: exitBreakdown.trailingStop ?? 0, color: 'text-[var(--accent-cyan)]' },
+                                    { label: 'Momentum Exit', count: exitBreakdown.momentumExit, color: 'text-[var(--accent-orange)]' },
+                                    { label: 'Stop Loss', count: exitBreakdown.stopLoss, color: 'text-[var(--accent-red)]' },
+                                    { label: 'Expired', count: exitBreakdown.expired ?? 0, color: 'text-[var(--text-muted)]' },
+                                ].map(exit => (
+                                    <div key={exit.label} className="text-center">
+                                        <p className={`text-2xl font-bold ${exit.color}`}>{exit.count}</p>
+                                        <p className="text-sm text-[var(--text-muted)] mt-1">{exit.label}</p>
+                                        <p className="text-xs text-[var(--text-muted)]">
+                                            {Math.round((exit.count / (summary?.completedSignals || 1)) * 100)}% of closed
+                                        </p>
+                                    </div>
+                                ))}
+                            </div>
+                            {(exitBreakdown.scaledOut ?? 0) > 0 && (
+                                <p className="text-xs text-[var(--text-muted)] mt-4 text-center">
+                                    {exitBreakdown.scaledOut} closed trades took partial profit at TP1 or later before the final exit.
+                                </p>
+                            )}
+                            {(summary?.expired ?? 0) > 0 && (
+                                <p className="text-xs text-[var(--text-muted)] mt-2 text-center">
+                                    {summary?.expired} trades hit neither stop nor target in time and closed at the mark
+                                    (avg {(summary?.avgExpiredPct ?? 0) >= 0 ? '+' : ''}{summary?.avgExpiredPct ?? 0}%). They count toward total return, not win rate.
+                                </p>
+                            )}
+                        </section>
+                    )}
+
+                    {/* Partially Closed (open signals with scaled-out tranches) */}
+                    {partialPositions.length > 0 && (
+                        <section className="card p-6">
+                            <h2 className="text-xl font-semibold mb-4">Partially Closed</h2>
+                            <p className="text-sm text-[var(--text-secondary)] mb-6">
+                                Open signals that already took profit on part of the position. Their final return is counted once the rest closes.
+                            </p>
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b border-[var(--border-primary)]">
+                                            <th className="text-left py-3 px-2 text-[var(--text-muted)] font-medium">Coin</th>
+                                            <th className="text-left py-3 px-2 text-[var(--text-muted)] font-medium">Dir</th>
+                                            <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Entry</th>
+                                            <th className="text-center py-3 px-2 text-[var(--text-muted)] font-medium">Targets Hit</th>
+                                            <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Closed</th>
+                                            <th className="text-right py-3 px-2 text-[var(--text-muted)] font-medium">Realized</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {partialPositions.map(position => (
+                                            <tr key={position.id} className="border-b border-[var(--border-secondary)]">
+                                                <td className="py-3 px-2 font-medium">{position.coin}</td>
+                                                <td className="py-3 px-2 text-xs font-semibold">{position.direction}</td>
+                                                <td className="py-3 px-2 text-right font-mono text-xs">{formatPrice(position.entryPrice)}</td>
+                                                <td className="py-3 px-2 text-center">{position.targetsHit} / {position.targetsTotal}</td>
+                                                <td className="py-3 px-2 text-right font-mono text-xs">{Math.round(position.closedFraction * 100)}%</td>
+                                                <td className={`py-3 px-2 text-right font-mono text-xs ${position.realizedPct >= 0 ? 'text-[var(--accent-green)]' : 'text-[var(--accent-red)]'}`}>
+                                                    {position.realizedPct >= 0 ? '+' : ''}{position.realizedPct.toFixed(2)}%
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </section>
+                    )}
+
                     {/* Score Distribution Chart */}
                     <section className="card p-6">
                         <h2 className="text-xl font-semibold mb-4">Score Distribution</h2>
@@ -273,6 +399,12 @@ export default function ProofPage() {
                         )}
                     </section>
 
+                    {/* Market Regime History */}
+                    <RegimeHistory />
+
+                    {/* Cross-Asset Correlation */}
+                    <CorrelationMatrix />
+
                     {/* Recent Outcomes Table */}
                     <section className="card p-6">
                         <h2 className="text-xl font-semibold mb-4">Recent Outcomes</h2>
@@ -296,7 +428,10 @@ export default function ProofPage() {
                                         </tr>
                                     </thead>
                                     <tbody>
-                                        {recentOutcomes.map(outcome => (
+                                        {recentOutcomes.map(outcome => {
+                                            const pl = (returnsBasis === 'net' ? outcome.net_profit_pct ?? outcome.profit_pct : outcome.profit_pct) || 0;
+                                            const costs = outcome.trade_costs;
+                                            return (
                                             <tr key={outcome.id} className="border-b border-[var(--border-secondary)] hover:bg-[var(--bg-secondary)] transition-colors">
                                                 <td className="py-3 px-2 font-medium">{outcome.coin}</td>
                                                 <td className="py-3 px-2">
@@ -310,20 +445,36 @@ export default function ProofPage() {
                                                 <td className="py-3 px-2 text-center">{outcome.score}</td>
                                                 <td className="py-3 px-2 text-right font-mono text-xs">{formatPrice(outcome.entry_price)}</td>
                                                 <td className="py-3 px-2 text-right font-mono text-xs">{formatPrice(outcome.exit_price)}</td>
-                                                <td className={`py-3 px-2 text-right font-mono text-xs ${(outcome.profit_pct || 0) >= 0 ? 'text-[var(--accent-green)]' : 'text-[var(--accent-red)]'
-                                                    }`}>
-                                                    {(outcome.profit_pct || 0) >= 0 ? '+' : ''}{outcome.profit_pct?.toFixed(2) || '0'}%
+                                                <td
+                                                    className={`py-3 px-2 text-right font-mono text-xs ${pl >= 0 ? 'text-[var(--accent-green)]' : 'text-[var(--accent-red)]'}`}
+                                                    title={costs
+                                                        ? `Gross ${outcome.profit_pct?.toFixed(2)}% · fees ${costs.feesPct}% · spread ${costs.spreadPct}% · funding ${costs.fundingPct}%`
+                                                        : 'No costs recorded'}
+                                                >
+                                                    {pl >= 0 ? '+' : ''}{pl.toFixed(2)}%
                                                 </td>
                                                 <td className="py-3 px-2 text-center">
                                                     <span className={`text-xs font-semibold px-2 py-0.5 rounded ${outcome.outcome === 'WON' ? 'bg-[rgba(16,185,129,0.15)] text-[var(--accent-green)]' :
-                                                        'bg-[rgba(239,68,68,0.15)] text-[var(--accent-red)]'
+                                                        outcome.outcome === 'EXPIRED' ? 'bg-[var(--bg-secondary)] text-[var(--text-muted)]' :
+                                                            'bg-[rgba(239,68,68,0.15)] text-[var(--accent-red)]'
                                                         }`}>
                                                         {outcome.outcome}
                                                     </span>
                                                 </td>
-                                                <td className="py-3 px-2 text-[var(--text-muted)]">{outcome.exit_reason || '-'}</td>
+                                                <td className="py-3 px-2 text-[var(--text-muted)]">
+                                                    {outcome.exit_reason || '-'}
+                                                    {(outcome.tp_fills?.length ?? 0) > 0 && (
+                                                        <span
+                                                            className="ml-2 text-xs text-[var(--accent-green)]"
+                                                            title="P/L is blended across all tranches"
+                                                        >
+                                                            after TP{(outcome.tp_fills ?? []).map(f => f.target + 1).join('/')}
+                                                        </span>
+                                                    )}
+                                                </td>
                                             </tr>
-                                        ))}
+                                            );
+                                        })}
                                     </tbody>
                                 </table>
                             </div>
@@ -409,7 +560,7 @@ function ScoreBucketRow({ bucket }: { bucket: ScoreBucketStats }) {
                             {winPercent.toFixed(0)}%
                         </span>
                         <span className="text-[var(--text-muted)] ml-2">
-                            ({bucket.wins}W/{bucket.losses}L)
+                            ({bucket.wins}W/{bucket.losses}L{bucket.expired > 0 ? `/${bucket.expired}E` : ''})
                         </span>
                     </>
                 ) : (
@@ -489,7 +640,8 @@ function CumulativeChart({ returns, learningEvents }: { returns: CumulativeRetur
             if (consecutiveLosses >= 3 && consecutiveLosses % 3 === 0) {
                 learningPositions.push({ x: getX(i), streakLength: consecutiveLosses });
             }
-        } else {
+        } else if (returns[i].outcome !== 'EXPIRED') {
+            // Expired trades neither extend nor break a streak (same as the learning cron)
             consecutiveLosses = 0;
         }
     }
@@ -558,7 +710,7 @@ function CumulativeChart({ returns, learningEvents }: { returns: CumulativeRetur
                     )}
 
                     {/* Single point */}
-                    {points.length === 1 && <circle cx={points[0].x} cy={points[0].y} r="2" fill={points[0].data.outcome === 'WON' ? '#22c55e' : '#ef4444'} />}
+                    {points.length === 1 && <circle cx={points[0].x} cy={points[0].y} r="2" fill={points[0].data.outcome === 'WON' ? '#22c55e' : points[0].data.outcome === 'EXPIRED' ? '#94a3b8' : '#ef4444'} />}
 
 
 
@@ -579,7 +731,7 @@ function CumulativeChart({ returns, learningEvents }: { returns: CumulativeRetur
                                     cx={point.x}
                                     cy={point.y}
                                     r={hoveredIndex === i ? 1.5 : 0.8}
-                                    fill={point.data.outcome === 'WON' ? '#22c55e' : '#ef4444'}
+                                    fill={point.data.outcome === 'WON' ? '#22c55e' : point.data.outcome === 'EXPIRED' ? '#94a3b8' : '#ef4444'}
                                 />
                             )}
                         </g>
@@ -601,7 +753,7 @@ function CumulativeChart({ returns, learningEvents }: { returns: CumulativeRetur
                                 <span className={`text-xs px-1.5 py-0.5 rounded ${hoveredPoint.data.direction === 'LONG' ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>
                                     {hoveredPoint.data.direction}
                                 </span>
-                                <span className={`px-2 py-0.5 rounded text-xs ${hoveredPoint.data.outcome === 'WON' ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>
+                                <span className={`px-2 py-0.5 rounded text-xs ${hoveredPoint.data.outcome === 'WON' ? 'bg-green-500/20 text-green-400' : hoveredPoint.data.outcome === 'EXPIRED' ? 'bg-slate-500/20 text-slate-300' : 'bg-red-500/20 text-red-400'}`}>
                                     {hoveredPoint.data.outcome}
                                 </span>
                                 <span className={`font-mono font-semibold ${hoveredPoint.data.profitPct > 0 ? 'text-green-400' : 'text-red-400'}`}>
@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import Header from '@/components/Header';
+import CorrelationMatrix from '@/components/CorrelationMatrix';
 import Link from 'next/link';
 import { SignalOutput } from '@/lib/engine';
 import {
@@ -337,6 +338,13 @@ export default function WatchlistPage() {
                     </div>
                 )}
 
+                {/* Correlation between watched assets */}
+                {!loading && watchlist.length > 1 && (
+                    <div className="mt-8">
+                        <CorrelationMatrix coins={watchlist.map(item => item.coin)} />
+                    </div>
+                )}
+
                 {/* Add More Link */}
                 {!loading && watchlist.length > 0 && (
                     <div className="mt-8 text-center">
@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+type BreakerMode = 'PAUSE' | 'DIRECTION_ONLY' | 'RAISE_THRESHOLD';
+
+interface BreakerStatus {
+    active: boolean;
+    mode: BreakerMode | null;
+    direction: 'LONG' | 'SHORT' | null;
+    minScore: number | null;
+    reasons: string[];
+    trippedAt: string | null;
+}
+
+const MODE_CONFIG: Record<BreakerMode, { title: string; color: string; bg: string; border: string }> = {
+    PAUSE: {
+        title: 'Signal generation paused',
+        color: 'text-red-700',
+        bg: 'bg-red-50',
+        border: 'border-red-200',
+    },
+    DIRECTION_ONLY: {
+        title: 'Signals restricted to one direction',
+        color: 'text-amber-700',
+        bg: 'bg-amber-50',
+        border: 'border-amber-200',
+    },
+    RAISE_THRESHOLD: {
+        title: 'Only high-score signals',
+        color: 'text-amber-700',
+        bg: 'bg-amber-50',
+        border: 'border-amber-200',
+    },
+};
+
+function describe(status: BreakerStatus): string {
+    switch (status.mode) {
+        case 'PAUSE':
+            return 'No new signals until performance recovers.';
+        case 'DIRECTION_ONLY':
+            return `Only ${status.direction} signals are being generated.`;
+        case 'RAISE_THRESHOLD':
+            return `New signals need a score of at least ${status.minScore}.`;
+        default:
+            return '';
+    }
+}
+
+export default function CircuitBreakerBanner() {
+    const [status, setStatus] = useState<BreakerStatus | null>(null);
+
+    useEffect(() => {
+        async function fetchStatus() {
+            try {
+                const res = await fetch('/api/circuit-breaker');
+                const data = await res.json();
+                setStatus(data);
+            } catch (error) {
+                console.error('Failed to fetch circuit breaker:', error);
+            }
+        }
+
+        fetchStatus();
+        const interval = setInterval(fetchStatus, 300000); // Refresh every 5 min
+        return () => clearInterval(interval);
+    }, []);
+
+    if (!status?.active || !status.mode) return null;
+
+    const config = MODE_CONFIG[status.mode];
+
+    return (
+        <div className={`card p-5 mb-8 border ${config.bg} ${config.border}`}>
+            <div className="flex items-start gap-4">
+                <span className="text-2xl">⚡</span>
+                <div className="flex-1 min-w-0">
+                    <div className={`font-semibold ${config.color}`}>
+                        Circuit breaker: {config.title}
+                    </div>
+                    <p className="text-sm text-slate-600 mt-1">
+                        {describe(status)}
+                        {status.trippedAt && (
+                            <span className="text-slate-400"> Since {new Date(status.trippedAt).toLocaleString()}.</span>
+                        )}
+                    </p>
+                    {status.reasons.length > 0 && (
+                        <p className="text-xs text-slate-500 mt-1">{status.reasons.join(' · ')}</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { CorrelationMatrix as Matrix, CrossAssetStats } from '@/lib/engine';
+
+interface CorrelationData {
+    matrix: Matrix;
+    relativeStrength: CrossAssetStats[];
+    interval: string;
+}
+
+interface CorrelationMatrixProps {
+    /** Restrict the matrix and ranking to these coins (e.g. the user's watchlist) */
+    coins?: string[];
+}
+
+/** Green for positive correlation, red for negative, opacity by magnitude */
+function cellColor(value: number): string {
+    const alpha = Math.min(1, Math.abs(value)) * 0.6;
+    return value >= 0 ? `rgba(16,185,129,${alpha})` : `rgba(239,68,68,${alpha})`;
+}
+
+export default function CorrelationMatrix({ coins }: CorrelationMatrixProps) {
+    const [data, setData] = useState<CorrelationData | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        async function fetchCorrelation() {
+            try {
+                const res = await fetch('/api/correlation');
+                if (res.ok) setData(await res.json());
+            } catch (error) {
+                console.error('Failed to fetch correlation:', error);
+            } finally {
+                setLoading(false);
+            }
+        }
+
+        fetchCorrelation();
+    }, []);
+
+    if (loading) {
+        return (
+            <section className="card p-6">
+                <div className="skeleton h-6 w-48 mb-4" />
+                <div className="skeleton h-64 w-full rounded-lg" />
+            </section>
+        );
+    }
+
+    if (!data || data.matrix.coins.length === 0) return null;
+
+    const filter = coins ? new Set(coins.map(c => c.toUpperCase())) : null;
+    const indices = data.matrix.coins
+        .map((coin, i) => ({ coin, i }))
+        .filter(({ coin }) => !filter || filter.has(coin));
+    const ranking = data.relativeStrength.filter(s => !filter || filter.has(s.coin));
+
+    if (indices.length === 0) return null;
+
+    return (
+        <section className="card p-6">
+            <h2 className="text-xl font-semibold mb-4">Cross-Asset Correlation</h2>
+            <p className="text-sm text-[var(--text-secondary)] mb-6">
+                Correlation of {data.interval} returns over the last {data.matrix.window} bars, and each coin&apos;s
+                relative strength against the rest of the basket.
+            </p>
+
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                {/* Matrix */}
+                <div className="xl:col-span-2 overflow-x-auto">
+                    <table className="text-xs font-mono border-separate border-spacing-0.5">
+                        <thead>
+                            <tr>
+                                <th />
+                                {indices.map(({ coin }) => (
+                                    <th key={coin} className="px-1 py-1 text-[var(--text-muted)] font-medium">{coin}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {indices.map(({ coin: rowCoin, i }) => (
+                                <tr key={rowCoin}>
+                                    <th className="pr-2 text-left text-[var(--text-muted)] font-medium">{rowCoin}</th>
+                                    {indices.map(({ coin: colCoin, i: j }) => {
+                                        const value = data.matrix.matrix[i][j];
+                                        return (
+                                            <td
+                                                key={colCoin}
+                                                className="w-11 h-8 text-center rounded"
+                                                style={{ backgroundColor: cellColor(value) }}
+                                                title={`${rowCoin} / ${colCoin}: ${value.toFixed(2)}`}
+                                            >
+                                                {value.toFixed(2)}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                {/* Relative Strength Ranking */}
+                <div>
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="border-b border-[var(--border-primary)]">
+                                <th className="text-left py-2 px-2 text-[var(--text-muted)] font-medium">#</th>
+                                <th className="text-left py-2 px-2 text-[var(--text-muted)] font-medium">Coin</th>
+                                <th className="text-right py-2 px-2 text-[var(--text-muted)] font-medium">vs Basket</th>
+                                <th className="text-right py-2 px-2 text-[var(--text-muted)] font-medium">β BTC</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {ranking.map(s => (
+                                <tr key={s.coin} className="border-b border-[var(--border-secondary)]">
+                                    <td className="py-2 px-2 text-[var(--text-muted)]">{s.rank}</td>
+                                    <td className="py-2 px-2 font-medium">{s.coin}</td>
+                                    <td className={`py-2 px-2 text-right font-mono text-xs ${s.excessReturnBasket >= 0 ? 'text-[var(--accent-green)]' : 'text-[var(--accent-red)]'}`}>
+                                        {s.excessReturnBasket >= 0 ? '+' : ''}{s.excessReturnBasket.toFixed(2)}%
+                                    </td>
+                                    <td className="py-2 px-2 text-right font-mono text-xs">{s.betaBtc.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </section>
+    );
+}
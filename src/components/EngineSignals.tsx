@@ -10,6 +10,7 @@ import {
     addSignalToDb,
     DbSignal
 } from '@/lib/supabase';
+import type { TrancheFill } from '@/lib/types/database';
 
 import { logger } from '@/lib/logger';
 
@@ -17,6 +18,7 @@ interface EngineSignal extends SignalOutput {
     name: string;
     image: string;
     sparkline?: number[];
+    tp_fills?: TrancheFill[];   // Tranches already closed on the tracked signal for this coin and direction
 }
 
 interface EngineSignalsResponse {
@@ -129,7 +131,11 @@ export default function EngineSignals({ externalFilter, hideFilterTabs = false }
                 }
 
                 const data: EngineSignalsResponse = await res.json();
-                setSignals(data.signals || []);
+
+                // Attach the closed tranches of the matching tracked signal, so a shared card shows the partial close
+                const openSignals = await getOpenSignals();
+                const fillsByKey = new Map(openSignals.map(s => [`${s.coin}:${s.direction}`, s.tp_fills ?? []]));
+                setSignals((data.signals || []).map(s => ({ ...s, tp_fills: fillsByKey.get(`${s.coin}:${s.direction}`) })));
                 setFearGreed(data.fearGreed);
                 setLastUpdated(data.lastUpdated);
                 setError(null);
@@ -13,6 +13,8 @@ export default function Header() {
     const navLinks = [
         { href: '/', label: 'Dashboard' },
         { href: '/watchlist', label: 'Watchlist' },
+        { href: '/portfolio', label: 'Portfolio' },
+        { href: '/paper', label: 'Paper' },
         { href: '/signals', label: 'Signals' },
         { href: '/proof', label: 'Proof' },
         { href: '/learning', label: 'Learning' },
@@ -8,7 +8,7 @@ interface QuantViewProps {
     signals: (SignalOutput & { name?: string; image?: string })[];
 }
 
-type SortKey = 'score' | 'coin' | 'direction' | 'entry' | 'rr' | 'timestamp';
+type SortKey = 'score' | 'coin' | 'direction' | 'entry' | 'rr' | 'leverage' | 'timestamp';
 type SortDir = 'asc' | 'desc';
 
 /**
@@ -47,6 +47,10 @@ export default function QuantView({ signals }: QuantViewProps) {
                 aVal = a.riskRewardRatio;
                 bVal = b.riskRewardRatio;
                 break;
+            case 'leverage':
+                aVal = a.recommendedLeverage;
+                bVal = b.recommendedLeverage;
+                break;
             case 'timestamp':
                 aVal = new Date(a.timestamp).getTime();
                 bVal = new Date(b.timestamp).getTime();
@@ -151,6 +155,15 @@ export default function QuantView({ signals }: QuantViewProps) {
                             >
                                 R:R{getSortIcon('rr')}
                             </th>
+                            <th
+                                onClick={() => handleSort('leverage')}
+                                className="text-center py-3 px-4 text-[var(--text-muted)] font-medium cursor-pointer hover:text-[var(--text-primary)] transition-colors"
+                            >
+                                Lev{getSortIcon('leverage')}
+                            </th>
+                            <th className="text-right py-3 px-4 text-[var(--text-muted)] font-medium">
+                                Liq
+                            </th>
                             <th
                                 onClick={() => handleSort('timestamp')}
                                 className="text-right py-3 px-4 text-[var(--text-muted)] font-medium cursor-pointer hover:text-[var(--text-primary)] transition-colors"
@@ -205,6 +218,19 @@ export default function QuantView({ signals }: QuantViewProps) {
                                 <td className="py-3 px-4 text-center font-mono text-xs text-[var(--accent-cyan)]">
                                     {signal.direction === 'HOLD' ? '—' : `${signal.riskRewardRatio.toFixed(1)}:1`}
                                 </td>
+                                <td className="py-3 px-4 text-center font-mono text-xs">
+                                    {signal.direction === 'HOLD' ? '—' : (
+                                        <span
+                                            className={signal.leverageWarning ? 'text-[var(--accent-orange)]' : 'text-[var(--text-primary)]'}
+                                            title={signal.leverageWarning ?? undefined}
+                                        >
+                                            {signal.recommendedLeverage}×{signal.leverageWarning ? ' ⚠' : ''}
+                                        </span>
+                                    )}
+                                </td>
+                                <td className="py-3 px-4 text-right font-mono text-xs text-[var(--text-muted)]">
+                                    {signal.direction === 'HOLD' || signal.liquidationPrice <= 0 ? '—' : formatPrice(signal.liquidationPrice)}
+                                </td>
                                 <td className="py-3 px-4 text-right text-xs text-[var(--text-muted)]">
                                     {new Date(signal.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                                 </td>
@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { RegimeHistoryResponse } from '@/app/api/regime-history/route';
+
+const REGIME_STYLE: Record<string, { label: string; color: string }> = {
+    BULL_TREND: { label: 'Bull Trend', color: '#10b981' },
+    BEAR_TREND: { label: 'Bear Trend', color: '#ef4444' },
+    HIGH_VOL_CHOP: { label: 'Choppy', color: '#f59e0b' },
+    ACCUMULATION: { label: 'Accumulation', color: '#8b5cf6' },
+    DISTRIBUTION: { label: 'Distribution', color: '#f97316' },
+    RECOVERY_PUMP: { label: 'Recovery Pump', color: '#06b6d4' },
+    UNKNOWN: { label: 'Unknown', color: '#94a3b8' },
+};
+
+const styleFor = (regime: string) => REGIME_STYLE[regime] ?? REGIME_STYLE.UNKNOWN;
+
+const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/** Win rate with its record, or a dash when nothing resolved */
+function WinRate({ wins, losses, winRate }: { wins: number; losses: number; winRate: number }) {
+    if (wins + losses === 0) return <span className="text-[var(--text-muted)]">—</span>;
+    return (
+        <>
+            <span className={`font-semibold ${winRate >= 50 ? 'text-[var(--accent-green)]' : 'text-[var(--accent-red)]'}`}>
+                {winRate.toFixed(0)}%
+            </span>
+            <span className="text-[var(--text-muted)] ml-2">({wins}W/{losses}L)</span>
+        </>
+    );
+}
+
+export default function RegimeHistory() {
+    const [data, setData] = useState<RegimeHistoryResponse | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        async function fetchHistory() {
+            try {
+                const res = await fetch('/api/regime-history?days=30');
+                if (res.ok) setData(await res.json());
+            } catch (error) {
+                console.error('Failed to fetch regime history:', error);
+            } finally {
+                setLoading(false);
+            }
+        }
+
+        fetchHistory();
+    }, []);
+
+    if (loading) {
+        return (
+            <section className="card p-6">
+                <div className="skeleton h-6 w-48 mb-4" />
+                <div className="skeleton h-24 w-full rounded-lg" />
+            </section>
+        );
+    }
+
+    if (!data || data.bands.length === 0) return null;
+
+    const first = Date.parse(data.bands[0].start);
+    const last = Date.parse(data.bands[data.bands.length - 1].end);
+    const span = Math.max(last - first, 1);
+    const regimesShown = [...new Set(data.bands.map(b => b.regime))];
+
+    return (
+        <section className="card p-6">
+            <h2 className="text-xl font-semibold mb-4">Market Regimes</h2>
+            <p className="text-sm text-[var(--text-secondary)] mb-6">
+                Detected regime over the last {data.days} days. A new regime only starts once consecutive
+                runs agree, so single noisy readings don&apos;t split a band.
+            </p>
+
+            {/* Regime bands */}
+            <div className="flex h-10 rounded-lg overflow-hidden bg-[var(--bg-tertiary)]">
+                {data.bands.map((band, i) => {
+                    const width = data.bands.length === 1
+                        ? 100
+                        : ((Date.parse(band.end) - Date.parse(band.start)) / span) * 100;
+                    return (
+                        <div
+                            key={`${band.start}-${i}`}
+                            className="h-full transition-opacity hover:opacity-80"
+                            style={{ width: `${width}%`, minWidth: '2px', backgroundColor: styleFor(band.regime).color }}
+                            title={`${styleFor(band.regime).label}: ${formatDate(band.start)} – ${formatDate(band.end)}`}
+                        />
+                    );
+                })}
+            </div>
+            <div className="flex justify-between mt-2 text-xs text-[var(--text-muted)]">
+                <span>{formatDate(data.bands[0].start)}</span>
+                {data.current && (
+                    <span>
+                        Now: {styleFor(data.current.regime).label} ({Math.round(data.current.confidence * 100)}% confidence)
+                    </span>
+                )}
+                <span>{formatDate(data.bands[data.bands.length - 1].end)}</span>
+            </div>
+            {data.shadow.agreement !== null && (
+                <p className="text-xs text-[var(--text-muted)] mt-2">
+                    Statistical classifier (shadow mode) agrees with the rule-based regime on{' '}
+                    {Math.round(data.shadow.agreement * 100)}% of {data.shadow.runs} runs.
+                </p>
+            )}
+
+            {/* Legend */}
+            <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-[var(--text-secondary)]">
+                {regimesShown.map(regime => (
+                    <div key={regime} className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: styleFor(regime).color }} />
+                        <span>{styleFor(regime).label}</span>
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+                {/* Win rate per regime */}
+                <div>
+                    <h3 className="text-sm font-semibold text-[var(--text-primary)] mb-3">Win Rate by Regime</h3>
+                    {data.byRegime.length > 0 ? (
+                        <table className="w-full text-sm">
+                            <tbody>
+                                {data.byRegime.map(row => (
+                                    <tr key={row.regime} className="border-b border-[var(--border-primary)]">
+                                        <td className="py-2">
+                                            <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: styleFor(row.regime).color }} />
+                                            {styleFor(row.regime).label}
+                                        </td>
+                                        <td className="py-2 text-right"><WinRate {...row} /></td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    ) : (
+                        <p className="text-sm text-[var(--text-muted)]">No resolved signals yet</p>
+                    )}
+                </div>
+
+                {/* Win rate per transition */}
+                <div>
+                    <h3 className="text-sm font-semibold text-[var(--text-primary)] mb-3">Win Rate after Transition</h3>
+                    {data.transitions.length > 0 ? (
+                        <table className="w-full text-sm">
+                            <tbody>
+                                {data.transitions.map(row => (
+                                    <tr key={`${row.from}-${row.to}`} className="border-b border-[var(--border-primary)]">
+                                        <td className="py-2">
+                                            {styleFor(row.from).label} → {styleFor(row.to).label}
+                                            <span className="text-xs text-[var(--text-muted)] ml-2">×{row.occurrences}</span>
+                                        </td>
+                                        <td className="py-2 text-right"><WinRate {...row} /></td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    ) : (
+                        <p className="text-sm text-[var(--text-muted)]">No regime transitions in this window</p>
+                    )}
+                </div>
+            </div>
+        </section>
+    );
+}
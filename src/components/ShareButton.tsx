@@ -4,9 +4,11 @@ import { useState, useRef } from 'react';
 import { SignalOutput } from '@/lib/engine/scoring';
 import { generatePng, downloadPng, openTwitterIntent } from '@/lib/share';
 import ShareableCard from './ShareableCard';
+import type { TrancheFill } from '@/lib/types/database';
 
 interface ShareButtonProps {
     signal: SignalOutput & { name?: string; image?: string };
+    fills?: TrancheFill[];
 }
 
 /**
@@ -15,7 +17,7 @@ interface ShareButtonProps {
  * Renders a share button that generates a PNG of the signal
  * and opens Twitter intent.
  */
-export default function ShareButton({ signal }: ShareButtonProps) {
+export default function ShareButton({ signal, fills }: ShareButtonProps) {
     const [isSharing, setIsSharing] = useState(false);
     const cardRef = useRef<HTMLDivElement>(null);
 
@@ -100,7 +102,7 @@ export default function ShareButton({ signal }: ShareButtonProps) {
                     }}
                 >
                     <div ref={cardRef}>
-                        <ShareableCard signal={signal} />
+                        <ShareableCard signal={signal} fills={fills} />
                     </div>
                     {/* Loading text */}
                     <div style={{
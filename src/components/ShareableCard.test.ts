@@ -0,0 +1,44 @@
+/**
+ * LISAN INTELLIGENCE — Shareable Card Tests
+ *
+ * Renders the card to static markup and checks the TP ladder and partial-close line.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ShareableCard from './ShareableCard';
+import type { SignalOutput } from '@/lib/engine/scoring';
+import type { TrancheFill } from '@/lib/types/database';
+
+const part = (score: number, max: number) => ({ score, max });
+
+const SIGNAL = {
+    coin: 'ETH', direction: 'LONG', score: 72,
+    entryPrice: 100, stopLoss: 98, takeProfit: 106, riskRewardRatio: 3,
+    takeProfitTargets: [
+        { price: 102, fraction: 0.5, rMultiple: 1 },
+        { price: 106, fraction: 0.5, rMultiple: 3 },
+    ],
+    breakdown: {
+        momentum: part(20, 25), trend: part(15, 20), volume: part(10, 15),
+        sentiment: part(8, 15), positioning: part(12, 15), structure: part(0, 0),
+    },
+} as unknown as SignalOutput;
+
+/** Markup as text, without the comments React puts between adjacent text nodes */
+const render = (fills?: TrancheFill[]) =>
+    renderToStaticMarkup(createElement(ShareableCard, { signal: SIGNAL, fills })).replace(/<!-- -->/g, '');
+
+describe('ShareableCard', () => {
+    it('shows how much of the position closed and the return realized so far', () => {
+        const html = render([{ target: 0, price: 102, fraction: 0.5, profitPct: 2, at: '2026-01-01T00:00:00Z' }]);
+
+        expect(html).toContain('50% closed');
+        expect(html).toContain('+1.00% realized');
+    });
+
+    it('has no partial-close line before the first tranche', () => {
+        expect(render()).not.toContain('realized');
+    });
+});
@@ -1,18 +1,20 @@
 'use client';
 
 import { SignalOutput } from '@/lib/engine/scoring';
+import type { TrancheFill } from '@/lib/types/database';
 
 interface ShareableCardProps {
     signal: SignalOutput & { name?: string; image?: string };
+    fills?: TrancheFill[];      // Tranches already closed — marks hit targets and shows the realized return
 }
 
 /**
  * Premium Shareable Signal Card
  * 
  * Dark-mode frosted design for PNG export and Twitter sharing.
- * Shows score breakdown, risk levels, and LISAN branding.
+ * Shows score breakdown, risk levels (with the TP ladder), and LISAN branding.
  */
-export default function ShareableCard({ signal }: ShareableCardProps) {
+export default function ShareableCard({ signal, fills = [] }: ShareableCardProps) {
     const isLong = signal.direction === 'LONG';
     const isShort = signal.direction === 'SHORT';
     const dirColor = isLong ? '#10b981' : isShort ? '#ef4444' : '#64748b';
@@ -27,6 +29,12 @@ export default function ShareableCard({ signal }: ShareableCardProps) {
 
     const scoreColor = signal.score >= 70 ? '#10b981' : signal.score >= 40 ? '#f59e0b' : '#ef4444';
 
+    // Scale-out ladder: only worth a row when there is more than one target
+    const targets = signal.takeProfitTargets ?? [];
+    const filledTargets = new Set(fills.map(fill => fill.target));
+    const closedFraction = fills.reduce((sum, fill) => sum + fill.fraction, 0);
+    const realizedPct = fills.reduce((sum, fill) => sum + fill.fraction * fill.profitPct, 0);
+
     // Category breakdown bars
     const categories = [
         { label: 'Mom', score: signal.breakdown.momentum.score, max: signal.breakdown.momentum.max, color: '#f59e0b' },
@@ -34,6 +42,9 @@ export default function ShareableCard({ signal }: ShareableCardProps) {
         { label: 'Vol', score: signal.breakdown.volume.score, max: signal.breakdown.volume.max, color: '#8b5cf6' },
         { label: 'Sent', score: signal.breakdown.sentiment.score, max: signal.breakdown.sentiment.max, color: '#06b6d4' },
         { label: 'Pos', score: signal.breakdown.positioning.score, max: signal.breakdown.positioning.max, color: '#10b981' },
+        ...(signal.breakdown.structure?.max > 0
+            ? [{ label: 'Struct', score: signal.breakdown.structure.score, max: signal.breakdown.structure.max, color: '#14b8a6' }]
+            : []),
     ];
 
     return (
@@ -190,6 +201,56 @@ export default function ShareableCard({ signal }: ShareableCardProps) {
                     </div>
                 </div>
 
+                {/* TP Ladder */}
+                {targets.length > 1 && (
+                    <div style={{
+                        display: 'grid',
+                        gridTemplateColumns: `repeat(${targets.length}, 1fr)`,
+                        gap: '6px',
+                        marginBottom: '12px',
+                    }}>
+                        {targets.map((target, index) => {
+                            const filled = filledTargets.has(index);
+                            return (
+                                <div key={index} style={{
+                                    padding: '8px 10px',
+                                    borderRadius: '8px',
+                                    background: filled ? 'rgba(16,185,129,0.15)' : 'rgba(255,255,255,0.03)',
+                                    border: `1px solid ${filled ? 'rgba(16,185,129,0.4)' : 'rgba(255,255,255,0.06)'}`,
+                                }}>
+                                    <div style={{ fontSize: '10px', color: filled ? '#34d399' : '#94a3b8', fontWeight: '600', marginBottom: '2px' }}>
+                                        TP{index + 1} · {Math.round(target.fraction * 100)}%{filled ? ' ✓' : ''}
+                                    </div>
+                                    <div style={{ fontSize: '12px', fontWeight: '700', fontFamily: 'monospace', color: '#e2e8f0' }}>
+                                        {formatPrice(target.price)}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                {/* Partially closed: realized so far */}
+                {fills.length > 0 && (
+                    <div style={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center',
+                        padding: '10px 16px',
+                        borderRadius: '10px',
+                        background: 'rgba(16,185,129,0.08)',
+                        border: '1px solid rgba(16,185,129,0.15)',
+                        marginBottom: '12px',
+                    }}>
+                        <span style={{ fontSize: '12px', color: '#94a3b8', fontWeight: '500' }}>
+                            {Math.round(closedFraction * 100)}% closed
+                        </span>
+                        <span style={{ fontSize: '14px', fontWeight: '800', color: realizedPct >= 0 ? '#34d399' : '#f87171', fontFamily: 'monospace' }}>
+                            {realizedPct >= 0 ? '+' : ''}{realizedPct.toFixed(2)}% realized
+                        </span>
+                    </div>
+                )}
+
                 {/* R:R Bar */}
                 <div style={{
                     display: 'flex',
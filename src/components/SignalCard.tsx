@@ -5,6 +5,7 @@ import { useState, useEffect, useCallback } from 'react';
 import ShareButton from './ShareButton';
 import SignalDetailModal from './SignalDetailModal';
 import { useAuth } from '@/context/auth-context';
+import type { TrancheFill } from '@/lib/types/database';
 import {
     isInWatchlist as isInWatchlistDb,
     addToWatchlist,
@@ -19,7 +20,7 @@ function getScoreBucketWinRate(score: number): { winRate: number; sampleSize: nu
 }
 
 interface SignalCardProps {
-    signal: SignalOutput & { name?: string; image?: string };
+    signal: SignalOutput & { name?: string; image?: string; tp_fills?: TrancheFill[] };
     sparklineData?: number[];
     onWatchlistChange?: () => void;
 }
@@ -172,7 +173,7 @@ export default function SignalCard({ signal, sparklineData, onWatchlistChange }:
                         </svg>
                     </button>
                     {/* Share Button */}
-                    <ShareButton signal={signal} />
+                    <ShareButton signal={signal} fills={signal.tp_fills} />
                     {/* Watchlist Star Button */}
                     <button
                         onClick={handleWatchlistClick}
@@ -215,13 +216,16 @@ export default function SignalCard({ signal, sparklineData, onWatchlistChange }:
                 </div>
             </div>
 
-            {/* Row 5: Score breakdown — all 5 categories */}
+            {/* Row 5: Score breakdown — all categories (structure only when a pattern is present) */}
             <div className="flex justify-between text-base pt-3 border-t border-[var(--border-secondary)] text-[#9ca3af]">
                 <span>Mom: <strong className="text-[var(--text-primary)]">{Math.round(breakdown.momentum.score)}</strong></span>
                 <span>Trend: <strong className="text-[var(--text-primary)]">{Math.round(breakdown.trend.score)}</strong></span>
                 <span>Vol: <strong className="text-[var(--text-primary)]">{Math.round(breakdown.volume.score)}</strong></span>
                 <span>Sent: <strong className="text-[var(--text-primary)]">{Math.round(breakdown.sentiment.score)}</strong></span>
                 <span>Pos: <strong className="text-[var(--text-primary)]">{Math.round(breakdown.positioning.score)}</strong></span>
+                {breakdown.structure?.max > 0 && (
+                    <span>Struct: <strong className="text-[var(--text-primary)]">{Math.round(breakdown.structure.score)}</strong></span>
+                )}
             </div>
 
             {/* Row 6: Score bucket context (only if enough historical data) */}
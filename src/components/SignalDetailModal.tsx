@@ -1,6 +1,7 @@
 'use client';
 
 import { SignalOutput } from '@/lib/engine';
+import { getCategoryDisplays } from '@/lib/engine/registry';
 import { useEffect } from 'react';
 import { createPortal } from 'react-dom';
 
@@ -9,129 +10,6 @@ interface SignalDetailModalProps {
     onClose: () => void;
 }
 
-// ─── Indicator metadata: maps raw keys to display names + categories + formatting ───
-const INDICATOR_CONFIG: {
-    key: string;
-    label: string;
-    category: 'momentum' | 'trend' | 'volume' | 'sentiment' | 'positioning' | 'volatility';
-    format: (v: number) => string;
-    signal: (v: number) => 'bullish' | 'bearish' | 'neutral';
-}[] = [
-        // ── Momentum ──
-        {
-            key: 'rsi', label: 'RSI (14)', category: 'momentum',
-            format: v => v.toFixed(1),
-            signal: v => v < 40 ? 'bullish' : v > 60 ? 'bearish' : 'neutral',
-        },
-        {
-            key: 'stochRSI', label: 'Stochastic RSI', category: 'momentum',
-            format: v => v.toFixed(2),
-            signal: v => v < 0.3 ? 'bullish' : v > 0.7 ? 'bearish' : 'neutral',
-        },
-        {
-            key: 'macd', label: 'MACD Histogram', category: 'momentum',
-            format: v => v.toFixed(4),
-            signal: v => v > 0 ? 'bullish' : v < 0 ? 'bearish' : 'neutral',
-        },
-        {
-            key: 'williamsR', label: 'Williams %R', category: 'momentum',
-            format: v => v.toFixed(1),
-            signal: v => v < -70 ? 'bullish' : v > -30 ? 'bearish' : 'neutral',
-        },
-        {
-            key: 'cci', label: 'CCI (20)', category: 'momentum',
-            format: v => v.toFixed(1),
-            signal: v => v < -100 ? 'bullish' : v > 100 ? 'bearish' : 'neutral',
-        },
-
-        // ── Trend ──
-        {
-            key: 'emaAlignment', label: 'EMA Alignment', category: 'trend',
-            format: v => v > 0 ? 'Bullish' : v < 0 ? 'Bearish' : 'Flat',
-            signal: v => v > 0 ? 'bullish' : v < 0 ? 'bearish' : 'neutral',
-        },
-        {
-            key: 'ichimoku', label: 'Ichimoku Cloud', category: 'trend',
-            format: v => v > 0 ? 'Above Cloud' : v < 0 ? 'Below Cloud' : 'In Cloud',
-            signal: v => v > 0 ? 'bullish' : v < 0 ? 'bearish' : 'neutral',
-        },
-        {
-            key: 'adx', label: 'ADX', category: 'trend',
-            format: v => v.toFixed(1),
-            signal: v => v > 25 ? 'bullish' : 'neutral', // ADX measures trend strength, not direction
-        },
-        {
-            key: 'plusDI', label: '+DI', category: 'trend',
-            format: v => v.toFixed(1),
-            signal: () => 'neutral', // Context indicator — shown with ADX
-        },
-        {
-            key: 'minusDI', label: '-DI', category: 'trend',
-            format: v => v.toFixed(1),
-            signal: () => 'neutral',
-        },
-        {
-            key: 'bollinger', label: 'Bollinger %B', category: 'trend',
-            format: v => v.toFixed(2),
-            signal: v => v < 0.2 ? 'bullish' : v > 0.8 ? 'bearish' : 'neutral',
-        },
-        {
-            key: 'vwap', label: 'VWAP Position', category: 'trend',
-            format: v => v > 0 ? 'Above' : v < 0 ? 'Below' : 'At VWAP',
-            signal: v => v > 0 ? 'bullish' : v < 0 ? 'bearish' : 'neutral',
-        },
-
-        // ── Volume ──
-        {
-            key: 'obvTrend', label: 'OBV Trend', category: 'volume',
-            format: v => v > 0 ? 'Rising ↑' : v < 0 ? 'Falling ↓' : 'Flat',
-            signal: v => v > 0 ? 'bullish' : v < 0 ? 'bearish' : 'neutral',
-        },
-        {
-            key: 'volumeRatio', label: 'Volume Ratio', category: 'volume',
-            format: v => v.toFixed(2) + 'x',
-            signal: v => v > 1.2 ? 'bullish' : v < 0.8 ? 'bearish' : 'neutral',
-        },
-
-        // ── Sentiment ──
-        // Fear & Greed is external — we build it from the score
-        // (No raw key in indicators for this, but we can infer from breakdown)
-
-        // ── Positioning ──
-        {
-            key: 'fundingRate', label: 'Funding Rate', category: 'positioning',
-            format: v => (v * 100).toFixed(4) + '%',
-            signal: v => v > 0.3 ? 'bearish' : v < -0.1 ? 'bullish' : 'neutral', // Contrarian
-        },
-        {
-            key: 'oiChange', label: 'OI Change', category: 'positioning',
-            format: v => v === 0 ? 'N/A' : (v > 0 ? '+' : '') + v.toFixed(2) + '%',
-            signal: v => v === 0 ? 'neutral' : v > 0 ? 'bullish' : 'bearish',
-        },
-        {
-            key: 'basisPremium', label: 'Basis Premium', category: 'positioning',
-            format: v => v === 0 ? 'N/A' : (v * 100).toFixed(3) + '%',
-            signal: v => v === 0 ? 'neutral' : v > 0.001 ? 'bearish' : v < -0.001 ? 'bullish' : 'neutral',
-        },
-        {
-            key: 'hlVolume', label: 'HL Volume Signal', category: 'positioning',
-            format: v => v === 0 ? 'N/A' : v > 0 ? 'Bullish' : 'Bearish',
-            signal: v => v === 0 ? 'neutral' : v > 0 ? 'bullish' : 'bearish',
-        },
-
-        // ── Volatility (risk-sizing, not scored) ──
-        {
-            key: 'atr', label: 'ATR (14)', category: 'volatility',
-            format: v => v >= 1000 ? '$' + (v / 1000).toFixed(1) + 'K' : v >= 1 ? '$' + v.toFixed(2) : '$' + v.toFixed(4),
-            signal: () => 'neutral', // Volatility doesn't have direction
-        },
-        {
-            key: 'zScore', label: 'Z-Score', category: 'volatility',
-            format: v => v.toFixed(2),
-            signal: v => v > 2 ? 'bearish' : v < -2 ? 'bullish' : 'neutral',
-        },
-    ];
-
 const CATEGORY_META: Record<string, {
     label: string;
     icon: string;
@@ -175,6 +53,14 @@ const CATEGORY_META: Record<string, {
         bgColor: 'rgba(16, 185, 129, 0.08)',
         borderColor: 'rgba(16, 185, 129, 0.2)',
     },
+    structure: {
+        label: 'Structure',
+        icon: '🧩',
+        color: '#14b8a6',
+        bgColor: 'rgba(20, 184, 166, 0.08)',
+        borderColor: 'rgba(20, 184, 166, 0.2)',
+        note: 'Only counted when a price pattern is present',
+    },
     volatility: {
         label: 'Volatility',
         icon: '🌊',
@@ -185,7 +71,13 @@ const CATEGORY_META: Record<string, {
     },
 };
 
-const CATEGORY_ORDER = ['momentum', 'trend', 'volume', 'sentiment', 'positioning', 'volatility'] as const;
+const CATEGORY_ORDER = ['momentum', 'trend', 'volume', 'sentiment', 'positioning', 'structure', 'volatility'] as const;
+
+function formatPrice(price: number): string {
+    if (price >= 1000) return `$${price.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+    if (price >= 1) return `$${price.toFixed(2)}`;
+    return `$${price.toFixed(4)}`;
+}
 
 function SignalArrow({ direction }: { direction: 'bullish' | 'bearish' | 'neutral' }) {
     if (direction === 'bullish') {
@@ -199,6 +91,7 @@ function SignalArrow({ direction }: { direction: 'bullish' | 'bearish' | 'neutra
 
 export default function SignalDetailModal({ signal, onClose }: SignalDetailModalProps) {
     const { coin, score, direction, indicators, breakdown, agreement } = signal;
+    const { entryPrice, stopLoss, takeProfit, recommendedLeverage, liquidationPrice, leverageWarning } = signal;
     const name = (signal as { name?: string }).name || coin;
 
     // Lock body scroll when modal is open
@@ -218,7 +111,8 @@ export default function SignalDetailModal({ signal, onClose }: SignalDetailModal
     const grouped = CATEGORY_ORDER.map(cat => ({
         category: cat,
         meta: CATEGORY_META[cat],
-        indicators: INDICATOR_CONFIG.filter(i => i.category === cat),
+        // Indicator labels, formatting and display signals come from the indicator registry
+        indicators: getCategoryDisplays(cat),
         breakdown: (breakdown as Record<string, { score: number; max: number }>)[cat],
     }));
 
@@ -280,6 +174,43 @@ export default function SignalDetailModal({ signal, onClose }: SignalDetailModal
                     </div>
                 </div>
 
+                {/* Trade Levels & Leverage */}
+                {direction !== 'HOLD' && (
+                    <div className="px-6 pt-4">
+                        <div className="rounded-xl border border-[var(--border-secondary)] bg-slate-50/60 px-4 py-3">
+                            <div className="grid grid-cols-3 gap-3 text-sm">
+                                <div>
+                                    <div className="text-xs text-[var(--text-muted)]">Entry</div>
+                                    <div className="font-mono font-semibold text-[var(--text-primary)]">{formatPrice(entryPrice)}</div>
+                                </div>
+                                <div>
+                                    <div className="text-xs text-[var(--text-muted)]">Stop Loss</div>
+                                    <div className="font-mono font-semibold text-[#ef4444]">{formatPrice(stopLoss)}</div>
+                                </div>
+                                <div>
+                                    <div className="text-xs text-[var(--text-muted)]">Take Profit</div>
+                                    <div className="font-mono font-semibold text-[#10b981]">{formatPrice(takeProfit)}</div>
+                                </div>
+                                <div>
+                                    <div className="text-xs text-[var(--text-muted)]">Max Leverage</div>
+                                    <div className="font-mono font-semibold text-[var(--text-primary)]">{recommendedLeverage}×</div>
+                                </div>
+                                <div className="col-span-2">
+                                    <div className="text-xs text-[var(--text-muted)]">Liquidation at {recommendedLeverage}×</div>
+                                    <div className="font-mono font-semibold text-[var(--text-primary)]">
+                                        {liquidationPrice > 0 ? formatPrice(liquidationPrice) : 'None'}
+                                    </div>
+                                </div>
+                            </div>
+                            {leverageWarning && (
+                                <div className="mt-3 px-3 py-2 rounded-lg text-xs font-medium text-[#b45309] bg-[rgba(245,158,11,0.12)] border border-[rgba(245,158,11,0.3)]">
+                                    ⚠ {leverageWarning}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 {/* Category Sections */}
                 <div className="px-6 py-4 space-y-4">
                     {grouped.map(({ category, meta, indicators: catIndicators, breakdown: catBreakdown }) => {
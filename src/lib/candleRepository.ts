@@ -0,0 +1,65 @@
+/**
+ * Candle Repository
+ *
+ * Serves OHLCV windows from the local candles table and only fetches
+ * what the store is missing (new bars, interior gaps, short history).
+ * Falls back to a direct exchange fetch if the store is unavailable.
+ *
+ * Server-side only (uses the service role client).
+ */
+
+import { logger } from '@/lib/logger';
+import { getStoredCandles, upsertCandles } from '@/lib/supabaseServer';
+import {
+    fetchCandles,
+    mergeCandles,
+    planCandleSync,
+    CandleInterval,
+    CandleSource,
+} from '@/lib/engine/candles';
+import type { OHLCV } from '@/lib/engine';
+
+const log = logger.withContext('Candles');
+
+/**
+ * Get the latest `limit` candles for a coin, syncing the store incrementally.
+ *
+ * @param coin - Coin symbol (e.g. 'BTC')
+ * @param interval - Candle interval
+ * @param limit - Number of bars to return (oldest first)
+ */
+export async function getCandles(
+    coin: string,
+    interval: CandleInterval = '4h',
+    limit: number = 100
+): Promise<OHLCV[]> {
+    const symbol = coin.toUpperCase();
+    const stored = await getStoredCandles(symbol, interval, limit);
+
+    // Store unavailable — behave like the old direct fetch
+    if (stored === null) {
+        const { candles } = await fetchCandles(symbol, interval, { limit });
+        return candles.slice(-limit);
+    }
+
+    const ranges = planCandleSync(stored, interval, limit);
+    const fetched: OHLCV[][] = [];
+    let source: CandleSource = 'binance';
+
+    for (const range of ranges) {
+        const result = await fetchCandles(symbol, interval, range);
+        if (result.candles.length > 0) {
+            fetched.push(result.candles);
+            source = result.source;
+        }
+    }
+
+    const newBars = mergeCandles(...fetched);
+    if (newBars.length > 0) {
+        await upsertCandles(symbol, interval, newBars, source);
+    }
+
+    log.debug(`${symbol} ${interval}: ${stored.length} stored, ${newBars.length} synced over ${ranges.length} range(s)`);
+
+    return mergeCandles(stored, newBars).slice(-limit);
+}
@@ -0,0 +1,527 @@
+/**
+ * LISAN INTELLIGENCE — Backtest Engine Tests
+ *
+ * Tests for outcome rules, bar-by-bar replay and performance statistics.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { backtestCoin, runBacktest, summarizeTrades, buildCumulativeReturns, BacktestTrade } from './backtest';
+import {
+    checkPriceLevels,
+    resolveIntrabarHit,
+    replayIntrabar,
+    calculateProfitPct,
+    updateTrailingStop,
+    buildTakeProfitLadder,
+    fillTakeProfitTargets,
+    remainingFraction,
+    settleExit,
+    maxHoldingHours,
+    isExpired,
+    DEFAULT_EXPIRY,
+    TrailingStopConfig,
+} from './outcome';
+import { OHLCV } from './indicators';
+import { DEFAULT_RISK_POLICY } from './risk';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const HOUR = 3600000;
+
+/**
+ * Deterministic oscillating series: long sine swings so the engine sees
+ * both oversold and overbought conditions and trades actually resolve.
+ */
+function makeWaveData(length: number, amplitude = 0.15, period = 40): OHLCV[] {
+    const data: OHLCV[] = [];
+    const start = Date.UTC(2025, 0, 1);
+    for (let i = 0; i < length; i++) {
+        const price = 100 * (1 + amplitude * Math.sin((2 * Math.PI * i) / period));
+        const prev = i > 0 ? data[i - 1].close : price;
+        data.push({
+            open: prev,
+            high: Math.max(prev, price) * 1.005,
+            low: Math.min(prev, price) * 0.995,
+            close: price,
+            volume: 500000 + (i % 7) * 50000,
+            timestamp: start + i * 4 * HOUR,
+        });
+    }
+    return data;
+}
+
+function makeTrade(profitPct: number, exitHour: number): BacktestTrade {
+    return {
+        coin: 'BTC',
+        direction: 'LONG',
+        score: 60,
+        regime: 'UNKNOWN',
+        entryIndex: 0,
+        exitIndex: 1,
+        entryTime: (exitHour - 4) * HOUR,
+        exitTime: exitHour * HOUR,
+        entryPrice: 100,
+        stopLoss: 95,
+        takeProfit: 110,
+        finalStopLoss: 95,
+        exitPrice: 100 + profitPct,
+        outcome: profitPct >= 0 ? 'WON' : 'LOST',
+        exitReason: profitPct >= 0 ? 'TAKE_PROFIT' : 'STOP_LOSS',
+        profitPct,
+        fills: [],
+        indicators: {},
+    };
+}
+
+// ============================================================================
+// OUTCOME RULES
+// ============================================================================
+
+describe('checkPriceLevels', () => {
+    const long = { direction: 'LONG' as const, entryPrice: 100, stopLoss: 95, takeProfit: 110 };
+    const short = { direction: 'SHORT' as const, entryPrice: 100, stopLoss: 105, takeProfit: 90 };
+
+    it('LONG: TP hit is a win', () => {
+        const result = checkPriceLevels(long, 111);
+        expect(result.hit).toBe(true);
+        expect(result.outcome).toBe('WON');
+        expect(result.exitReason).toBe('TAKE_PROFIT');
+    });
+
+    it('LONG: SL hit is a loss', () => {
+        const result = checkPriceLevels(long, 94);
+        expect(result.outcome).toBe('LOST');
+        expect(result.exitReason).toBe('STOP_LOSS');
+    });
+
+    it('LONG: flags momentum check past the threshold', () => {
+        const result = checkPriceLevels(long, 104);
+        expect(result.hit).toBe(false);
+        expect(result.momentumCheckDue).toBe(true);
+    });
+
+    it('SHORT: TP below entry is a win, SL above is a loss', () => {
+        expect(checkPriceLevels(short, 89).outcome).toBe('WON');
+        expect(checkPriceLevels(short, 106).outcome).toBe('LOST');
+    });
+
+    it('records a TP hit with negative profit as a loss', () => {
+        const badTp = { direction: 'LONG' as const, entryPrice: 100, stopLoss: 90, takeProfit: 98 };
+        const result = checkPriceLevels(badTp, 99);
+        expect(result.outcome).toBe('LOST');
+        expect(result.exitReason).toBe('STOP_LOSS');
+    });
+
+    it('exits a trailed stop as TRAILING_STOP before the momentum check', () => {
+        const trailed = { ...long, stopLoss: 104, initialStopLoss: 95 };
+        const result = checkPriceLevels(trailed, 103.5);
+        expect(result.hit).toBe(true);
+        expect(result.outcome).toBe('WON');
+        expect(result.exitReason).toBe('TRAILING_STOP');
+    });
+
+    it('records a stop-out that slipped past breakeven as a loss', () => {
+        const breakeven = { ...short, stopLoss: 100, initialStopLoss: 105 };
+        const result = checkPriceLevels(breakeven, 100.2);
+        expect(result.outcome).toBe('LOST');
+        expect(result.exitReason).toBe('TRAILING_STOP');
+    });
+
+    it('does not count a stop-out exactly at breakeven as a loss', () => {
+        const breakeven = { ...short, stopLoss: 100, initialStopLoss: 105 };
+        const result = checkPriceLevels(breakeven, 100);
+        expect(result.profitPct).toBe(0);
+        expect(result.outcome).toBe('WON');
+        expect(result.exitReason).toBe('TRAILING_STOP');
+    });
+
+    it('calculateProfitPct is directional', () => {
+        expect(calculateProfitPct('LONG', 100, 110)).toBeCloseTo(10);
+        expect(calculateProfitPct('SHORT', 100, 110)).toBeCloseTo(-10);
+    });
+});
+
+describe('updateTrailingStop', () => {
+    const long = { direction: 'LONG' as const, entryPrice: 100, stopLoss: 95, takeProfit: 120 };
+    const short = { direction: 'SHORT' as const, entryPrice: 100, stopLoss: 105, takeProfit: 80 };
+    const atrTrail: TrailingStopConfig = { mode: 'ATR', atrMultiplier: 2, trailPct: 3, activationR: 1.5, breakevenR: 1 };
+    const pctTrail: TrailingStopConfig = { ...atrTrail, mode: 'PERCENT' };
+
+    it('leaves the stop alone below +1R', () => {
+        expect(updateTrailingStop(long, 104, 1, atrTrail)).toEqual({ stopLoss: 95, reason: null });
+    });
+
+    it('moves to breakeven at +1R', () => {
+        expect(updateTrailingStop(long, 105, 1, atrTrail)).toEqual({ stopLoss: 100, reason: 'BREAKEVEN' });
+        expect(updateTrailingStop(short, 95, 1, atrTrail)).toEqual({ stopLoss: 100, reason: 'BREAKEVEN' });
+    });
+
+    it('trails by ATR or percent once activated', () => {
+        expect(updateTrailingStop(long, 110, 1, atrTrail)).toEqual({ stopLoss: 108, reason: 'ATR_TRAIL' });
+        expect(updateTrailingStop(short, 90, 1, atrTrail)).toEqual({ stopLoss: 92, reason: 'ATR_TRAIL' });
+        expect(updateTrailingStop(long, 110, 1, pctTrail).stopLoss).toBeCloseTo(106.7);
+        expect(updateTrailingStop(long, 110, 1, pctTrail).reason).toBe('PERCENT_TRAIL');
+    });
+
+    it('never loosens a stop', () => {
+        const trailed = { ...long, stopLoss: 108, initialStopLoss: 95 };
+        expect(updateTrailingStop(trailed, 109, 1, atrTrail)).toEqual({ stopLoss: 108, reason: null });
+    });
+
+    it('does nothing when disabled', () => {
+        const off: TrailingStopConfig = { ...atrTrail, mode: 'NONE', breakevenR: null };
+        expect(updateTrailingStop(long, 130, 1, off)).toEqual({ stopLoss: 95, reason: null });
+    });
+
+    it('keeps the stop fixed unless an admin opts in', () => {
+        expect(updateTrailingStop(long, 130, 1)).toEqual({ stopLoss: 95, reason: null });
+    });
+});
+
+describe('take-profit ladder', () => {
+    const long = { direction: 'LONG' as const, entryPrice: 100, stopLoss: 95, takeProfit: 115 };
+    const short = { direction: 'SHORT' as const, entryPrice: 100, stopLoss: 105, takeProfit: 85 };
+    const at = '2026-01-01T00:00:00.000Z';
+
+    it('places thirds at 1R, 2R and 3R', () => {
+        const targets = buildTakeProfitLadder(long);
+        expect(targets.map(t => t.price)).toEqual([105, 110, 115]);
+        expect(targets.map(t => t.rMultiple)).toEqual([1, 2, 3]);
+        expect(targets.reduce((sum, t) => sum + t.fraction, 0)).toBeCloseTo(1, 10);
+        expect(buildTakeProfitLadder(short).map(t => t.price)).toEqual([95, 90, 85]);
+    });
+
+    it('pulls targets past the take profit in to it and merges them', () => {
+        const targets = buildTakeProfitLadder({ ...long, takeProfit: 110 });
+        expect(targets.map(t => t.price)).toEqual([105, 110]);
+        expect(targets[1].fraction).toBeCloseTo(2 / 3, 10);
+    });
+
+    it('normalizes custom fractions and measures R from the initial stop', () => {
+        const trailed = { ...long, stopLoss: 100, initialStopLoss: 95 };
+        const targets = buildTakeProfitLadder(trailed, [{ rMultiple: 1, fraction: 1 }, { rMultiple: 2, fraction: 3 }]);
+        expect(targets).toEqual([
+            { price: 105, fraction: 0.25, rMultiple: 1 },
+            { price: 110, fraction: 0.75, rMultiple: 2 },
+        ]);
+    });
+
+    it('fills each target once, including several in one move', () => {
+        const targets = buildTakeProfitLadder(long);
+        const first = fillTakeProfitTargets(long, targets, [], 111, at);
+        expect(first.map(f => f.target)).toEqual([0, 1]);
+        expect(first[0].profitPct).toBeCloseTo(11);
+        expect(fillTakeProfitTargets(long, targets, first, 112, at)).toEqual([]);
+        expect(remainingFraction(first)).toBeCloseTo(1 / 3, 10);
+        expect(remainingFraction([...first, ...fillTakeProfitTargets(long, targets, first, 115, at)])).toBe(0);
+    });
+
+    it('blends the remainder exit with earlier tranches', () => {
+        const fills = [{ fraction: 0.5, profitPct: 5 }];
+        // TP1 at +5% then the runner stopped at breakeven: still a win
+        expect(settleExit(fills, 0, 'LOST')).toEqual({ profitPct: 2.5, outcome: 'WON' });
+        expect(settleExit(fills, -12, 'LOST')).toEqual({ profitPct: -3.5, outcome: 'LOST' });
+        expect(settleExit([], -5, 'LOST')).toEqual({ profitPct: -5, outcome: 'LOST' });
+    });
+});
+
+describe('resolveIntrabarHit', () => {
+    const long = { direction: 'LONG' as const, entryPrice: 100, stopLoss: 95, takeProfit: 110 };
+    const candle = (timestamp: number, open: number, high: number, low: number) =>
+        ({ timestamp, open, high, low, close: open, volume: 1 });
+
+    it('catches a wick through the stop between checks', () => {
+        const hit = resolveIntrabarHit(long, [candle(1, 100, 101, 99), candle(2, 99, 99.5, 94), candle(3, 97, 98, 96)]);
+        expect(hit).toEqual({
+            profitPct: -5, outcome: 'LOST', exitReason: 'STOP_LOSS', exitPrice: 95, hitAt: 2, ambiguous: false,
+        });
+    });
+
+    it('breaks a tie inside one candle by the configured rule', () => {
+        const both = [candle(1, 100, 111, 94)];
+        expect(resolveIntrabarHit(long, both)).toMatchObject({ exitReason: 'STOP_LOSS', exitPrice: 95, ambiguous: true });
+        expect(resolveIntrabarHit(long, both, 'OPTIMISTIC')).toMatchObject({ exitReason: 'TAKE_PROFIT', exitPrice: 110, ambiguous: true });
+    });
+
+    it('fills at the open when a candle gaps through a level', () => {
+        const short = { direction: 'SHORT' as const, entryPrice: 100, stopLoss: 105, takeProfit: 90 };
+        // Opened through the stop: not ambiguous even though the low reached the target
+        expect(resolveIntrabarHit(short, [candle(1, 106, 107, 89)], 'OPTIMISTIC'))
+            .toMatchObject({ exitReason: 'STOP_LOSS', exitPrice: 106, ambiguous: false });
+    });
+
+    it('exits through a trailed stop as TRAILING_STOP', () => {
+        const trailed = { ...long, stopLoss: 104, initialStopLoss: 95 };
+        expect(resolveIntrabarHit(trailed, [candle(1, 106, 107, 103)]))
+            .toMatchObject({ outcome: 'WON', exitReason: 'TRAILING_STOP', exitPrice: 104 });
+    });
+
+    it('returns null when no candle reaches either level', () => {
+        expect(resolveIntrabarHit(long, [candle(1, 100, 109, 96)])).toBeNull();
+        expect(resolveIntrabarHit(long, [])).toBeNull();
+    });
+});
+
+describe('replayIntrabar', () => {
+    const long = { direction: 'LONG' as const, entryPrice: 100, stopLoss: 95, takeProfit: 115 };
+    const targets = [
+        { price: 105, fraction: 1 / 3, rMultiple: 1 },
+        { price: 110, fraction: 1 / 3, rMultiple: 2 },
+        { price: 115, fraction: 1 / 3, rMultiple: 3 },
+    ];
+    const candle = (timestamp: number, open: number, high: number, low: number) =>
+        ({ timestamp, open, high, low, close: open, volume: 1 });
+
+    it('fills ladder targets reached before the stop', () => {
+        const { fills, hit } = replayIntrabar(long, [candle(1, 100, 106, 99), candle(2, 104, 104.5, 94)], 'PESSIMISTIC', targets);
+        expect(fills).toEqual([{ target: 0, price: 105, fraction: 1 / 3, profitPct: 5, at: new Date(1).toISOString() }]);
+        expect(hit).toMatchObject({ exitReason: 'STOP_LOSS', exitPrice: 95, hitAt: 2 });
+        expect(settleExit(fills, hit!.profitPct, hit!.outcome).profitPct).toBeCloseTo(-5 / 3, 10);
+    });
+
+    it('lets the tie-break order a target and the stop inside one candle', () => {
+        const both = [candle(1, 100, 106, 94)];
+        expect(replayIntrabar(long, both, 'PESSIMISTIC', targets)).toMatchObject({
+            fills: [], hit: { exitReason: 'STOP_LOSS', ambiguous: true },
+        });
+        expect(replayIntrabar(long, both, 'OPTIMISTIC', targets)).toMatchObject({
+            fills: [{ target: 0, price: 105 }], hit: { exitReason: 'STOP_LOSS', ambiguous: true },
+        });
+    });
+
+    it('exits as TAKE_PROFIT once the ladder is fully closed, skipping filled targets', () => {
+        const filled = [{ target: 0, price: 105, fraction: 1 / 3, profitPct: 5, at: new Date(0).toISOString() }];
+        const { fills, hit } = replayIntrabar(long, [candle(1, 108, 116, 107)], 'PESSIMISTIC', targets, filled);
+        expect(fills.map(f => [f.target, f.price])).toEqual([[1, 110], [2, 115]]);
+        expect(hit).toMatchObject({ outcome: 'WON', exitReason: 'TAKE_PROFIT', exitPrice: 115, ambiguous: false });
+    });
+
+    it('returns the fills when no exit is reached', () => {
+        expect(replayIntrabar(long, [candle(1, 106, 107, 104)], 'PESSIMISTIC', targets)).toEqual({
+            fills: [{ target: 0, price: 106, fraction: 1 / 3, profitPct: 6, at: new Date(1).toISOString() }],
+            hit: null,
+        });
+    });
+});
+
+describe('signal expiry', () => {
+    it('prefers the regime override, then the timeframe, then the default', () => {
+        expect(maxHoldingHours(DEFAULT_EXPIRY, '4h', 'HIGH_VOL_CHOP')).toBe(48);
+        expect(maxHoldingHours(DEFAULT_EXPIRY, '1h', 'BULL_TREND')).toBe(24);
+        expect(maxHoldingHours(DEFAULT_EXPIRY, undefined, undefined)).toBe(72);
+        expect(maxHoldingHours(DEFAULT_EXPIRY, '15m')).toBe(DEFAULT_EXPIRY.defaultHours);
+    });
+
+    it('expires once the holding period has fully elapsed', () => {
+        const now = Date.UTC(2026, 0, 4);
+        expect(isExpired(new Date(now - 72 * HOUR).toISOString(), 72, now)).toBe(true);
+        expect(isExpired(new Date(now - 71 * HOUR).toISOString(), 72, now)).toBe(false);
+    });
+});
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+describe('backtestCoin', () => {
+    const data = makeWaveData(300);
+
+    it('produces closed trades on an oscillating market', () => {
+        const { trades } = backtestCoin(data, 'BTC');
+        expect(trades.length).toBeGreaterThan(0);
+    });
+
+    it('never overlaps positions and exits after entry', () => {
+        const { trades } = backtestCoin(data, 'BTC');
+        for (let i = 0; i < trades.length; i++) {
+            expect(trades[i].exitIndex).toBeGreaterThan(trades[i].entryIndex);
+            if (i > 0) expect(trades[i].entryIndex).toBeGreaterThan(trades[i - 1].exitIndex);
+        }
+    });
+
+    it('exit reasons are consistent with outcomes', () => {
+        const { trades } = backtestCoin(data, 'BTC');
+        for (const trade of trades) {
+            if (trade.exitReason === 'MOMENTUM_EXIT') expect(trade.outcome).toBe('WON');
+            if (trade.outcome === 'WON') expect(trade.profitPct).toBeGreaterThanOrEqual(0);
+        }
+    });
+
+    it('trailing exits close through a stop tighter than the initial one', () => {
+        const { trades } = backtestCoin(data, 'BTC');
+        for (const trade of trades.filter(t => t.exitReason === 'TRAILING_STOP')) {
+            if (trade.direction === 'LONG') {
+                expect(trade.finalStopLoss).toBeGreaterThan(trade.stopLoss);
+                expect(trade.exitPrice).toBeLessThanOrEqual(trade.finalStopLoss);
+            } else {
+                expect(trade.finalStopLoss).toBeLessThan(trade.stopLoss);
+                expect(trade.exitPrice).toBeGreaterThanOrEqual(trade.finalStopLoss);
+            }
+        }
+    });
+
+    it('keeps fixed stops with trailing disabled', () => {
+        const off: TrailingStopConfig = { mode: 'NONE', atrMultiplier: 2, trailPct: 3, activationR: 1, breakevenR: null };
+        const { trades } = backtestCoin(data, 'BTC', { trailingStop: off });
+        for (const trade of trades) {
+            expect(trade.exitReason).not.toBe('TRAILING_STOP');
+            expect(trade.finalStopLoss).toBe(trade.stopLoss);
+        }
+    });
+
+    it('scales out through the ladder and blends the trade return', () => {
+        const { trades } = backtestCoin(data, 'BTC');
+        const scaled = trades.filter(t => t.fills.length > 0);
+        expect(scaled.length).toBeGreaterThan(0);
+        for (const trade of scaled) {
+            expect(remainingFraction(trade.fills)).toBeGreaterThanOrEqual(0);
+            if (trade.exitReason === 'TAKE_PROFIT') expect(remainingFraction(trade.fills)).toBe(0);
+            expect(new Set(trade.fills.map(f => f.target)).size).toBe(trade.fills.length);
+        }
+    });
+
+    it('resolves exits from bar ranges with intrabar replay', () => {
+        const { trades } = backtestCoin(data, 'BTC', { intrabar: { tieBreak: 'PESSIMISTIC' } });
+        expect(trades.length).toBeGreaterThan(0);
+        for (const trade of trades.filter(t => t.exitReason === 'STOP_LOSS')) {
+            // Filled at the stop itself unless the bar opened through it
+            const bar = data[trade.exitIndex];
+            expect(trade.exitPrice === trade.finalStopLoss || trade.exitPrice === bar.open).toBe(true);
+        }
+    });
+
+    it('fills ladder targets at their level during intrabar replay', () => {
+        const { trades } = backtestCoin(data, 'BTC', { intrabar: { tieBreak: 'PESSIMISTIC' } });
+        const scaled = trades.filter(t => t.fills.length > 0);
+        expect(scaled.length).toBeGreaterThan(0);
+        for (const trade of scaled) {
+            const ladder = buildTakeProfitLadder({
+                direction: trade.direction, entryPrice: trade.entryPrice, stopLoss: trade.stopLoss, takeProfit: trade.takeProfit,
+            });
+            for (const fill of trade.fills) {
+                // The target itself unless the bar opened through it
+                const bar = data.find(d => d.timestamp === Date.parse(fill.at))!;
+                expect(fill.price === ladder[fill.target].price || fill.price === bar.open).toBe(true);
+            }
+        }
+    });
+
+    it('replays lower-timeframe candles inside each bar', () => {
+        // Split every 4h bar into four 1h candles carrying its range
+        const hourly = data.flatMap(bar => [0, 1, 2, 3].map(h => ({
+            ...bar,
+            timestamp: bar.timestamp + h * HOUR,
+            high: h === 1 ? bar.high : Math.max(bar.open, bar.close),
+            low: h === 2 ? bar.low : Math.min(bar.open, bar.close),
+        })));
+        const { trades } = backtestCoin(data, 'BTC', { intrabar: { tieBreak: 'PESSIMISTIC', candles: hourly } });
+        expect(trades.length).toBeGreaterThan(0);
+        for (const trade of trades) {
+            expect(trade.exitTime).toBeGreaterThanOrEqual(data[trade.exitIndex].timestamp);
+            expect(trade.exitTime).toBeLessThan(data[trade.exitIndex].timestamp + 4 * HOUR);
+        }
+    });
+
+    it('exits the whole position at the take profit without a ladder', () => {
+        const { trades } = backtestCoin(data, 'BTC', { takeProfitLadder: [] });
+        for (const trade of trades) {
+            expect(trade.fills).toHaveLength(0);
+            if (trade.exitReason === 'TAKE_PROFIT') {
+                expect(trade.profitPct).toBeCloseTo(calculateProfitPct(trade.direction, trade.entryPrice, trade.exitPrice), 10);
+            }
+        }
+    });
+
+    it('does not trade before minBars', () => {
+        const { trades } = backtestCoin(data, 'BTC', { minBars: 120 });
+        for (const trade of trades) {
+            expect(trade.entryIndex).toBeGreaterThanOrEqual(119);
+        }
+    });
+
+    it('returns no trades when data is shorter than minBars', () => {
+        const { trades, openAtEnd } = backtestCoin(data.slice(0, 30), 'BTC');
+        expect(trades).toHaveLength(0);
+        expect(openAtEnd).toBe(false);
+    });
+
+    it('resolves the regime per bar when given a resolver', () => {
+        const seen = new Set<number>();
+        backtestCoin(data.slice(0, 80), 'BTC', {
+            regime: (ts) => { seen.add(ts); return 'HIGH_VOL_CHOP'; },
+        });
+        expect(seen.size).toBeGreaterThan(0);
+    });
+
+    it('counts and skips signals that fail the risk policy', () => {
+        const strict = { ...DEFAULT_RISK_POLICY, minRiskReward: 100 };
+        const { trades, riskRejections } = backtestCoin(data, 'BTC', { riskPolicy: strict });
+        expect(trades).toHaveLength(0);
+        expect(riskRejections).toBeGreaterThan(0);
+    });
+});
+
+describe('runBacktest', () => {
+    it('merges coins in exit order and builds a matching curve', () => {
+        const result = runBacktest([
+            { coin: 'BTC', data: makeWaveData(250) },
+            { coin: 'ETH', data: makeWaveData(250, 0.2, 30) },
+        ]);
+
+        for (let i = 1; i < result.trades.length; i++) {
+            expect(result.trades[i].exitTime).toBeGreaterThanOrEqual(result.trades[i - 1].exitTime);
+        }
+        expect(result.cumulativeReturns).toHaveLength(result.trades.length);
+        expect(result.summary.totalTrades).toBe(result.trades.length);
+    });
+
+    it('sums risk rejections across coins', () => {
+        const coins = [
+            { coin: 'BTC', data: makeWaveData(250) },
+            { coin: 'ETH', data: makeWaveData(250, 0.2, 30) },
+        ];
+        const strict = { ...DEFAULT_RISK_POLICY, minRiskReward: 100 };
+        const perCoin = coins.map(c => backtestCoin(c.data, c.coin, { riskPolicy: strict }).riskRejections);
+
+        expect(runBacktest(coins, { riskPolicy: strict }).riskRejections).toBe(perCoin[0] + perCoin[1]);
+    });
+});
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+describe('summarizeTrades', () => {
+    it('computes win rate, expectancy and drawdown', () => {
+        const trades = [makeTrade(5, 4), makeTrade(-2, 8), makeTrade(-3, 12), makeTrade(4, 16)];
+        const summary = summarizeTrades(trades);
+
+        expect(summary.totalTrades).toBe(4);
+        expect(summary.winRate).toBe(50);
+        expect(summary.avgWinPct).toBe(4.5);
+        expect(summary.avgLossPct).toBe(2.5);
+        expect(summary.expectancy).toBe(1);
+        expect(summary.totalPct).toBe(4);
+        expect(summary.maxDrawdownPct).toBe(5); // Peak +5 → trough 0
+        expect(summary.avgDurationHours).toBe(4);
+    });
+
+    it('handles an empty trade list', () => {
+        const summary = summarizeTrades([]);
+        expect(summary.totalTrades).toBe(0);
+        expect(summary.winRate).toBe(0);
+        expect(summary.maxDrawdownPct).toBe(0);
+    });
+});
+
+describe('buildCumulativeReturns', () => {
+    it('produces a running sum in proof-stats shape', () => {
+        const curve = buildCumulativeReturns([makeTrade(2, 4), makeTrade(-1, 8)]);
+        expect(curve[0].signalIndex).toBe(1);
+        expect(curve[1].cumulativePct).toBe(1);
+        expect(curve[1].durationHours).toBe(4);
+        expect(typeof curve[0].closedAt).toBe('string');
+    });
+});
@@ -0,0 +1,421 @@
+/**
+ * LISAN INTELLIGENCE — Backtesting Engine
+ *
+ * Replays generateSignal bar-by-bar over historical candles and simulates
+ * entries and exits with the same rules the monitor cron applies live.
+ * Output mirrors /api/proof-stats so a backtest can be compared directly with live results.
+ */
+
+import type { CumulativeReturn, ExitReason, TakeProfitTarget, TrancheFill } from '@/lib/types/database';
+import { OHLCV } from './indicators';
+import { generateSignal, IndicatorWeights, DEFAULT_WEIGHTS } from './scoring';
+import { MarketRegime } from './regime';
+import { DEFAULT_RISK_POLICY, RiskPolicy } from './risk';
+import {
+    checkMomentumAligned,
+    checkPriceLevels,
+    replayIntrabar,
+    updateTrailingStop,
+    buildTakeProfitLadder,
+    fillTakeProfitTargets,
+    remainingFraction,
+    settleExit,
+    MOMENTUM_EXIT_THRESHOLD_PCT,
+    DEFAULT_TRAILING_STOP,
+    DEFAULT_TP_LADDER,
+    TrailingStopConfig,
+    TakeProfitStep,
+    IntrabarTieBreak,
+} from './outcome';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Resolves the regime in force at a given bar timestamp.
+ * Lets a backtest follow a stored or replayed regime series instead of a single fixed regime.
+ */
+export type RegimeResolver = (timestamp: number) => MarketRegime;
+
+/**
+ * Resolve SL/TP from candle ranges instead of bar closes only.
+ * With lower-timeframe candles each bar is replayed through them; without, the bar's own high/low is used.
+ */
+export interface IntrabarOptions {
+    tieBreak: IntrabarTieBreak;
+    candles?: OHLCV[];          // Lower-timeframe candles for this coin, oldest first
+}
+
+export interface BacktestOptions {
+    weights?: IndicatorWeights;
+    regime?: MarketRegime | RegimeResolver;
+    timeframe?: string;
+    fearGreedIndex?: number | null;
+    windowSize?: number;        // Bars fed to generateSignal (live fetchers pull 100)
+    minBars?: number;           // Bars required before the first signal (generate cron requires 50)
+    cooldownBars?: number;      // Bars to wait after a close before re-entering the same coin
+    momentumExit?: boolean;     // Apply the +3% momentum re-evaluation rule
+    trailingStop?: TrailingStopConfig;  // Breakeven / trailing rules (mode NONE = fixed stop)
+    takeProfitLadder?: TakeProfitStep[];  // Scale-out targets ([] = single take profit)
+    riskPolicy?: RiskPolicy;    // ATR multipliers and the limits a signal must pass to be traded
+    intrabar?: IntrabarOptions; // Wick-aware SL/TP (off = bar closes, like the monitor's mark price)
+}
+
+export interface BacktestTrade {
+    coin: string;
+    direction: 'LONG' | 'SHORT';
+    score: number;
+    regime: MarketRegime;
+    entryIndex: number;
+    exitIndex: number;
+    entryTime: number;
+    exitTime: number;
+    entryPrice: number;
+    stopLoss: number;
+    takeProfit: number;
+    finalStopLoss: number;      // Stop in force at exit (differs from stopLoss when it trailed)
+    exitPrice: number;
+    outcome: 'WON' | 'LOST';
+    exitReason: ExitReason;
+    profitPct: number;          // Blended over all tranches when the trade scaled out
+    fills: TrancheFill[];       // Tranches closed at ladder targets before (or at) exit
+    indicators: Record<string, number>;  // Same snapshot a live signal stores (for learning/optimization)
+}
+
+export interface BacktestSummary {
+    totalTrades: number;
+    wins: number;
+    losses: number;
+    winRate: number;          // 0-100
+    avgWinPct: number;
+    avgLossPct: number;       // Positive number
+    expectancy: number;       // Mean return per trade (%)
+    totalPct: number;         // Sum of all trade returns
+    maxDrawdownPct: number;   // Largest peak-to-trough drop of the cumulative curve (percentage points)
+    avgDurationHours: number;
+}
+
+export interface BacktestResult {
+    trades: BacktestTrade[];
+    openAtEnd: number;        // Positions still open when the data ran out (excluded from stats)
+    riskRejections: number;   // Signals not traded because their levels failed the risk policy
+    summary: BacktestSummary;
+    cumulativeReturns: CumulativeReturn[];
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+const BACKTEST_DEFAULTS = {
+    timeframe: '4h',
+    windowSize: 100,
+    minBars: 50,
+    cooldownBars: 1,          // 4h cooldown on 4h bars, matching getRecentlyClosedCoins(4)
+    momentumExit: true,
+    trailingStop: DEFAULT_TRAILING_STOP,
+    takeProfitLadder: DEFAULT_TP_LADDER,
+    riskPolicy: DEFAULT_RISK_POLICY,
+};
+
+interface OpenPosition {
+    direction: 'LONG' | 'SHORT';
+    score: number;
+    regime: MarketRegime;
+    entryIndex: number;
+    entryPrice: number;
+    stopLoss: number;
+    initialStopLoss: number;
+    takeProfit: number;
+    targets: TakeProfitTarget[];
+    fills: TrancheFill[];
+    indicators: Record<string, number>;
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Replay a single coin's candle history.
+ *
+ * At each bar the rolling window ending at that bar is scored. When flat, a non-HOLD
+ * signal opens a position at the bar close. While in a position, the bar close is
+ * checked against the TP ladder, SL/TP and the momentum-exit rule exactly like the monitor's mark price.
+ * With intrabar enabled, the bar's range (or its lower-timeframe candles) is first replayed against the
+ * stop and take profit, as the monitor does between runs.
+ * Signals whose levels fail the risk policy are counted and skipped, as the generate cron rejects them.
+ *
+ * @param data - Historical OHLCV series, oldest first
+ * @param coin - Coin symbol
+ * @param options - Weights, regime and simulation settings
+ */
+export function backtestCoin(
+    data: OHLCV[],
+    coin: string,
+    options: BacktestOptions = {}
+): { trades: BacktestTrade[]; openAtEnd: boolean; riskRejections: number } {
+    const weights = options.weights ?? DEFAULT_WEIGHTS;
+    const timeframe = options.timeframe ?? BACKTEST_DEFAULTS.timeframe;
+    const windowSize = options.windowSize ?? BACKTEST_DEFAULTS.windowSize;
+    const minBars = options.minBars ?? BACKTEST_DEFAULTS.minBars;
+    const cooldownBars = options.cooldownBars ?? BACKTEST_DEFAULTS.cooldownBars;
+    const momentumExit = options.momentumExit ?? BACKTEST_DEFAULTS.momentumExit;
+    const trailingStop = options.trailingStop ?? BACKTEST_DEFAULTS.trailingStop;
+    const takeProfitLadder = options.takeProfitLadder ?? BACKTEST_DEFAULTS.takeProfitLadder;
+    const riskPolicy = options.riskPolicy ?? BACKTEST_DEFAULTS.riskPolicy;
+    const fearGreedIndex = options.fearGreedIndex ?? null;
+    const intrabar = options.intrabar;
+    const subCandles = intrabar?.candles ?? [];
+    let subCursor = 0;
+
+    /** Lower-timeframe candles inside bar i, or the bar itself when none were supplied */
+    const candlesWithin = (i: number): OHLCV[] => {
+        if (!intrabar?.candles) return [data[i]];
+        const start = data[i].timestamp;
+        const end = i + 1 < data.length ? data[i + 1].timestamp : start + (start - data[i - 1].timestamp);
+        while (subCursor < subCandles.length && subCandles[subCursor].timestamp < start) subCursor++;
+        const within: OHLCV[] = [];
+        for (let j = subCursor; j < subCandles.length && subCandles[j].timestamp < end; j++) within.push(subCandles[j]);
+        return within;
+    };
+
+    const resolveRegime = (timestamp: number): MarketRegime => {
+        if (typeof options.regime === 'function') return options.regime(timestamp);
+        return options.regime ?? 'UNKNOWN';
+    };
+
+    const trades: BacktestTrade[] = [];
+    let position: OpenPosition | null = null;
+    let cooldownUntil = -1;
+    let riskRejections = 0;
+
+    const closePosition = (
+        open: OpenPosition,
+        i: number,
+        exit: { price: number; time: number; profitPct: number; outcome: 'WON' | 'LOST'; reason: ExitReason }
+    ) => {
+        const settled = settleExit(open.fills, exit.profitPct, exit.outcome);
+        trades.push({
+            coin,
+            direction: open.direction,
+            score: open.score,
+            regime: open.regime,
+            entryIndex: open.entryIndex,
+            exitIndex: i,
+            entryTime: data[open.entryIndex].timestamp,
+            exitTime: exit.time,
+            entryPrice: open.entryPrice,
+            stopLoss: open.initialStopLoss,
+            takeProfit: open.takeProfit,
+            finalStopLoss: open.stopLoss,
+            exitPrice: exit.price,
+            outcome: settled.outcome,
+            exitReason: exit.reason,
+            profitPct: settled.profitPct,
+            fills: open.fills,
+            indicators: open.indicators,
+        });
+        position = null;
+        cooldownUntil = i + cooldownBars;
+    };
+
+    for (let i = minBars - 1; i < data.length; i++) {
+        const bar = data[i];
+        const windowStart = Math.max(0, i - windowSize + 1);
+
+        if (position && intrabar) {
+            // Stop, ladder and target in force since the last close, replayed through the bar's range
+            const { fills, hit } = replayIntrabar(
+                position, candlesWithin(i), intrabar.tieBreak, position.targets, position.fills
+            );
+            position.fills.push(...fills);
+            if (hit) {
+                closePosition(position, i, {
+                    price: hit.exitPrice, time: hit.hitAt, profitPct: hit.profitPct, outcome: hit.outcome, reason: hit.exitReason,
+                });
+                continue;
+            }
+        }
+
+        if (position) {
+            position.stopLoss = updateTrailingStop(position, bar.close, position.indicators.atr ?? 0, trailingStop).stopLoss;
+            position.fills.push(...fillTakeProfitTargets(
+                position, position.targets, position.fills, bar.close, new Date(bar.timestamp).toISOString()
+            ));
+
+            const levels = checkPriceLevels(position, bar.close, MOMENTUM_EXIT_THRESHOLD_PCT);
+            let outcome = levels.outcome;
+            let exitReason = levels.exitReason;
+
+            if (position.targets.length > 0 && remainingFraction(position.fills) === 0) {
+                outcome = 'WON';
+                exitReason = 'TAKE_PROFIT';
+            } else if (!levels.hit && levels.momentumCheckDue && momentumExit) {
+                // Single-timeframe replay: the live monitor also requires the 1h series to agree
+                const closes = data.slice(windowStart, i + 1).map(d => d.close);
+                if (!checkMomentumAligned(closes, position.direction).aligned) {
+                    outcome = 'WON';
+                    exitReason = 'MOMENTUM_EXIT';
+                }
+            }
+
+            if (outcome && exitReason) {
+                closePosition(position, i, {
+                    price: bar.close, time: bar.timestamp, profitPct: levels.profitPct, outcome, reason: exitReason,
+                });
+            }
+            continue;
+        }
+
+        if (i <= cooldownUntil) continue;
+
+        const regime = resolveRegime(bar.timestamp);
+        const window = data.slice(windowStart, i + 1);
+        const signal = generateSignal(window, coin, fearGreedIndex, weights, null, timeframe, regime, null, riskPolicy);
+
+        if (signal.direction === 'HOLD') continue;
+
+        if (!signal.riskCheck.isValid) {
+            riskRejections++;
+            continue;
+        }
+
+        // The monitor never resolves signals whose TP sits within 1% of entry — don't open them either
+        const tpSpread = signal.direction === 'LONG'
+            ? ((signal.takeProfit - signal.entryPrice) / signal.entryPrice) * 100
+            : ((signal.entryPrice - signal.takeProfit) / signal.entryPrice) * 100;
+        if (tpSpread < 1) continue;
+
+        position = {
+            direction: signal.direction,
+            score: signal.score,
+            regime,
+            entryIndex: i,
+            entryPrice: signal.entryPrice,
+            stopLoss: signal.stopLoss,
+            initialStopLoss: signal.stopLoss,
+            takeProfit: signal.takeProfit,
+            targets: [],
+            fills: [],
+            indicators: signal.indicators,
+        };
+        if (takeProfitLadder.length > 0) position.targets = buildTakeProfitLadder(position, takeProfitLadder);
+    }
+
+    return { trades, openAtEnd: position !== null, riskRejections };
+}
+
+/**
+ * Run a backtest across several coins and aggregate the results.
+ * Trades are merged in exit order so the cumulative curve matches how proof-stats builds it.
+ */
+export function runBacktest(
+    coinData: { coin: string; data: OHLCV[]; intrabarCandles?: OHLCV[] }[],
+    options: BacktestOptions = {}
+): BacktestResult {
+    const trades: BacktestTrade[] = [];
+    let openAtEnd = 0;
+    let riskRejections = 0;
+
+    for (const { coin, data, intrabarCandles } of coinData) {
+        const coinOptions = options.intrabar && intrabarCandles
+            ? { ...options, intrabar: { ...options.intrabar, candles: intrabarCandles } }
+            : options;
+        const result = backtestCoin(data, coin, coinOptions);
+        trades.push(...result.trades);
+        if (result.openAtEnd) openAtEnd++;
+        riskRejections += result.riskRejections;
+    }
+
+    trades.sort((a, b) => a.exitTime - b.exitTime);
+
+    const cumulativeReturns = buildCumulativeReturns(trades);
+
+    return {
+        trades,
+        openAtEnd,
+        riskRejections,
+        summary: summarizeTrades(trades),
+        cumulativeReturns,
+    };
+}
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Build a proof-stats compatible cumulative return curve (running sum of trade returns)
+ */
+export function buildCumulativeReturns(trades: BacktestTrade[]): CumulativeReturn[] {
+    let runningPct = 0;
+
+    return trades.map((trade, index) => {
+        runningPct += trade.profitPct;
+        const durationHours = Math.round((trade.exitTime - trade.entryTime) / (1000 * 60 * 60) * 10) / 10;
+
+        return {
+            signalIndex: index + 1,
+            coin: trade.coin,
+            direction: trade.direction,
+            score: trade.score,
+            outcome: trade.outcome,
+            profitPct: round2(trade.profitPct),
+            cumulativePct: round2(runningPct),
+            closedAt: new Date(trade.exitTime).toISOString(),
+            entryPrice: trade.entryPrice,
+            exitPrice: trade.exitPrice,
+            exitReason: trade.exitReason,
+            durationHours,
+        };
+    });
+}
+
+/**
+ * Aggregate win rate, expectancy and drawdown over a set of closed trades
+ */
+export function summarizeTrades(trades: { profitPct: number; outcome: 'WON' | 'LOST'; entryTime?: number; exitTime?: number }[]): BacktestSummary {
+    const wins = trades.filter(t => t.outcome === 'WON');
+    const losses = trades.filter(t => t.outcome === 'LOST');
+    const total = trades.length;
+
+    const avgWinPct = wins.length > 0
+        ? wins.reduce((sum, t) => sum + t.profitPct, 0) / wins.length
+        : 0;
+    const avgLossPct = losses.length > 0
+        ? Math.abs(losses.reduce((sum, t) => sum + t.profitPct, 0) / losses.length)
+        : 0;
+    const totalPct = trades.reduce((sum, t) => sum + t.profitPct, 0);
+
+    // Max drawdown of the running-sum curve, measured from the starting point (0) onward
+    let running = 0;
+    let peak = 0;
+    let maxDrawdown = 0;
+    for (const trade of trades) {
+        running += trade.profitPct;
+        peak = Math.max(peak, running);
+        maxDrawdown = Math.max(maxDrawdown, peak - running);
+    }
+
+    const timed = trades.filter(t => t.entryTime !== undefined && t.exitTime !== undefined);
+    const avgDurationHours = timed.length > 0
+        ? timed.reduce((sum, t) => sum + (t.exitTime! - t.entryTime!), 0) / timed.length / (1000 * 60 * 60)
+        : 0;
+
+    return {
+        totalTrades: total,
+        wins: wins.length,
+        losses: losses.length,
+        winRate: total > 0 ? round2((wins.length / total) * 100) : 0,
+        avgWinPct: round2(avgWinPct),
+        avgLossPct: round2(avgLossPct),
+        expectancy: total > 0 ? round2(totalPct / total) : 0,
+        totalPct: round2(totalPct),
+        maxDrawdownPct: round2(maxDrawdown),
+        avgDurationHours: Math.round(avgDurationHours * 10) / 10,
+    };
+}
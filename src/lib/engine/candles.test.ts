@@ -0,0 +1,92 @@
+/**
+ * LISAN INTELLIGENCE — Candle Sync Tests
+ *
+ * Tests for merging, gap detection and incremental sync planning.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeCandles, findCandleGaps, planCandleSync, INTERVAL_MS } from './candles';
+import { OHLCV } from './indicators';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const STEP = INTERVAL_MS['4h'];
+const START = Date.UTC(2025, 0, 1);
+
+function makeCandle(index: number, close = 100): OHLCV {
+    return {
+        timestamp: START + index * STEP,
+        open: close,
+        high: close * 1.01,
+        low: close * 0.99,
+        close,
+        volume: 1000,
+    };
+}
+
+function makeCandles(indexes: number[]): OHLCV[] {
+    return indexes.map(i => makeCandle(i));
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+describe('mergeCandles', () => {
+    it('dedupes by timestamp and sorts oldest first', () => {
+        const merged = mergeCandles(makeCandles([2, 0]), makeCandles([1, 2]));
+        expect(merged.map(c => c.timestamp)).toEqual([0, 1, 2].map(i => START + i * STEP));
+    });
+
+    it('lets later sets replace an in-progress bar', () => {
+        const merged = mergeCandles([makeCandle(5, 100)], [makeCandle(5, 105)]);
+        expect(merged).toHaveLength(1);
+        expect(merged[0].close).toBe(105);
+    });
+});
+
+// ============================================================================
+// GAPS
+// ============================================================================
+
+describe('findCandleGaps', () => {
+    it('returns nothing for a contiguous series', () => {
+        expect(findCandleGaps(makeCandles([0, 1, 2, 3]), '4h')).toEqual([]);
+    });
+
+    it('returns the inclusive range of missing bars', () => {
+        const gaps = findCandleGaps(makeCandles([0, 1, 4, 5]), '4h');
+        expect(gaps).toEqual([{ startTime: START + 2 * STEP, endTime: START + 3 * STEP }]);
+    });
+});
+
+// ============================================================================
+// SYNC PLAN
+// ============================================================================
+
+describe('planCandleSync', () => {
+    const now = START + 10 * STEP;
+
+    it('backfills the full window when the store is empty', () => {
+        const ranges = planCandleSync([], '4h', 100, now);
+        expect(ranges).toEqual([{ startTime: now - 100 * STEP, endTime: now }]);
+    });
+
+    it('only re-fetches from the last stored bar when the store is full', () => {
+        const stored = makeCandles([6, 7, 8, 9]);
+        const ranges = planCandleSync(stored, '4h', 4, now);
+        expect(ranges).toEqual([{ startTime: START + 9 * STEP, endTime: now }]);
+    });
+
+    it('extends history backwards and fills gaps when the store is short', () => {
+        const stored = makeCandles([6, 7, 9]);
+        const ranges = planCandleSync(stored, '4h', 5, now);
+        expect(ranges).toEqual([
+            { startTime: START + 4 * STEP, endTime: START + 5 * STEP },
+            { startTime: START + 8 * STEP, endTime: START + 8 * STEP },
+            { startTime: START + 9 * STEP, endTime: now },
+        ]);
+    });
+});
@@ -0,0 +1,219 @@
+/**
+ * LISAN INTELLIGENCE — Candle Fetching
+ *
+ * Single implementation of the exchange candle fetchers (Binance primary,
+ * Hyperliquid fallback) plus the pure helpers the candle store uses to
+ * merge, gap-check and plan incremental syncs.
+ */
+
+import { OHLCV } from './indicators';
+
+const HYPERLIQUID_API = 'https://api.hyperliquid.xyz/info';
+const BINANCE_KLINES_API = 'https://api.binance.com/api/v3/klines';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+export type CandleSource = 'binance' | 'hyperliquid';
+
+export interface CandleRange {
+    startTime: number;   // Inclusive open time of the first bar to fetch
+    endTime: number;     // Inclusive open time of the last bar to fetch
+}
+
+export interface FetchCandlesOptions {
+    limit?: number;      // Bars ending at endTime (ignored when startTime is set)
+    startTime?: number;
+    endTime?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const INTERVAL_MS: Record<CandleInterval, number> = {
+    '1m': 60 * 1000,
+    '5m': 5 * 60 * 1000,
+    '15m': 15 * 60 * 1000,
+    '1h': 60 * 60 * 1000,
+    '4h': 4 * 60 * 60 * 1000,
+    '1d': 24 * 60 * 60 * 1000,
+};
+
+/** Coins that are not listed on Binance and must use Hyperliquid directly */
+export const HYPERLIQUID_ONLY_COINS = ['HYPE'];
+
+/** Binance caps a single klines request at 1000 bars */
+const BINANCE_MAX_LIMIT = 1000;
+
+// ============================================================================
+// EXCHANGE FETCHERS
+// ============================================================================
+
+/**
+ * Fetch candles from Binance
+ */
+export async function fetchBinanceCandles(
+    symbol: string,
+    interval: CandleInterval = '4h',
+    options: FetchCandlesOptions = {}
+): Promise<OHLCV[]> {
+    try {
+        const params = new URLSearchParams({
+            symbol: `${symbol.toUpperCase()}USDT`,
+            interval,
+        });
+        if (options.startTime !== undefined) {
+            params.set('startTime', String(options.startTime));
+            params.set('limit', String(BINANCE_MAX_LIMIT));
+        } else {
+            params.set('limit', String(Math.min(options.limit ?? 100, BINANCE_MAX_LIMIT)));
+        }
+        if (options.endTime !== undefined) params.set('endTime', String(options.endTime));
+
+        const response = await fetch(`${BINANCE_KLINES_API}?${params.toString()}`);
+        if (!response.ok) return [];
+
+        const klines = await response.json() as [number, string, string, string, string, string][];
+        return klines.map(k => ({
+            timestamp: k[0],
+            open: parseFloat(String(k[1])),
+            high: parseFloat(String(k[2])),
+            low: parseFloat(String(k[3])),
+            close: parseFloat(String(k[4])),
+            volume: parseFloat(String(k[5])),
+        }));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Fetch candles from Hyperliquid
+ */
+export async function fetchHyperliquidCandles(
+    symbol: string,
+    interval: CandleInterval = '4h',
+    options: FetchCandlesOptions = {}
+): Promise<OHLCV[]> {
+    try {
+        const endTime = options.endTime ?? Date.now();
+        const startTime = options.startTime ?? endTime - ((options.limit ?? 100) * INTERVAL_MS[interval]);
+
+        const response = await fetch(HYPERLIQUID_API, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                type: 'candleSnapshot',
+                req: { coin: symbol.toUpperCase(), interval, startTime, endTime },
+            }),
+        });
+
+        if (!response.ok) return [];
+
+        const candles = await response.json() as { t: number; o: string; h: string; l: string; c: string; v: string }[];
+        return candles.map(c => ({
+            timestamp: c.t,
+            open: parseFloat(c.o),
+            high: parseFloat(c.h),
+            low: parseFloat(c.l),
+            close: parseFloat(c.c),
+            volume: parseFloat(c.v),
+        }));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Fetch candles from the preferred exchange with fallback.
+ * IMPORTANT: Binance is primary because HL 4h candles have stale close prices.
+ * Coins in HYPERLIQUID_ONLY_COINS go straight to Hyperliquid.
+ */
+export async function fetchCandles(
+    symbol: string,
+    interval: CandleInterval = '4h',
+    options: FetchCandlesOptions = {}
+): Promise<{ candles: OHLCV[]; source: CandleSource }> {
+    if (!HYPERLIQUID_ONLY_COINS.includes(symbol.toUpperCase())) {
+        const binanceData = await fetchBinanceCandles(symbol, interval, options);
+        if (binanceData.length > 0) {
+            return { candles: binanceData, source: 'binance' };
+        }
+    }
+
+    const hlData = await fetchHyperliquidCandles(symbol, interval, options);
+    return { candles: hlData, source: 'hyperliquid' };
+}
+
+// ============================================================================
+// SYNC HELPERS
+// ============================================================================
+
+/**
+ * Merge candle sets by open time. Later sets win, so a re-fetched
+ * in-progress bar replaces the partial copy that was stored earlier.
+ */
+export function mergeCandles(...sets: OHLCV[][]): OHLCV[] {
+    const byTimestamp = new Map<number, OHLCV>();
+    for (const set of sets) {
+        for (const candle of set) {
+            byTimestamp.set(candle.timestamp, candle);
+        }
+    }
+    return [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Find missing bars between consecutive stored candles
+ */
+export function findCandleGaps(candles: OHLCV[], interval: CandleInterval): CandleRange[] {
+    const step = INTERVAL_MS[interval];
+    const gaps: CandleRange[] = [];
+
+    for (let i = 1; i < candles.length; i++) {
+        const expected = candles[i - 1].timestamp + step;
+        if (candles[i].timestamp > expected) {
+            gaps.push({ startTime: expected, endTime: candles[i].timestamp - step });
+        }
+    }
+
+    return gaps;
+}
+
+/**
+ * Decide which ranges must be fetched to serve `limit` bars from the store.
+ *
+ * - Empty store: backfill the full window.
+ * - Otherwise: re-fetch from the last stored bar (it may have been in progress),
+ *   fill interior gaps, and extend history backwards if the store is too short.
+ */
+export function planCandleSync(
+    stored: OHLCV[],
+    interval: CandleInterval,
+    limit: number,
+    now: number = Date.now()
+): CandleRange[] {
+    const step = INTERVAL_MS[interval];
+
+    if (stored.length === 0) {
+        return [{ startTime: now - limit * step, endTime: now }];
+    }
+
+    const ranges: CandleRange[] = [];
+    const first = stored[0].timestamp;
+    const last = stored[stored.length - 1].timestamp;
+
+    if (stored.length < limit) {
+        const missing = limit - stored.length;
+        ranges.push({ startTime: first - missing * step, endTime: first - step });
+    }
+
+    ranges.push(...findCandleGaps(stored, interval));
+    ranges.push({ startTime: last, endTime: now });
+
+    return ranges;
+}
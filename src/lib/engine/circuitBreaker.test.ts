@@ -0,0 +1,145 @@
+/**
+ * LISAN INTELLIGENCE — Circuit Breaker Tests
+ *
+ * Tests rolling drawdown, trip modes, latching, admin clears and enforcement.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    rollingDrawdownPct,
+    evaluateCircuitBreaker,
+    nextCircuitBreakerState,
+    clearedCircuitBreakerState,
+    circuitBreakerBlock,
+    BreakerMetrics,
+    DEFAULT_CIRCUIT_BREAKER,
+} from './circuitBreaker';
+
+const HEALTHY: BreakerMetrics = {
+    drawdownPct: 2,
+    lossStreak: 0,
+    trailingWinRate: 60,
+    trailingTrades: 10,
+    long: { wins: 6, losses: 4, winRate: 60 },
+    short: { wins: 6, losses: 4, winRate: 60 },
+    lastClosedAt: '2026-01-01T00:00:00Z',
+};
+
+const HOUR = 3600000;
+const T0 = Date.parse('2026-01-01T00:00:00Z');
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+describe('rollingDrawdownPct', () => {
+    it('measures the drop from the cumulative peak to the end', () => {
+        // Peak +5 after two wins, ends at -3
+        expect(rollingDrawdownPct([2, 3, -4, -2, -2, 1, -3])).toBe(10);
+    });
+
+    it('is zero at a new high and for no trades', () => {
+        expect(rollingDrawdownPct([-2, 1, 4])).toBe(0);
+        expect(rollingDrawdownPct([])).toBe(0);
+    });
+});
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+describe('evaluateCircuitBreaker', () => {
+    it('stays off while performance is healthy', () => {
+        expect(evaluateCircuitBreaker(HEALTHY).mode).toBeNull();
+    });
+
+    it('pauses on a deep drawdown or a long loss streak', () => {
+        expect(evaluateCircuitBreaker({ ...HEALTHY, drawdownPct: 16 }).mode).toBe('PAUSE');
+        expect(evaluateCircuitBreaker({ ...HEALTHY, lossStreak: 6 })).toEqual({
+            mode: 'PAUSE', direction: null, minScore: null, reasons: ['6 consecutive losses'],
+        });
+    });
+
+    it('restricts to the direction that is still winning', () => {
+        const evaluation = evaluateCircuitBreaker({
+            ...HEALTHY,
+            trailingWinRate: 30,
+            long: { wins: 1, losses: 6, winRate: 14.3 },
+            short: { wins: 4, losses: 2, winRate: 66.7 },
+        });
+
+        expect(evaluation.mode).toBe('DIRECTION_ONLY');
+        expect(evaluation.direction).toBe('SHORT');
+    });
+
+    it('raises the score threshold when neither direction stands out', () => {
+        const evaluation = evaluateCircuitBreaker({ ...HEALTHY, drawdownPct: 9 });
+
+        expect(evaluation).toMatchObject({ mode: 'RAISE_THRESHOLD', minScore: DEFAULT_CIRCUIT_BREAKER.raisedMinScore });
+    });
+
+    it('ignores the win rate until there are enough trades, and everything when disabled', () => {
+        expect(evaluateCircuitBreaker({ ...HEALTHY, trailingWinRate: 0, trailingTrades: 3 }).mode).toBeNull();
+        expect(evaluateCircuitBreaker({ ...HEALTHY, lossStreak: 9 }, { ...DEFAULT_CIRCUIT_BREAKER, enabled: false }).mode).toBeNull();
+    });
+});
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+describe('nextCircuitBreakerState', () => {
+    const paused = nextCircuitBreakerState(null, { ...HEALTHY, lossStreak: 7 }, DEFAULT_CIRCUIT_BREAKER, T0);
+
+    it('records when the breaker tripped', () => {
+        expect(paused).toMatchObject({ mode: 'PAUSE', trippedAt: '2026-01-01T00:00:00.000Z' });
+    });
+
+    it('holds a trip through the cooldown, then releases it', () => {
+        const held = nextCircuitBreakerState(paused, HEALTHY, DEFAULT_CIRCUIT_BREAKER, T0 + HOUR);
+        expect(held.mode).toBe('PAUSE');
+
+        const released = nextCircuitBreakerState(paused, HEALTHY, DEFAULT_CIRCUIT_BREAKER, T0 + 13 * HOUR);
+        expect(released).toMatchObject({ mode: null, trippedAt: null });
+    });
+
+    it('escalates immediately and keeps the original trip time', () => {
+        const throttled = nextCircuitBreakerState(null, { ...HEALTHY, drawdownPct: 9 }, DEFAULT_CIRCUIT_BREAKER, T0);
+        const escalated = nextCircuitBreakerState(throttled, { ...HEALTHY, drawdownPct: 20 }, DEFAULT_CIRCUIT_BREAKER, T0 + HOUR);
+
+        expect(escalated).toMatchObject({ mode: 'PAUSE', trippedAt: throttled.trippedAt });
+    });
+
+    it('stays cleared after an admin clear until another signal closes', () => {
+        const cleared = clearedCircuitBreakerState(paused, T0 + HOUR);
+        const stale = { ...HEALTHY, lossStreak: 7 };
+
+        expect(nextCircuitBreakerState(cleared, stale, DEFAULT_CIRCUIT_BREAKER, T0 + 2 * HOUR).mode).toBeNull();
+
+        const fresh = { ...stale, lossStreak: 8, lastClosedAt: new Date(T0 + 90 * 60000).toISOString() };
+        expect(nextCircuitBreakerState(cleared, fresh, DEFAULT_CIRCUIT_BREAKER, T0 + 2 * HOUR).mode).toBe('PAUSE');
+    });
+});
+
+// ============================================================================
+// ENFORCEMENT
+// ============================================================================
+
+describe('circuitBreakerBlock', () => {
+    const base = { ...clearedCircuitBreakerState(null, T0), clearedAt: null };
+
+    it('lets everything through when not tripped', () => {
+        expect(circuitBreakerBlock(null, 'LONG', 30)).toBeNull();
+        expect(circuitBreakerBlock(base, 'SHORT', 30)).toBeNull();
+    });
+
+    it('blocks the losing direction and low scores', () => {
+        const shortOnly = { ...base, mode: 'DIRECTION_ONLY' as const, direction: 'SHORT' as const };
+        expect(circuitBreakerBlock(shortOnly, 'LONG', 90)).toBe('Circuit breaker: SHORT only');
+        expect(circuitBreakerBlock(shortOnly, 'SHORT', 30)).toBeNull();
+
+        const raised = { ...base, mode: 'RAISE_THRESHOLD' as const, minScore: 60 };
+        expect(circuitBreakerBlock(raised, 'LONG', 59)).toBe('Circuit breaker: score 59 < 60');
+        expect(circuitBreakerBlock(raised, 'LONG', 60)).toBeNull();
+    });
+});
@@ -0,0 +1,224 @@
+/**
+ * LISAN INTELLIGENCE — Drawdown Circuit Breaker
+ *
+ * Throttles the signal generator while recent performance is collapsing:
+ *
+ * - PAUSE: no new signals (deep rolling drawdown or a long loss streak)
+ * - DIRECTION_ONLY: only the direction that is still winning may trade
+ * - RAISE_THRESHOLD: only high-score setups may trade
+ *
+ * The learn cron evaluates it and persists the state; the generate cron enforces it.
+ * A trip is latched for a cooldown so the breaker doesn't flap between runs, and an
+ * admin clear holds until the next signal closes.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BreakerMode = 'PAUSE' | 'DIRECTION_ONLY' | 'RAISE_THRESHOLD';
+
+export interface CircuitBreakerConfig {
+    enabled: boolean;
+    drawdownWindow: number;         // Closed signals in the rolling drawdown
+    pauseDrawdownPct: number;       // Rolling drawdown (sum of % returns) that pauses generation
+    pauseLossStreak: number;        // Consecutive losses that pause generation
+    warnDrawdownPct: number;        // Rolling drawdown that throttles generation
+    warnLossStreak: number;         // Consecutive losses that throttle generation
+    minWinRate: number;             // Trailing win rate (%) below which generation is throttled
+    minTrades: number;              // Resolved trades needed before the win rate counts
+    minDirectionalTrades: number;   // Resolved trades a direction needs to be trusted on its own
+    raisedMinScore: number;         // Minimum score while RAISE_THRESHOLD is active
+    cooldownHours: number;          // A trip holds at least this long
+}
+
+export interface DirectionRecord {
+    wins: number;
+    losses: number;
+    winRate: number;
+}
+
+export interface BreakerMetrics {
+    drawdownPct: number;            // Peak-to-current drop of the cumulative return, %
+    lossStreak: number;             // Unprocessed consecutive losses
+    trailingWinRate: number;
+    trailingTrades: number;
+    long: DirectionRecord;
+    short: DirectionRecord;
+    lastClosedAt: string | null;    // Newest close behind these metrics
+}
+
+export interface BreakerEvaluation {
+    mode: BreakerMode | null;
+    direction: 'LONG' | 'SHORT' | null;
+    minScore: number | null;
+    reasons: string[];
+}
+
+export interface CircuitBreakerState extends BreakerEvaluation {
+    trippedAt: string | null;
+    clearedAt: string | null;       // Last admin clear
+    updatedAt: string;
+    metrics: BreakerMetrics | null;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerConfig = {
+    enabled: true,
+    drawdownWindow: 30,
+    pauseDrawdownPct: 15,
+    pauseLossStreak: 6,
+    warnDrawdownPct: 8,
+    warnLossStreak: 3,
+    minWinRate: 40,
+    minTrades: 5,
+    minDirectionalTrades: 5,
+    raisedMinScore: 60,
+    cooldownHours: 12,
+};
+
+const SEVERITY: Record<BreakerMode, number> = { RAISE_THRESHOLD: 1, DIRECTION_ONLY: 2, PAUSE: 3 };
+
+const NOT_TRIPPED: BreakerEvaluation = { mode: null, direction: null, minScore: null, reasons: [] };
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+/**
+ * Drop from the peak of the cumulative return to where it ends, % (oldest return first)
+ */
+export function rollingDrawdownPct(returns: number[]): number {
+    let cumulative = 0;
+    let peak = 0;
+    for (const r of returns) {
+        cumulative += r;
+        peak = Math.max(peak, cumulative);
+    }
+    return Math.round((peak - cumulative) * 100) / 100;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * The direction still worth trading: enough trades, above the win-rate floor, and the other side below it
+ */
+function winningDirection(metrics: BreakerMetrics, config: CircuitBreakerConfig): 'LONG' | 'SHORT' | null {
+    const trusted = (record: DirectionRecord) =>
+        record.wins + record.losses >= config.minDirectionalTrades && record.winRate >= config.minWinRate;
+
+    if (trusted(metrics.long) && !trusted(metrics.short)) return 'LONG';
+    if (trusted(metrics.short) && !trusted(metrics.long)) return 'SHORT';
+    return null;
+}
+
+/**
+ * Decide what the current metrics call for, without history
+ */
+export function evaluateCircuitBreaker(metrics: BreakerMetrics, config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER): BreakerEvaluation {
+    if (!config.enabled) return NOT_TRIPPED;
+
+    const pauseReasons: string[] = [];
+    if (metrics.drawdownPct >= config.pauseDrawdownPct) {
+        pauseReasons.push(`Rolling drawdown ${metrics.drawdownPct.toFixed(1)}% ≥ ${config.pauseDrawdownPct}%`);
+    }
+    if (metrics.lossStreak >= config.pauseLossStreak) {
+        pauseReasons.push(`${metrics.lossStreak} consecutive losses`);
+    }
+    if (pauseReasons.length > 0) {
+        return { mode: 'PAUSE', direction: null, minScore: null, reasons: pauseReasons };
+    }
+
+    const reasons: string[] = [];
+    if (metrics.drawdownPct >= config.warnDrawdownPct) {
+        reasons.push(`Rolling drawdown ${metrics.drawdownPct.toFixed(1)}% ≥ ${config.warnDrawdownPct}%`);
+    }
+    if (metrics.lossStreak >= config.warnLossStreak) {
+        reasons.push(`${metrics.lossStreak} consecutive losses`);
+    }
+    if (metrics.trailingTrades >= config.minTrades && metrics.trailingWinRate < config.minWinRate) {
+        reasons.push(`Trailing win rate ${metrics.trailingWinRate.toFixed(1)}% < ${config.minWinRate}%`);
+    }
+    if (reasons.length === 0) return NOT_TRIPPED;
+
+    const direction = winningDirection(metrics, config);
+    if (direction) {
+        const record = direction === 'LONG' ? metrics.long : metrics.short;
+        reasons.push(`${direction} still winning ${record.winRate.toFixed(1)}% (${record.wins}W/${record.losses}L)`);
+        return { mode: 'DIRECTION_ONLY', direction, minScore: null, reasons };
+    }
+
+    return { mode: 'RAISE_THRESHOLD', direction: null, minScore: config.raisedMinScore, reasons };
+}
+
+/**
+ * Fold a fresh evaluation into the persisted state.
+ * A trip never weakens before its cooldown ends; after an admin clear nothing trips
+ * again until a signal closes after the clear.
+ */
+export function nextCircuitBreakerState(
+    previous: CircuitBreakerState | null,
+    metrics: BreakerMetrics,
+    config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER,
+    now: number = Date.now()
+): CircuitBreakerState {
+    const clearedAt = previous?.clearedAt ?? null;
+    const updatedAt = new Date(now).toISOString();
+
+    const heldByClear = clearedAt !== null && !previous?.mode
+        && (metrics.lastClosedAt === null || Date.parse(metrics.lastClosedAt) <= Date.parse(clearedAt));
+    const evaluation = heldByClear ? NOT_TRIPPED : evaluateCircuitBreaker(metrics, config);
+
+    if (config.enabled && previous?.mode && previous.trippedAt) {
+        const coolingDown = now - Date.parse(previous.trippedAt) < config.cooldownHours * 3600000;
+        const weaker = !evaluation.mode || SEVERITY[evaluation.mode] < SEVERITY[previous.mode];
+        if (coolingDown && weaker) {
+            return { ...previous, updatedAt, metrics };
+        }
+    }
+
+    if (!evaluation.mode) {
+        return { ...NOT_TRIPPED, trippedAt: null, clearedAt, updatedAt, metrics };
+    }
+
+    // Escalating or re-confirming keeps the original trip time
+    const trippedAt = previous?.mode && previous.trippedAt ? previous.trippedAt : updatedAt;
+    return { ...evaluation, trippedAt, clearedAt, updatedAt, metrics };
+}
+
+/**
+ * An admin clear: back to normal until the next signal closes
+ */
+export function clearedCircuitBreakerState(previous: CircuitBreakerState | null, now: number = Date.now()): CircuitBreakerState {
+    const at = new Date(now).toISOString();
+    return { ...NOT_TRIPPED, trippedAt: null, clearedAt: at, updatedAt: at, metrics: previous?.metrics ?? null };
+}
+
+// ============================================================================
+// ENFORCEMENT
+// ============================================================================
+
+/**
+ * Why the breaker blocks a signal, or null when it may be emitted
+ */
+export function circuitBreakerBlock(
+    state: CircuitBreakerState | null,
+    direction: 'LONG' | 'SHORT',
+    score: number
+): string | null {
+    if (!state?.mode) return null;
+
+    switch (state.mode) {
+        case 'PAUSE':
+            return 'Circuit breaker: generation paused';
+        case 'DIRECTION_ONLY':
+            return state.direction && direction !== state.direction
+                ? `Circuit breaker: ${state.direction} only`
+                : null;
+        case 'RAISE_THRESHOLD':
+            return state.minScore !== null && score < state.minScore
+                ? `Circuit breaker: score ${score} < ${state.minScore}`
+                : null;
+    }
+}
@@ -0,0 +1,150 @@
+/**
+ * LISAN INTELLIGENCE — Multi-Timeframe Confluence Tests
+ *
+ * Tests for confluence grading and snapshot flattening.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateConfluence, generateMultiTimeframeSignal, confluenceBlock, confluenceSnapshot } from './confluence';
+import { SignalOutput } from './scoring';
+import { SignalDirection } from './risk';
+import { OHLCV } from './indicators';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+function makeSignal(timeframe: string, direction: SignalDirection, score = 60): SignalOutput {
+    return {
+        coin: 'BTC',
+        direction,
+        score,
+        agreement: 0.8,
+        timeframe,
+        entryPrice: 100,
+        stopLoss: 95,
+        takeProfit: 110,
+        riskRewardRatio: 2,
+        recommendedLeverage: 4,
+        liquidationPrice: 76.92,
+        leverageWarning: null,
+        takeProfitTargets: [],
+        riskCheck: { isValid: true },
+        breakdown: {
+            momentum: { score: 0, max: 25 },
+            trend: { score: 0, max: 25 },
+            volume: { score: 0, max: 16 },
+            sentiment: { score: 0, max: 8 },
+            positioning: { score: 0, max: 0 },
+            structure: { score: 0, max: 0 },
+        },
+        indicators: {},
+        timestamp: new Date(),
+    };
+}
+
+function makeTrendData(length: number, drift: number): OHLCV[] {
+    const data: OHLCV[] = [];
+    let price = 100;
+    for (let i = 0; i < length; i++) {
+        const open = price;
+        price = price * (1 + drift + Math.sin(i / 3) * 0.002);
+        data.push({
+            open,
+            high: Math.max(open, price) * 1.003,
+            low: Math.min(open, price) * 0.997,
+            close: price,
+            volume: 1000000 + i * 1000,
+            timestamp: Date.UTC(2025, 0, 1) + i * 3600000,
+        });
+    }
+    return data;
+}
+
+// ============================================================================
+// GRADING
+// ============================================================================
+
+describe('evaluateConfluence', () => {
+    it('is HIGH when every timeframe agrees', () => {
+        const result = evaluateConfluence([
+            makeSignal('1h', 'LONG'), makeSignal('4h', 'LONG'), makeSignal('1d', 'LONG'),
+        ]);
+        expect(result.quality).toBe('HIGH');
+        expect(result.aligned).toEqual(['1h', '1d']);
+    });
+
+    it('is MEDIUM when one agrees and the other holds', () => {
+        const result = evaluateConfluence([
+            makeSignal('1h', 'HOLD'), makeSignal('4h', 'SHORT'), makeSignal('1d', 'SHORT'),
+        ]);
+        expect(result.quality).toBe('MEDIUM');
+    });
+
+    it('is LOW when any timeframe opposes', () => {
+        const result = evaluateConfluence([
+            makeSignal('1h', 'LONG'), makeSignal('4h', 'LONG'), makeSignal('1d', 'SHORT'),
+        ]);
+        expect(result.quality).toBe('LOW');
+        expect(result.opposed).toEqual(['1d']);
+    });
+
+    it('is LOW when the primary holds', () => {
+        const result = evaluateConfluence([makeSignal('1h', 'LONG'), makeSignal('4h', 'HOLD')]);
+        expect(result.quality).toBe('LOW');
+        expect(result.aligned).toHaveLength(0);
+    });
+});
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+describe('generateMultiTimeframeSignal', () => {
+    it('returns the primary timeframe signal with a confluence grade', () => {
+        const data = makeTrendData(100, 0.004);
+        const signal = generateMultiTimeframeSignal({ '1h': data, '4h': data, '1d': data }, 'BTC');
+        expect(signal).not.toBeNull();
+        expect(signal!.timeframe).toBe('4h');
+        expect(signal!.confluence.timeframes).toHaveLength(3);
+    });
+
+    it('skips timeframes without enough bars', () => {
+        const data = makeTrendData(100, 0.004);
+        const signal = generateMultiTimeframeSignal({ '1h': data.slice(0, 20), '4h': data }, 'BTC');
+        expect(signal!.confluence.timeframes.map(t => t.timeframe)).toEqual(['4h']);
+    });
+
+    it('returns null without primary data', () => {
+        expect(generateMultiTimeframeSignal({ '1h': makeTrendData(100, 0.004) }, 'BTC')).toBeNull();
+    });
+});
+
+describe('confluenceBlock', () => {
+    it('blocks a signal another timeframe opposes', () => {
+        const summary = evaluateConfluence([
+            makeSignal('1h', 'LONG'), makeSignal('4h', 'LONG'), makeSignal('1d', 'SHORT'),
+        ]);
+        expect(confluenceBlock(summary)).toBe('Confluence: 1d opposes the 4h signal');
+    });
+
+    it('lets a LOW grade without opposition through', () => {
+        const holds = evaluateConfluence([
+            makeSignal('1h', 'HOLD'), makeSignal('4h', 'LONG'), makeSignal('1d', 'HOLD'),
+        ]);
+        expect(holds.quality).toBe('LOW');
+        expect(confluenceBlock(holds)).toBeNull();
+        expect(confluenceBlock(evaluateConfluence([makeSignal('4h', 'SHORT')]))).toBeNull();
+    });
+});
+
+describe('confluenceSnapshot', () => {
+    it('flattens per-timeframe breakdowns into scalar keys', () => {
+        const summary = evaluateConfluence([makeSignal('1h', 'LONG', 55), makeSignal('4h', 'LONG', 70)]);
+        const snapshot = confluenceSnapshot(summary);
+        expect(snapshot.confluence).toBe('HIGH');
+        expect(snapshot.tf_1h_direction).toBe('LONG');
+        expect(snapshot.tf_4h_score).toBe(70);
+        expect(snapshot.confluenceAligned).toBe(1);
+    });
+});
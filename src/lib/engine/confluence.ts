@@ -0,0 +1,166 @@
+/**
+ * LISAN INTELLIGENCE — Multi-Timeframe Confluence
+ *
+ * Scores a coin on 1h, 4h and 1d candles and grades the primary (4h) signal
+ * by how many of the other timeframes point the same way.
+ * Same idea as the monitor's dual-timeframe momentum exit, applied at entry:
+ * a signal another timeframe opposes is not emitted (confluenceBlock).
+ */
+
+import { OHLCV } from './indicators';
+import { generateSignal, SignalOutput, IndicatorWeights, RegimeWeightSet, HyperliquidContext, DEFAULT_WEIGHTS } from './scoring';
+import { SignalDirection, DEFAULT_RISK_POLICY, RiskPolicy } from './risk';
+import { MarketRegime, RegimeAdjustmentTable, DEFAULT_REGIME_ADJUSTMENTS } from './regime';
+import type { CrossAssetStats } from './correlation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ConfluenceTimeframe = '1h' | '4h' | '1d';
+
+export type ConfluenceQuality = 'HIGH' | 'MEDIUM' | 'LOW';
+
+export interface TimeframeBreakdown {
+    timeframe: ConfluenceTimeframe;
+    direction: SignalDirection;
+    score: number;
+    agreement: number;
+}
+
+export interface ConfluenceSummary {
+    primaryTimeframe: ConfluenceTimeframe;
+    quality: ConfluenceQuality;
+    aligned: ConfluenceTimeframe[];    // Other timeframes pointing the same way as the primary
+    opposed: ConfluenceTimeframe[];    // Other timeframes pointing the opposite way
+    timeframes: TimeframeBreakdown[];
+}
+
+export type MultiTimeframeSignal = SignalOutput & { confluence: ConfluenceSummary };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CONFLUENCE_TIMEFRAMES: ConfluenceTimeframe[] = ['1h', '4h', '1d'];
+
+/** Bars each timeframe needs to be scored (same minimum the generate cron uses) */
+const MIN_BARS = 50;
+
+// ============================================================================
+// CONFLUENCE
+// ============================================================================
+
+/**
+ * Grade a primary signal against the other timeframes.
+ *
+ * - HIGH: every other timeframe agrees
+ * - MEDIUM: at least one agrees and none oppose
+ * - LOW: primary is HOLD, nothing agrees, or any timeframe opposes
+ */
+export function evaluateConfluence(
+    signals: SignalOutput[],
+    primaryTimeframe: ConfluenceTimeframe = '4h'
+): ConfluenceSummary {
+    const timeframes: TimeframeBreakdown[] = signals.map(s => ({
+        timeframe: s.timeframe as ConfluenceTimeframe,
+        direction: s.direction,
+        score: s.score,
+        agreement: s.agreement,
+    }));
+
+    const primary = timeframes.find(t => t.timeframe === primaryTimeframe);
+    const others = timeframes.filter(t => t.timeframe !== primaryTimeframe);
+
+    if (!primary || primary.direction === 'HOLD') {
+        return { primaryTimeframe, quality: 'LOW', aligned: [], opposed: [], timeframes };
+    }
+
+    const aligned = others.filter(t => t.direction === primary.direction).map(t => t.timeframe);
+    const opposed = others
+        .filter(t => t.direction !== 'HOLD' && t.direction !== primary.direction)
+        .map(t => t.timeframe);
+
+    let quality: ConfluenceQuality = 'LOW';
+    if (opposed.length === 0 && others.length > 0 && aligned.length === others.length) {
+        quality = 'HIGH';
+    } else if (opposed.length === 0 && aligned.length > 0) {
+        quality = 'MEDIUM';
+    }
+
+    return { primaryTimeframe, quality, aligned, opposed, timeframes };
+}
+
+/**
+ * Generate the primary signal and grade it with the other timeframes.
+ * Timeframes with fewer than 50 bars are skipped; returns null if the primary is missing.
+ *
+ * @param candles - Candles per timeframe, oldest first
+ * @param coin - Coin symbol
+ * @param fearGreedIndex - Optional Fear & Greed index value
+ * @param weights - Indicator weights (shared by all timeframes)
+ * @param hlContext - Optional Hyperliquid context (positioning is timeframe-independent)
+ * @param regime - Current market regime
+ * @param primaryTimeframe - Timeframe whose signal is traded
+ * @param crossAsset - Optional cross-asset stats, computed on primary-timeframe candles (primary only)
+ * @param riskPolicy - ATR multipliers and limits for every timeframe's levels and riskCheck
+ * @param regimeAdjustments - Per-regime multipliers for every timeframe's score
+ * @param regimeWeights - Optional weight vector per regime (the regime's replaces `weights`)
+ */
+export function generateMultiTimeframeSignal(
+    candles: Partial<Record<ConfluenceTimeframe, OHLCV[]>>,
+    coin: string,
+    fearGreedIndex: number | null = null,
+    weights: IndicatorWeights = DEFAULT_WEIGHTS,
+    hlContext: HyperliquidContext | null = null,
+    regime: MarketRegime = 'UNKNOWN',
+    primaryTimeframe: ConfluenceTimeframe = '4h',
+    crossAsset: CrossAssetStats | null = null,
+    riskPolicy: RiskPolicy = DEFAULT_RISK_POLICY,
+    regimeAdjustments: RegimeAdjustmentTable = DEFAULT_REGIME_ADJUSTMENTS,
+    regimeWeights: RegimeWeightSet | null = null
+): MultiTimeframeSignal | null {
+    const signals: SignalOutput[] = [];
+
+    for (const timeframe of CONFLUENCE_TIMEFRAMES) {
+        const data = candles[timeframe];
+        if (!data || data.length < MIN_BARS) continue;
+        const stats = timeframe === primaryTimeframe ? crossAsset : null;
+        signals.push(generateSignal(data, coin, fearGreedIndex, weights, hlContext, timeframe, regime, stats, riskPolicy, regimeAdjustments, regimeWeights));
+    }
+
+    const primary = signals.find(s => s.timeframe === primaryTimeframe);
+    if (!primary) return null;
+
+    return { ...primary, confluence: evaluateConfluence(signals, primaryTimeframe) };
+}
+
+/**
+ * Why confluence blocks a directional signal, or null when it may be emitted.
+ * Only a timeframe pointing the other way blocks — a LOW grade from HOLDs or missing data does not.
+ */
+export function confluenceBlock(summary: ConfluenceSummary): string | null {
+    return summary.opposed.length > 0
+        ? `Confluence: ${summary.opposed.join('/')} opposes the ${summary.primaryTimeframe} signal`
+        : null;
+}
+
+/**
+ * Flatten a confluence summary into indicator_snapshot keys
+ * (e.g. confluence: 'HIGH', tf_1h_direction: 'LONG', tf_1h_score: 62)
+ */
+export function confluenceSnapshot(summary: ConfluenceSummary): Record<string, number | string> {
+    const snapshot: Record<string, number | string> = {
+        confluence: summary.quality,
+        confluenceAligned: summary.aligned.length,
+        confluenceOpposed: summary.opposed.length,
+    };
+
+    for (const tf of summary.timeframes) {
+        snapshot[`tf_${tf.timeframe}_direction`] = tf.direction;
+        snapshot[`tf_${tf.timeframe}_score`] = tf.score;
+        snapshot[`tf_${tf.timeframe}_agreement`] = Math.round(tf.agreement * 100) / 100;
+    }
+
+    return snapshot;
+}
@@ -0,0 +1,184 @@
+/**
+ * LISAN INTELLIGENCE — Cross-Asset Correlation Tests
+ *
+ * Tests correlation, beta and relative-strength ranking on constructed return series.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { pearson, beta, analyzeCrossAsset, RelativeStrength, CrossAssetStats } from './correlation';
+import { generateSignal } from './scoring';
+import { OHLCV } from './indicators';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const HOUR = 3600000;
+
+/** Candles whose close follows the given per-bar log returns */
+function fromReturns(returns: number[], start = 100, offset = 0): OHLCV[] {
+    const data: OHLCV[] = [];
+    let price = start;
+    data.push({ open: price, high: price, low: price, close: price, volume: 1000, timestamp: offset * HOUR });
+    returns.forEach((r, i) => {
+        const open = price;
+        price = price * Math.exp(r);
+        data.push({
+            open,
+            high: Math.max(open, price) * 1.001,
+            low: Math.min(open, price) * 0.999,
+            close: price,
+            volume: 1000,
+            timestamp: (offset + i + 1) * HOUR,
+        });
+    });
+    return data;
+}
+
+/** Deterministic pseudo-random returns */
+function noise(length: number, seed: number, scale = 0.01): number[] {
+    let state = seed;
+    return Array.from({ length }, () => {
+        state = (state * 9301 + 49297) % 233280;
+        return (state / 233280 - 0.5) * 2 * scale;
+    });
+}
+
+const BTC_RETURNS = noise(99, 1);
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+describe('pearson', () => {
+    it('is 1 for identical series and -1 for mirrored ones', () => {
+        expect(pearson(BTC_RETURNS, BTC_RETURNS)).toBeCloseTo(1, 10);
+        expect(pearson(BTC_RETURNS, BTC_RETURNS.map(r => -r))).toBeCloseTo(-1, 10);
+    });
+
+    it('is 0 when either series is flat', () => {
+        expect(pearson(BTC_RETURNS, BTC_RETURNS.map(() => 0))).toBe(0);
+        expect(pearson([1], [1])).toBe(0);
+    });
+});
+
+describe('beta', () => {
+    it('recovers the scale of a leveraged series', () => {
+        expect(beta(BTC_RETURNS.map(r => r * 2), BTC_RETURNS)).toBeCloseTo(2, 10);
+        expect(beta(BTC_RETURNS.map(r => r * -0.5), BTC_RETURNS)).toBeCloseTo(-0.5, 10);
+    });
+});
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+describe('analyzeCrossAsset', () => {
+    const assets = [
+        { coin: 'BTC', data: fromReturns(BTC_RETURNS) },
+        // High-beta follower with a steady outperformance
+        { coin: 'ETH', data: fromReturns(BTC_RETURNS.map(r => r * 1.5 + 0.002)) },
+        // Unrelated coin drifting lower
+        { coin: 'SOL', data: fromReturns(noise(99, 7).map(r => r - 0.003)) },
+    ];
+
+    it('computes correlation and beta vs BTC', () => {
+        const { stats } = analyzeCrossAsset(assets);
+        const btc = stats.get('BTC')!;
+        const eth = stats.get('ETH')!;
+
+        expect(btc.correlationBtc).toBe(1);
+        expect(btc.betaBtc).toBe(1);
+        expect(btc.excessReturnBtc).toBe(0);
+        expect(eth.correlationBtc).toBe(1);
+        expect(eth.betaBtc).toBe(1.5);
+        expect(Math.abs(stats.get('SOL')!.correlationBtc)).toBeLessThan(0.5);
+    });
+
+    it('ranks relative strength with leaders first', () => {
+        const { stats } = analyzeCrossAsset(assets);
+        const eth = stats.get('ETH')!;
+        const sol = stats.get('SOL')!;
+
+        expect(eth.rank).toBe(1);
+        expect(eth.percentile).toBe(1);
+        expect(eth.excessReturnBasket).toBeGreaterThan(0);
+        expect(sol.rank).toBe(3);
+        expect(sol.percentile).toBe(0);
+        expect(sol.excessReturnBasket).toBeLessThan(0);
+        expect(sol.total).toBe(3);
+    });
+
+    it('builds a symmetric matrix with a unit diagonal', () => {
+        const { matrix } = analyzeCrossAsset(assets, { window: 50 });
+
+        expect(matrix.coins).toEqual(['BTC', 'ETH', 'SOL']);
+        expect(matrix.window).toBe(50);
+        for (let i = 0; i < 3; i++) {
+            expect(matrix.matrix[i][i]).toBe(1);
+            for (let j = 0; j < 3; j++) {
+                expect(matrix.matrix[i][j]).toBe(matrix.matrix[j][i]);
+            }
+        }
+        expect(matrix.matrix[0][1]).toBe(1);
+    });
+
+    it('aligns coins by timestamp', () => {
+        // Same returns as BTC but missing the first 30 bars
+        const late = { coin: 'LATE', data: fromReturns(BTC_RETURNS.slice(30), 100, 30) };
+        const { stats } = analyzeCrossAsset([assets[0], late]);
+
+        expect(stats.get('LATE')!.correlationBtc).toBe(1);
+        expect(stats.get('LATE')!.betaBtc).toBe(1);
+    });
+
+    it('skips coins without enough shared history', () => {
+        const short = { coin: 'NEW', data: fromReturns(BTC_RETURNS.slice(-10), 100, 89) };
+        const { stats, matrix } = analyzeCrossAsset([...assets, short]);
+
+        expect(stats.has('NEW')).toBe(false);
+        expect(matrix.coins).not.toContain('NEW');
+    });
+
+    it('returns nothing without the benchmark', () => {
+        const { stats, matrix } = analyzeCrossAsset(assets.slice(1));
+
+        expect(stats.size).toBe(0);
+        expect(matrix.coins).toEqual([]);
+    });
+});
+
+// ============================================================================
+// INDICATOR
+// ============================================================================
+
+describe('RelativeStrength', () => {
+    const base: CrossAssetStats = {
+        coin: 'ETH', correlationBtc: 0.8, betaBtc: 1.2, correlationBasket: 0.7, betaBasket: 1.1,
+        returnPct: 5, excessReturnBtc: 3, excessReturnBasket: 4, rank: 1, total: 10, percentile: 1,
+    };
+
+    it('is bullish for leaders and bearish for laggards', () => {
+        expect(RelativeStrength(base)).toEqual({ value: 4, signal: 'bullish', strength: 1 });
+
+        const laggard = RelativeStrength({ ...base, excessReturnBasket: -4, rank: 10, percentile: 0 });
+        expect(laggard.signal).toBe('bearish');
+        expect(laggard.strength).toBe(1);
+    });
+
+    it('is neutral in the middle of the ranking or against its own excess return', () => {
+        expect(RelativeStrength({ ...base, percentile: 0.5 }).signal).toBe('neutral');
+        expect(RelativeStrength({ ...base, excessReturnBasket: -1 }).signal).toBe('neutral');
+    });
+
+    it('is scored only when cross-asset stats are supplied', () => {
+        const data = fromReturns(BTC_RETURNS);
+        const without = generateSignal(data, 'ETH');
+        const withStats = generateSignal(data, 'ETH', null, undefined, null, '4h', 'UNKNOWN', base);
+
+        expect(without.indicators.relativeStrength).toBeUndefined();
+        expect(withStats.indicators.relativeStrength).toBe(4);
+        expect(withStats.indicators.rsPercentile).toBe(1);
+        expect(withStats.breakdown.trend.max).toBeGreaterThan(without.breakdown.trend.max);
+    });
+});
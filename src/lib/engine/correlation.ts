@@ -0,0 +1,302 @@
+/**
+ * LISAN INTELLIGENCE — Cross-Asset Correlation
+ *
+ * How each coin moves relative to BTC and to the rest of the curated basket:
+ *
+ * - Correlation and beta of log returns over a rolling window, against BTC and
+ *   against an equal-weight basket of the other coins
+ * - Relative strength: return over the lookback minus BTC's and the basket's,
+ *   ranked across all coins
+ * - Pairwise correlation matrix for the proof and watchlist pages
+ *
+ * Candles are aligned by timestamp, so coins with gaps or shorter history only
+ * contribute the bars they share with the benchmark.
+ */
+
+import { OHLCV, IndicatorResult } from './indicators';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AssetCandles {
+    coin: string;
+    data: OHLCV[];                // Oldest first, same interval for every coin
+}
+
+export interface CrossAssetStats {
+    coin: string;
+    correlationBtc: number;       // Pearson correlation of returns vs BTC (-1..1)
+    betaBtc: number;              // Sensitivity to BTC returns
+    correlationBasket: number;    // vs equal-weight basket of the other coins
+    betaBasket: number;
+    returnPct: number;            // Return over the relative-strength lookback
+    excessReturnBtc: number;      // returnPct minus BTC's return
+    excessReturnBasket: number;   // returnPct minus the basket's return
+    rank: number;                 // 1 = strongest
+    total: number;                // Coins ranked
+    percentile: number;           // 0 (weakest) .. 1 (strongest)
+}
+
+export interface CorrelationMatrix {
+    coins: string[];
+    matrix: number[][];           // matrix[i][j] = correlation of coins[i] and coins[j]
+    window: number;               // Returns per pair
+}
+
+export interface CrossAssetAnalysis {
+    stats: Map<string, CrossAssetStats>;   // Keyed by uppercase coin
+    matrix: CorrelationMatrix;
+}
+
+export interface CrossAssetOptions {
+    window?: number;              // Returns used for correlation and beta
+    rsLookback?: number;          // Bars used for relative strength
+    benchmark?: string;
+    minOverlap?: number;          // Coins sharing fewer returns with the benchmark are skipped
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** 60 × 4h = 10 days of returns; 42 × 4h = 7 days of relative strength */
+const CROSS_ASSET_DEFAULTS: Required<CrossAssetOptions> = {
+    window: 60,
+    rsLookback: 42,
+    benchmark: 'BTC',
+    minOverlap: 20,
+};
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+/**
+ * Pearson correlation of two equal-length series (0 when either is flat)
+ */
+export function pearson(a: number[], b: number[]): number {
+    const n = Math.min(a.length, b.length);
+    if (n < 2) return 0;
+
+    const meanA = a.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+    const meanB = b.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+
+    let cov = 0;
+    let varA = 0;
+    let varB = 0;
+    for (let i = 0; i < n; i++) {
+        cov += (a[i] - meanA) * (b[i] - meanB);
+        varA += (a[i] - meanA) ** 2;
+        varB += (b[i] - meanB) ** 2;
+    }
+
+    if (varA === 0 || varB === 0) return 0;
+    return cov / Math.sqrt(varA * varB);
+}
+
+/**
+ * Beta of `asset` against `benchmark`: cov(asset, benchmark) / var(benchmark)
+ */
+export function beta(asset: number[], benchmark: number[]): number {
+    const n = Math.min(asset.length, benchmark.length);
+    if (n < 2) return 0;
+
+    const meanA = asset.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+    const meanB = benchmark.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+
+    let cov = 0;
+    let varB = 0;
+    for (let i = 0; i < n; i++) {
+        cov += (asset[i] - meanA) * (benchmark[i] - meanB);
+        varB += (benchmark[i] - meanB) ** 2;
+    }
+
+    return varB === 0 ? 0 : cov / varB;
+}
+
+/**
+ * Log returns keyed by the timestamp of the bar they end on
+ */
+function logReturns(data: OHLCV[]): Map<number, number> {
+    const returns = new Map<number, number>();
+    for (let i = 1; i < data.length; i++) {
+        const prev = data[i - 1].close;
+        const curr = data[i].close;
+        if (prev > 0 && curr > 0) returns.set(data[i].timestamp, Math.log(curr / prev));
+    }
+    return returns;
+}
+
+/**
+ * Values of two return series at the timestamps they share, in `timestamps` order
+ */
+function paired(
+    timestamps: number[],
+    a: Map<number, number>,
+    b: Map<number, number>
+): [number[], number[]] {
+    const left: number[] = [];
+    const right: number[] = [];
+    for (const t of timestamps) {
+        const x = a.get(t);
+        const y = b.get(t);
+        if (x !== undefined && y !== undefined) {
+            left.push(x);
+            right.push(y);
+        }
+    }
+    return [left, right];
+}
+
+/**
+ * Percentage return over the last `lookback` returns on the given timestamps
+ */
+function periodReturn(timestamps: number[], returns: Map<number, number>): number {
+    const total = timestamps.reduce((sum, t) => sum + (returns.get(t) ?? 0), 0);
+    return (Math.exp(total) - 1) * 100;
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Correlation, beta and relative-strength rank of every coin against the
+ * benchmark (BTC) and the equal-weight basket of the other coins.
+ *
+ * The benchmark's timestamps define the window; coins without enough shared
+ * bars (or a missing benchmark) get no stats.
+ *
+ * @param assets - Candles per coin, same interval
+ * @param options - Window and lookback settings
+ */
+export function analyzeCrossAsset(assets: AssetCandles[], options: CrossAssetOptions = {}): CrossAssetAnalysis {
+    const resolved = { ...CROSS_ASSET_DEFAULTS, ...options };
+    const benchmark = resolved.benchmark.toUpperCase();
+
+    const returns = new Map<string, Map<number, number>>();
+    for (const { coin, data } of assets) {
+        returns.set(coin.toUpperCase(), logReturns(data));
+    }
+
+    const stats = new Map<string, CrossAssetStats>();
+    const benchReturns = returns.get(benchmark);
+    if (!benchReturns) {
+        return { stats, matrix: { coins: [], matrix: [], window: resolved.window } };
+    }
+
+    const benchTimestamps = [...benchReturns.keys()].sort((a, b) => a - b);
+    const window = benchTimestamps.slice(-resolved.window);
+    const rsWindow = benchTimestamps.slice(-resolved.rsLookback);
+
+    const coins = [...returns.keys()].filter(coin => {
+        const [overlap] = paired(window, returns.get(coin)!, benchReturns);
+        return overlap.length >= resolved.minOverlap;
+    });
+
+    // Per-timestamp sums so each coin's basket can leave itself out
+    const basketSum = new Map<number, number>();
+    const basketCount = new Map<number, number>();
+    for (const coin of coins) {
+        for (const [t, r] of returns.get(coin)!) {
+            basketSum.set(t, (basketSum.get(t) ?? 0) + r);
+            basketCount.set(t, (basketCount.get(t) ?? 0) + 1);
+        }
+    }
+
+    const basketExcluding = (coin: string): Map<number, number> => {
+        const own = returns.get(coin)!;
+        const basket = new Map<number, number>();
+        for (const [t, sum] of basketSum) {
+            const r = own.get(t);
+            const count = (basketCount.get(t) ?? 0) - (r === undefined ? 0 : 1);
+            if (count > 0) basket.set(t, (sum - (r ?? 0)) / count);
+        }
+        return basket;
+    };
+
+    const benchReturn = periodReturn(rsWindow, benchReturns);
+    const unranked: Omit<CrossAssetStats, 'rank' | 'total' | 'percentile'>[] = [];
+
+    for (const coin of coins) {
+        const own = returns.get(coin)!;
+        const basket = basketExcluding(coin);
+        const [vsBtc, btc] = paired(window, own, benchReturns);
+        const [vsBasket, basketSeries] = paired(window, own, basket);
+        const returnPct = periodReturn(rsWindow, own);
+
+        unranked.push({
+            coin,
+            correlationBtc: round(pearson(vsBtc, btc), 3),
+            betaBtc: round(beta(vsBtc, btc), 3),
+            correlationBasket: round(pearson(vsBasket, basketSeries), 3),
+            betaBasket: round(beta(vsBasket, basketSeries), 3),
+            returnPct: round(returnPct, 2),
+            excessReturnBtc: round(returnPct - benchReturn, 2),
+            excessReturnBasket: round(returnPct - periodReturn(rsWindow, basket), 2),
+        });
+    }
+
+    // Rank on raw return: every coin is measured over the same window
+    unranked.sort((a, b) => b.returnPct - a.returnPct);
+    const total = unranked.length;
+    unranked.forEach((entry, i) => {
+        stats.set(entry.coin, {
+            ...entry,
+            rank: i + 1,
+            total,
+            percentile: total > 1 ? round((total - 1 - i) / (total - 1), 3) : 0.5,
+        });
+    });
+
+    return { stats, matrix: correlationMatrix(coins, returns, window) };
+}
+
+/**
+ * Pairwise correlation of every coin's returns over the window
+ */
+function correlationMatrix(
+    coins: string[],
+    returns: Map<string, Map<number, number>>,
+    window: number[]
+): CorrelationMatrix {
+    const matrix = coins.map(() => coins.map(() => 0));
+    for (let i = 0; i < coins.length; i++) {
+        matrix[i][i] = 1;
+        for (let j = i + 1; j < coins.length; j++) {
+            const [a, b] = paired(window, returns.get(coins[i])!, returns.get(coins[j])!);
+            matrix[i][j] = matrix[j][i] = round(pearson(a, b), 3);
+        }
+    }
+    return { coins, matrix, window: window.length };
+}
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+// ============================================================================
+// INDICATOR
+// ============================================================================
+
+/**
+ * Relative strength vs the basket as a scoring input.
+ * Top third of the ranking with positive excess return = bullish (leaders),
+ * bottom third with negative excess return = bearish (laggards).
+ *
+ * @param stats - This coin's cross-asset stats
+ */
+export function RelativeStrength(stats: CrossAssetStats): IndicatorResult {
+    const value = stats.excessReturnBasket;
+    const strength = Math.min(1, Math.abs(stats.percentile - 0.5) * 2);
+
+    if (stats.percentile >= 2 / 3 && value > 0) {
+        return { value, signal: 'bullish', strength };
+    }
+    if (stats.percentile <= 1 / 3 && value < 0) {
+        return { value, signal: 'bearish', strength };
+    }
+    return { value, signal: 'neutral', strength: 0 };
+}
@@ -0,0 +1,74 @@
+/**
+ * LISAN INTELLIGENCE — Trading Cost Model Tests
+ *
+ * Tests spread estimation, funding accrual and round-trip net returns.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    estimateSpreadPct,
+    fundingCostPct,
+    estimateTradeCosts,
+    netProfitPct,
+    DEFAULT_COST_MODEL,
+} from './costs';
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+describe('estimateSpreadPct', () => {
+    it('uses the tightest spread on the most liquid books', () => {
+        expect(estimateSpreadPct(500_000_000)).toBe(DEFAULT_COST_MODEL.minSpreadPct);
+        expect(estimateSpreadPct(5_000_000_000)).toBe(DEFAULT_COST_MODEL.minSpreadPct);
+    });
+
+    it('widens with the square root of lost volume', () => {
+        // 100× less volume → 10× wider
+        expect(estimateSpreadPct(5_000_000)).toBeCloseTo(0.1, 6);
+    });
+
+    it('assumes the widest spread for thin or unknown books', () => {
+        expect(estimateSpreadPct(1_000)).toBe(DEFAULT_COST_MODEL.maxSpreadPct);
+        expect(estimateSpreadPct(0)).toBe(DEFAULT_COST_MODEL.maxSpreadPct);
+        expect(estimateSpreadPct(NaN)).toBe(DEFAULT_COST_MODEL.maxSpreadPct);
+    });
+});
+
+describe('fundingCostPct', () => {
+    it('charges longs and credits shorts on positive funding', () => {
+        // 87.6% annualized = 0.01%/h, held 10h
+        expect(fundingCostPct('LONG', 0.876, 10)).toBeCloseTo(0.1, 6);
+        expect(fundingCostPct('SHORT', 0.876, 10)).toBeCloseTo(-0.1, 6);
+        expect(fundingCostPct('SHORT', -0.876, 10)).toBeCloseTo(0.1, 6);
+    });
+
+    it('is zero when nothing was held', () => {
+        expect(fundingCostPct('LONG', 0.876, 0)).toBe(0);
+    });
+});
+
+// ============================================================================
+// TRADE COSTS
+// ============================================================================
+
+describe('estimateTradeCosts', () => {
+    it('adds two taker fills, the spread and funding', () => {
+        const costs = estimateTradeCosts({ direction: 'LONG', holdingHours: 10, volume24h: 5_000_000, annualizedFunding: 0.876 });
+
+        expect(costs).toEqual({ feesPct: 0.09, spreadPct: 0.1, fundingPct: 0.1, totalPct: 0.29 });
+    });
+
+    it('lets received funding offset fees', () => {
+        const costs = estimateTradeCosts({ direction: 'SHORT', holdingHours: 10, volume24h: 500_000_000, annualizedFunding: 0.876 });
+
+        expect(costs.totalPct).toBeCloseTo(0, 6);
+    });
+
+    it('nets costs out of the gross return', () => {
+        const costs = estimateTradeCosts({ direction: 'LONG', holdingHours: 10, volume24h: 5_000_000, annualizedFunding: 0.876 });
+
+        expect(netProfitPct(2.5, costs)).toBe(2.21);
+        expect(netProfitPct(-1, costs)).toBe(-1.29);
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * LISAN INTELLIGENCE — Trading Cost Model
+ *
+ * Turns a signal's gross (mark-to-mark) return into what a taker on Hyperliquid keeps:
+ *
+ * - Fees: taker fee on the entry and exit notional
+ * - Spread: half the bid/ask spread on each side, estimated from daily volume
+ *   (busier books are deeper), clamped between a floor and a ceiling
+ * - Funding: the snapshot's hourly rate over the holding time (longs pay positive funding)
+ *
+ * Every cost is a % of entry notional so it subtracts straight from profit_pct.
+ */
+
+import type { TradeCosts } from '@/lib/types/database';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CostModel {
+    takerFeePct: number;        // Per fill, % of notional (Hyperliquid base taker tier)
+    minSpreadPct: number;       // Spread on the most liquid books, %
+    maxSpreadPct: number;       // Spread assumed for thin or unknown books, %
+    referenceVolume: number;    // Daily USD volume that earns minSpreadPct
+}
+
+export interface TradeCostInput {
+    direction: 'LONG' | 'SHORT';
+    holdingHours: number;
+    volume24h: number;          // Daily USD volume (0 = unknown → widest spread)
+    annualizedFunding: number;  // Hourly funding rate × 8760, as stored in market_snapshots
+}
+
+export const DEFAULT_COST_MODEL: CostModel = {
+    takerFeePct: 0.045,
+    minSpreadPct: 0.01,
+    maxSpreadPct: 0.2,
+    referenceVolume: 500_000_000,
+};
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+/**
+ * Estimated bid/ask spread, %. Scales with 1/√volume: 100× less volume → 10× wider.
+ */
+export function estimateSpreadPct(volume24h: number, model: CostModel = DEFAULT_COST_MODEL): number {
+    if (!(volume24h > 0)) return model.maxSpreadPct;
+    const spread = model.minSpreadPct * Math.sqrt(model.referenceVolume / volume24h);
+    return Math.max(model.minSpreadPct, Math.min(model.maxSpreadPct, spread));
+}
+
+/**
+ * Funding paid over the holding time, % of notional (negative = received)
+ */
+export function fundingCostPct(direction: 'LONG' | 'SHORT', annualizedFunding: number, holdingHours: number): number {
+    if (holdingHours <= 0) return 0;
+    const paid = (annualizedFunding / 8760) * holdingHours * 100;
+    return direction === 'LONG' ? paid : -paid;
+}
+
+// ============================================================================
+// TRADE COSTS
+// ============================================================================
+
+/**
+ * Round-trip cost of a trade: two taker fills, one full spread and the funding carried
+ */
+export function estimateTradeCosts(input: TradeCostInput, model: CostModel = DEFAULT_COST_MODEL): TradeCosts {
+    const feesPct = 2 * model.takerFeePct;
+    const spreadPct = estimateSpreadPct(input.volume24h, model);
+    const fundingPct = fundingCostPct(input.direction, input.annualizedFunding, input.holdingHours);
+
+    return {
+        feesPct: round4(feesPct),
+        spreadPct: round4(spreadPct),
+        fundingPct: round4(fundingPct),
+        totalPct: round4(feesPct + spreadPct + fundingPct),
+    };
+}
+
+/**
+ * Net return after costs
+ */
+export function netProfitPct(grossPct: number, costs: TradeCosts): number {
+    return round4(grossPct - costs.totalPct);
+}
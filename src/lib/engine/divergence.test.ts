@@ -0,0 +1,105 @@
+/**
+ * LISAN INTELLIGENCE — Divergence Detection Tests
+ *
+ * Tests regular/hidden divergence on constructed swing patterns.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Divergence } from './divergence';
+import { OHLCV } from './indicators';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+/** Build candles from per-bar close changes */
+function build(steps: number[], start = 100): OHLCV[] {
+    const data: OHLCV[] = [];
+    let price = start;
+    steps.forEach((step, i) => {
+        const open = price;
+        price += step;
+        data.push({
+            open,
+            high: Math.max(open, price) + 0.2,
+            low: Math.min(open, price) - 0.2,
+            close: price,
+            volume: 1000,
+            timestamp: i * 3600000,
+        });
+    });
+    return data;
+}
+
+const repeat = (count: number, pattern: number[]) =>
+    Array.from({ length: count }, (_, i) => pattern[i % pattern.length]);
+
+/** Mirror price around `axis` — bullish patterns become bearish ones */
+function mirror(data: OHLCV[], axis = 200): OHLCV[] {
+    return data.map(d => ({
+        ...d,
+        open: axis - d.open,
+        high: axis - d.low,
+        low: axis - d.high,
+        close: axis - d.close,
+    }));
+}
+
+const warmup = repeat(40, [0.6, -0.4]);
+
+// Sharp drop, bounce, then a slow choppy grind to a slightly lower low
+const regularBullish = build([...warmup, ...repeat(6, [-3.5]), ...repeat(8, [1.2]), ...repeat(30, [-1.5, 0.8]), ...repeat(4, [1])]);
+
+// Slow choppy decline, strong rally, then a sharp drop to a higher low
+const hiddenBullish = build([...warmup, ...repeat(16, [-1.5, 0.8]), ...repeat(12, [1.5]), ...repeat(4, [-4]), ...repeat(4, [1])]);
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+describe('Divergence', () => {
+    it('detects regular bullish divergence on a lower low with weaker momentum', () => {
+        const { matches, result } = Divergence(regularBullish);
+        expect(matches.some(m => m.oscillator === 'rsi' && m.kind === 'regular' && m.direction === 'bullish')).toBe(true);
+        expect(result.signal).toBe('bullish');
+        expect(result.value).toBeGreaterThan(0);
+    });
+
+    it('detects regular bearish divergence on the mirrored pattern', () => {
+        const { matches, result } = Divergence(mirror(regularBullish));
+        expect(matches.length).toBeGreaterThan(0);
+        expect(matches.every(m => m.kind === 'regular' && m.direction === 'bearish')).toBe(true);
+        expect(result.signal).toBe('bearish');
+        expect(result.value).toBeLessThan(0);
+    });
+
+    it('detects hidden bullish divergence on a higher low with a deeper oscillator low', () => {
+        const { matches, result } = Divergence(hiddenBullish);
+        expect(matches.some(m => m.kind === 'hidden' && m.direction === 'bullish')).toBe(true);
+        expect(result.signal).toBe('bullish');
+    });
+
+    it('pairs pivots in chronological order', () => {
+        const { matches } = Divergence(regularBullish);
+        for (const m of matches) {
+            expect(m.toIndex - m.fromIndex).toBeGreaterThanOrEqual(5);
+            expect(m.toIndex).toBeLessThan(regularBullish.length);
+        }
+    });
+
+    it('ignores pivots older than maxPivotAge', () => {
+        const { matches, result } = Divergence(regularBullish, { maxPivotAge: 1 });
+        expect(matches).toHaveLength(0);
+        expect(result.signal).toBe('neutral');
+    });
+
+    it('returns neutral for insufficient data', () => {
+        const { result } = Divergence(build(repeat(5, [1])));
+        expect(result).toEqual({ value: 0, signal: 'neutral', strength: 0 });
+    });
+
+    it('caps strength at 1', () => {
+        const { result } = Divergence(regularBullish);
+        expect(result.strength).toBeLessThanOrEqual(1);
+    });
+});
@@ -0,0 +1,184 @@
+/**
+ * LISAN INTELLIGENCE — Divergence Detection
+ *
+ * Compares the last two confirmed price pivots with RSI, MACD histogram and OBV
+ * at the same bars:
+ *
+ * - Regular bullish: price lower low, oscillator higher low (reversal up)
+ * - Regular bearish: price higher high, oscillator lower high (reversal down)
+ * - Hidden bullish: price higher low, oscillator lower low (uptrend continuation)
+ * - Hidden bearish: price lower high, oscillator higher high (downtrend continuation)
+ *
+ * Pivots come from findPivotIndices (risk.ts) — the same swing points used for S/R.
+ */
+
+import { OHLCV, IndicatorResult } from './indicators';
+import { findPivotIndices } from './risk';
+import { createRSIStream, createMACDStream } from './streaming';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DivergenceOscillator = 'rsi' | 'macd' | 'obv';
+
+export type DivergenceKind = 'regular' | 'hidden';
+
+export interface DivergenceMatch {
+    oscillator: DivergenceOscillator;
+    kind: DivergenceKind;
+    direction: 'bullish' | 'bearish';
+    fromIndex: number;            // Earlier pivot bar
+    toIndex: number;              // Later pivot bar
+}
+
+export interface DivergenceOptions {
+    leftBars?: number;            // Pivot confirmation, same meaning as findPivotPoints
+    rightBars?: number;
+    lookback?: number;            // Both pivots must fall within the last N bars
+    maxPivotAge?: number;         // Latest pivot must be at most N bars old
+    minSpacing?: number;          // Minimum bars between the two pivots
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DIVERGENCE_DEFAULTS: Required<DivergenceOptions> = {
+    leftBars: 5,
+    rightBars: 2,
+    lookback: 60,
+    maxPivotAge: 10,
+    minSpacing: 5,
+};
+
+/** First bar index with a real value (RSI needs period + 1 closes, MACD slow + signal) */
+const OSCILLATOR_WARMUP: Record<DivergenceOscillator, number> = {
+    rsi: 14,
+    macd: 34,
+    obv: 1,
+};
+
+const OSCILLATORS: DivergenceOscillator[] = ['rsi', 'macd', 'obv'];
+
+// ============================================================================
+// SERIES
+// ============================================================================
+
+/**
+ * RSI, MACD histogram and OBV per bar, aligned with `data`
+ */
+function oscillatorSeries(data: OHLCV[]): Record<DivergenceOscillator, number[]> {
+    const rsiStream = createRSIStream();
+    const macdStream = createMACDStream();
+    const series: Record<DivergenceOscillator, number[]> = { rsi: [], macd: [], obv: [] };
+
+    let obv = 0;
+    for (let i = 0; i < data.length; i++) {
+        if (i > 0) {
+            if (data[i].close > data[i - 1].close) obv += data[i].volume;
+            else if (data[i].close < data[i - 1].close) obv -= data[i].volume;
+        }
+        series.rsi.push(rsiStream.update(data[i].close).value);
+        series.macd.push(macdStream.update(data[i].close).histogram);
+        series.obv.push(obv);
+    }
+
+    return series;
+}
+
+/**
+ * Last two pivots that are recent, inside the lookback and far enough apart
+ */
+function lastPivotPair(
+    indices: number[],
+    length: number,
+    options: Required<DivergenceOptions>
+): [number, number] | null {
+    if (indices.length < 2) return null;
+
+    const to = indices[indices.length - 1];
+    if (length - 1 - to > options.maxPivotAge) return null;
+
+    for (let k = indices.length - 2; k >= 0; k--) {
+        const from = indices[k];
+        if (length - 1 - from > options.lookback) return null;
+        if (to - from >= options.minSpacing) return [from, to];
+    }
+    return null;
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Detect regular and hidden divergences on the latest pivot lows and highs.
+ *
+ * Each oscillator can add at most one bullish (from the lows) and one bearish
+ * (from the highs) match. The result value is bullish minus bearish matches (-3..+3).
+ *
+ * @param data - OHLCV data array, oldest first
+ * @param options - Pivot and recency settings
+ */
+export function Divergence(
+    data: OHLCV[],
+    options: DivergenceOptions = {}
+): { matches: DivergenceMatch[]; result: IndicatorResult } {
+    const resolved = { ...DIVERGENCE_DEFAULTS, ...options };
+    const matches: DivergenceMatch[] = [];
+
+    const { highIndices, lowIndices } = findPivotIndices(data, resolved.leftBars, resolved.rightBars);
+    const lows = lastPivotPair(lowIndices, data.length, resolved);
+    const highs = lastPivotPair(highIndices, data.length, resolved);
+
+    if (lows || highs) {
+        const series = oscillatorSeries(data);
+
+        for (const oscillator of OSCILLATORS) {
+            const values = series[oscillator];
+            const warmup = OSCILLATOR_WARMUP[oscillator];
+
+            if (lows && lows[0] >= warmup) {
+                const [from, to] = lows;
+                const priceLowerLow = data[to].low < data[from].low;
+                const priceHigherLow = data[to].low > data[from].low;
+                const oscHigherLow = values[to] > values[from];
+                const oscLowerLow = values[to] < values[from];
+
+                if (priceLowerLow && oscHigherLow) {
+                    matches.push({ oscillator, kind: 'regular', direction: 'bullish', fromIndex: from, toIndex: to });
+                } else if (priceHigherLow && oscLowerLow) {
+                    matches.push({ oscillator, kind: 'hidden', direction: 'bullish', fromIndex: from, toIndex: to });
+                }
+            }
+
+            if (highs && highs[0] >= warmup) {
+                const [from, to] = highs;
+                const priceHigherHigh = data[to].high > data[from].high;
+                const priceLowerHigh = data[to].high < data[from].high;
+                const oscLowerHigh = values[to] < values[from];
+                const oscHigherHigh = values[to] > values[from];
+
+                if (priceHigherHigh && oscLowerHigh) {
+                    matches.push({ oscillator, kind: 'regular', direction: 'bearish', fromIndex: from, toIndex: to });
+                } else if (priceLowerHigh && oscHigherHigh) {
+                    matches.push({ oscillator, kind: 'hidden', direction: 'bearish', fromIndex: from, toIndex: to });
+                }
+            }
+        }
+    }
+
+    const bullish = matches.filter(m => m.direction === 'bullish').length;
+    const bearish = matches.filter(m => m.direction === 'bearish').length;
+    const net = bullish - bearish;
+
+    let signal: 'bullish' | 'bearish' | 'neutral' = 'neutral';
+    if (net > 0) signal = 'bullish';
+    else if (net < 0) signal = 'bearish';
+
+    return {
+        matches,
+        result: { value: net, signal, strength: Math.min(1, Math.abs(net) / OSCILLATORS.length) },
+    };
+}
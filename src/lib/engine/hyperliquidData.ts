@@ -23,6 +23,7 @@ export interface HyperliquidAssetContext {
     markPrice: number;
     volume24h: number;
     premium: number;               // Basis between mark and index
+    maxLeverage: number;           // Venue max leverage (sets the maintenance margin)
 }
 
 export interface HyperliquidMarketContext {
@@ -42,7 +43,7 @@ interface RawAssetCtx {
 }
 
 interface RawMeta {
-    universe: { name: string }[];
+    universe: { name: string; maxLeverage: number }[];
 }
 
 // ============================================================================
@@ -94,6 +95,7 @@ export async function fetchHyperliquidMarketContext(
                 markPrice,
                 volume24h,
                 premium,
+                maxLeverage: meta.universe[universeIndex].maxLeverage,
             });
 
             totalFunding += annualizedFunding;
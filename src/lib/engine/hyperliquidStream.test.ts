@@ -0,0 +1,131 @@
+/**
+ * LISAN INTELLIGENCE — Hyperliquid Stream Tests
+ *
+ * Tests message folding, level crossing and reconnect backoff.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    applyStreamMessage,
+    createLiveMarketState,
+    crossedLevel,
+    reconnectDelayMs,
+    subscriptionMessages,
+    watchedPosition,
+    DEFAULT_STREAM_CONFIG,
+    WatchedPosition,
+} from './hyperliquidStream';
+import type { DbSignal } from '@/lib/types/database';
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+describe('applyStreamMessage', () => {
+    it('subscribes to all mids once and to trades and asset context per coin', () => {
+        const messages = subscriptionMessages(['BTC', 'ETH']);
+        expect(messages).toHaveLength(5);
+        expect(messages[0]).toEqual({ method: 'subscribe', subscription: { type: 'allMids' } });
+        expect(messages).toContainEqual({ method: 'subscribe', subscription: { type: 'activeAssetCtx', coin: 'ETH' } });
+    });
+
+    it('folds mids of tracked coins and skips the rest', () => {
+        const state = createLiveMarketState(['BTC']);
+        const ticks = applyStreamMessage(state, {
+            channel: 'allMids', data: { mids: { BTC: '100000.5', DOGE: '0.1', '@107': '30' } },
+        }, NOW);
+
+        expect(ticks).toEqual([{ coin: 'BTC', price: 100000.5, source: 'MID', at: NOW }]);
+        expect(state.get('BTC')).toMatchObject({ midPrice: 100000.5, updatedAt: NOW });
+        expect(state.has('DOGE')).toBe(false);
+    });
+
+    it('records trades at their own time', () => {
+        const state = createLiveMarketState(['ETH']);
+        const ticks = applyStreamMessage(state, {
+            channel: 'trades', data: [{ coin: 'ETH', side: 'B', px: '3000', sz: '1', time: NOW - 500 }],
+        }, NOW);
+
+        expect(ticks).toEqual([{ coin: 'ETH', price: 3000, source: 'TRADE', at: NOW - 500 }]);
+        expect(state.get('ETH')).toMatchObject({ lastTradePrice: 3000, lastTradeAt: NOW - 500 });
+    });
+
+    it('reads funding, USD open interest and the mark from the asset context', () => {
+        const state = createLiveMarketState(['SOL']);
+        const ticks = applyStreamMessage(state, {
+            channel: 'activeAssetCtx',
+            data: {
+                coin: 'SOL',
+                ctx: { funding: '0.0000125', openInterest: '1000', markPx: '150', oraclePx: '149.9', premium: '0.0003', dayNtlVlm: '5000000' },
+            },
+        }, NOW);
+
+        expect(ticks).toEqual([{ coin: 'SOL', price: 150, source: 'MARK', at: NOW }]);
+        expect(state.get('SOL')).toMatchObject({
+            markPrice: 150, oraclePrice: 149.9, fundingRate: 0.0000125, openInterest: 150000, premium: 0.0003, volume24h: 5000000,
+        });
+    });
+
+    it('ignores other channels and malformed messages', () => {
+        const state = createLiveMarketState(['BTC']);
+        expect(applyStreamMessage(state, { channel: 'pong' })).toEqual([]);
+        expect(applyStreamMessage(state, { channel: 'subscriptionResponse', data: {} })).toEqual([]);
+        expect(applyStreamMessage(state, 'nonsense')).toEqual([]);
+        expect(state.get('BTC')?.updatedAt).toBe(0);
+    });
+});
+
+// ============================================================================
+// LEVEL CROSSING
+// ============================================================================
+
+describe('crossedLevel', () => {
+    const long: WatchedPosition = { id: 'a', coin: 'BTC', direction: 'LONG', stopLoss: 95, takeProfit: 110, targets: [105] };
+    const short: WatchedPosition = { id: 'b', coin: 'BTC', direction: 'SHORT', stopLoss: 105, takeProfit: 90, targets: [] };
+
+    it('detects the stop, the take profit and ladder targets at or beyond the level', () => {
+        expect(crossedLevel(long, 95)).toBe('STOP_LOSS');
+        expect(crossedLevel(long, 111)).toBe('TAKE_PROFIT');
+        expect(crossedLevel(long, 105)).toBe('TP_TARGET');
+        expect(crossedLevel(short, 106)).toBe('STOP_LOSS');
+        expect(crossedLevel(short, 90)).toBe('TAKE_PROFIT');
+    });
+
+    it('is null between the levels', () => {
+        expect(crossedLevel(long, 100)).toBeNull();
+        expect(crossedLevel(short, 100)).toBeNull();
+    });
+
+    it('watches only the ladder targets not filled yet', () => {
+        const signal = {
+            id: 's', coin: 'btc', direction: 'LONG', stop_loss: 95, take_profit: 115,
+            take_profit_targets: [{ price: 105, fraction: 0.5, rMultiple: 1 }, { price: 110, fraction: 0.5, rMultiple: 2 }],
+            tp_fills: [{ target: 0, price: 105, fraction: 0.5, profitPct: 5, at: '2026-01-01T00:00:00Z' }],
+        } as DbSignal;
+
+        expect(watchedPosition(signal)).toEqual({
+            id: 's', coin: 'BTC', direction: 'LONG', stopLoss: 95, takeProfit: 115, targets: [110],
+        });
+        expect(watchedPosition({ ...signal, direction: 'HOLD' })).toBeNull();
+    });
+});
+
+// ============================================================================
+// RECONNECT
+// ============================================================================
+
+describe('reconnectDelayMs', () => {
+    it('doubles per attempt up to the ceiling', () => {
+        const noJitter = () => 0.5;
+        expect(reconnectDelayMs(0, DEFAULT_STREAM_CONFIG, noJitter)).toBe(1000);
+        expect(reconnectDelayMs(3, DEFAULT_STREAM_CONFIG, noJitter)).toBe(8000);
+        expect(reconnectDelayMs(20, DEFAULT_STREAM_CONFIG, noJitter)).toBe(60000);
+    });
+
+    it('jitters by at most 20%', () => {
+        expect(reconnectDelayMs(0, DEFAULT_STREAM_CONFIG, () => 0)).toBe(800);
+        expect(reconnectDelayMs(0, DEFAULT_STREAM_CONFIG, () => 1)).toBe(1200);
+    });
+});
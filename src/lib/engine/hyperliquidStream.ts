@@ -0,0 +1,247 @@
+/**
+ * LISAN INTELLIGENCE — Hyperliquid Stream
+ *
+ * Pure pieces of the WebSocket ingestion worker:
+ * - Subscription messages for allMids, trades and activeAssetCtx
+ * - Live per-coin state folded from stream messages, with the price ticks each message produced
+ * - SL/TP crossing checks against open signals, so the monitor runs the instant a level is reached
+ * - Reconnect backoff
+ *
+ * The socket itself lives in lib/hyperliquidWorker.ts.
+ */
+
+import type { DbSignal } from '@/lib/types/database';
+
+export const HYPERLIQUID_WS = 'wss://api.hyperliquid.xyz/ws';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StreamConfig {
+    reconnectBaseMs: number;        // First reconnect delay, doubled per failed attempt
+    reconnectMaxMs: number;         // Backoff ceiling
+    pingIntervalMs: number;         // Hyperliquid drops connections idle for 60s
+    staleAfterMs: number;           // No message for this long → reconnect
+    snapshotIntervalMs: number;     // Min time between snapshot writes
+    positionRefreshMs: number;      // Reload open signals (new signals, closes by the cron)
+    recheckCooldownMs: number;      // Min time between checks of the same signal
+}
+
+export const DEFAULT_STREAM_CONFIG: StreamConfig = {
+    reconnectBaseMs: 1000,
+    reconnectMaxMs: 60000,
+    pingIntervalMs: 30000,
+    staleAfterMs: 90000,
+    snapshotIntervalMs: 15000,
+    positionRefreshMs: 60000,
+    recheckCooldownMs: 30000,
+};
+
+export interface LiveAssetState {
+    coin: string;
+    midPrice: number | null;
+    markPrice: number | null;
+    oraclePrice: number | null;
+    fundingRate: number | null;     // Current 1hr funding rate
+    openInterest: number | null;    // OI in USD
+    premium: number | null;
+    volume24h: number | null;
+    lastTradePrice: number | null;
+    lastTradeAt: number | null;
+    updatedAt: number;              // 0 until the first message for the coin
+}
+
+export type LiveMarketState = Map<string, LiveAssetState>;
+
+export type PriceSource = 'MID' | 'TRADE' | 'MARK';
+
+export interface PriceTick {
+    coin: string;
+    price: number;
+    source: PriceSource;
+    at: number;
+}
+
+/**
+ * The levels of an open signal the stream watches
+ */
+export interface WatchedPosition {
+    id: string;
+    coin: string;
+    direction: 'LONG' | 'SHORT';
+    stopLoss: number;
+    takeProfit: number;
+    targets: number[];              // Ladder targets not filled yet
+}
+
+export type CrossedLevel = 'STOP_LOSS' | 'TAKE_PROFIT' | 'TP_TARGET';
+
+interface RawTrade {
+    coin: string;
+    px: string;
+    time: number;
+}
+
+interface RawActiveAssetCtx {
+    coin: string;
+    ctx: {
+        funding: string;
+        openInterest: string;
+        markPx: string;
+        oraclePx: string;
+        premium: string | null;
+        dayNtlVlm: string;
+    };
+}
+
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
+
+/**
+ * Subscribe messages: all mids once, trades and asset context per coin
+ */
+export function subscriptionMessages(coins: readonly string[]): object[] {
+    return [
+        { method: 'subscribe', subscription: { type: 'allMids' } },
+        ...coins.flatMap(coin => [
+            { method: 'subscribe', subscription: { type: 'trades', coin } },
+            { method: 'subscribe', subscription: { type: 'activeAssetCtx', coin } },
+        ]),
+    ];
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+export function createLiveMarketState(coins: readonly string[]): LiveMarketState {
+    return new Map(coins.map(coin => [coin.toUpperCase(), {
+        coin: coin.toUpperCase(),
+        midPrice: null,
+        markPrice: null,
+        oraclePrice: null,
+        fundingRate: null,
+        openInterest: null,
+        premium: null,
+        volume24h: null,
+        lastTradePrice: null,
+        lastTradeAt: null,
+        updatedAt: 0,
+    }]));
+}
+
+const toNumber = (value: string | null | undefined): number | null => {
+    const parsed = value == null ? NaN : parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Fold one stream message into the state and return the prices it carried.
+ * Coins outside the state (spot pairs, untracked perps) and other channels
+ * (subscriptionResponse, pong, error) are ignored.
+ */
+export function applyStreamMessage(state: LiveMarketState, message: unknown, now: number = Date.now()): PriceTick[] {
+    if (!message || typeof message !== 'object') return [];
+    const { channel, data } = message as { channel?: string; data?: unknown };
+    const ticks: PriceTick[] = [];
+
+    if (channel === 'allMids') {
+        const mids = (data as { mids?: Record<string, string> })?.mids ?? {};
+        for (const [coin, px] of Object.entries(mids)) {
+            const asset = state.get(coin.toUpperCase());
+            const price = toNumber(px);
+            if (!asset || price === null) continue;
+
+            asset.midPrice = price;
+            asset.updatedAt = now;
+            ticks.push({ coin: asset.coin, price, source: 'MID', at: now });
+        }
+    }
+
+    if (channel === 'trades' && Array.isArray(data)) {
+        for (const trade of data as RawTrade[]) {
+            const asset = state.get(trade.coin?.toUpperCase());
+            const price = toNumber(trade.px);
+            if (!asset || price === null) continue;
+
+            asset.lastTradePrice = price;
+            asset.lastTradeAt = trade.time ?? now;
+            asset.updatedAt = now;
+            ticks.push({ coin: asset.coin, price, source: 'TRADE', at: trade.time ?? now });
+        }
+    }
+
+    if (channel === 'activeAssetCtx') {
+        const { coin, ctx } = (data ?? {}) as Partial<RawActiveAssetCtx>;
+        const asset = coin ? state.get(coin.toUpperCase()) : undefined;
+        if (asset && ctx) {
+            const markPrice = toNumber(ctx.markPx);
+            const openInterest = toNumber(ctx.openInterest);
+
+            asset.markPrice = markPrice ?? asset.markPrice;
+            asset.oraclePrice = toNumber(ctx.oraclePx) ?? asset.oraclePrice;
+            asset.fundingRate = toNumber(ctx.funding) ?? asset.fundingRate;
+            asset.openInterest = openInterest !== null && markPrice !== null ? openInterest * markPrice : asset.openInterest;
+            asset.premium = toNumber(ctx.premium) ?? asset.premium;
+            asset.volume24h = toNumber(ctx.dayNtlVlm) ?? asset.volume24h;
+            asset.updatedAt = now;
+            if (markPrice !== null) ticks.push({ coin: asset.coin, price: markPrice, source: 'MARK', at: now });
+        }
+    }
+
+    return ticks;
+}
+
+// ============================================================================
+// LEVEL CROSSING
+// ============================================================================
+
+/**
+ * Levels of a pending signal to watch, or null for a signal without a direction
+ */
+export function watchedPosition(signal: DbSignal): WatchedPosition | null {
+    if (signal.direction !== 'LONG' && signal.direction !== 'SHORT') return null;
+
+    const filled = new Set((signal.tp_fills ?? []).map(fill => fill.target));
+    return {
+        id: signal.id,
+        coin: signal.coin.toUpperCase(),
+        direction: signal.direction,
+        stopLoss: signal.stop_loss,
+        takeProfit: signal.take_profit,
+        targets: (signal.take_profit_targets ?? []).filter((_, i) => !filled.has(i)).map(target => target.price),
+    };
+}
+
+/**
+ * The level a price is at or beyond: the stop first, then the final take profit, then a ladder target
+ */
+export function crossedLevel(position: WatchedPosition, price: number): CrossedLevel | null {
+    const beyond = (level: number, favorable: boolean) =>
+        (position.direction === 'LONG') === favorable ? price >= level : price <= level;
+
+    if (beyond(position.stopLoss, false)) return 'STOP_LOSS';
+    if (beyond(position.takeProfit, true)) return 'TAKE_PROFIT';
+    if (position.targets.some(target => beyond(target, true))) return 'TP_TARGET';
+    return null;
+}
+
+// ============================================================================
+// RECONNECT
+// ============================================================================
+
+/**
+ * Exponential backoff with ±20% jitter, so workers that dropped together don't reconnect together
+ *
+ * @param attempt - Failed attempts since the last successful connection (0 = first retry)
+ */
+export function reconnectDelayMs(
+    attempt: number,
+    config: StreamConfig = DEFAULT_STREAM_CONFIG,
+    random: () => number = Math.random
+): number {
+    const delay = Math.min(config.reconnectMaxMs, config.reconnectBaseMs * 2 ** attempt);
+    return Math.round(delay * (0.8 + random() * 0.4));
+}
@@ -5,40 +5,246 @@
  * 
  * Modules:
  * - indicators: Technical analysis calculations
- * - risk: Stop loss, take profit, position sizing
+ * - streaming: Incremental indicators updated one candle at a time
+ * - risk: Stop loss, take profit, position sizing, the risk policy and liquidation-aware leverage
+ * - divergence: Regular/hidden divergence between price pivots and RSI, MACD, OBV
+ * - patterns: Candlestick and chart-structure pattern recognition
+ * - correlation: Cross-asset correlation, beta and relative strength vs BTC and the basket
+ * - registry: Indicator definitions (category, default weight, compute, learning rule)
  * - scoring: Weighted signal generation (LONG/SHORT/HOLD)
+ * - portfolio: Risk-based position sizing with gross, net and correlated exposure caps
+ * - paper: Simulated fills, fees, slippage and funding for paper-trading accounts
+ * - costs: Fee, spread and funding estimate turning gross signal returns into net
+ * - circuitBreaker: Drawdown / loss-streak breaker that pauses or throttles signal generation
+ * - outcome: SL/TP, intrabar replay, take-profit ladder, momentum-exit, trailing-stop and expiry rules shared by monitor and backtests
+ * - regimeModel: K-means / Gaussian HMM regime classifier, shadow-run and A/B-tested against the rule-based detector
+ * - regimeLearning: Bounded tuning and recovery of the per-regime multipliers from regime-tagged outcomes
+ * - backtest: Bar-by-bar historical replay of the scoring engine
+ * - optimizer: Walk-forward search over indicator weights
+ * - confluence: 1h/4h/1d multi-timeframe agreement grading
  */
 
 // Core types
 export type { OHLCV, IndicatorResult } from './indicators';
-export type { SignalDirection, RiskLevels, SupportResistance } from './risk';
-export type { SignalOutput, IndicatorWeights, HyperliquidContext } from './scoring';
+export type { IndicatorStream, AssetAnalysis } from './streaming';
+export type { SignalDirection, RiskLevels, SupportResistance, AtrMultipliers, RiskPolicy, RiskLimits } from './risk';
+export type { DivergenceOscillator, DivergenceKind, DivergenceMatch, DivergenceOptions } from './divergence';
+export type { PatternId, PatternAnalysis } from './patterns';
+export type { AssetCandles, CrossAssetStats, CorrelationMatrix, CrossAssetAnalysis, CrossAssetOptions } from './correlation';
+export type {
+    PortfolioSettings, PortfolioSignal, ExposureCap, SizedPosition, ExposureCluster, ExposureSummary, PortfolioPlan,
+} from './portfolio';
+export type { PaperCostModel, PaperSettings, PaperPositionState, PaperEquityPoint } from './paper';
+export type { CostModel, TradeCostInput } from './costs';
+export type { BreakerMode, CircuitBreakerConfig, DirectionRecord, BreakerMetrics, BreakerEvaluation, CircuitBreakerState } from './circuitBreaker';
+export type { SignalOutput, IndicatorWeights, RegimeWeightSet, HyperliquidContext } from './scoring';
+export type {
+    IndicatorId, IndicatorCategory, IndicatorDefinition, IndicatorInput, IndicatorOutput,
+    LearningRule, SnapshotDisplay, ContextValue,
+} from './registry';
+export type { PositionLevels, LevelCheck, TrailingMode, TrailingStopConfig, StopUpdate, TakeProfitStep, ExpiryConfig, IntrabarTieBreak, IntrabarConfig, IntrabarHit } from './outcome';
+export type { BacktestOptions, BacktestTrade, BacktestSummary, BacktestResult, RegimeResolver } from './backtest';
+export type {
+    RegimeModelMethod, RegimeFeatureName, RegimeFeatureExtras, RegimeFeatureOptions, RegimeFeatureSeries,
+    RegimeModelOptions, RegimeModelState, RegimeModel, RegimeClassification, RegimeComparison, RegimeModelConfig,
+} from './regimeModel';
+export type { RegimeAdjustmentField, RegimeOutcome, RegimeAdjustmentChange, RegimeTuning } from './regimeLearning';
+export type { OptimizerOptions, SearchMethod, WindowStats, WalkForwardFold, WalkForwardResult } from './optimizer';
+export type { ConfluenceTimeframe, ConfluenceQuality, TimeframeBreakdown, ConfluenceSummary, MultiTimeframeSignal } from './confluence';
 
 // Indicators
 export {
     SMA, EMA, EMASeries,
     RSI, StochasticRSI, MACD, WilliamsR, CCI,
-    EMAAlignment, BollingerPosition, VWAPApprox, IchimokuCloud, ADX,
-    OBVTrend, VolumeRatio,
+    EMAAlignment, BollingerPosition, VWAPApprox, AnchoredVWAP, IchimokuCloud, ADX,
+    OBVTrend, VolumeRatio, VolumeProfile,
     ATR, ZScore,
     analyzeAsset,
 } from './indicators';
 
+// Streaming Indicators
+export {
+    createEMAStream,
+    createRSIStream,
+    createStochRSIStream,
+    createMACDStream,
+    createEMAAlignmentStream,
+    createADXStream,
+    createVWAPStream,
+    createOBVTrendStream,
+    createATRStream,
+    createWindowStream,
+    createAssetStream,
+} from './streaming';
+
 // Risk Management
 export {
     findPivotPoints,
+    findPivotIndices,
+    findVWAPAnchor,
     findSupportResistance,
     calculateRiskLevels,
     validateRiskLevels,
     calculatePositionSize,
+    atrMultipliersFor,
+    DEFAULT_RISK_POLICY,
+    maintenanceMarginRate,
+    liquidationPrice,
+    recommendLeverage,
+    DEFAULT_MAX_LEVERAGE,
+    LIQUIDATION_BUFFER,
+    MIN_SENSIBLE_LEVERAGE,
 } from './risk';
 
+// Divergence
+export { Divergence } from './divergence';
+
+// Patterns
+export {
+    PATTERN_IDS,
+    Engulfing, PinBar, InsideBar,
+    DoubleTopBottom, SwingStructure, RangeBreakout,
+    analyzePatterns,
+} from './patterns';
+
+// Cross-Asset Correlation
+export {
+    pearson,
+    beta,
+    analyzeCrossAsset,
+    RelativeStrength,
+} from './correlation';
+
+// Portfolio Sizing
+export {
+    DEFAULT_PORTFOLIO_SETTINGS,
+    buildPortfolio,
+} from './portfolio';
+
+// Paper Trading
+export {
+    DEFAULT_PAPER_COSTS,
+    DEFAULT_PAPER_SETTINGS,
+    fillPrice,
+    sizePaperPosition,
+    openPaperPosition,
+    closePaperTranche,
+    isFullyClosed,
+    fundingPayment,
+    unrealizedPnl,
+    buildEquityCurve,
+} from './paper';
+
+// Trading Costs
+export {
+    DEFAULT_COST_MODEL,
+    estimateSpreadPct,
+    fundingCostPct,
+    estimateTradeCosts,
+    netProfitPct,
+} from './costs';
+
+// Circuit Breaker
+export {
+    DEFAULT_CIRCUIT_BREAKER,
+    rollingDrawdownPct,
+    evaluateCircuitBreaker,
+    nextCircuitBreakerState,
+    clearedCircuitBreakerState,
+    circuitBreakerBlock,
+} from './circuitBreaker';
+
+// Indicator Registry
+export {
+    INDICATORS,
+    CONTEXT_VALUES,
+    SCORED_CATEGORIES,
+    getIndicator,
+    getCategoryDisplays,
+} from './registry';
+
 // Scoring Engine
 export {
     DEFAULT_WEIGHTS,
     normalizeWeights,
+    weightsForRegime,
     generateSignal,
     generateSignals,
     filterSignals,
     sortSignalsByScore,
 } from './scoring';
+
+// Outcome Evaluation
+export {
+    MOMENTUM_EXIT_THRESHOLD_PCT,
+    calculateProfitPct,
+    checkPriceLevels,
+    resolveIntrabarHit,
+    replayIntrabar,
+    DEFAULT_INTRABAR,
+    checkMomentumAligned,
+    updateTrailingStop,
+    DEFAULT_TRAILING_STOP,
+    buildTakeProfitLadder,
+    fillTakeProfitTargets,
+    remainingFraction,
+    blendedProfitPct,
+    settleExit,
+    DEFAULT_TP_LADDER,
+    maxHoldingHours,
+    isExpired,
+    DEFAULT_EXPIRY,
+    DEFAULT_SIGNAL_TIMEFRAME,
+} from './outcome';
+
+// Backtesting
+export {
+    backtestCoin,
+    runBacktest,
+    buildCumulativeReturns,
+    summarizeTrades,
+} from './backtest';
+
+// Statistical Regime Classifier
+export {
+    DEFAULT_REGIME_MODEL,
+    DEFAULT_REGIME_MODEL_CONFIG,
+    extractRegimeFeatures,
+    labelRegimeState,
+    fitRegimeModel,
+    classifyRegimeSeries,
+    classifyLatestRegime,
+    modelRegimeResolver,
+    ruleRegimeResolver,
+    compareRegimeClassifiers,
+} from './regimeModel';
+
+// Regime Adjustment Learning
+export {
+    REGIME_LEARNING_CONFIG,
+    REGIME_ADJUSTMENT_BOUNDS,
+    categoryCredit,
+    tuneRegimeAdjustments,
+    recoverRegimeAdjustments,
+    applyRegimeChanges,
+} from './regimeLearning';
+
+// Weight Optimization
+export {
+    CANDLE_TUNABLE_KEYS,
+    MAX_OPTIMIZER_COINS,
+    MAX_OPTIMIZER_EVALUATIONS,
+    boundWeights,
+    evaluateWeights,
+    iterationBudget,
+    walkForwardOptimize,
+} from './optimizer';
+
+// Multi-Timeframe Confluence
+export {
+    CONFLUENCE_TIMEFRAMES,
+    evaluateConfluence,
+    generateMultiTimeframeSignal,
+    confluenceBlock,
+    confluenceSnapshot,
+} from './confluence';
@@ -6,7 +6,10 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { RSI, StochasticRSI, MACD, EMA, SMA, ATR, WilliamsR, CCI, BollingerPosition, OBVTrend } from './indicators';
+import {
+    RSI, StochasticRSI, MACD, EMA, SMA, ATR, WilliamsR, CCI, BollingerPosition, OBVTrend,
+    VolumeProfile, interpretValueArea, AnchoredVWAP, VWAPApprox, interpretAnchoredVWAP,
+} from './indicators';
 import type { OHLCV } from './indicators';
 
 // ============================================================================
@@ -233,3 +236,64 @@ describe('OBVTrend', () => {
         expect(['bullish', 'bearish', 'neutral']).toContain(result.signal);
     });
 });
+
+// ============================================================================
+// VOLUME PROFILE
+// ============================================================================
+
+describe('VolumeProfile', () => {
+    function bar(low: number, high: number, volume: number): OHLCV {
+        return { open: low, high, low, close: high, volume, timestamp: 0 };
+    }
+
+    it('puts the point of control where most volume traded', () => {
+        const data = [bar(100, 110, 100), bar(104, 106, 5000), bar(104, 106, 5000), bar(90, 100, 100)];
+        const profile = VolumeProfile(data, 20);
+        expect(profile.poc).toBeGreaterThan(104);
+        expect(profile.poc).toBeLessThan(106);
+    });
+
+    it('value area contains the POC and ~70% of volume', () => {
+        const data = makeOHLCV(100);
+        const profile = VolumeProfile(data);
+        expect(profile.valueAreaLow).toBeLessThanOrEqual(profile.poc);
+        expect(profile.valueAreaHigh).toBeGreaterThanOrEqual(profile.poc);
+
+        const total = profile.bins.reduce((sum, b) => sum + b.volume, 0);
+        const inside = profile.bins
+            .filter(b => b.price > profile.valueAreaLow && b.price < profile.valueAreaHigh)
+            .reduce((sum, b) => sum + b.volume, 0);
+        expect(inside / total).toBeGreaterThanOrEqual(0.7);
+    });
+
+    it('conserves total volume across bins', () => {
+        const data = makeOHLCV(50);
+        const profile = VolumeProfile(data);
+        const total = data.reduce((sum, d) => sum + d.volume, 0);
+        expect(profile.bins.reduce((sum, b) => sum + b.volume, 0)).toBeCloseTo(total, 0);
+    });
+
+    it('classifies price against the value area', () => {
+        expect(interpretValueArea(112, 110, 100).signal).toBe('bullish');
+        expect(interpretValueArea(95, 110, 100).signal).toBe('bearish');
+        expect(interpretValueArea(105, 110, 100)).toEqual({ value: 0.5, signal: 'neutral', strength: 0 });
+    });
+});
+
+// ============================================================================
+// ANCHORED VWAP
+// ============================================================================
+
+describe('AnchoredVWAP', () => {
+    it('only uses bars from the anchor onward', () => {
+        const data = makeOHLCV(60);
+        expect(AnchoredVWAP(data, 40)).toBeCloseTo(VWAPApprox(data.slice(40)), 10);
+        expect(AnchoredVWAP(data, 0)).toBeCloseTo(VWAPApprox(data), 10);
+    });
+
+    it('is bullish above the VWAP and bearish below', () => {
+        expect(interpretAnchoredVWAP(105, 100, 5).signal).toBe('bullish');
+        expect(interpretAnchoredVWAP(95, 100, 5).signal).toBe('bearish');
+        expect(interpretAnchoredVWAP(110, 100, 5).strength).toBe(1);
+    });
+});
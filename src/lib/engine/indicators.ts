@@ -126,10 +126,21 @@ export function RSI(closes: number[], period: number = 14): IndicatorResult {
         avgLoss = (avgLoss * (period - 1) + loss) / period;
     }
 
+    return interpretRSI(rsiFromAverages(avgGain, avgLoss));
+}
+
+/**
+ * RSI value from Wilder-smoothed average gain/loss
+ */
+export function rsiFromAverages(avgGain: number, avgLoss: number): number {
     const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-    const rsi = 100 - (100 / (1 + rs));
+    return 100 - (100 / (1 + rs));
+}
 
-    // Determine signal
+/**
+ * Classify an RSI value (oversold = bullish, overbought = bearish)
+ */
+export function interpretRSI(rsi: number): IndicatorResult {
     let signal: 'bullish' | 'bearish' | 'neutral' = 'neutral';
     let strength = 0;
 
@@ -179,8 +190,7 @@ export function StochasticRSI(
     avgLoss /= rsiPeriod;
 
     // First RSI value
-    const rs0 = avgLoss === 0 ? 100 : avgGain / avgLoss;
-    rsiValues.push(100 - (100 / (1 + rs0)));
+    rsiValues.push(rsiFromAverages(avgGain, avgLoss));
 
     // Step 2: Incrementally compute subsequent RSI values
     for (let i = rsiPeriod + 1; i < closes.length; i++) {
@@ -191,16 +201,20 @@ export function StochasticRSI(
         avgGain = (avgGain * (rsiPeriod - 1) + gain) / rsiPeriod;
         avgLoss = (avgLoss * (rsiPeriod - 1) + loss) / rsiPeriod;
 
-        const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-        rsiValues.push(100 - (100 / (1 + rs)));
+        rsiValues.push(rsiFromAverages(avgGain, avgLoss));
     }
 
     if (rsiValues.length < stochPeriod) {
         return { value: 50, signal: 'neutral', strength: 0 };
     }
 
-    // Calculate Stochastic of RSI
-    const recentRSI = rsiValues.slice(-stochPeriod);
+    return stochasticOfRSI(rsiValues.slice(-stochPeriod));
+}
+
+/**
+ * Stochastic of the most recent RSI values (window is the stochastic period)
+ */
+export function stochasticOfRSI(recentRSI: number[]): IndicatorResult {
     const currentRSI = recentRSI[recentRSI.length - 1];
     const lowestRSI = Math.min(...recentRSI);
     const highestRSI = Math.max(...recentRSI);
@@ -280,20 +294,25 @@ export function MACD(
         };
     }
 
-    const fastEMA = EMA(closes, fastPeriod);
-    const slowEMA = EMA(closes, slowPeriod);
-    const macdLine = fastEMA - slowEMA;
-
-    // Calculate MACD series for signal line
+    // MACD series for the signal line, starting once the slow EMA has a full period.
+    // EMASeries[i] equals EMA(closes.slice(0, i + 1)), so this is one pass instead of one EMA per bar.
+    const fastSeries = EMASeries(closes, fastPeriod);
+    const slowSeries = EMASeries(closes, slowPeriod);
     const macdSeries: number[] = [];
-    for (let i = slowPeriod; i <= closes.length; i++) {
-        const slice = closes.slice(0, i);
-        const fast = EMA(slice, fastPeriod);
-        const slow = EMA(slice, slowPeriod);
-        macdSeries.push(fast - slow);
+    for (let i = slowPeriod - 1; i < closes.length; i++) {
+        macdSeries.push(fastSeries[i] - slowSeries[i]);
     }
 
-    const signalLine = EMA(macdSeries, signalPeriod);
+    return interpretMACD(macdSeries[macdSeries.length - 1], EMA(macdSeries, signalPeriod));
+}
+
+/**
+ * Build the MACD result from the current MACD and signal line values
+ */
+export function interpretMACD(
+    macdLine: number,
+    signalLine: number
+): { macd: number; signal: number; histogram: number; result: IndicatorResult } {
     const histogram = macdLine - signalLine;
 
     let indicatorSignal: 'bullish' | 'bearish' | 'neutral' = 'neutral';
@@ -371,11 +390,13 @@ export function EMAAlignment(closes: number[]): IndicatorResult {
         return { value: 0, signal: 'neutral', strength: 0 };
     }
 
-    const ema7 = EMA(closes, 7);
-    const ema21 = EMA(closes, 21);
-    const ema50 = EMA(closes, 50);
-    const currentPrice = closes[closes.length - 1];
+    return interpretEMAAlignment(closes[closes.length - 1], EMA(closes, 7), EMA(closes, 21), EMA(closes, 50));
+}
 
+/**
+ * Score the EMA 7/21/50 stack against the current price
+ */
+export function interpretEMAAlignment(currentPrice: number, ema7: number, ema21: number, ema50: number): IndicatorResult {
     let score = 0;
 
     // Perfect bullish alignment: Price > EMA7 > EMA21 > EMA50
@@ -453,6 +474,7 @@ export function BollingerPosition(
 /**
  * VWAP Approximation
  * Volume-Weighted Average Price (approximated from available data)
+ * Rolling over the whole window — scoring uses AnchoredVWAP instead.
  * 
  * @param data - OHLCV data array
  * @param period - Period to calculate over
@@ -473,6 +495,36 @@ export function VWAPApprox(data: OHLCV[], period?: number): number {
     return cumulativeVolume === 0 ? slice[slice.length - 1].close : cumulativeTPV / cumulativeVolume;
 }
 
+/**
+ * Anchored VWAP
+ * Volume-Weighted Average Price from a chosen bar (e.g. the last significant pivot) to the latest bar
+ * 
+ * @param data - OHLCV data array
+ * @param anchorIndex - Bar the VWAP starts from
+ */
+export function AnchoredVWAP(data: OHLCV[], anchorIndex: number): number {
+    if (data.length === 0) return 0;
+    return VWAPApprox(data.slice(Math.max(0, Math.min(anchorIndex, data.length - 1))));
+}
+
+/**
+ * Classify price against its anchored VWAP.
+ * Value is the distance from the VWAP in %; strength scales with distance in ATRs (2 ATR = full).
+ */
+export function interpretAnchoredVWAP(currentPrice: number, vwap: number, atr: number): IndicatorResult {
+    if (vwap === 0) return { value: 0, signal: 'neutral', strength: 0 };
+
+    const distance = currentPrice - vwap;
+    const value = (distance / vwap) * 100;
+    const strength = atr > 0 ? Math.min(1, Math.abs(distance) / (2 * atr)) : 0;
+
+    let signal: 'bullish' | 'bearish' | 'neutral' = 'neutral';
+    if (distance > 0) signal = 'bullish';
+    else if (distance < 0) signal = 'bearish';
+
+    return { value, signal, strength };
+}
+
 /**
  * Ichimoku Cloud
  * All-in-one trend detection system
@@ -590,33 +642,50 @@ export function ADX(data: OHLCV[], period: number = 14): {
     const minusDMs: number[] = [];
 
     for (let i = 1; i < data.length; i++) {
-        const high = data[i].high;
-        const low = data[i].low;
-        const prevHigh = data[i - 1].high;
-        const prevLow = data[i - 1].low;
-        const prevClose = data[i - 1].close;
+        trs.push(trueRange(data[i], data[i - 1]));
 
-        // True Range
-        const tr = Math.max(
-            high - low,
-            Math.abs(high - prevClose),
-            Math.abs(low - prevClose)
-        );
-        trs.push(tr);
-
-        // Directional Movement
-        const upMove = high - prevHigh;
-        const downMove = prevLow - low;
-
-        plusDMs.push(upMove > downMove && upMove > 0 ? upMove : 0);
-        minusDMs.push(downMove > upMove && downMove > 0 ? downMove : 0);
+        const { plusDM, minusDM } = directionalMovement(data[i], data[i - 1]);
+        plusDMs.push(plusDM);
+        minusDMs.push(minusDM);
     }
 
     // Smoothed averages
-    const smoothedTR = EMA(trs, period);
-    const smoothedPlusDM = EMA(plusDMs, period);
-    const smoothedMinusDM = EMA(minusDMs, period);
+    return interpretADX(EMA(trs, period), EMA(plusDMs, period), EMA(minusDMs, period));
+}
+
+/**
+ * True Range of a bar given the previous bar
+ */
+export function trueRange(bar: OHLCV, prev: OHLCV): number {
+    return Math.max(
+        bar.high - bar.low,
+        Math.abs(bar.high - prev.close),
+        Math.abs(bar.low - prev.close)
+    );
+}
+
+/**
+ * +DM / -DM of a bar given the previous bar
+ */
+export function directionalMovement(bar: OHLCV, prev: OHLCV): { plusDM: number; minusDM: number } {
+    const upMove = bar.high - prev.high;
+    const downMove = prev.low - bar.low;
+
+    return {
+        plusDM: upMove > downMove && upMove > 0 ? upMove : 0,
+        minusDM: downMove > upMove && downMove > 0 ? downMove : 0,
+    };
+}
 
+/**
+ * Build the ADX result from smoothed TR and directional movement
+ */
+export function interpretADX(smoothedTR: number, smoothedPlusDM: number, smoothedMinusDM: number): {
+    adx: number;
+    plusDI: number;
+    minusDI: number;
+    result: IndicatorResult;
+} {
     // Directional Indicators
     const plusDI = smoothedTR === 0 ? 0 : (smoothedPlusDM / smoothedTR) * 100;
     const minusDI = smoothedTR === 0 ? 0 : (smoothedMinusDM / smoothedTR) * 100;
@@ -681,9 +750,15 @@ export function OBVTrend(data: OHLCV[], trendPeriod: number = 7): IndicatorResul
         return { value: 0, signal: 'neutral', strength: 0 };
     }
 
-    const recentOBV = obvSeries.slice(-trendPeriod);
+    return obvTrendOfWindow(obvSeries.slice(-trendPeriod), data.slice(-trendPeriod).map(d => d.volume));
+}
+
+/**
+ * OBV trend over the most recent OBV values and their bar volumes (window is the trend period)
+ */
+export function obvTrendOfWindow(recentOBV: number[], recentVolumes: number[]): IndicatorResult {
     const obvChange = recentOBV[recentOBV.length - 1] - recentOBV[0];
-    const avgVolume = data.slice(-trendPeriod).reduce((sum, d) => sum + d.volume, 0) / trendPeriod;
+    const avgVolume = recentVolumes.reduce((sum, v) => sum + v, 0) / recentVolumes.length;
 
     // Normalize OBV change relative to average volume
     const normalizedChange = avgVolume === 0 ? 0 : obvChange / avgVolume;
@@ -728,6 +803,103 @@ export function VolumeRatio(data: OHLCV[], avgPeriod: number = 20): IndicatorRes
     return { value: ratio, signal, strength };
 }
 
+/**
+ * Volume Profile
+ * Volume traded at each price level, with the point of control (busiest level)
+ * and the value area (levels holding `valueAreaPct` of the volume around the POC)
+ * 
+ * Each candle's volume is spread over its high-low range.
+ * 
+ * @param data - OHLCV data array
+ * @param binCount - Number of price levels (default 24)
+ * @param valueAreaPct - Share of volume inside the value area (default 0.7)
+ */
+export function VolumeProfile(
+    data: OHLCV[],
+    binCount: number = 24,
+    valueAreaPct: number = 0.7
+): { poc: number; valueAreaHigh: number; valueAreaLow: number; bins: { price: number; volume: number }[] } {
+    if (data.length === 0) {
+        return { poc: 0, valueAreaHigh: 0, valueAreaLow: 0, bins: [] };
+    }
+
+    const low = Math.min(...data.map(d => d.low));
+    const high = Math.max(...data.map(d => d.high));
+    const lastClose = data[data.length - 1].close;
+    if (high <= low) {
+        return { poc: lastClose, valueAreaHigh: lastClose, valueAreaLow: lastClose, bins: [{ price: lastClose, volume: 0 }] };
+    }
+
+    const binSize = (high - low) / binCount;
+    const volumes = new Array<number>(binCount).fill(0);
+
+    for (const candle of data) {
+        const range = candle.high - candle.low;
+        const first = Math.min(binCount - 1, Math.floor((candle.low - low) / binSize));
+        const last = Math.min(binCount - 1, Math.floor((candle.high - low) / binSize));
+
+        for (let b = first; b <= last; b++) {
+            if (range === 0) {
+                volumes[b] += candle.volume;
+                continue;
+            }
+            const overlap = Math.min(candle.high, low + (b + 1) * binSize) - Math.max(candle.low, low + b * binSize);
+            volumes[b] += candle.volume * Math.max(0, overlap) / range;
+        }
+    }
+
+    // Point of control: busiest bin
+    let pocBin = 0;
+    for (let b = 1; b < binCount; b++) {
+        if (volumes[b] > volumes[pocBin]) pocBin = b;
+    }
+
+    // Value area: grow from the POC toward the busier neighbour until it holds valueAreaPct of volume
+    const totalVolume = volumes.reduce((sum, v) => sum + v, 0);
+    let lowBin = pocBin;
+    let highBin = pocBin;
+    let areaVolume = volumes[pocBin];
+
+    while (areaVolume < totalVolume * valueAreaPct && (lowBin > 0 || highBin < binCount - 1)) {
+        const below = lowBin > 0 ? volumes[lowBin - 1] : -1;
+        const above = highBin < binCount - 1 ? volumes[highBin + 1] : -1;
+        if (above >= below) {
+            highBin++;
+            areaVolume += above;
+        } else {
+            lowBin--;
+            areaVolume += below;
+        }
+    }
+
+    return {
+        poc: low + (pocBin + 0.5) * binSize,
+        valueAreaHigh: low + (highBin + 1) * binSize,
+        valueAreaLow: low + lowBin * binSize,
+        bins: volumes.map((volume, b) => ({ price: low + (b + 0.5) * binSize, volume })),
+    };
+}
+
+/**
+ * Classify price against the value area.
+ * Value is the position within the value area (0 = VAL, 1 = VAH); acceptance above VAH is bullish,
+ * below VAL bearish, with strength growing by how far price has left the area (one area width = full).
+ */
+export function interpretValueArea(currentPrice: number, valueAreaHigh: number, valueAreaLow: number): IndicatorResult {
+    const width = valueAreaHigh - valueAreaLow;
+    if (width <= 0) return { value: 0.5, signal: 'neutral', strength: 0 };
+
+    const position = (currentPrice - valueAreaLow) / width;
+
+    if (position > 1) {
+        return { value: position, signal: 'bullish', strength: Math.min(1, 0.3 + (position - 1)) };
+    }
+    if (position < 0) {
+        return { value: position, signal: 'bearish', strength: Math.min(1, 0.3 - position) };
+    }
+    return { value: position, signal: 'neutral', strength: 0 };
+}
+
 // ============================================================================
 // VOLATILITY & RISK INDICATORS
 // ============================================================================
@@ -745,16 +917,7 @@ export function ATR(data: OHLCV[], period: number = 14): number {
     const trueRanges: number[] = [];
 
     for (let i = 1; i < data.length; i++) {
-        const high = data[i].high;
-        const low = data[i].low;
-        const prevClose = data[i - 1].close;
-
-        const tr = Math.max(
-            high - low,
-            Math.abs(high - prevClose),
-            Math.abs(low - prevClose)
-        );
-        trueRanges.push(tr);
+        trueRanges.push(trueRange(data[i], data[i - 1]));
     }
 
     return EMA(trueRanges, period);
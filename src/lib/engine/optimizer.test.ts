@@ -0,0 +1,131 @@
+/**
+ * LISAN INTELLIGENCE — Walk-Forward Optimizer Tests
+ *
+ * Tests for window layout, weight bounds and reproducibility.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { walkForwardOptimize, boundWeights, evaluateWeights, iterationBudget } from './optimizer';
+import { DEFAULT_WEIGHTS, IndicatorWeights } from './scoring';
+import { OHLCV } from './indicators';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const HOUR = 3600000;
+
+function makeWaveData(length: number, amplitude = 0.15, period = 40): OHLCV[] {
+    const data: OHLCV[] = [];
+    const start = Date.UTC(2025, 0, 1);
+    for (let i = 0; i < length; i++) {
+        const price = 100 * (1 + amplitude * Math.sin((2 * Math.PI * i) / period));
+        const prev = i > 0 ? data[i - 1].close : price;
+        data.push({
+            open: prev,
+            high: Math.max(prev, price) * 1.005,
+            low: Math.min(prev, price) * 0.995,
+            close: price,
+            volume: 500000 + (i % 7) * 50000,
+            timestamp: start + i * 4 * HOUR,
+        });
+    }
+    return data;
+}
+
+const coinData = [{ coin: 'BTC', data: makeWaveData(260) }];
+const smallRun = { folds: 2, trainBars: 120, testBars: 60, iterations: 4, minTrades: 1 };
+
+function sumWeights(w: IndicatorWeights): number {
+    return Object.values(w).reduce((sum, v) => sum + v, 0);
+}
+
+// ============================================================================
+// BOUNDS
+// ============================================================================
+
+describe('boundWeights', () => {
+    it('clamps to min/max and sums to 100', () => {
+        const skewed = { ...DEFAULT_WEIGHTS, rsi: 60, cci: 0 };
+        const bounded = boundWeights(skewed, 1, 20);
+        expect(bounded.rsi).toBeLessThanOrEqual(20);
+        expect(bounded.cci).toBeGreaterThanOrEqual(1);
+        expect(sumWeights(bounded)).toBeCloseTo(100, 0);
+    });
+});
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+describe('evaluateWeights', () => {
+    it('only counts trades opened inside the window', () => {
+        const full = evaluateWeights(coinData, DEFAULT_WEIGHTS, 100, 260);
+        const late = evaluateWeights(coinData, DEFAULT_WEIGHTS, 200, 260);
+        expect(late.trades).toBeLessThanOrEqual(full.trades);
+    });
+});
+
+// ============================================================================
+// WALK-FORWARD
+// ============================================================================
+
+describe('walkForwardOptimize', () => {
+    it('returns null when history is shorter than the windows', () => {
+        expect(walkForwardOptimize([{ coin: 'BTC', data: makeWaveData(100) }], smallRun)).toBeNull();
+    });
+
+    it('lays out chronological folds with unseen test windows', () => {
+        const result = walkForwardOptimize(coinData, smallRun)!;
+        expect(result.folds).toHaveLength(2);
+
+        for (const fold of result.folds) {
+            expect(fold.testStart).toBeGreaterThan(fold.trainEnd);
+        }
+        expect(result.folds[1].testStart).toBeGreaterThan(result.folds[0].testEnd);
+        expect(result.folds[1].testEnd).toBe(coinData[0].data[259].timestamp);
+    });
+
+    it('keeps the candidate within normalizeWeights bounds', () => {
+        const result = walkForwardOptimize(coinData, { ...smallRun, minWeight: 2, maxWeight: 15 })!;
+        for (const value of Object.values(result.candidate)) {
+            expect(value).toBeGreaterThanOrEqual(2);
+            expect(value).toBeLessThanOrEqual(15);
+        }
+        expect(sumWeights(result.candidate)).toBeCloseTo(100, 0);
+    });
+
+    it('aggregates out-of-sample trades across folds', () => {
+        const result = walkForwardOptimize(coinData, smallRun)!;
+        const foldTrades = result.folds.reduce((sum, f) => sum + f.outOfSample.trades, 0);
+        expect(result.outOfSample.trades).toBe(foldTrades);
+    });
+
+    it('is reproducible for a given seed', () => {
+        const a = walkForwardOptimize(coinData, { ...smallRun, seed: 7 })!;
+        const b = walkForwardOptimize(coinData, { ...smallRun, seed: 7 })!;
+        expect(a.candidate).toEqual(b.candidate);
+    });
+
+    it('supports coordinate descent', () => {
+        const result = walkForwardOptimize(coinData, { ...smallRun, method: 'coordinate' })!;
+        expect(result.method).toBe('coordinate');
+        expect(sumWeights(result.candidate)).toBeCloseTo(100, 0);
+    });
+});
+
+describe('iterationBudget', () => {
+    it('keeps the requested iterations when they fit', () => {
+        expect(iterationBudget(6, 4, 40)).toBe(40);
+    });
+
+    it('shrinks iterations so coins × iterations × (folds + 1) stays within the budget', () => {
+        expect(iterationBudget(6, 4, 200)).toBe(40);
+        expect(iterationBudget(6, 8, 200)).toBe(22);
+        expect(iterationBudget(2, 4, 200, 100)).toBe(10);
+    });
+
+    it('always runs at least one iteration', () => {
+        expect(iterationBudget(6, 8, 40, 10)).toBe(1);
+    });
+});
@@ -0,0 +1,349 @@
+/**
+ * LISAN INTELLIGENCE — Walk-Forward Weight Optimizer
+ *
+ * Offline search over IndicatorWeights using replayed candles.
+ * Each fold optimizes on a training window and is scored on the following,
+ * unseen test window, so reported out-of-sample numbers are honest.
+ * The final candidate is optimized on the most recent training window.
+ *
+ * The learning cron only nudges weights after streaks — this module actually
+ * searches the weight space, within the same bounds normalizeWeights enforces.
+ */
+
+import { OHLCV } from './indicators';
+import { IndicatorWeights, DEFAULT_WEIGHTS, normalizeWeights } from './scoring';
+import { runBacktest, BacktestOptions } from './backtest';
+import { INDICATORS } from './registry';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SearchMethod = 'random' | 'coordinate';
+
+export interface OptimizerOptions {
+    baseWeights?: IndicatorWeights;
+    method?: SearchMethod;
+    folds?: number;
+    trainBars?: number;           // Bars per training window
+    testBars?: number;            // Bars per out-of-sample window
+    iterations?: number;          // Candidate evaluations per optimization
+    stepSize?: number;            // Max relative change per move (0.3 = ±30%)
+    minWeight?: number;           // Same bounds as normalizeWeights
+    maxWeight?: number;
+    minTrades?: number;           // Windows with fewer trades are not trusted
+    seed?: number;                // Random search is deterministic for a given seed
+    tunableKeys?: (keyof IndicatorWeights)[];
+    backtest?: Omit<BacktestOptions, 'weights' | 'minBars'>;
+}
+
+export interface WindowStats {
+    trades: number;
+    winRate: number;              // 0-100
+    expectancy: number;           // Mean return per trade (%)
+}
+
+export interface WalkForwardFold {
+    fold: number;
+    trainStart: number;           // Timestamps (ms) of the first/last bar in each window
+    trainEnd: number;
+    testStart: number;
+    testEnd: number;
+    weights: IndicatorWeights;
+    inSample: WindowStats;
+    outOfSample: WindowStats;
+    baselineOutOfSample: WindowStats;  // Base weights on the same test window
+}
+
+export interface WalkForwardResult {
+    method: SearchMethod;
+    folds: WalkForwardFold[];
+    outOfSample: WindowStats;          // Aggregated over all test windows
+    baselineOutOfSample: WindowStats;
+    candidate: IndicatorWeights;
+    candidateInSample: WindowStats;
+    baseWeights: IndicatorWeights;
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/**
+ * Weights that replayed candles can actually exercise.
+ * Fear & Greed and Hyperliquid positioning have no history in a candle replay,
+ * and relative strength needs the whole basket, so their weights are left
+ * untouched instead of drifting on noise.
+ */
+export const CANDLE_TUNABLE_KEYS: (keyof IndicatorWeights)[] = INDICATORS
+    .filter(def => def.category !== 'sentiment' && def.category !== 'positioning')
+    .filter(def => def.id !== 'relativeStrength')
+    .map(def => def.id);
+
+const OPTIMIZER_DEFAULTS = {
+    method: 'random' as SearchMethod,
+    folds: 4,
+    trainBars: 300,
+    testBars: 100,
+    iterations: 40,
+    stepSize: 0.3,
+    minWeight: 1,
+    maxWeight: 20,
+    minTrades: 10,
+    seed: 42,
+};
+
+/** Per-call limits for a run inside a request — past these a serverless function times out */
+export const MAX_OPTIMIZER_COINS = 6;
+export const MAX_OPTIMIZER_EVALUATIONS = 1200;   // coins × iterations × (folds + 1) window backtests
+
+/** Bars of history each window needs before its first signal (matches backtest windowSize) */
+const WARMUP_BARS = 100;
+
+type ResolvedOptions = typeof OPTIMIZER_DEFAULTS & {
+    baseWeights: IndicatorWeights;
+    tunableKeys: (keyof IndicatorWeights)[];
+    backtest: Omit<BacktestOptions, 'weights' | 'minBars'>;
+};
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Backtest a weight set on bars [start, end) of every coin.
+ * Bars before `start` are only used as indicator warmup — no trade opens before `start`.
+ */
+export function evaluateWeights(
+    coinData: { coin: string; data: OHLCV[] }[],
+    weights: IndicatorWeights,
+    start: number,
+    end: number,
+    backtest: Omit<BacktestOptions, 'weights' | 'minBars'> = {}
+): WindowStats {
+    const windowSize = backtest.windowSize ?? WARMUP_BARS;
+    const sliceStart = Math.max(0, start - windowSize);
+
+    const sliced = coinData.map(({ coin, data }) => ({ coin, data: data.slice(sliceStart, end) }));
+    const result = runBacktest(sliced, {
+        ...backtest,
+        weights,
+        minBars: Math.max(start - sliceStart + 1, 50),
+    });
+
+    return {
+        trades: result.summary.totalTrades,
+        winRate: result.summary.winRate,
+        expectancy: result.summary.expectancy,
+    };
+}
+
+/**
+ * Objective: expectancy, tie-broken by win rate.
+ * Windows with too few trades rank below anything that traded enough.
+ */
+function objective(stats: WindowStats, minTrades: number): number {
+    if (stats.trades < minTrades) return -Infinity;
+    return stats.expectancy + stats.winRate / 10000;
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/**
+ * Small deterministic PRNG (mulberry32) so optimizer runs are reproducible
+ */
+function createRng(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Clamp, renormalize to 100 within [minWeight, maxWeight] and round to 2 decimals
+ */
+export function boundWeights(weights: IndicatorWeights, minWeight: number = 1, maxWeight: number = 20): IndicatorWeights {
+    const clamped = { ...weights };
+    for (const key of Object.keys(clamped) as (keyof IndicatorWeights)[]) {
+        clamped[key] = Math.max(minWeight, Math.min(maxWeight, clamped[key]));
+    }
+
+    const normalized = normalizeWeights(clamped, minWeight, maxWeight);
+    const rounded = { ...normalized };
+    for (const key of Object.keys(rounded) as (keyof IndicatorWeights)[]) {
+        rounded[key] = Math.round(rounded[key] * 100) / 100;
+    }
+    return rounded;
+}
+
+/**
+ * Optimize weights on a single window.
+ *
+ * - random: perturb every tunable weight by up to ±stepSize and keep the move if it improves.
+ * - coordinate: try ±stepSize on one weight at a time, cycling through the tunable keys.
+ */
+function optimizeWindow(
+    coinData: { coin: string; data: OHLCV[] }[],
+    start: number,
+    end: number,
+    options: ResolvedOptions,
+    rng: () => number
+): { weights: IndicatorWeights; stats: WindowStats } {
+    const evaluate = (w: IndicatorWeights) => evaluateWeights(coinData, w, start, end, options.backtest);
+
+    let best = boundWeights(options.baseWeights, options.minWeight, options.maxWeight);
+    let bestStats = evaluate(best);
+    let bestScore = objective(bestStats, options.minTrades);
+
+    const tryCandidate = (candidate: IndicatorWeights): boolean => {
+        const bounded = boundWeights(candidate, options.minWeight, options.maxWeight);
+        const stats = evaluate(bounded);
+        const score = objective(stats, options.minTrades);
+        if (score > bestScore) {
+            best = bounded;
+            bestStats = stats;
+            bestScore = score;
+            return true;
+        }
+        return false;
+    };
+
+    let evaluations = 1;
+
+    if (options.method === 'coordinate') {
+        let keyIndex = 0;
+        while (evaluations < options.iterations) {
+            const key = options.tunableKeys[keyIndex % options.tunableKeys.length];
+            keyIndex++;
+
+            const up = { ...best, [key]: best[key] * (1 + options.stepSize) };
+            evaluations++;
+            if (tryCandidate(up) || evaluations >= options.iterations) continue;
+
+            const down = { ...best, [key]: best[key] * (1 - options.stepSize) };
+            evaluations++;
+            tryCandidate(down);
+        }
+    } else {
+        while (evaluations < options.iterations) {
+            const candidate = { ...best };
+            for (const key of options.tunableKeys) {
+                const change = (rng() * 2 - 1) * options.stepSize;
+                candidate[key] = best[key] * (1 + change);
+            }
+            evaluations++;
+            tryCandidate(candidate);
+        }
+    }
+
+    return { weights: best, stats: bestStats };
+}
+
+// ============================================================================
+// WALK-FORWARD
+// ============================================================================
+
+function combineStats(windows: WindowStats[]): WindowStats {
+    const trades = windows.reduce((sum, w) => sum + w.trades, 0);
+    if (trades === 0) return { trades: 0, winRate: 0, expectancy: 0 };
+
+    const wins = windows.reduce((sum, w) => sum + (w.winRate / 100) * w.trades, 0);
+    const totalPct = windows.reduce((sum, w) => sum + w.expectancy * w.trades, 0);
+
+    return {
+        trades,
+        winRate: Math.round((wins / trades) * 10000) / 100,
+        expectancy: Math.round((totalPct / trades) * 100) / 100,
+    };
+}
+
+/**
+ * Iterations that keep a run within `maxEvaluations` window backtests.
+ * Every fold and the final candidate search run `iterations` evaluations over all coins.
+ */
+export function iterationBudget(
+    coins: number,
+    folds: number,
+    requested: number,
+    maxEvaluations: number = MAX_OPTIMIZER_EVALUATIONS
+): number {
+    const affordable = Math.floor(maxEvaluations / (Math.max(1, coins) * (folds + 1)));
+    return Math.max(1, Math.min(requested, affordable));
+}
+
+/**
+ * Run a walk-forward optimization.
+ *
+ * Windows are laid out backwards from the latest bar: the last fold tests on the
+ * most recent `testBars`, each earlier fold on the `testBars` before that, and every
+ * fold trains on the `trainBars` immediately preceding its test window.
+ *
+ * Series should share an interval and end on the same bar (as served by the candle store).
+ *
+ * @param coinData - Candle history per coin, oldest first
+ * @param options - Search and window settings
+ * @returns Per-fold in/out-of-sample stats and a candidate weight set, or null if history is too short
+ */
+export function walkForwardOptimize(
+    coinData: { coin: string; data: OHLCV[] }[],
+    options: OptimizerOptions = {}
+): WalkForwardResult | null {
+    const resolved: ResolvedOptions = {
+        ...OPTIMIZER_DEFAULTS,
+        ...Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined)),
+        baseWeights: options.baseWeights ?? DEFAULT_WEIGHTS,
+        tunableKeys: options.tunableKeys ?? CANDLE_TUNABLE_KEYS,
+        backtest: options.backtest ?? {},
+    };
+
+    const length = Math.min(...coinData.map(c => c.data.length));
+    const required = resolved.trainBars + resolved.folds * resolved.testBars;
+    if (coinData.length === 0 || length < required) return null;
+
+    // Align every series on its most recent `length` bars
+    const aligned = coinData.map(({ coin, data }) => ({ coin, data: data.slice(-length) }));
+    const reference = aligned[0].data;
+    const rng = createRng(resolved.seed);
+    const baseWeights = boundWeights(resolved.baseWeights, resolved.minWeight, resolved.maxWeight);
+
+    const folds: WalkForwardFold[] = [];
+
+    for (let fold = 0; fold < resolved.folds; fold++) {
+        const testEnd = length - (resolved.folds - 1 - fold) * resolved.testBars;
+        const testStart = testEnd - resolved.testBars;
+        const trainStart = testStart - resolved.trainBars;
+
+        const { weights, stats } = optimizeWindow(aligned, trainStart, testStart, resolved, rng);
+
+        folds.push({
+            fold: fold + 1,
+            trainStart: reference[trainStart].timestamp,
+            trainEnd: reference[testStart - 1].timestamp,
+            testStart: reference[testStart].timestamp,
+            testEnd: reference[testEnd - 1].timestamp,
+            weights,
+            inSample: stats,
+            outOfSample: evaluateWeights(aligned, weights, testStart, testEnd, resolved.backtest),
+            baselineOutOfSample: evaluateWeights(aligned, baseWeights, testStart, testEnd, resolved.backtest),
+        });
+    }
+
+    // Candidate for live use: optimize on the most recent training window
+    const final = optimizeWindow(aligned, length - resolved.trainBars, length, resolved, rng);
+
+    return {
+        method: resolved.method,
+        folds,
+        outOfSample: combineStats(folds.map(f => f.outOfSample)),
+        baselineOutOfSample: combineStats(folds.map(f => f.baselineOutOfSample)),
+        candidate: final.weights,
+        candidateInSample: final.stats,
+        baseWeights,
+    };
+}
@@ -0,0 +1,526 @@
+/**
+ * LISAN INTELLIGENCE — Outcome Evaluation
+ *
+ * Pure SL/TP, intrabar replay, take-profit ladder, trailing-stop, momentum-exit and expiry rules shared
+ * by the monitor cron and the backtester.
+ * Keeping them here guarantees a backtest closes trades exactly like production does.
+ */
+
+import type { ExitReason, StopMoveReason, TakeProfitTarget, TrancheFill } from '@/lib/types/database';
+import { RSI, MACD, OHLCV } from './indicators';
+import type { MarketRegime } from './regime';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PositionLevels {
+    direction: 'LONG' | 'SHORT';
+    entryPrice: number;
+    stopLoss: number;
+    takeProfit: number;
+    initialStopLoss?: number;   // Stop at entry — when it differs from stopLoss, the stop has trailed
+}
+
+export interface LevelCheck {
+    profitPct: number;
+    hit: boolean;
+    outcome?: 'WON' | 'LOST';
+    exitReason?: ExitReason;
+    momentumCheckDue: boolean;  // Profit past the momentum threshold — caller must re-evaluate momentum
+}
+
+export type TrailingMode = 'NONE' | 'ATR' | 'PERCENT';
+
+export interface TrailingStopConfig {
+    mode: TrailingMode;
+    atrMultiplier: number;      // ATR mode: stop follows price at N × ATR
+    trailPct: number;           // PERCENT mode: stop follows price at this % distance
+    activationR: number;        // Trailing starts once profit reaches N × initial risk
+    breakevenR: number | null;  // Stop moves to entry at N × initial risk (null = off)
+}
+
+export interface StopUpdate {
+    stopLoss: number;
+    reason: StopMoveReason | null;  // null = stop unchanged
+}
+
+export interface TakeProfitStep {
+    rMultiple: number;          // Target distance from entry in units of initial risk
+    fraction: number;           // Share of the position closed there (normalized across the ladder)
+}
+
+export type IntrabarTieBreak = 'PESSIMISTIC' | 'OPTIMISTIC';
+
+export interface IntrabarConfig {
+    enabled: boolean;
+    interval: '1m' | '5m';          // Candles replayed between monitor runs
+    tieBreak: IntrabarTieBreak;     // SL and TP inside one candle: PESSIMISTIC assumes the stop hit first
+    maxLookbackHours: number;       // Never replay further back than this (first run, long outages)
+}
+
+export interface IntrabarHit {
+    profitPct: number;
+    outcome: 'WON' | 'LOST';
+    exitReason: ExitReason;
+    exitPrice: number;          // The level, or the candle open when it gapped through the level
+    hitAt: number;              // Open time of the candle that reached the level
+    ambiguous: boolean;         // Both levels inside that candle — order decided by the tie-break
+}
+
+export interface ExpiryConfig {
+    defaultHours: number;                               // Max holding period when nothing more specific applies
+    byTimeframe: Record<string, number>;                // Per traded timeframe ('1h', '4h', '1d')
+    byRegime: Partial<Record<MarketRegime, number>>;    // Per regime at creation — overrides the timeframe
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+/** Profit (%) at which an open trade is re-evaluated for a momentum exit */
+export const MOMENTUM_EXIT_THRESHOLD_PCT = 3;
+
+/** Fixed stop — admins opt in to breakeven and trailing; the multipliers are the suggested starting point */
+export const DEFAULT_TRAILING_STOP: TrailingStopConfig = {
+    mode: 'NONE',
+    atrMultiplier: 2,
+    trailPct: 3,
+    activationR: 1,
+    breakevenR: null,
+};
+
+/** Scale out in thirds at 1R, 2R and 3R */
+export const DEFAULT_TP_LADDER: TakeProfitStep[] = [
+    { rMultiple: 1, fraction: 1 / 3 },
+    { rMultiple: 2, fraction: 1 / 3 },
+    { rMultiple: 3, fraction: 1 / 3 },
+];
+
+/** Replay 1m candles, assume the worst when a candle spans both levels */
+export const DEFAULT_INTRABAR: IntrabarConfig = {
+    enabled: true,
+    interval: '1m',
+    tieBreak: 'PESSIMISTIC',
+    maxLookbackHours: 6,
+};
+
+/** Three days on the traded 4h timeframe; chop gets less time to work */
+export const DEFAULT_EXPIRY: ExpiryConfig = {
+    defaultHours: 72,
+    byTimeframe: { '1h': 24, '4h': 72, '1d': 336 },
+    byRegime: { HIGH_VOL_CHOP: 48 },
+};
+
+/** Timeframe of signals created before the timeframe was recorded */
+export const DEFAULT_SIGNAL_TIMEFRAME = '4h';
+
+/** Fractions below this count as fully closed (ladder fractions rarely sum to exactly 1) */
+const FRACTION_EPSILON = 1e-6;
+
+// ============================================================================
+// OUTCOME RULES
+// ============================================================================
+
+/**
+ * Directional profit percentage of a position at a given price
+ */
+export function calculateProfitPct(
+    direction: 'LONG' | 'SHORT',
+    entryPrice: number,
+    price: number
+): number {
+    return direction === 'LONG'
+        ? ((price - entryPrice) / entryPrice) * 100
+        : ((entryPrice - price) / entryPrice) * 100;
+}
+
+/**
+ * Check a price against a position's SL/TP levels.
+ *
+ * Order matches the monitor: TP first, then a trailed stop, then the momentum threshold, then SL.
+ * A TP hit with negative profit is a bad TP calculation and is recorded as a loss.
+ * A trailed stop (stopLoss moved away from initialStopLoss) exits as TRAILING_STOP,
+ * a loss only if it gave back more than the entry (a breakeven stop-out is not a loss).
+ *
+ * @param position - Direction, entry, stop loss and take profit
+ * @param price - Price to evaluate (mark price live, bar close in backtests)
+ * @param momentumThresholdPct - Profit at which momentum should be re-checked
+ */
+export function checkPriceLevels(
+    position: PositionLevels,
+    price: number,
+    momentumThresholdPct: number = MOMENTUM_EXIT_THRESHOLD_PCT
+): LevelCheck {
+    const { direction, entryPrice, stopLoss, takeProfit } = position;
+    const profitPct = calculateProfitPct(direction, entryPrice, price);
+
+    const tpHit = direction === 'LONG' ? price >= takeProfit : price <= takeProfit;
+    if (tpHit) {
+        const outcome = profitPct >= 0 ? 'WON' : 'LOST';
+        const exitReason = profitPct >= 0 ? 'TAKE_PROFIT' : 'STOP_LOSS';
+        return { profitPct, hit: true, outcome, exitReason, momentumCheckDue: false };
+    }
+
+    const slHit = direction === 'LONG' ? price <= stopLoss : price >= stopLoss;
+    const trailed = position.initialStopLoss !== undefined && stopLoss !== position.initialStopLoss;
+
+    // A trailed stop can sit above the momentum threshold — it must win over the momentum re-check
+    if (slHit && trailed) {
+        const outcome = profitPct >= 0 ? 'WON' : 'LOST';
+        return { profitPct, hit: true, outcome, exitReason: 'TRAILING_STOP', momentumCheckDue: false };
+    }
+
+    if (profitPct >= momentumThresholdPct) {
+        return { profitPct, hit: false, momentumCheckDue: true };
+    }
+
+    if (slHit) {
+        return { profitPct, hit: true, outcome: 'LOST', exitReason: 'STOP_LOSS', momentumCheckDue: false };
+    }
+
+    return { profitPct, hit: false, momentumCheckDue: false };
+}
+
+/**
+ * Replay candles (oldest first) against a position's stop and final take profit and return the first hit.
+ *
+ * A candle that opens through a level hit it first, filled at the open. Otherwise a candle whose
+ * range spans both levels is ambiguous and the tie-break decides; the fill is the level itself.
+ * Outcome and exit reason follow checkPriceLevels at the fill price, so a trailed stop exits as
+ * TRAILING_STOP. Used by the monitor between runs and by the backtester within each bar.
+ *
+ * @param position - Direction, entry, stop in force and final take profit
+ * @param candles - Lower-timeframe candles covering the time since the last check
+ * @param tieBreak - Which level counts first when one candle touches both
+ */
+export function resolveIntrabarHit(
+    position: PositionLevels,
+    candles: OHLCV[],
+    tieBreak: IntrabarTieBreak = 'PESSIMISTIC'
+): IntrabarHit | null {
+    return replayIntrabar(position, candles, tieBreak).hit;
+}
+
+/**
+ * Replay candles (oldest first) like resolveIntrabarHit, closing ladder targets along the way.
+ *
+ * Targets a candle reaches fill at their level (the open when it gapped through) before that
+ * candle's stop or take-profit decision. When the same candle also touches the stop, the
+ * tie-break decides whether the targets filled first. A ladder fully closed this way exits as
+ * TAKE_PROFIT at the last target. The remainder's exit is returned unblended — pass every fill
+ * to settleExit.
+ *
+ * @param position - Direction, entry, stop in force and final take profit
+ * @param candles - Lower-timeframe candles covering the time since the last check
+ * @param tieBreak - Which level counts first when one candle touches both
+ * @param targets - The position's ladder (none replays the stop and final take profit only)
+ * @param fills - Tranches already closed
+ * @returns The new fills (up to and including the exit candle) and the exit, if any
+ */
+export function replayIntrabar(
+    position: PositionLevels,
+    candles: OHLCV[],
+    tieBreak: IntrabarTieBreak = 'PESSIMISTIC',
+    targets: TakeProfitTarget[] = [],
+    fills: TrancheFill[] = []
+): { fills: TrancheFill[]; hit: IntrabarHit | null } {
+    const { direction, entryPrice, stopLoss, takeProfit } = position;
+    const isLong = direction === 'LONG';
+    const newFills: TrancheFill[] = [];
+    const filled = new Set(fills.map(fill => fill.target));
+
+    for (const candle of candles) {
+        const reaches = (level: number) => isLong ? candle.high >= level : candle.low <= level;
+        const opensThrough = (level: number) => isLong ? candle.open >= level : candle.open <= level;
+
+        const stopTouched = isLong ? candle.low <= stopLoss : candle.high >= stopLoss;
+        const opensThroughStop = isLong ? candle.open <= stopLoss : candle.open >= stopLoss;
+
+        // Ladder targets first, unless the stop came first (gap) or the tie-break says it did
+        let targetAmbiguous = false;
+        if (!opensThroughStop) {
+            for (const [index, target] of targets.entries()) {
+                if (filled.has(index) || !reaches(target.price)) continue;
+
+                const gapped = opensThrough(target.price);
+                if (!gapped && stopTouched) {
+                    targetAmbiguous = true;
+                    if (tieBreak === 'PESSIMISTIC') continue;
+                }
+
+                const price = gapped ? candle.open : target.price;
+                filled.add(index);
+                newFills.push({
+                    target: index,
+                    price,
+                    fraction: target.fraction,
+                    profitPct: calculateProfitPct(direction, entryPrice, price),
+                    at: new Date(candle.timestamp).toISOString(),
+                });
+            }
+        }
+
+        if (newFills.length > 0 && remainingFraction([...fills, ...newFills]) === 0) {
+            const last = newFills[newFills.length - 1];
+            return {
+                fills: newFills,
+                hit: {
+                    profitPct: last.profitPct,
+                    outcome: 'WON',
+                    exitReason: 'TAKE_PROFIT',
+                    exitPrice: last.price,
+                    hitAt: candle.timestamp,
+                    ambiguous: targetAmbiguous,
+                },
+            };
+        }
+
+        const tpTouched = reaches(takeProfit);
+        if (!stopTouched && !tpTouched) continue;
+
+        let exitPrice: number;
+        let ambiguous = targetAmbiguous;
+        if (opensThroughStop || opensThrough(takeProfit)) {
+            exitPrice = candle.open;
+        } else if (stopTouched && tpTouched) {
+            ambiguous = true;
+            exitPrice = tieBreak === 'PESSIMISTIC' ? stopLoss : takeProfit;
+        } else {
+            exitPrice = stopTouched ? stopLoss : takeProfit;
+        }
+
+        // No momentum re-check here — a level that was touched is an exit
+        const check = checkPriceLevels(position, exitPrice, Infinity);
+        if (!check.hit || !check.outcome || !check.exitReason) continue;
+
+        return {
+            fills: newFills,
+            hit: {
+                profitPct: check.profitPct,
+                outcome: check.outcome,
+                exitReason: check.exitReason,
+                exitPrice,
+                hitAt: candle.timestamp,
+                ambiguous,
+            },
+        };
+    }
+
+    return { fills: newFills, hit: null };
+}
+
+/**
+ * Tighten the stop of an open position. The stop only ever moves in the trade's favor.
+ *
+ * R is the initial risk (|entry − initial stop|). Once profit reaches `breakevenR` the stop
+ * moves to entry; once it reaches `activationR` it follows price at the ATR or percent
+ * distance. Evaluated on every price check, the ratchet keeps the stop at the best
+ * level seen so far without storing the price peak.
+ *
+ * @param position - Direction, entry and current stop (initialStopLoss defaults to stopLoss)
+ * @param price - Price to evaluate (mark price live, bar close in backtests)
+ * @param atr - ATR at entry (indicator snapshot); ATR mode does nothing without it
+ * @param config - Trailing mode and thresholds
+ */
+export function updateTrailingStop(
+    position: PositionLevels,
+    price: number,
+    atr: number,
+    config: TrailingStopConfig = DEFAULT_TRAILING_STOP
+): StopUpdate {
+    const { direction, entryPrice, stopLoss } = position;
+    const initialStopLoss = position.initialStopLoss ?? stopLoss;
+    const risk = Math.abs(entryPrice - initialStopLoss);
+    if (risk === 0) return { stopLoss, reason: null };
+
+    const rMultiple = (direction === 'LONG' ? price - entryPrice : entryPrice - price) / risk;
+    const tighter = (a: number, b: number) => direction === 'LONG' ? a > b : a < b;
+
+    let next: StopUpdate = { stopLoss, reason: null };
+
+    if (config.breakevenR !== null && rMultiple >= config.breakevenR && tighter(entryPrice, next.stopLoss)) {
+        next = { stopLoss: entryPrice, reason: 'BREAKEVEN' };
+    }
+
+    if (config.mode !== 'NONE' && rMultiple >= config.activationR) {
+        const distance = config.mode === 'ATR' ? atr * config.atrMultiplier : price * (config.trailPct / 100);
+        const trail = direction === 'LONG' ? price - distance : price + distance;
+        if (distance > 0 && tighter(trail, next.stopLoss)) {
+            next = { stopLoss: trail, reason: config.mode === 'ATR' ? 'ATR_TRAIL' : 'PERCENT_TRAIL' };
+        }
+    }
+
+    return next;
+}
+
+// ============================================================================
+// TAKE-PROFIT LADDER
+// ============================================================================
+
+/**
+ * Build the scale-out targets for a position.
+ *
+ * Each step sits at entry ± rMultiple × initial risk. Steps beyond the position's
+ * take profit are pulled in to it (the ladder never promises more than the signal's TP)
+ * and steps landing on the same price are merged. Fractions are normalized to sum to 1.
+ *
+ * @param position - Direction, entry, stop and take profit (initialStopLoss defaults to stopLoss)
+ * @param steps - R multiples and fractions, e.g. DEFAULT_TP_LADDER
+ */
+export function buildTakeProfitLadder(
+    position: PositionLevels,
+    steps: TakeProfitStep[] = DEFAULT_TP_LADDER
+): TakeProfitTarget[] {
+    const { direction, entryPrice, takeProfit } = position;
+    const risk = Math.abs(entryPrice - (position.initialStopLoss ?? position.stopLoss));
+    const valid = steps.filter(step => step.rMultiple > 0 && step.fraction > 0);
+    const totalFraction = valid.reduce((sum, step) => sum + step.fraction, 0);
+    if (risk === 0 || totalFraction === 0) return [];
+
+    const sign = direction === 'LONG' ? 1 : -1;
+    const tpR = ((takeProfit - entryPrice) * sign) / risk;
+    if (tpR <= 0) return [];
+
+    const targets: TakeProfitTarget[] = [];
+    for (const step of [...valid].sort((a, b) => a.rMultiple - b.rMultiple)) {
+        const rMultiple = Math.min(step.rMultiple, tpR);
+        const price = rMultiple === tpR ? takeProfit : entryPrice + sign * rMultiple * risk;
+        const fraction = step.fraction / totalFraction;
+
+        const last = targets[targets.length - 1];
+        if (last && last.price === price) {
+            last.fraction += fraction;
+        } else {
+            targets.push({ price, fraction, rMultiple: Math.round(rMultiple * 100) / 100 });
+        }
+    }
+
+    return targets;
+}
+
+/**
+ * Close every not-yet-filled target the price has reached.
+ *
+ * @param position - Direction and entry
+ * @param targets - The position's ladder
+ * @param fills - Tranches already closed
+ * @param price - Price to evaluate (mark price live, bar close in backtests)
+ * @param at - Fill time (ISO)
+ * @returns The new fills only
+ */
+export function fillTakeProfitTargets(
+    position: Pick<PositionLevels, 'direction' | 'entryPrice'>,
+    targets: TakeProfitTarget[],
+    fills: TrancheFill[],
+    price: number,
+    at: string
+): TrancheFill[] {
+    const filled = new Set(fills.map(fill => fill.target));
+    const profitPct = calculateProfitPct(position.direction, position.entryPrice, price);
+
+    return targets.flatMap((target, index) => {
+        const reached = position.direction === 'LONG' ? price >= target.price : price <= target.price;
+        if (!reached || filled.has(index)) return [];
+        return [{ target: index, price, fraction: target.fraction, profitPct, at }];
+    });
+}
+
+/**
+ * Share of the position still open after the given fills (0 once fully scaled out)
+ */
+export function remainingFraction(fills: Pick<TrancheFill, 'fraction'>[]): number {
+    const remaining = 1 - fills.reduce((sum, fill) => sum + fill.fraction, 0);
+    return remaining < FRACTION_EPSILON ? 0 : remaining;
+}
+
+/**
+ * Position return when the remainder exits at `exitProfitPct`: each tranche weighted by its fraction
+ */
+export function blendedProfitPct(fills: Pick<TrancheFill, 'fraction' | 'profitPct'>[], exitProfitPct: number): number {
+    const realized = fills.reduce((sum, fill) => sum + fill.fraction * fill.profitPct, 0);
+    return realized + remainingFraction(fills) * exitProfitPct;
+}
+
+/**
+ * Final profit and outcome of an exit once partial fills are taken into account.
+ * Without fills the exit stands as is; with fills the blended return decides WON/LOST
+ * (0% counts as WON), so a runner stopped at breakeven after TP1 is still a win.
+ */
+export function settleExit(
+    fills: Pick<TrancheFill, 'fraction' | 'profitPct'>[],
+    exitProfitPct: number,
+    outcome: 'WON' | 'LOST'
+): { profitPct: number; outcome: 'WON' | 'LOST' } {
+    if (fills.length === 0) return { profitPct: exitProfitPct, outcome };
+
+    const profitPct = blendedProfitPct(fills, exitProfitPct);
+    return { profitPct, outcome: profitPct >= 0 ? 'WON' : 'LOST' };
+}
+
+// ============================================================================
+// EXPIRY
+// ============================================================================
+
+/**
+ * Maximum holding period (hours) for a signal: regime override, then timeframe, then the default
+ */
+export function maxHoldingHours(
+    config: ExpiryConfig,
+    timeframe: string = DEFAULT_SIGNAL_TIMEFRAME,
+    regime?: string
+): number {
+    const byRegime = regime ? config.byRegime[regime as MarketRegime] : undefined;
+    return byRegime ?? config.byTimeframe[timeframe] ?? config.defaultHours;
+}
+
+/**
+ * Whether a signal opened at `createdAt` has outlived its maximum holding period
+ */
+export function isExpired(createdAt: string, maxHours: number, now: number = Date.now()): boolean {
+    return now - new Date(createdAt).getTime() >= maxHours * 3600000;
+}
+
+// ============================================================================
+// MOMENTUM
+// ============================================================================
+
+/**
+ * Quick momentum check using RSI and MACD from the engine
+ * Returns true if momentum is still aligned with trade direction
+ * v4.1: Loosened thresholds to reduce premature exits from noise
+ */
+export function checkMomentumAligned(closes: number[], direction: 'LONG' | 'SHORT'): { aligned: boolean; reason: string } {
+    if (closes.length < 30) {
+        return { aligned: true, reason: 'Insufficient data, allowing trade to continue' };
+    }
+
+    // Use the same engine calculations that generated the signal
+    const rsiResult = RSI(closes, 14);
+    const macdResult = MACD(closes, 12, 26, 9);
+
+    const rsi = rsiResult.value;
+    const macdTrending = macdResult.histogram > 0 ? 'up' : 'down';
+    const macdLine = macdResult.macd;
+
+    // Check alignment based on direction
+    if (direction === 'LONG') {
+        // v4.1: Loosened from rsi < 45 → rsi < 40 to avoid premature exits
+        const rsiWeakening = rsi < 40;
+        const macdWeakening = macdTrending === 'down' && macdLine < 0;
+
+        if (rsiWeakening && macdWeakening) {
+            return { aligned: false, reason: `RSI=${rsi.toFixed(0)}, MACD trending down - momentum fading` };
+        }
+        return { aligned: true, reason: `RSI=${rsi.toFixed(0)}, MACD ${macdTrending} - momentum intact` };
+    } else {
+        // v4.1: Loosened from rsi > 55 → rsi > 60 to avoid premature exits
+        const rsiWeakening = rsi > 60;
+        const macdWeakening = macdTrending === 'up' && macdLine > 0;
+
+        if (rsiWeakening && macdWeakening) {
+            return { aligned: false, reason: `RSI=${rsi.toFixed(0)}, MACD trending up - momentum fading` };
+        }
+        return { aligned: true, reason: `RSI=${rsi.toFixed(0)}, MACD ${macdTrending} - momentum intact` };
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * LISAN INTELLIGENCE — Paper Trading Tests
+ *
+ * Tests simulated fills (slippage, fees, scale-outs), funding accrual and the equity curve.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    fillPrice,
+    sizePaperPosition,
+    openPaperPosition,
+    closePaperTranche,
+    isFullyClosed,
+    fundingPayment,
+    unrealizedPnl,
+    buildEquityCurve,
+    PaperCostModel,
+    PaperPositionState,
+} from './paper';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const NO_COSTS: PaperCostModel = { takerFeePct: 0, slippagePct: 0 };
+
+/** 20 coins long from 100 — $2,000 notional */
+function makePosition(overrides: Partial<PaperPositionState> = {}): PaperPositionState {
+    return { direction: 'LONG', entryPrice: 100, quantity: 20, closedFraction: 0, ...overrides };
+}
+
+// ============================================================================
+// FILLS
+// ============================================================================
+
+describe('paper fills', () => {
+    it('fills buys above and sells below the mark', () => {
+        expect(fillPrice('LONG', 'OPEN', 100, 0.05)).toBeCloseTo(100.05, 6);
+        expect(fillPrice('LONG', 'CLOSE', 100, 0.05)).toBeCloseTo(99.95, 6);
+        expect(fillPrice('SHORT', 'OPEN', 100, 0.05)).toBeCloseTo(99.95, 6);
+        expect(fillPrice('SHORT', 'CLOSE', 100, 0.05)).toBeCloseTo(100.05, 6);
+    });
+
+    it('sizes from the stop distance and caps at max leverage', () => {
+        const settings = { riskPerTradePct: 1, maxLeverage: 3 };
+        expect(sizePaperPosition(10000, settings, 100, 95)).toBe(2000);
+        // 0.1% stop would need 10× — capped at 3× equity
+        expect(sizePaperPosition(10000, settings, 100, 99.9)).toBe(30000);
+        expect(sizePaperPosition(0, settings, 100, 95)).toBe(0);
+    });
+
+    it('charges slippage and the taker fee on entry', () => {
+        const { state, fill } = openPaperPosition('LONG', 100, 2000);
+
+        expect(state.entryPrice).toBeCloseTo(100.05, 6);
+        expect(state.quantity).toBeCloseTo(2000 / 100.05, 6);
+        expect(fill.fee).toBe(0.9);
+        expect(fill.side).toBe('OPEN');
+    });
+
+    it('closes a tranche of the original size', () => {
+        const position = makePosition();
+        const fill = closePaperTranche(position, 110, 1 / 3, 'TP1', NO_COSTS)!;
+
+        expect(fill.fraction).toBeCloseTo(1 / 3, 6);
+        expect(fill.pnl).toBeCloseTo(66.67, 2);
+        expect(fill.fee).toBe(0);
+    });
+
+    it('nets slippage and fees out of the exit', () => {
+        const fill = closePaperTranche(makePosition(), 110, 1, 'TAKE_PROFIT')!;
+
+        // Sold at 109.945: 20 × 9.945 = 198.90, fee 0.045% of ~2,199
+        expect(fill.price).toBeCloseTo(109.945, 6);
+        expect(fill.pnl).toBe(198.9);
+        expect(fill.fee).toBe(0.99);
+    });
+
+    it('never closes more than is still open', () => {
+        const fill = closePaperTranche(makePosition({ closedFraction: 0.9 }), 90, 0.5, 'STOP_LOSS', NO_COSTS)!;
+        expect(fill.fraction).toBeCloseTo(0.1, 6);
+        expect(fill.pnl).toBe(-20);
+
+        expect(closePaperTranche(makePosition({ closedFraction: 1 }), 90, 1, 'STOP_LOSS')).toBeNull();
+        expect(isFullyClosed(makePosition({ closedFraction: 1 - 1e-9 }))).toBe(true);
+    });
+});
+
+// ============================================================================
+// FUNDING & MARK-TO-MARKET
+// ============================================================================
+
+describe('paper funding', () => {
+    it('charges longs and credits shorts on positive funding, on the open part only', () => {
+        const long = makePosition({ closedFraction: 0.5 });
+        const short = makePosition({ direction: 'SHORT', closedFraction: 0.5 });
+
+        // $1,000 open × 0.01%/h × 2h
+        expect(fundingPayment(long, 100, 0.0001, 2)).toBeCloseTo(0.2, 6);
+        expect(fundingPayment(short, 100, 0.0001, 2)).toBeCloseTo(-0.2, 6);
+        expect(fundingPayment(long, 100, 0.0001, 0)).toBe(0);
+    });
+
+    it('marks the open part of a position to market', () => {
+        expect(unrealizedPnl(makePosition(), 105)).toBe(100);
+        expect(unrealizedPnl(makePosition({ direction: 'SHORT', closedFraction: 0.5 }), 105)).toBe(-50);
+    });
+});
+
+// ============================================================================
+// EQUITY CURVE
+// ============================================================================
+
+describe('buildEquityCurve', () => {
+    it('steps through fills in time order and books funding at close', () => {
+        const curve = buildEquityCurve(10000, '2026-01-01T00:00:00Z', [
+            {
+                fills: [
+                    { side: 'OPEN', price: 100, fraction: 1, pnl: 0, fee: 1, reason: 'ENTRY', at: '2026-01-01T01:00:00Z' },
+                    { side: 'CLOSE', price: 110, fraction: 1, pnl: 200, fee: 1, reason: 'TAKE_PROFIT', at: '2026-01-02T00:00:00Z' },
+                ],
+                fundingPaid: 3,
+                closedAt: '2026-01-02T00:00:00Z',
+            },
+            {
+                fills: [
+                    { side: 'OPEN', price: 50, fraction: 1, pnl: 0, fee: 0.5, reason: 'ENTRY', at: '2026-01-01T12:00:00Z' },
+                ],
+                fundingPaid: 1,
+                closedAt: null,
+            },
+        ], { at: '2026-01-03T00:00:00Z', equity: 10150 });
+
+        expect(curve.map(p => p.equity)).toEqual([10000, 9999, 9998.5, 10197.5, 10194.5, 10150]);
+        expect(curve[curve.length - 1].at).toBe('2026-01-03T00:00:00Z');
+    });
+});
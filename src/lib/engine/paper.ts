@@ -0,0 +1,230 @@
+/**
+ * LISAN INTELLIGENCE — Paper Trading
+ *
+ * Simulated fills for accounts that follow engine signals:
+ *
+ * - Sizing: risk a fixed % of equity between entry and stop, capped by max leverage
+ * - Fills: every open and close pays slippage (adverse to mark) and a taker fee on notional
+ * - Scale-outs: tranches close the same share of the original size as the signal's ladder
+ * - Funding: Hyperliquid's hourly rate on the open notional (longs pay positive funding)
+ * - Equity curve: starting balance plus every realized fill and closed position's funding
+ */
+
+import type { PaperFill } from '@/lib/types/database';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PaperCostModel {
+    takerFeePct: number;        // Fee on fill notional, % (Hyperliquid base taker tier)
+    slippagePct: number;        // Adverse move from mark on every fill, %
+}
+
+export interface PaperSettings {
+    startingBalance: number;    // USD the account opened with
+    riskPerTradePct: number;    // Equity % lost if a position hits its stop
+    maxLeverage: number;        // Cap on one position's notional, × equity
+    autoFollow: boolean;        // Open a position on every new global signal
+}
+
+export interface PaperPositionState {
+    direction: 'LONG' | 'SHORT';
+    entryPrice: number;         // Executed entry price
+    quantity: number;           // Original size in coins
+    closedFraction: number;     // Share already closed (0 → 1)
+}
+
+export interface PaperEquityPoint {
+    at: string;
+    equity: number;
+}
+
+export const DEFAULT_PAPER_COSTS: PaperCostModel = {
+    takerFeePct: 0.045,
+    slippagePct: 0.05,
+};
+
+export const DEFAULT_PAPER_SETTINGS: PaperSettings = {
+    startingBalance: 10000,
+    riskPerTradePct: 1,
+    maxLeverage: 3,
+    autoFollow: true,
+};
+
+/** Closed fractions within this of 1 count as fully closed */
+const FRACTION_EPSILON = 1e-6;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// FILLS
+// ============================================================================
+
+/**
+ * Execution price for a fill: buys pay above mark, sells receive below it
+ */
+export function fillPrice(
+    direction: 'LONG' | 'SHORT',
+    side: 'OPEN' | 'CLOSE',
+    markPrice: number,
+    slippagePct: number
+): number {
+    const buying = (direction === 'LONG') === (side === 'OPEN');
+    const slip = slippagePct / 100;
+    return buying ? markPrice * (1 + slip) : markPrice * (1 - slip);
+}
+
+/**
+ * Notional to open: risk budget at the stop, capped by the account's max leverage
+ */
+export function sizePaperPosition(
+    equity: number,
+    settings: Pick<PaperSettings, 'riskPerTradePct' | 'maxLeverage'>,
+    entryPrice: number,
+    stopLoss: number
+): number {
+    const stopDistance = Math.abs(entryPrice - stopLoss) / entryPrice;
+    if (equity <= 0 || entryPrice <= 0 || stopDistance === 0) return 0;
+
+    const riskAmount = equity * (settings.riskPerTradePct / 100);
+    return round2(Math.min(riskAmount / stopDistance, equity * settings.maxLeverage));
+}
+
+/**
+ * Open a position of `notional` USD at the mark price
+ */
+export function openPaperPosition(
+    direction: 'LONG' | 'SHORT',
+    markPrice: number,
+    notional: number,
+    costs: PaperCostModel = DEFAULT_PAPER_COSTS,
+    at: string = new Date().toISOString()
+): { state: PaperPositionState; fill: PaperFill } {
+    const price = fillPrice(direction, 'OPEN', markPrice, costs.slippagePct);
+    const quantity = notional / price;
+
+    return {
+        state: { direction, entryPrice: price, quantity, closedFraction: 0 },
+        fill: {
+            side: 'OPEN',
+            price,
+            fraction: 1,
+            pnl: 0,
+            fee: round2(notional * costs.takerFeePct / 100),
+            reason: 'ENTRY',
+            at,
+        },
+    };
+}
+
+/**
+ * Close `fraction` of the original size at the mark price.
+ * The fraction is clamped to what is still open; returns null when nothing is.
+ */
+export function closePaperTranche(
+    position: PaperPositionState,
+    markPrice: number,
+    fraction: number,
+    reason: string,
+    costs: PaperCostModel = DEFAULT_PAPER_COSTS,
+    at: string = new Date().toISOString()
+): PaperFill | null {
+    const closing = Math.min(fraction, 1 - position.closedFraction);
+    if (closing <= FRACTION_EPSILON) return null;
+
+    const price = fillPrice(position.direction, 'CLOSE', markPrice, costs.slippagePct);
+    const quantity = position.quantity * closing;
+    const move = position.direction === 'LONG' ? price - position.entryPrice : position.entryPrice - price;
+
+    return {
+        side: 'CLOSE',
+        price,
+        fraction: closing,
+        pnl: round2(move * quantity),
+        fee: round2(quantity * price * costs.takerFeePct / 100),
+        reason,
+        at,
+    };
+}
+
+/**
+ * Whether every tranche of the position has been closed
+ */
+export function isFullyClosed(position: PaperPositionState): boolean {
+    return position.closedFraction >= 1 - FRACTION_EPSILON;
+}
+
+// ============================================================================
+// FUNDING & MARK-TO-MARKET
+// ============================================================================
+
+/**
+ * Funding owed on the open part of a position over `hours`.
+ * Positive = paid by the position (longs when funding is positive, shorts when negative).
+ *
+ * @param hourlyRate - Hyperliquid 1h funding rate (e.g. 0.0000125)
+ */
+export function fundingPayment(
+    position: PaperPositionState,
+    markPrice: number,
+    hourlyRate: number,
+    hours: number
+): number {
+    if (hours <= 0 || !Number.isFinite(hourlyRate)) return 0;
+
+    const notional = position.quantity * (1 - position.closedFraction) * markPrice;
+    const sign = position.direction === 'LONG' ? 1 : -1;
+    return notional * hourlyRate * hours * sign;
+}
+
+/**
+ * Price P&L of the still-open part of a position (before fees and funding)
+ */
+export function unrealizedPnl(position: PaperPositionState, markPrice: number): number {
+    const open = position.quantity * (1 - position.closedFraction);
+    const move = position.direction === 'LONG' ? markPrice - position.entryPrice : position.entryPrice - markPrice;
+    return round2(move * open);
+}
+
+// ============================================================================
+// EQUITY CURVE
+// ============================================================================
+
+/**
+ * Realized equity over time: starting balance, then every fill's P&L net of fees.
+ * Funding is booked when the position closes (open positions' funding is in the
+ * `current` point, which should be balance + unrealized P&L).
+ */
+export function buildEquityCurve(
+    startingBalance: number,
+    startedAt: string,
+    positions: { fills: PaperFill[]; fundingPaid: number; closedAt?: string | null }[],
+    current?: PaperEquityPoint
+): PaperEquityPoint[] {
+    const events: { at: string; amount: number }[] = [];
+
+    for (const position of positions) {
+        for (const fill of position.fills) {
+            events.push({ at: fill.at, amount: fill.pnl - fill.fee });
+        }
+        if (position.closedAt && position.fundingPaid !== 0) {
+            events.push({ at: position.closedAt, amount: -position.fundingPaid });
+        }
+    }
+
+    events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+    const curve: PaperEquityPoint[] = [{ at: startedAt, equity: round2(startingBalance) }];
+    let equity = startingBalance;
+    for (const event of events) {
+        equity += event.amount;
+        curve.push({ at: event.at, equity: round2(equity) });
+    }
+
+    if (current) {
+        curve.push({ at: current.at, equity: round2(current.equity) });
+    }
+
+    return curve;
+}
@@ -0,0 +1,162 @@
+/**
+ * LISAN INTELLIGENCE — Pattern Recognition Tests
+ *
+ * Tests candlestick and structural patterns on hand-built candles.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    Engulfing,
+    PinBar,
+    InsideBar,
+    DoubleTopBottom,
+    SwingStructure,
+    RangeBreakout,
+    analyzePatterns,
+} from './patterns';
+import { OHLCV } from './indicators';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+function candle(open: number, high: number, low: number, close: number, volume = 1000, i = 0): OHLCV {
+    return { open, high, low, close, volume, timestamp: i * 3600000 };
+}
+
+/** Candles through the given closes, each spanning ±0.5 around its body */
+function fromCloses(closes: number[], volume = 1000): OHLCV[] {
+    return closes.map((close, i) => {
+        const open = i > 0 ? closes[i - 1] : close;
+        return candle(open, Math.max(open, close) + 0.5, Math.min(open, close) - 0.5, close, volume, i);
+    });
+}
+
+/** Linear path from `from` to `to` in `bars` steps (excluding `from`) */
+function leg(from: number, to: number, bars: number): number[] {
+    return Array.from({ length: bars }, (_, i) => from + ((to - from) * (i + 1)) / bars);
+}
+
+// ============================================================================
+// CANDLESTICK PATTERNS
+// ============================================================================
+
+describe('Engulfing', () => {
+    it('detects bullish engulfing', () => {
+        const result = Engulfing([candle(102, 103, 99, 100), candle(99.5, 104, 99, 103)]);
+        expect(result.signal).toBe('bullish');
+        expect(result.value).toBe(1);
+    });
+
+    it('detects bearish engulfing', () => {
+        const result = Engulfing([candle(100, 103, 99, 102), candle(102.5, 103, 98, 99)]);
+        expect(result.signal).toBe('bearish');
+    });
+
+    it('ignores same-colored candles', () => {
+        expect(Engulfing([candle(100, 103, 99, 102), candle(101, 106, 100, 105)]).signal).toBe('neutral');
+    });
+});
+
+describe('PinBar', () => {
+    it('detects a bullish pin bar (long lower wick)', () => {
+        expect(PinBar([candle(100, 100.5, 94, 100.3)]).signal).toBe('bullish');
+    });
+
+    it('detects a bearish pin bar (long upper wick)', () => {
+        expect(PinBar([candle(100, 106, 99.5, 99.7)]).signal).toBe('bearish');
+    });
+
+    it('ignores full-bodied candles', () => {
+        expect(PinBar([candle(100, 105.2, 99.8, 105)]).signal).toBe('neutral');
+    });
+});
+
+describe('InsideBar', () => {
+    it('follows the direction of the mother bar', () => {
+        expect(InsideBar([candle(100, 106, 99, 105), candle(103, 104, 101, 102)]).signal).toBe('bullish');
+        expect(InsideBar([candle(105, 106, 99, 100), candle(103, 104, 101, 102)]).signal).toBe('bearish');
+    });
+
+    it('requires the range to be inside the mother bar', () => {
+        expect(InsideBar([candle(100, 106, 99, 105), candle(103, 107, 101, 102)]).signal).toBe('neutral');
+    });
+});
+
+// ============================================================================
+// STRUCTURAL PATTERNS
+// ============================================================================
+
+describe('DoubleTopBottom', () => {
+    const peaks = [100, ...leg(100, 120, 10), ...leg(120, 110, 8), ...leg(110, 120, 8), ...leg(120, 112, 5)];
+
+    it('detects a double top only after the neckline breaks', () => {
+        expect(DoubleTopBottom(fromCloses(peaks)).signal).toBe('neutral');
+        const broken = [...peaks, ...leg(112, 106, 3)];
+        expect(DoubleTopBottom(fromCloses(broken)).signal).toBe('bearish');
+    });
+
+    it('detects a double bottom on the mirrored path', () => {
+        const mirrored = [...peaks, ...leg(112, 106, 3)].map(p => 240 - p);
+        expect(DoubleTopBottom(fromCloses(mirrored)).signal).toBe('bullish');
+    });
+});
+
+describe('SwingStructure', () => {
+    it('detects higher highs and higher lows', () => {
+        const closes = [100, ...leg(100, 110, 6), ...leg(110, 104, 6), ...leg(104, 116, 6), ...leg(116, 109, 6),
+            ...leg(109, 122, 6), ...leg(122, 114, 6), ...leg(114, 118, 3)];
+        expect(SwingStructure(fromCloses(closes)).signal).toBe('bullish');
+        expect(SwingStructure(fromCloses(closes.map(p => 240 - p))).signal).toBe('bearish');
+    });
+
+    it('needs enough swings', () => {
+        expect(SwingStructure(fromCloses([100, ...leg(100, 110, 6), ...leg(110, 104, 6)])).signal).toBe('neutral');
+    });
+});
+
+describe('RangeBreakout', () => {
+    const range = Array.from({ length: 20 }, (_, i) => 100 + (i % 2 === 0 ? 1 : -1));
+
+    it('detects breakouts from a tight range', () => {
+        expect(RangeBreakout(fromCloses([...range, 104])).signal).toBe('bullish');
+        expect(RangeBreakout(fromCloses([...range, 96])).signal).toBe('bearish');
+        expect(RangeBreakout(fromCloses([...range, 100])).signal).toBe('neutral');
+    });
+
+    it('gives full strength to breakouts on high volume', () => {
+        const quiet = RangeBreakout(fromCloses([...range, 104]));
+        const data = fromCloses([...range, 104]);
+        data[data.length - 1].volume = 5000;
+        expect(RangeBreakout(data).strength).toBe(1);
+        expect(quiet.strength).toBeLessThan(1);
+    });
+
+    it('ignores wide ranges', () => {
+        const trending = leg(80, 100, 20);
+        expect(RangeBreakout(fromCloses([...trending, 104])).signal).toBe('neutral');
+    });
+});
+
+// ============================================================================
+// COMPOSITE
+// ============================================================================
+
+describe('analyzePatterns', () => {
+    it('returns a null result when no pattern is present', () => {
+        const flat = fromCloses(Array.from({ length: 5 }, () => 100));
+        expect(analyzePatterns(flat).result).toBeNull();
+    });
+
+    it('combines agreeing patterns', () => {
+        const range = Array.from({ length: 20 }, (_, i) => 100 + (i % 2 === 0 ? 0.5 : -0.5));
+        const data = fromCloses(range);
+        // Bullish engulfing that also breaks out of the range
+        data.push(candle(99.4, 103.2, 99.3, 103));
+        const { patterns, result } = analyzePatterns(data);
+        expect(patterns.engulfing.signal).toBe('bullish');
+        expect(patterns.rangeBreakout.signal).toBe('bullish');
+        expect(result?.signal).toBe('bullish');
+        expect(result?.strength).toBe(1);
+    });
+});
@@ -0,0 +1,251 @@
+/**
+ * LISAN INTELLIGENCE — Pattern Recognition
+ *
+ * Candlestick patterns (engulfing, pin bar, inside bar) on the last bars and
+ * structural patterns (double top/bottom, swing structure, range breakout)
+ * on confirmed pivots from findPivotIndices.
+ *
+ * Every pattern returns an IndicatorResult with value +1 (bullish), -1 (bearish)
+ * or 0 (not present). analyzePatterns combines them for the "structure" category.
+ */
+
+import { OHLCV, IndicatorResult } from './indicators';
+import { findPivotIndices } from './risk';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PatternId =
+    | 'engulfing'
+    | 'pinBar'
+    | 'insideBar'
+    | 'doubleTopBottom'
+    | 'swingStructure'
+    | 'rangeBreakout';
+
+export interface PatternAnalysis {
+    patterns: Record<PatternId, IndicatorResult>;
+    result: IndicatorResult | null;     // null = no pattern present
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Base strength per pattern — structural patterns carry more information than single candles */
+const PATTERN_STRENGTH: Record<PatternId, number> = {
+    engulfing: 0.6,
+    pinBar: 0.5,
+    insideBar: 0.3,
+    doubleTopBottom: 0.8,
+    swingStructure: 0.5,
+    rangeBreakout: 0.7,
+};
+
+export const PATTERN_IDS = Object.keys(PATTERN_STRENGTH) as PatternId[];
+
+const NONE: IndicatorResult = { value: 0, signal: 'neutral', strength: 0 };
+
+function detected(pattern: PatternId, bullish: boolean, strength = PATTERN_STRENGTH[pattern]): IndicatorResult {
+    return bullish
+        ? { value: 1, signal: 'bullish', strength }
+        : { value: -1, signal: 'bearish', strength };
+}
+
+// ============================================================================
+// CANDLESTICK PATTERNS
+// ============================================================================
+
+/**
+ * Engulfing: the last candle's body fully covers the previous, opposite-colored body
+ */
+export function Engulfing(data: OHLCV[]): IndicatorResult {
+    if (data.length < 2) return { ...NONE };
+
+    const prev = data[data.length - 2];
+    const curr = data[data.length - 1];
+    const prevBody = Math.abs(prev.close - prev.open);
+    const currBody = Math.abs(curr.close - curr.open);
+    if (prevBody === 0 || currBody <= prevBody) return { ...NONE };
+
+    if (prev.close < prev.open && curr.close > curr.open && curr.open <= prev.close && curr.close >= prev.open) {
+        return detected('engulfing', true);
+    }
+    if (prev.close > prev.open && curr.close < curr.open && curr.open >= prev.close && curr.close <= prev.open) {
+        return detected('engulfing', false);
+    }
+    return { ...NONE };
+}
+
+/**
+ * Pin bar: long rejection wick (≥ 2× body, ≥ 60% of range) with a small opposite wick
+ */
+export function PinBar(data: OHLCV[]): IndicatorResult {
+    if (data.length === 0) return { ...NONE };
+
+    const bar = data[data.length - 1];
+    const range = bar.high - bar.low;
+    if (range === 0) return { ...NONE };
+
+    const body = Math.abs(bar.close - bar.open);
+    const upperWick = bar.high - Math.max(bar.open, bar.close);
+    const lowerWick = Math.min(bar.open, bar.close) - bar.low;
+
+    if (lowerWick >= body * 2 && lowerWick >= range * 0.6 && upperWick <= range * 0.25) {
+        return detected('pinBar', true);  // Lower prices rejected
+    }
+    if (upperWick >= body * 2 && upperWick >= range * 0.6 && lowerWick <= range * 0.25) {
+        return detected('pinBar', false); // Higher prices rejected
+    }
+    return { ...NONE };
+}
+
+/**
+ * Inside bar: the last candle trades within the previous (mother) bar's range.
+ * Read as continuation in the direction of the mother bar.
+ */
+export function InsideBar(data: OHLCV[]): IndicatorResult {
+    if (data.length < 2) return { ...NONE };
+
+    const mother = data[data.length - 2];
+    const curr = data[data.length - 1];
+    if (curr.high >= mother.high || curr.low <= mother.low || mother.close === mother.open) {
+        return { ...NONE };
+    }
+    return detected('insideBar', mother.close > mother.open);
+}
+
+// ============================================================================
+// STRUCTURAL PATTERNS
+// ============================================================================
+
+/**
+ * Double top / bottom: two recent pivots at about the same level (within `tolerance`),
+ * confirmed once the close breaks the neckline between them.
+ *
+ * @param data - OHLCV data array
+ * @param tolerance - Max relative difference between the two peaks/troughs
+ * @param maxAge - Second peak/trough must be at most N bars old
+ */
+export function DoubleTopBottom(data: OHLCV[], tolerance: number = 0.015, maxAge: number = 20): IndicatorResult {
+    const { highIndices, lowIndices } = findPivotIndices(data);
+    const last = data.length - 1;
+    if (last < 0) return { ...NONE };
+    const close = data[last].close;
+
+    // Pivots at adjacent bars are the same swing — require a gap between the two
+    const pair = (indices: number[]): [number, number] | null => {
+        if (indices.length < 2) return null;
+        const second = indices[indices.length - 1];
+        if (last - second > maxAge) return null;
+        for (let k = indices.length - 2; k >= 0; k--) {
+            if (second - indices[k] >= 5) return [indices[k], second];
+        }
+        return null;
+    };
+
+    const tops = pair(highIndices);
+    if (tops) {
+        const [a, b] = tops;
+        const peak = Math.max(data[a].high, data[b].high);
+        const neckline = Math.min(...data.slice(a, b + 1).map(d => d.low));
+        if (Math.abs(data[a].high - data[b].high) / peak <= tolerance && close < neckline) {
+            return detected('doubleTopBottom', false);
+        }
+    }
+
+    const bottoms = pair(lowIndices);
+    if (bottoms) {
+        const [a, b] = bottoms;
+        const trough = Math.min(data[a].low, data[b].low);
+        const neckline = Math.max(...data.slice(a, b + 1).map(d => d.high));
+        if (Math.abs(data[a].low - data[b].low) / trough <= tolerance && close > neckline) {
+            return detected('doubleTopBottom', true);
+        }
+    }
+
+    return { ...NONE };
+}
+
+/**
+ * Swing structure: higher highs + higher lows (uptrend) or lower highs + lower lows (downtrend)
+ * across the last `swings` pivot highs and lows.
+ */
+export function SwingStructure(data: OHLCV[], swings: number = 3): IndicatorResult {
+    const { highIndices, lowIndices } = findPivotIndices(data);
+
+    // Collapse equal adjacent pivots (a flat top/bottom is one swing)
+    const levels = (indices: number[], price: (d: OHLCV) => number) =>
+        indices.map(i => price(data[i])).filter((v, k, arr) => k === 0 || v !== arr[k - 1]).slice(-swings);
+
+    const highs = levels(highIndices, d => d.high);
+    const lows = levels(lowIndices, d => d.low);
+    if (highs.length < swings || lows.length < swings) return { ...NONE };
+
+    const rising = (v: number[]) => v.every((x, k) => k === 0 || x > v[k - 1]);
+    const falling = (v: number[]) => v.every((x, k) => k === 0 || x < v[k - 1]);
+
+    if (rising(highs) && rising(lows)) return detected('swingStructure', true);
+    if (falling(highs) && falling(lows)) return detected('swingStructure', false);
+    return { ...NONE };
+}
+
+/**
+ * Range breakout: the last close leaves a tight range formed by the previous `period` bars.
+ * Breakouts on above-average volume get full strength.
+ *
+ * @param data - OHLCV data array
+ * @param period - Bars forming the range (excluding the breakout bar)
+ * @param maxRangePct - Range height as a fraction of its midpoint; wider ranges are trends, not ranges
+ */
+export function RangeBreakout(data: OHLCV[], period: number = 20, maxRangePct: number = 0.08): IndicatorResult {
+    if (data.length < period + 1) return { ...NONE };
+
+    const range = data.slice(-period - 1, -1);
+    const rangeHigh = Math.max(...range.map(d => d.high));
+    const rangeLow = Math.min(...range.map(d => d.low));
+    const mid = (rangeHigh + rangeLow) / 2;
+    if (mid === 0 || (rangeHigh - rangeLow) / mid > maxRangePct) return { ...NONE };
+
+    const bar = data[data.length - 1];
+    const avgVolume = range.reduce((sum, d) => sum + d.volume, 0) / period;
+    const strength = avgVolume > 0 && bar.volume > avgVolume * 1.5 ? 1 : PATTERN_STRENGTH.rangeBreakout;
+
+    if (bar.close > rangeHigh) return detected('rangeBreakout', true, strength);
+    if (bar.close < rangeLow) return detected('rangeBreakout', false, strength);
+    return { ...NONE };
+}
+
+// ============================================================================
+// COMPOSITE
+// ============================================================================
+
+/**
+ * Run every pattern and combine the ones present into a single result.
+ * Agreeing patterns add up (capped at full strength); conflicting ones cancel out.
+ */
+export function analyzePatterns(data: OHLCV[]): PatternAnalysis {
+    const patterns: Record<PatternId, IndicatorResult> = {
+        engulfing: Engulfing(data),
+        pinBar: PinBar(data),
+        insideBar: InsideBar(data),
+        doubleTopBottom: DoubleTopBottom(data),
+        swingStructure: SwingStructure(data),
+        rangeBreakout: RangeBreakout(data),
+    };
+
+    const present = Object.values(patterns).filter(p => p.signal !== 'neutral');
+    if (present.length === 0) return { patterns, result: null };
+
+    const net = present.reduce((sum, p) => sum + (p.signal === 'bullish' ? p.strength : -p.strength), 0);
+
+    let signal: 'bullish' | 'bearish' | 'neutral' = 'neutral';
+    if (net > 0) signal = 'bullish';
+    else if (net < 0) signal = 'bearish';
+
+    return {
+        patterns,
+        result: { value: Math.round(net * 100) / 100, signal, strength: Math.min(1, Math.abs(net)) },
+    };
+}
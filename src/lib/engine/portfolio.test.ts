@@ -0,0 +1,132 @@
+/**
+ * LISAN INTELLIGENCE — Portfolio Sizing Tests
+ *
+ * Tests risk-based sizing and the correlated, net and gross exposure caps.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildPortfolio, PortfolioSettings, PortfolioSignal } from './portfolio';
+import type { CorrelationMatrix } from './correlation';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+/** Caps wide enough not to bind unless a test tightens them */
+const LOOSE: PortfolioSettings = {
+    accountSize: 10000,
+    riskPerTradePct: 1,
+    maxGrossExposurePct: 10000,
+    maxNetExposurePct: 10000,
+    maxCorrelatedExposurePct: 10000,
+    correlationThreshold: 0.7,
+};
+
+/** 5% stop, 10% target: 1% risk on 10k = $100 → $2,000 notional */
+function makeSignal(coin: string, direction: 'LONG' | 'SHORT' = 'LONG', overrides: Partial<PortfolioSignal> = {}): PortfolioSignal {
+    return {
+        id: `sig-${coin}`,
+        coin,
+        direction,
+        score: 65,
+        entryPrice: 100,
+        stopLoss: direction === 'LONG' ? 95 : 105,
+        takeProfit: direction === 'LONG' ? 110 : 90,
+        ...overrides,
+    };
+}
+
+const ALTS: CorrelationMatrix = {
+    coins: ['ETH', 'SOL', 'DOGE'],
+    matrix: [
+        [1, 0.85, 0.2],
+        [0.85, 1, 0.3],
+        [0.2, 0.3, 1],
+    ],
+    window: 60,
+};
+
+// ============================================================================
+// SIZING
+// ============================================================================
+
+describe('buildPortfolio sizing', () => {
+    it('sizes each position to risk the configured share of the account', () => {
+        const { positions, exposure } = buildPortfolio([makeSignal('ETH')], LOOSE);
+
+        expect(positions[0].notional).toBe(2000);
+        expect(positions[0].quantity).toBe(20);
+        expect(positions[0].riskAmount).toBe(100);
+        expect(positions[0].riskPct).toBe(1);
+        expect(positions[0].scale).toBe(1);
+        expect(exposure.totalRiskPct).toBe(1);
+    });
+
+    it('skips signals that fail risk validation', () => {
+        const poorReward = makeSignal('ETH', 'LONG', { takeProfit: 102 });
+        const { positions, exposure } = buildPortfolio([poorReward], LOOSE);
+
+        expect(positions[0].valid).toBe(false);
+        expect(positions[0].reason).toContain('Risk/Reward');
+        expect(positions[0].notional).toBe(0);
+        expect(exposure.gross).toBe(0);
+    });
+
+    it('sizes only the part still open after partial take-profits', () => {
+        const { positions } = buildPortfolio([makeSignal('ETH', 'LONG', { openFraction: 0.5 })], LOOSE);
+        expect(positions[0].notional).toBe(1000);
+    });
+});
+
+// ============================================================================
+// EXPOSURE CAPS
+// ============================================================================
+
+describe('buildPortfolio exposure caps', () => {
+    it('caps correlated same-direction positions as one cluster', () => {
+        const settings = { ...LOOSE, maxCorrelatedExposurePct: 20 };
+        const { positions, clusters } = buildPortfolio(
+            [makeSignal('ETH'), makeSignal('SOL'), makeSignal('DOGE')],
+            settings,
+            ALTS
+        );
+
+        const [eth, sol, doge] = positions;
+        expect(eth.notional + sol.notional).toBeCloseTo(2000, 2);
+        expect(eth.cappedBy).toEqual(['CORRELATED']);
+        expect(doge.notional).toBe(2000);
+        expect(doge.cappedBy).toEqual([]);
+        expect(clusters.find(c => c.coins.includes('ETH'))!.coins).toEqual(['ETH', 'SOL']);
+    });
+
+    it('does not cluster opposite directions', () => {
+        const settings = { ...LOOSE, maxCorrelatedExposurePct: 20 };
+        const { positions } = buildPortfolio([makeSignal('ETH'), makeSignal('SOL', 'SHORT')], settings, ALTS);
+        expect(positions.every(p => p.cappedBy.length === 0)).toBe(true);
+    });
+
+    it('shrinks the heavier side to respect the net cap', () => {
+        const settings = { ...LOOSE, maxNetExposurePct: 10 };
+        const { exposure, positions } = buildPortfolio(
+            [makeSignal('ETH'), makeSignal('DOGE'), makeSignal('SOL', 'SHORT')],
+            settings
+        );
+
+        expect(exposure.net).toBeCloseTo(1000, 2);
+        expect(exposure.short).toBe(2000);
+        expect(positions.filter(p => p.direction === 'LONG').every(p => p.cappedBy.includes('NET'))).toBe(true);
+    });
+
+    it('scales everything down to respect the gross cap', () => {
+        const settings = { ...LOOSE, maxGrossExposurePct: 30 };
+        const { exposure, positions } = buildPortfolio(
+            [makeSignal('ETH'), makeSignal('DOGE'), makeSignal('SOL', 'SHORT')],
+            settings
+        );
+
+        expect(exposure.gross).toBeCloseTo(3000, 2);
+        expect(exposure.grossPct).toBe(30);
+        expect(positions.every(p => p.scale === 0.5)).toBe(true);
+        expect(exposure.totalRiskPct).toBeCloseTo(1.5, 2);
+    });
+});
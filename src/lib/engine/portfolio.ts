@@ -0,0 +1,286 @@
+/**
+ * LISAN INTELLIGENCE — Portfolio Sizing & Exposure
+ *
+ * Turns the open global signals into a book for a given account:
+ *
+ * - Risk-based sizing: each position risks a fixed % of the account between entry and stop
+ * - Correlated exposure cap: same-direction positions whose returns move together
+ *   (e.g. a basket of alt LONGs) share one notional budget
+ * - Net exposure cap: long minus short notional
+ * - Gross exposure cap: long plus short notional
+ *
+ * Caps scale positions down proportionally, in that order, so a position only ever shrinks.
+ */
+
+import { calculatePositionSize, validateRiskLevels, RiskLevels } from './risk';
+import type { CorrelationMatrix } from './correlation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PortfolioSettings {
+    accountSize: number;                // Account equity (USD)
+    riskPerTradePct: number;            // Account % lost if a position hits its stop
+    maxGrossExposurePct: number;        // Long + short notional, % of account
+    maxNetExposurePct: number;          // |long − short| notional, % of account
+    maxCorrelatedExposurePct: number;   // Notional of one correlated same-direction cluster, % of account
+    correlationThreshold: number;       // Pairwise correlation that puts two coins in one cluster
+}
+
+export interface PortfolioSignal {
+    id: string;
+    coin: string;
+    direction: 'LONG' | 'SHORT';
+    score: number;
+    entryPrice: number;
+    stopLoss: number;
+    takeProfit: number;
+    openFraction?: number;              // Share still open after partial take-profits (default 1)
+}
+
+export type ExposureCap = 'CORRELATED' | 'NET' | 'GROSS';
+
+export interface SizedPosition {
+    id: string;
+    coin: string;
+    direction: 'LONG' | 'SHORT';
+    score: number;
+    entryPrice: number;
+    stopLoss: number;
+    valid: boolean;                     // Passed validateRiskLevels
+    reason?: string;                    // Why the position was skipped
+    targetNotional: number;             // Size from the risk budget alone
+    notional: number;                   // Size after exposure caps
+    quantity: number;
+    riskAmount: number;                 // USD lost at the stop, after caps
+    riskPct: number;                    // riskAmount as % of account
+    scale: number;                      // notional / targetNotional (1 = uncapped)
+    cappedBy: ExposureCap[];
+    cluster: number;                    // Index into PortfolioPlan.clusters
+}
+
+export interface ExposureCluster {
+    direction: 'LONG' | 'SHORT';
+    coins: string[];
+    notional: number;
+    exposurePct: number;
+}
+
+export interface ExposureSummary {
+    long: number;
+    short: number;
+    gross: number;
+    net: number;                        // long − short
+    grossPct: number;
+    netPct: number;
+    totalRisk: number;                  // USD lost if every stop is hit
+    totalRiskPct: number;
+}
+
+export interface PortfolioPlan {
+    settings: PortfolioSettings;
+    positions: SizedPosition[];
+    clusters: ExposureCluster[];
+    exposure: ExposureSummary;
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/** 1% risk per trade, at most 2× gross, 1× net and 1× per correlated cluster */
+export const DEFAULT_PORTFOLIO_SETTINGS: PortfolioSettings = {
+    accountSize: 10000,
+    riskPerTradePct: 1,
+    maxGrossExposurePct: 200,
+    maxNetExposurePct: 100,
+    maxCorrelatedExposurePct: 100,
+    correlationThreshold: 0.7,
+};
+
+// ============================================================================
+// SIZING
+// ============================================================================
+
+/**
+ * Risk levels of an already-issued signal, in the shape validateRiskLevels expects
+ */
+function signalRiskLevels(signal: PortfolioSignal): RiskLevels {
+    const { entryPrice, stopLoss, takeProfit } = signal;
+    const riskPercent = entryPrice > 0 ? Math.abs((entryPrice - stopLoss) / entryPrice) * 100 : 0;
+    const rewardPercent = entryPrice > 0 ? Math.abs((takeProfit - entryPrice) / entryPrice) * 100 : 0;
+
+    return {
+        entryPrice,
+        stopLoss,
+        takeProfit,
+        riskRewardRatio: riskPercent > 0 ? Math.round((rewardPercent / riskPercent) * 100) / 100 : 0,
+        riskPercent: Math.round(riskPercent * 100) / 100,
+        rewardPercent: Math.round(rewardPercent * 100) / 100,
+        atrValue: 0,
+        recommendedLeverage: 0,
+        liquidationPrice: 0,
+        leverageWarning: null,
+    };
+}
+
+/**
+ * Group same-direction positions whose pairwise correlation reaches the threshold (single linkage).
+ * Coins missing from the matrix form their own cluster.
+ */
+function correlatedClusters(
+    positions: SizedPosition[],
+    correlation: CorrelationMatrix | null,
+    threshold: number
+): number[][] {
+    const parent = positions.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    const matrix = correlation?.matrix ?? [];
+    const indexOf = new Map((correlation?.coins ?? []).map((coin, i) => [coin, i]));
+    for (let i = 0; i < positions.length; i++) {
+        for (let j = i + 1; j < positions.length; j++) {
+            if (positions[i].direction !== positions[j].direction) continue;
+            const a = indexOf.get(positions[i].coin.toUpperCase());
+            const b = indexOf.get(positions[j].coin.toUpperCase());
+            if (a === undefined || b === undefined) continue;
+            if (matrix[a][b] >= threshold) parent[find(i)] = find(j);
+        }
+    }
+
+    const groups = new Map<number, number[]>();
+    positions.forEach((_, i) => {
+        const root = find(i);
+        groups.set(root, [...(groups.get(root) ?? []), i]);
+    });
+    return [...groups.values()];
+}
+
+/**
+ * Scale a set of positions down so their combined notional fits the limit
+ */
+function scaleTo(positions: SizedPosition[], limit: number, cap: ExposureCap): void {
+    const total = positions.reduce((sum, p) => sum + p.notional, 0);
+    if (total <= limit || total === 0) return;
+
+    const factor = limit / total;
+    for (const position of positions) {
+        position.notional *= factor;
+        position.cappedBy.push(cap);
+    }
+}
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Size every signal for the account and apply the exposure caps.
+ *
+ * Signals failing validateRiskLevels are kept in the plan with zero size and a reason.
+ *
+ * @param signals - Open signals (LONG/SHORT only)
+ * @param settings - Account size, risk per trade and exposure caps
+ * @param correlation - Return correlation matrix (see analyzeCrossAsset); null = no correlation cap
+ */
+export function buildPortfolio(
+    signals: PortfolioSignal[],
+    settings: PortfolioSettings = DEFAULT_PORTFOLIO_SETTINGS,
+    correlation: CorrelationMatrix | null = null
+): PortfolioPlan {
+    const { accountSize } = settings;
+
+    const positions: SizedPosition[] = signals.map(signal => {
+        const levels = signalRiskLevels(signal);
+        const validation = validateRiskLevels(levels);
+        const { positionSize } = validation.isValid
+            ? calculatePositionSize(accountSize, settings.riskPerTradePct, levels)
+            : { positionSize: 0 };
+        const targetNotional = positionSize * Math.min(1, Math.max(0, signal.openFraction ?? 1));
+
+        return {
+            id: signal.id,
+            coin: signal.coin,
+            direction: signal.direction,
+            score: signal.score,
+            entryPrice: signal.entryPrice,
+            stopLoss: signal.stopLoss,
+            valid: validation.isValid,
+            ...(validation.reason ? { reason: validation.reason } : {}),
+            targetNotional,
+            notional: targetNotional,
+            quantity: 0,
+            riskAmount: 0,
+            riskPct: 0,
+            scale: 0,
+            cappedBy: [],
+            cluster: -1,
+        };
+    });
+
+    // 1. Correlated clusters share one budget
+    const groups = correlatedClusters(positions, correlation, settings.correlationThreshold);
+    const correlatedLimit = accountSize * (settings.maxCorrelatedExposurePct / 100);
+    groups.forEach((group, clusterIndex) => {
+        const members = group.map(i => positions[i]);
+        members.forEach(p => { p.cluster = clusterIndex; });
+        if (members.length > 1) scaleTo(members, correlatedLimit, 'CORRELATED');
+    });
+
+    // 2. Net: shrink the heavier side until |long − short| fits
+    const longs = positions.filter(p => p.direction === 'LONG');
+    const shorts = positions.filter(p => p.direction === 'SHORT');
+    const sum = (list: SizedPosition[]) => list.reduce((total, p) => total + p.notional, 0);
+    const netLimit = accountSize * (settings.maxNetExposurePct / 100);
+    const longTotal = sum(longs);
+    const shortTotal = sum(shorts);
+    if (longTotal - shortTotal > netLimit) scaleTo(longs, shortTotal + netLimit, 'NET');
+    if (shortTotal - longTotal > netLimit) scaleTo(shorts, longTotal + netLimit, 'NET');
+
+    // 3. Gross
+    scaleTo(positions, accountSize * (settings.maxGrossExposurePct / 100), 'GROSS');
+
+    for (const position of positions) {
+        const priceRisk = Math.abs(position.entryPrice - position.stopLoss);
+        const quantity = position.entryPrice > 0 ? position.notional / position.entryPrice : 0;
+        position.riskAmount = round(quantity * priceRisk, 2);
+        position.riskPct = accountSize > 0 ? round((quantity * priceRisk / accountSize) * 100, 3) : 0;
+        position.scale = position.targetNotional > 0 ? round(position.notional / position.targetNotional, 3) : 0;
+        position.quantity = round(quantity, 6);
+        position.notional = round(position.notional, 2);
+        position.targetNotional = round(position.targetNotional, 2);
+    }
+
+    const clusters: ExposureCluster[] = groups.map(group => {
+        const notional = group.reduce((total, i) => total + positions[i].notional, 0);
+        return {
+            direction: positions[group[0]].direction,
+            coins: group.map(i => positions[i].coin),
+            notional: round(notional, 2),
+            exposurePct: accountSize > 0 ? round((notional / accountSize) * 100, 2) : 0,
+        };
+    });
+
+    const long = sum(longs);
+    const short = sum(shorts);
+    const totalRisk = positions.reduce((total, p) => total + p.riskAmount, 0);
+    const pct = (value: number) => (accountSize > 0 ? round((value / accountSize) * 100, 2) : 0);
+
+    return {
+        settings,
+        positions,
+        clusters,
+        exposure: {
+            long: round(long, 2),
+            short: round(short, 2),
+            gross: round(long + short, 2),
+            net: round(long - short, 2),
+            grossPct: pct(long + short),
+            netPct: pct(long - short),
+            totalRisk: round(totalRisk, 2),
+            totalRiskPct: pct(totalRisk),
+        },
+    };
+}
@@ -8,6 +8,9 @@ import { describe, it, expect } from 'vitest';
 import {
     detectMarketRegime,
     getRegimeAdjustments,
+    debounceRegime,
+    buildRegimeBands,
+    regimeTransitionStats,
     MarketContext,
     MarketRegime,
 } from './regime';
@@ -204,3 +207,54 @@ describe('getRegimeAdjustments', () => {
         }
     });
 });
+
+describe('debounceRegime', () => {
+    it('takes the first observation when nothing is recorded', () => {
+        expect(debounceRegime(null, ['BULL_TREND'])).toBe('BULL_TREND');
+    });
+
+    it('ignores a single noisy run', () => {
+        expect(debounceRegime('BULL_TREND', ['BULL_TREND', 'HIGH_VOL_CHOP'])).toBe('BULL_TREND');
+    });
+
+    it('flips once consecutive runs agree', () => {
+        expect(debounceRegime('BULL_TREND', ['HIGH_VOL_CHOP', 'HIGH_VOL_CHOP'])).toBe('HIGH_VOL_CHOP');
+        expect(debounceRegime('BULL_TREND', ['HIGH_VOL_CHOP', 'HIGH_VOL_CHOP'], 3)).toBe('BULL_TREND');
+    });
+});
+
+describe('regime history analytics', () => {
+    const points: { regime: MarketRegime; at: string }[] = [
+        { regime: 'BULL_TREND', at: '2026-01-01T00:00:00Z' },
+        { regime: 'BULL_TREND', at: '2026-01-01T04:00:00Z' },
+        { regime: 'HIGH_VOL_CHOP', at: '2026-01-01T08:00:00Z' },
+        { regime: 'BULL_TREND', at: '2026-01-01T12:00:00Z' },
+        { regime: 'BULL_TREND', at: '2026-01-01T16:00:00Z' },
+    ];
+
+    it('merges consecutive observations into bands that end where the next starts', () => {
+        const bands = buildRegimeBands(points);
+
+        expect(bands.map(b => [b.regime, b.start, b.end, b.observations])).toEqual([
+            ['BULL_TREND', '2026-01-01T00:00:00Z', '2026-01-01T08:00:00Z', 2],
+            ['HIGH_VOL_CHOP', '2026-01-01T08:00:00Z', '2026-01-01T12:00:00Z', 1],
+            ['BULL_TREND', '2026-01-01T12:00:00Z', '2026-01-01T16:00:00Z', 2],
+        ]);
+    });
+
+    it('attributes resolved signals to the transition that opened their band', () => {
+        const stats = regimeTransitionStats(buildRegimeBands(points), [
+            { createdAt: '2026-01-01T01:00:00Z', outcome: 'WON' },    // First band: no transition
+            { createdAt: '2026-01-01T09:00:00Z', outcome: 'LOST' },
+            { createdAt: '2026-01-01T10:00:00Z', outcome: 'WON' },
+            { createdAt: '2026-01-01T13:00:00Z', outcome: 'WON' },
+            { createdAt: '2026-01-01T20:00:00Z', outcome: 'WON' },    // Current band is open-ended
+            { createdAt: '2026-01-01T14:00:00Z', outcome: 'EXPIRED' },
+        ]);
+
+        expect(stats).toEqual([
+            { from: 'BULL_TREND', to: 'HIGH_VOL_CHOP', occurrences: 1, wins: 1, losses: 1, total: 2, winRate: 50 },
+            { from: 'HIGH_VOL_CHOP', to: 'BULL_TREND', occurrences: 1, wins: 2, losses: 0, total: 2, winRate: 100 },
+        ]);
+    });
+});
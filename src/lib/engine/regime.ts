@@ -218,72 +218,183 @@ export function detectMarketRegime(context: MarketContext): RegimeAnalysis {
 }
 
 /**
- * Get regime-specific trading adjustments
- * Returns multipliers for different aspects of signal generation
+ * Regime-specific trading adjustments (multipliers for different aspects of signal generation)
  */
-export function getRegimeAdjustments(regime: MarketRegime): {
+export interface RegimeAdjustments {
     scoreThresholdMultiplier: number;   // Higher = stricter entry requirements
     trendWeightMultiplier: number;      // Higher = more weight on trend indicators
     momentumWeightMultiplier: number;   // Higher = more weight on momentum
     positioningWeightMultiplier: number;// Higher = more weight on positioning
     directionBias: number;              // +1 prefer longs, -1 prefer shorts, 0 neutral
-} {
-    switch (regime) {
-        case 'BULL_TREND':
-            return {
-                scoreThresholdMultiplier: 0.9,   // Slightly easier entry in bull
-                trendWeightMultiplier: 1.2,      // Trust trend indicators more
-                momentumWeightMultiplier: 1.0,
-                positioningWeightMultiplier: 0.8, // Positioning less important
-                directionBias: 0.5,              // Slight long bias
-            };
-        case 'BEAR_TREND':
-            return {
-                scoreThresholdMultiplier: 0.9,
-                trendWeightMultiplier: 1.2,
-                momentumWeightMultiplier: 1.0,
-                positioningWeightMultiplier: 0.8,
-                directionBias: -0.5,             // Slight short bias
-            };
-        case 'HIGH_VOL_CHOP':
-            return {
-                scoreThresholdMultiplier: 1.3,   // Much stricter entry in chop
-                trendWeightMultiplier: 0.7,      // Don't trust trends
-                momentumWeightMultiplier: 1.2,   // Quick momentum plays
-                positioningWeightMultiplier: 1.3, // Fading crowds works
-                directionBias: 0,
-            };
-        case 'RECOVERY_PUMP':
-            return {
-                scoreThresholdMultiplier: 1.1,
-                trendWeightMultiplier: 0.8,
-                momentumWeightMultiplier: 1.3,   // Ride the momentum
-                positioningWeightMultiplier: 0.9,
-                directionBias: 0.7,              // Strong long bias
-            };
-        case 'DISTRIBUTION':
-            return {
-                scoreThresholdMultiplier: 1.2,   // Be careful at tops
-                trendWeightMultiplier: 0.8,
-                momentumWeightMultiplier: 0.9,
-                positioningWeightMultiplier: 1.2,
-                directionBias: -0.3,             // Slight short bias
-            };
-        case 'ACCUMULATION':
-            return {
-                scoreThresholdMultiplier: 1.2,
-                trendWeightMultiplier: 0.8,
-                momentumWeightMultiplier: 0.9,
-                positioningWeightMultiplier: 1.2,
-                directionBias: 0.3,              // Slight long bias
-            };
-        default:
-            return {
-                scoreThresholdMultiplier: 1.0,
-                trendWeightMultiplier: 1.0,
-                momentumWeightMultiplier: 1.0,
-                positioningWeightMultiplier: 1.0,
-                directionBias: 0,
-            };
+}
+
+export type RegimeAdjustmentTable = Record<MarketRegime, RegimeAdjustments>;
+
+/**
+ * Starting adjustments per regime. The learn cron tunes a stored copy from regime-tagged
+ * outcomes and recovers it toward these values.
+ */
+export const DEFAULT_REGIME_ADJUSTMENTS: RegimeAdjustmentTable = {
+    BULL_TREND: {
+        scoreThresholdMultiplier: 0.9,   // Slightly easier entry in bull
+        trendWeightMultiplier: 1.2,      // Trust trend indicators more
+        momentumWeightMultiplier: 1.0,
+        positioningWeightMultiplier: 0.8, // Positioning less important
+        directionBias: 0.5,              // Slight long bias
+    },
+    BEAR_TREND: {
+        scoreThresholdMultiplier: 0.9,
+        trendWeightMultiplier: 1.2,
+        momentumWeightMultiplier: 1.0,
+        positioningWeightMultiplier: 0.8,
+        directionBias: -0.5,             // Slight short bias
+    },
+    HIGH_VOL_CHOP: {
+        scoreThresholdMultiplier: 1.3,   // Much stricter entry in chop
+        trendWeightMultiplier: 0.7,      // Don't trust trends
+        momentumWeightMultiplier: 1.2,   // Quick momentum plays
+        positioningWeightMultiplier: 1.3, // Fading crowds works
+        directionBias: 0,
+    },
+    RECOVERY_PUMP: {
+        scoreThresholdMultiplier: 1.1,
+        trendWeightMultiplier: 0.8,
+        momentumWeightMultiplier: 1.3,   // Ride the momentum
+        positioningWeightMultiplier: 0.9,
+        directionBias: 0.7,              // Strong long bias
+    },
+    DISTRIBUTION: {
+        scoreThresholdMultiplier: 1.2,   // Be careful at tops
+        trendWeightMultiplier: 0.8,
+        momentumWeightMultiplier: 0.9,
+        positioningWeightMultiplier: 1.2,
+        directionBias: -0.3,             // Slight short bias
+    },
+    ACCUMULATION: {
+        scoreThresholdMultiplier: 1.2,
+        trendWeightMultiplier: 0.8,
+        momentumWeightMultiplier: 0.9,
+        positioningWeightMultiplier: 1.2,
+        directionBias: 0.3,              // Slight long bias
+    },
+    UNKNOWN: {
+        scoreThresholdMultiplier: 1.0,
+        trendWeightMultiplier: 1.0,
+        momentumWeightMultiplier: 1.0,
+        positioningWeightMultiplier: 1.0,
+        directionBias: 0,
+    },
+};
+
+/**
+ * Get regime-specific trading adjustments from a (learned) table, falling back to the defaults
+ */
+export function getRegimeAdjustments(
+    regime: MarketRegime,
+    table: RegimeAdjustmentTable = DEFAULT_REGIME_ADJUSTMENTS
+): RegimeAdjustments {
+    return table[regime] ?? DEFAULT_REGIME_ADJUSTMENTS[regime] ?? DEFAULT_REGIME_ADJUSTMENTS.UNKNOWN;
+}
+
+// ============================================================================
+// REGIME HISTORY
+// ============================================================================
+
+/**
+ * Consecutive runs that must observe a new regime before the recorded regime flips
+ */
+export const REGIME_CONFIRM_RUNS = 2;
+
+/**
+ * A stretch of time spent in one (debounced) regime
+ */
+export interface RegimeBand {
+    regime: MarketRegime;
+    start: string;
+    end: string;                // Start of the next band, or the latest observation
+    observations: number;
+}
+
+/**
+ * Win rate of signals opened in the band that followed a transition
+ */
+export interface RegimeTransitionStats {
+    from: MarketRegime;
+    to: MarketRegime;
+    occurrences: number;
+    wins: number;
+    losses: number;
+    total: number;
+    winRate: number;
+}
+
+/**
+ * Debounce a new observation against the recorded regime.
+ * Only flips once the last `confirmRuns` observations (oldest first, newest last) agree.
+ */
+export function debounceRegime(
+    current: MarketRegime | null,
+    observed: MarketRegime[],
+    confirmRuns: number = REGIME_CONFIRM_RUNS
+): MarketRegime {
+    const latest = observed[observed.length - 1] ?? 'UNKNOWN';
+    if (current === null) return latest;
+
+    const recent = observed.slice(-confirmRuns);
+    const confirmed = recent.length >= confirmRuns && recent.every(r => r === latest);
+    return confirmed ? latest : current;
+}
+
+/**
+ * Merge consecutive observations (oldest first) into regime bands
+ */
+export function buildRegimeBands(points: { regime: MarketRegime; at: string }[]): RegimeBand[] {
+    const bands: RegimeBand[] = [];
+
+    for (const point of points) {
+        const last = bands[bands.length - 1];
+        if (last && last.regime === point.regime) {
+            last.end = point.at;
+            last.observations++;
+        } else {
+            if (last) last.end = point.at;
+            bands.push({ regime: point.regime, start: point.at, end: point.at, observations: 1 });
+        }
     }
+
+    return bands;
+}
+
+/**
+ * Win rate per regime transition: a resolved signal counts toward the transition
+ * that opened the band it was created in. Signals in the first band have no known transition.
+ */
+export function regimeTransitionStats(
+    bands: RegimeBand[],
+    signals: { createdAt: string; outcome: string }[]
+): RegimeTransitionStats[] {
+    const stats = new Map<string, RegimeTransitionStats>();
+
+    for (let i = 1; i < bands.length; i++) {
+        const key = `${bands[i - 1].regime}>${bands[i].regime}`;
+        const entry = stats.get(key) ?? {
+            from: bands[i - 1].regime, to: bands[i].regime, occurrences: 0, wins: 0, losses: 0, total: 0, winRate: 0,
+        };
+        entry.occurrences++;
+
+        const start = Date.parse(bands[i].start);
+        const end = i === bands.length - 1 ? Infinity : Date.parse(bands[i].end);
+        for (const signal of signals) {
+            const at = Date.parse(signal.createdAt);
+            if (at < start || at >= end) continue;
+            if (signal.outcome === 'WON') entry.wins++;
+            else if (signal.outcome === 'LOST') entry.losses++;
+            else continue;
+            entry.total++;
+        }
+        entry.winRate = entry.total > 0 ? (entry.wins / entry.total) * 100 : 0;
+        stats.set(key, entry);
+    }
+
+    return [...stats.values()].sort((a, b) => b.total - a.total || b.occurrences - a.occurrences);
 }
@@ -0,0 +1,132 @@
+/**
+ * LISAN INTELLIGENCE — Regime Adjustment Learning Tests
+ *
+ * Tests category attribution, bounded tuning steps and recovery toward the defaults.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    categoryCredit,
+    tuneRegimeAdjustments,
+    recoverRegimeAdjustments,
+    applyRegimeChanges,
+    RegimeOutcome,
+    REGIME_ADJUSTMENT_BOUNDS,
+} from './regimeLearning';
+import { DEFAULT_REGIME_ADJUSTMENTS } from './regime';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const BULL = DEFAULT_REGIME_ADJUSTMENTS.BULL_TREND;
+
+function outcome(
+    result: 'WON' | 'LOST',
+    direction: 'LONG' | 'SHORT' = 'LONG',
+    indicators: Record<string, number> = {}
+): RegimeOutcome {
+    return { regime: 'BULL_TREND', direction, outcome: result, indicators, closedAt: '2026-01-01T00:00:00Z' };
+}
+
+/** `wins` winners followed by `losses` losers */
+const record = (wins: number, losses: number, make = (r: 'WON' | 'LOST') => outcome(r)) => [
+    ...Array.from({ length: wins }, () => make('WON')),
+    ...Array.from({ length: losses }, () => make('LOST')),
+];
+
+// ============================================================================
+// ATTRIBUTION
+// ============================================================================
+
+describe('categoryCredit', () => {
+    it('credits a category that backed the winners and not the losers', () => {
+        // Ichimoku (trend, signed): bullish on every win, bearish on every losing LONG
+        const outcomes = record(5, 5, r => outcome(r, 'LONG', { ichimoku: r === 'WON' ? 1 : -1 }));
+        expect(categoryCredit(outcomes, 'trend')).toBe(1);
+    });
+
+    it('blames a category that backed the losers', () => {
+        const outcomes = record(5, 5, r => outcome(r, 'LONG', { ichimoku: r === 'WON' ? -1 : 1 }));
+        expect(categoryCredit(outcomes, 'trend')).toBe(-1);
+    });
+
+    it('is zero without both wins and losses or without the category', () => {
+        expect(categoryCredit(record(5, 0, r => outcome(r, 'LONG', { ichimoku: 1 })), 'trend')).toBe(0);
+        expect(categoryCredit(record(5, 5), 'trend')).toBe(0);
+    });
+});
+
+// ============================================================================
+// TUNING
+// ============================================================================
+
+describe('tuneRegimeAdjustments', () => {
+    it('waits for enough outcomes', () => {
+        const tuning = tuneRegimeAdjustments('BULL_TREND', BULL, record(0, 9));
+        expect(tuning.changes).toEqual([]);
+        expect(tuning.adjustments).toEqual(BULL);
+    });
+
+    it('raises the entry threshold of a losing regime by at most one step', () => {
+        const tuning = tuneRegimeAdjustments('BULL_TREND', BULL, record(0, 12));
+
+        expect(tuning.winRate).toBe(0);
+        expect(tuning.changes).toHaveLength(1);
+        expect(tuning.adjustments.scoreThresholdMultiplier).toBe(0.99);
+    });
+
+    it('eases the threshold of a winning regime and leaves it alone near target', () => {
+        expect(tuneRegimeAdjustments('BULL_TREND', BULL, record(9, 1)).adjustments.scoreThresholdMultiplier).toBe(0.81);
+        expect(tuneRegimeAdjustments('BULL_TREND', BULL, record(5, 5)).changes).toEqual([]);
+    });
+
+    it('scales the weight of categories by their credit', () => {
+        const credited = record(5, 5, r => outcome(r, 'LONG', { ichimoku: r === 'WON' ? 1 : -1 }));
+        expect(tuneRegimeAdjustments('BULL_TREND', BULL, credited).adjustments.trendWeightMultiplier).toBe(1.32);
+
+        const blamed = record(5, 5, r => outcome(r, 'LONG', { ichimoku: r === 'WON' ? -1 : 1 }));
+        expect(tuneRegimeAdjustments('BULL_TREND', BULL, blamed).adjustments.trendWeightMultiplier).toBe(1.08);
+    });
+
+    it('moves the direction bias toward the side that keeps winning', () => {
+        const outcomes = [
+            ...record(4, 1, r => outcome(r, 'LONG')),
+            ...record(1, 4, r => outcome(r, 'SHORT')),
+        ];
+        const tuning = tuneRegimeAdjustments('BULL_TREND', BULL, outcomes);
+
+        expect(tuning.adjustments.directionBias).toBe(0.6);
+        expect(tuning.changes.find(c => c.field === 'directionBias')?.reason).toBe('LONG 80% vs SHORT 20% in BULL_TREND');
+    });
+
+    it('keeps every field inside its bounds', () => {
+        const atCeiling = { ...BULL, scoreThresholdMultiplier: REGIME_ADJUSTMENT_BOUNDS.scoreThresholdMultiplier.max };
+        const tuning = tuneRegimeAdjustments('BULL_TREND', atCeiling, record(0, 12));
+
+        expect(tuning.adjustments.scoreThresholdMultiplier).toBe(REGIME_ADJUSTMENT_BOUNDS.scoreThresholdMultiplier.max);
+        expect(tuning.changes).toEqual([]);
+    });
+});
+
+// ============================================================================
+// RECOVERY
+// ============================================================================
+
+describe('recoverRegimeAdjustments', () => {
+    const drifted = { ...BULL, scoreThresholdMultiplier: 1.3, directionBias: -0.5 };
+
+    it('waits for enough outcomes since the last tuning', () => {
+        expect(recoverRegimeAdjustments('BULL_TREND', drifted, 19)).toEqual([]);
+    });
+
+    it('moves drifted fields 5% of the way back to the defaults', () => {
+        const changes = recoverRegimeAdjustments('BULL_TREND', drifted, 20);
+        const recovered = applyRegimeChanges(drifted, changes);
+
+        expect(changes.map(c => c.field)).toEqual(['scoreThresholdMultiplier', 'directionBias']);
+        expect(recovered.scoreThresholdMultiplier).toBe(1.28);
+        expect(recovered.directionBias).toBe(-0.45);
+        expect(recovered.trendWeightMultiplier).toBe(BULL.trendWeightMultiplier);
+    });
+});
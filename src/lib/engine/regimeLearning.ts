@@ -0,0 +1,239 @@
+/**
+ * LISAN INTELLIGENCE — Regime Adjustment Learning
+ *
+ * Tunes the per-regime multipliers (score threshold, trend / momentum / positioning
+ * weight, direction bias) from outcomes of signals tagged with the regime they were
+ * generated in. Mirrors the global weight learning: bounded steps per cycle, hard
+ * bounds, and slow recovery toward the defaults once a regime performs again.
+ */
+
+import { MarketRegime, RegimeAdjustments, DEFAULT_REGIME_ADJUSTMENTS } from './regime';
+import { INDICATORS, ScoredCategory } from './registry';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RegimeAdjustmentField = keyof RegimeAdjustments;
+
+/**
+ * A resolved signal with the regime it was generated in
+ */
+export interface RegimeOutcome {
+    regime: MarketRegime;
+    direction: 'LONG' | 'SHORT';
+    outcome: 'WON' | 'LOST';
+    indicators: Record<string, number>;
+    closedAt: string;
+}
+
+export interface RegimeAdjustmentChange {
+    field: RegimeAdjustmentField;
+    oldValue: number;
+    newValue: number;
+    reason: string;
+}
+
+export interface RegimeTuning {
+    regime: MarketRegime;
+    signalsAnalyzed: number;
+    winRate: number;
+    adjustments: RegimeAdjustments;     // After the changes
+    changes: RegimeAdjustmentChange[];
+}
+
+// ============================================================================
+// LEARNING CONFIG
+// ============================================================================
+
+export const REGIME_LEARNING_CONFIG = {
+    minTrades: 10,              // Outcomes in a regime since its last tuning before it is tuned again
+    maxTrades: 30,              // Most recent outcomes analyzed per regime
+    targetWinRate: 50,
+    winRateTolerance: 7.5,      // Threshold only moves when the win rate leaves target ± this
+    maxStepPct: 10,             // Max % change of a multiplier per cycle
+    maxBiasStep: 0.1,           // Max direction bias change per cycle
+    minDirectionalTrades: 4,    // LONG and SHORT outcomes each needed to move the bias
+    directionEdge: 15,          // Win-rate gap (points) between directions that moves the bias
+    attributionEdge: 0.2,       // Net category credit that moves its weight multiplier
+    recoveryThreshold: 20,      // Outcomes since the last tuning before recovery starts
+    recoveryRate: 0.05,         // Recover 5% of the drift per check
+};
+
+/**
+ * Hard bounds per field — no regime can switch a category off or flip entry rules entirely
+ */
+export const REGIME_ADJUSTMENT_BOUNDS: Record<RegimeAdjustmentField, { min: number; max: number }> = {
+    scoreThresholdMultiplier: { min: 0.7, max: 1.6 },
+    trendWeightMultiplier: { min: 0.5, max: 1.5 },
+    momentumWeightMultiplier: { min: 0.5, max: 1.5 },
+    positioningWeightMultiplier: { min: 0.5, max: 1.5 },
+    directionBias: { min: -1, max: 1 },
+};
+
+/** Category whose score each weight multiplier scales */
+const CATEGORY_FIELDS: [ScoredCategory, RegimeAdjustmentField][] = [
+    ['trend', 'trendWeightMultiplier'],
+    ['momentum', 'momentumWeightMultiplier'],
+    ['positioning', 'positioningWeightMultiplier'],
+];
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+const clampField = (field: RegimeAdjustmentField, value: number) =>
+    round3(Math.max(REGIME_ADJUSTMENT_BOUNDS[field].min, Math.min(REGIME_ADJUSTMENT_BOUNDS[field].max, value)));
+
+// ============================================================================
+// ATTRIBUTION
+// ============================================================================
+
+/**
+ * Net credit of a category across outcomes, -1 to 1: the average share of its indicators
+ * that backed the winning direction, minus the average share that backed the losing one.
+ * Uses the registry's learning rules, same as global weight learning.
+ */
+export function categoryCredit(outcomes: RegimeOutcome[], category: ScoredCategory): number {
+    const defs = INDICATORS.filter(def => def.category === category && def.learning);
+    let right = 0;
+    let wrong = 0;
+    let wins = 0;
+    let losses = 0;
+
+    for (const outcome of outcomes) {
+        const present = defs.filter(def => outcome.indicators[def.id] !== undefined);
+        if (present.length === 0) continue;
+
+        if (outcome.outcome === 'WON') {
+            wins++;
+            right += present.filter(def =>
+                def.learning!.rightOnWin(outcome.direction, outcome.indicators[def.id], outcome.indicators)
+            ).length / present.length;
+        } else {
+            losses++;
+            wrong += present.filter(def =>
+                def.learning!.wrongOnLoss(outcome.direction, outcome.indicators[def.id], outcome.indicators)
+            ).length / present.length;
+        }
+    }
+
+    if (wins === 0 || losses === 0) return 0;
+    return right / wins - wrong / losses;
+}
+
+// ============================================================================
+// TUNING
+// ============================================================================
+
+/**
+ * One bounded learning step for a regime. outcomes are the regime's outcomes since its
+ * last tuning (newest first); fewer than minTrades leaves the adjustments untouched.
+ */
+export function tuneRegimeAdjustments(
+    regime: MarketRegime,
+    current: RegimeAdjustments,
+    outcomes: RegimeOutcome[],
+    config = REGIME_LEARNING_CONFIG
+): RegimeTuning {
+    const analyzed = outcomes.slice(0, config.maxTrades);
+    const wins = analyzed.filter(o => o.outcome === 'WON').length;
+    const winRate = analyzed.length > 0 ? (wins / analyzed.length) * 100 : 0;
+    const adjustments = { ...current };
+    const changes: RegimeAdjustmentChange[] = [];
+
+    if (analyzed.length < config.minTrades) {
+        return { regime, signalsAnalyzed: analyzed.length, winRate, adjustments, changes };
+    }
+
+    const apply = (field: RegimeAdjustmentField, value: number, reason: string) => {
+        const newValue = clampField(field, value);
+        if (Math.abs(newValue - adjustments[field]) < 0.001) return;
+        changes.push({ field, oldValue: adjustments[field], newValue, reason });
+        adjustments[field] = newValue;
+    };
+
+    // Entry threshold: stricter when the regime loses, easier when it wins (half a % per point off target)
+    const gap = winRate - config.targetWinRate;
+    if (Math.abs(gap) > config.winRateTolerance) {
+        const step = Math.min(config.maxStepPct, Math.abs(gap) / 2) / 100;
+        apply(
+            'scoreThresholdMultiplier',
+            adjustments.scoreThresholdMultiplier * (gap < 0 ? 1 + step : 1 - step),
+            `Win rate ${winRate.toFixed(0)}% over ${analyzed.length} ${regime} signals`
+        );
+    }
+
+    // Category weights: boost categories that backed winners, cut the ones that backed losers
+    for (const [category, field] of CATEGORY_FIELDS) {
+        const credit = categoryCredit(analyzed, category);
+        if (Math.abs(credit) < config.attributionEdge) continue;
+
+        const step = Math.min(config.maxStepPct, Math.abs(credit) * config.maxStepPct) / 100;
+        apply(
+            field,
+            adjustments[field] * (credit > 0 ? 1 + step : 1 - step),
+            `${category} credit ${credit > 0 ? '+' : ''}${credit.toFixed(2)} in ${regime}`
+        );
+    }
+
+    // Direction bias: lean toward the direction that keeps winning in this regime
+    const longs = analyzed.filter(o => o.direction === 'LONG');
+    const shorts = analyzed.filter(o => o.direction === 'SHORT');
+    if (longs.length >= config.minDirectionalTrades && shorts.length >= config.minDirectionalTrades) {
+        const longRate = (longs.filter(o => o.outcome === 'WON').length / longs.length) * 100;
+        const shortRate = (shorts.filter(o => o.outcome === 'WON').length / shorts.length) * 100;
+        const edge = longRate - shortRate;
+
+        if (Math.abs(edge) >= config.directionEdge) {
+            apply(
+                'directionBias',
+                adjustments.directionBias + Math.sign(edge) * config.maxBiasStep,
+                `LONG ${longRate.toFixed(0)}% vs SHORT ${shortRate.toFixed(0)}% in ${regime}`
+            );
+        }
+    }
+
+    return { regime, signalsAnalyzed: analyzed.length, winRate, adjustments, changes };
+}
+
+/**
+ * Move every drifted field a step back toward the regime's default once enough outcomes
+ * have passed without a tuning
+ */
+export function recoverRegimeAdjustments(
+    regime: MarketRegime,
+    current: RegimeAdjustments,
+    tradesSinceTuning: number,
+    config = REGIME_LEARNING_CONFIG
+): RegimeAdjustmentChange[] {
+    if (tradesSinceTuning < config.recoveryThreshold) return [];
+
+    const defaults = DEFAULT_REGIME_ADJUSTMENTS[regime];
+    const changes: RegimeAdjustmentChange[] = [];
+
+    for (const field of Object.keys(defaults) as RegimeAdjustmentField[]) {
+        const difference = defaults[field] - current[field];
+        const newValue = clampField(field, current[field] + difference * config.recoveryRate);
+
+        if (Math.abs(newValue - current[field]) >= 0.001) {
+            changes.push({
+                field,
+                oldValue: current[field],
+                newValue,
+                reason: `Recovered: ${tradesSinceTuning} ${regime} trades since last tuning`,
+            });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Adjustments with a list of changes applied
+ */
+export function applyRegimeChanges(current: RegimeAdjustments, changes: RegimeAdjustmentChange[]): RegimeAdjustments {
+    const next = { ...current };
+    for (const change of changes) {
+        next[change.field] = change.newValue;
+    }
+    return next;
+}
@@ -0,0 +1,156 @@
+/**
+ * LISAN INTELLIGENCE — Statistical Regime Classifier Tests
+ *
+ * Tests feature extraction, state labelling, k-means / HMM fits and the backtest A/B.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    extractRegimeFeatures,
+    labelRegimeState,
+    fitRegimeModel,
+    classifyRegimeSeries,
+    classifyLatestRegime,
+    modelRegimeResolver,
+    compareRegimeClassifiers,
+    RegimeClassification,
+} from './regimeModel';
+import { OHLCV } from './indicators';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const HOUR = 3600000;
+const START = Date.UTC(2025, 0, 1);
+
+/**
+ * Calm uptrend followed by a volatile downtrend. Noise is a fixed
+ * alternating pattern so every run sees the same bars.
+ */
+function makeTwoRegimeData(barsPerSegment = 200): OHLCV[] {
+    const data: OHLCV[] = [];
+    let price = 100;
+    for (let i = 0; i < barsPerSegment * 2; i++) {
+        const calm = i < barsPerSegment;
+        const drift = calm ? 0.004 : -0.004;
+        const noise = (calm ? 0.002 : 0.03) * Math.sin(i * 2.7);
+        const prev = price;
+        price = prev * (1 + drift + noise);
+        data.push({
+            open: prev,
+            high: Math.max(prev, price) * 1.002,
+            low: Math.min(prev, price) * 0.998,
+            close: price,
+            volume: 500000,
+            timestamp: START + i * 4 * HOUR,
+        });
+    }
+    return data;
+}
+
+const DATA = makeTwoRegimeData();
+
+// ============================================================================
+// FEATURES
+// ============================================================================
+
+describe('extractRegimeFeatures', () => {
+    it('starts once both windows are full', () => {
+        const series = extractRegimeFeatures(DATA, { returnBars: 6, volatilityBars: 30 });
+
+        expect(series.names).toEqual(['return', 'volatility']);
+        expect(series.rows).toHaveLength(DATA.length - 30);
+        expect(series.timestamps[0]).toBe(DATA[30].timestamp);
+    });
+
+    it('adds funding and OI columns when supplied', () => {
+        const series = extractRegimeFeatures(DATA, {
+            returnBars: 6,
+            volatilityBars: 30,
+            funding: DATA.map(() => 0.01),
+            oiChange: DATA.map(() => null),
+        });
+
+        expect(series.names).toEqual(['return', 'volatility', 'funding', 'oiChange']);
+        expect(series.rows[0].slice(2)).toEqual([0.01, 0]);
+    });
+});
+
+describe('labelRegimeState', () => {
+    const features = ['return', 'volatility', 'oiChange'] as const;
+
+    it('maps standardized means onto market regimes', () => {
+        expect(labelRegimeState([1, -0.5, 0], [...features])).toBe('BULL_TREND');
+        expect(labelRegimeState([-1, 0, 0], [...features])).toBe('BEAR_TREND');
+        expect(labelRegimeState([0.1, 1.2, 0], [...features])).toBe('HIGH_VOL_CHOP');
+        expect(labelRegimeState([1, 1.5, 0], [...features])).toBe('RECOVERY_PUMP');
+        expect(labelRegimeState([0, 0, 0], [...features])).toBe('UNKNOWN');
+    });
+
+    it('uses OI to tell distribution and accumulation apart from trends', () => {
+        expect(labelRegimeState([0.5, 0, -1], [...features])).toBe('DISTRIBUTION');
+        expect(labelRegimeState([-0.5, 0, 1], [...features])).toBe('ACCUMULATION');
+        expect(labelRegimeState([-0.5, 0], ['return', 'volatility'])).toBe('BEAR_TREND');
+    });
+});
+
+// ============================================================================
+// FIT & CLASSIFY
+// ============================================================================
+
+describe('fitRegimeModel', () => {
+    it('returns null on a short history', () => {
+        expect(fitRegimeModel(DATA.slice(0, 60))).toBeNull();
+    });
+
+    it.each(['HMM', 'KMEANS'] as const)('%s separates the calm uptrend from the volatile downtrend', (method) => {
+        const model = fitRegimeModel(DATA, { method, states: 2 })!;
+
+        expect(model.method).toBe(method);
+        expect(model.transition === null).toBe(method === 'KMEANS');
+        expect(model.states.map(s => s.regime).sort()).toEqual(['BEAR_TREND', 'BULL_TREND']);
+
+        const series = classifyRegimeSeries(model, DATA);
+        const at = (index: number) => series.find(c => c.timestamp === DATA[index].timestamp)!;
+        expect(at(150).regime).toBe('BULL_TREND');
+        expect(at(350).regime).toBe('BEAR_TREND');
+        expect(classifyLatestRegime(model, DATA)!.regime).toBe('BEAR_TREND');
+        series.forEach(c => {
+            expect(c.confidence).toBeGreaterThan(0);
+            expect(c.confidence).toBeLessThanOrEqual(1);
+        });
+    });
+});
+
+// ============================================================================
+// BACKTEST A/B
+// ============================================================================
+
+describe('modelRegimeResolver', () => {
+    const series: RegimeClassification[] = [
+        { timestamp: 100, state: 0, regime: 'BULL_TREND', confidence: 0.9 },
+        { timestamp: 200, state: 1, regime: 'BEAR_TREND', confidence: 0.8 },
+    ];
+    const resolve = modelRegimeResolver(series);
+
+    it('uses the latest classification at or before the timestamp', () => {
+        expect(resolve(50)).toBe('UNKNOWN');
+        expect(resolve(100)).toBe('BULL_TREND');
+        expect(resolve(199)).toBe('BULL_TREND');
+        expect(resolve(500)).toBe('BEAR_TREND');
+    });
+});
+
+describe('compareRegimeClassifiers', () => {
+    it('backtests both classifiers and reports their agreement', () => {
+        const model = fitRegimeModel(DATA, { method: 'KMEANS', states: 2 })!;
+        const comparison = compareRegimeClassifiers([{ coin: 'BTC', data: DATA }], DATA, model);
+
+        expect(comparison.bars).toBe(DATA.length - 30);
+        expect(comparison.agreement).toBeGreaterThanOrEqual(0);
+        expect(comparison.agreement).toBeLessThanOrEqual(1);
+        expect(comparison.rule.totalTrades).toBeGreaterThanOrEqual(0);
+        expect(comparison.model.totalTrades).toBeGreaterThanOrEqual(0);
+    });
+});
@@ -0,0 +1,549 @@
+/**
+ * LISAN INTELLIGENCE — Statistical Regime Classifier
+ *
+ * A data-driven alternative to the rule-based detectMarketRegime:
+ *
+ * - Features per bar: trailing log return, realized volatility and, when aligned
+ *   series are supplied, funding and OI change — standardized on the training window
+ * - KMEANS: seeded k-means++ clusters, each a diagonal Gaussian
+ * - HMM: Gaussian hidden Markov model (diagonal covariance) fitted with Baum-Welch,
+ *   initialized from k-means; classification uses forward filtering so a bar never
+ *   sees later bars
+ * - Each fitted state is labeled with a MarketRegime from its mean return, volatility and OI change
+ *
+ * Pure TypeScript, no external service. Fitted models are plain JSON so they can be cached.
+ */
+
+import { OHLCV } from './indicators';
+import { detectMarketRegime, MarketRegime } from './regime';
+import { runBacktest, BacktestOptions, BacktestSummary, RegimeResolver } from './backtest';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RegimeModelMethod = 'KMEANS' | 'HMM';
+export type RegimeFeatureName = 'return' | 'volatility' | 'funding' | 'oiChange';
+
+/**
+ * Optional per-bar series aligned with the candles (null = unknown for that bar)
+ */
+export interface RegimeFeatureExtras {
+    funding?: (number | null)[];
+    oiChange?: (number | null)[];
+}
+
+export interface RegimeFeatureOptions extends RegimeFeatureExtras {
+    returnBars: number;         // Trailing return window (6 × 4h = 1 day)
+    volatilityBars: number;     // Realized volatility window
+}
+
+export interface RegimeFeatureSeries {
+    names: RegimeFeatureName[];
+    timestamps: number[];
+    rows: number[][];
+}
+
+export interface RegimeModelOptions extends RegimeFeatureExtras {
+    method?: RegimeModelMethod;
+    states?: number;
+    returnBars?: number;
+    volatilityBars?: number;
+    iterations?: number;
+    seed?: number;
+}
+
+export interface RegimeModelState {
+    mean: number[];             // Standardized feature space
+    variance: number[];
+    weight: number;             // Share of training bars
+    regime: MarketRegime;
+}
+
+export interface RegimeModel {
+    method: RegimeModelMethod;
+    features: RegimeFeatureName[];
+    returnBars: number;
+    volatilityBars: number;
+    scaling: { mean: number[]; std: number[] };
+    states: RegimeModelState[];
+    initial: number[];
+    transition: number[][] | null;  // HMM only
+    logLikelihood: number;
+    trainedBars: number;
+    trainedFrom: number;
+    trainedTo: number;
+}
+
+export interface RegimeClassification {
+    timestamp: number;
+    state: number;
+    regime: MarketRegime;
+    confidence: number;         // 0-1 posterior of the regime (summed over states sharing it)
+}
+
+export interface RegimeComparison {
+    rule: BacktestSummary;
+    model: BacktestSummary;
+    agreement: number;          // Share of classified bars where both pick the same regime, 0-1
+    bars: number;
+}
+
+export const DEFAULT_REGIME_MODEL = {
+    method: 'HMM' as RegimeModelMethod,
+    states: 4,
+    returnBars: 6,
+    volatilityBars: 30,
+    iterations: 100,
+    seed: 1,
+};
+
+/**
+ * Live shadow mode: the generate cron classifies each run with a cached model alongside
+ * detectMarketRegime and records both, without letting the model drive signals.
+ */
+export interface RegimeModelConfig {
+    shadow: boolean;
+    method: RegimeModelMethod;
+    states: number;
+    trainingBars: number;       // BTC 4h bars the model is fitted on
+    refitHours: number;         // Refit the cached model once it is older than this
+}
+
+export const DEFAULT_REGIME_MODEL_CONFIG: RegimeModelConfig = {
+    shadow: true,
+    method: 'HMM',
+    states: 4,
+    trainingBars: 500,
+    refitHours: 24,
+};
+
+const VARIANCE_FLOOR = 0.01;
+const MIN_TRAINING_ROWS = 50;
+
+// ============================================================================
+// FEATURES
+// ============================================================================
+
+/**
+ * Per-bar features, starting once both windows are full
+ */
+export function extractRegimeFeatures(candles: OHLCV[], options: RegimeFeatureOptions): RegimeFeatureSeries {
+    const names: RegimeFeatureName[] = ['return', 'volatility'];
+    if (options.funding) names.push('funding');
+    if (options.oiChange) names.push('oiChange');
+
+    const logReturns = candles.map((c, i) => i === 0 ? 0 : Math.log(c.close / candles[i - 1].close));
+    const start = Math.max(options.returnBars, options.volatilityBars);
+    const timestamps: number[] = [];
+    const rows: number[][] = [];
+
+    for (let i = start; i < candles.length; i++) {
+        const window = logReturns.slice(i - options.volatilityBars + 1, i + 1);
+        const avg = window.reduce((sum, r) => sum + r, 0) / window.length;
+        const variance = window.reduce((sum, r) => sum + (r - avg) ** 2, 0) / window.length;
+
+        const row = [
+            Math.log(candles[i].close / candles[i - options.returnBars].close) * 100,
+            Math.sqrt(variance) * 100,
+        ];
+        if (options.funding) row.push(options.funding[i] ?? 0);
+        if (options.oiChange) row.push(options.oiChange[i] ?? 0);
+
+        timestamps.push(candles[i].timestamp);
+        rows.push(row);
+    }
+
+    return { names, timestamps, rows };
+}
+
+function fitScaling(rows: number[][]): { mean: number[]; std: number[] } {
+    const dims = rows[0].length;
+    const mean = Array.from({ length: dims }, (_, d) => rows.reduce((sum, r) => sum + r[d], 0) / rows.length);
+    const std = mean.map((m, d) => {
+        const s = Math.sqrt(rows.reduce((sum, r) => sum + (r[d] - m) ** 2, 0) / rows.length);
+        return s > 1e-9 ? s : 1;
+    });
+    return { mean, std };
+}
+
+const standardize = (rows: number[][], scaling: { mean: number[]; std: number[] }) =>
+    rows.map(r => r.map((v, d) => (v - scaling.mean[d]) / scaling.std[d]));
+
+// ============================================================================
+// GAUSSIAN HELPERS
+// ============================================================================
+
+/** Deterministic PRNG so a fit is reproducible for a given seed */
+function mulberry32(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const squaredDistance = (a: number[], b: number[]) => a.reduce((sum, v, d) => sum + (v - b[d]) ** 2, 0);
+
+function logGaussian(x: number[], mean: number[], variance: number[]): number {
+    let sum = 0;
+    for (let d = 0; d < x.length; d++) {
+        sum -= 0.5 * (Math.log(2 * Math.PI * variance[d]) + (x[d] - mean[d]) ** 2 / variance[d]);
+    }
+    return sum;
+}
+
+/** Emission likelihoods per state, rescaled by the row's max log-likelihood (returned as offset) */
+function emissions(x: number[], states: { mean: number[]; variance: number[] }[]): { probs: number[]; offset: number } {
+    const logs = states.map(s => logGaussian(x, s.mean, s.variance));
+    const offset = Math.max(...logs);
+    return { probs: logs.map(l => Math.exp(l - offset)), offset };
+}
+
+function normalize(values: number[]): { normalized: number[]; total: number } {
+    const total = values.reduce((sum, v) => sum + v, 0);
+    return { normalized: total > 0 ? values.map(v => v / total) : values.map(() => 1 / values.length), total };
+}
+
+/** Mean and floored variance of the rows weighted by `weights` */
+function weightedMoments(rows: number[][], weights: number[]): { mean: number[]; variance: number[]; total: number } {
+    const dims = rows[0].length;
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const mean = new Array(dims).fill(0);
+    const variance = new Array(dims).fill(0);
+    if (total <= 0) return { mean, variance: variance.map(() => 1), total };
+
+    rows.forEach((r, t) => r.forEach((v, d) => { mean[d] += weights[t] * v; }));
+    for (let d = 0; d < dims; d++) mean[d] /= total;
+    rows.forEach((r, t) => r.forEach((v, d) => { variance[d] += weights[t] * (v - mean[d]) ** 2; }));
+
+    return { mean, variance: variance.map(v => Math.max(VARIANCE_FLOOR, v / total)), total };
+}
+
+// ============================================================================
+// K-MEANS
+// ============================================================================
+
+/**
+ * Seeded k-means++ on standardized rows. Returns each cluster as a diagonal Gaussian.
+ */
+function fitKMeans(rows: number[][], k: number, iterations: number, seed: number): { mean: number[]; variance: number[]; weight: number }[] {
+    const random = mulberry32(seed);
+
+    // k-means++ seeding
+    const centroids: number[][] = [rows[Math.floor(random() * rows.length)]];
+    while (centroids.length < k) {
+        const distances = rows.map(r => Math.min(...centroids.map(c => squaredDistance(r, c))));
+        const total = distances.reduce((sum, d) => sum + d, 0);
+        let target = random() * total;
+        let index = distances.findIndex(d => (target -= d) <= 0);
+        if (index < 0) index = rows.length - 1;
+        centroids.push(rows[index]);
+    }
+
+    let assignments = new Array(rows.length).fill(-1);
+    for (let iter = 0; iter < iterations; iter++) {
+        const next = rows.map(r => {
+            let best = 0;
+            for (let j = 1; j < k; j++) {
+                if (squaredDistance(r, centroids[j]) < squaredDistance(r, centroids[best])) best = j;
+            }
+            return best;
+        });
+        const changed = next.some((a, t) => a !== assignments[t]);
+        assignments = next;
+
+        for (let j = 0; j < k; j++) {
+            const members = rows.filter((_, t) => assignments[t] === j);
+            if (members.length > 0) {
+                centroids[j] = centroids[j].map((_, d) => members.reduce((sum, r) => sum + r[d], 0) / members.length);
+            } else {
+                // Empty cluster: move it to the row farthest from its centroid
+                const farthest = rows.reduce((best, r, t) =>
+                    squaredDistance(r, centroids[assignments[t]]) > squaredDistance(rows[best], centroids[assignments[best]]) ? t : best, 0);
+                centroids[j] = rows[farthest];
+            }
+        }
+
+        if (!changed) break;
+    }
+
+    return centroids.map((_, j) => {
+        const weights = assignments.map(a => (a === j ? 1 : 0));
+        const { mean, variance, total } = weightedMoments(rows, weights);
+        return { mean: total > 0 ? mean : centroids[j], variance, weight: total / rows.length };
+    });
+}
+
+// ============================================================================
+// HIDDEN MARKOV MODEL
+// ============================================================================
+
+interface HmmParams {
+    states: { mean: number[]; variance: number[] }[];
+    initial: number[];
+    transition: number[][];
+}
+
+/**
+ * Scaled forward-backward pass. Returns state posteriors, expected transitions and the log-likelihood.
+ */
+function forwardBackward(rows: number[][], params: HmmParams): { gamma: number[][]; xi: number[][]; logLikelihood: number } {
+    const T = rows.length;
+    const k = params.states.length;
+    const b = rows.map(x => emissions(x, params.states));
+    const alpha: number[][] = [];
+    const scale: number[] = [];
+
+    for (let t = 0; t < T; t++) {
+        const prior = t === 0
+            ? params.initial
+            : Array.from({ length: k }, (_, j) => alpha[t - 1].reduce((sum, a, i) => sum + a * params.transition[i][j], 0));
+        const { normalized, total } = normalize(prior.map((p, j) => p * b[t].probs[j]));
+        alpha.push(normalized);
+        scale.push(total > 0 ? total : 1e-300);
+    }
+
+    const beta: number[][] = new Array(T);
+    beta[T - 1] = new Array(k).fill(1);
+    for (let t = T - 2; t >= 0; t--) {
+        beta[t] = Array.from({ length: k }, (_, i) =>
+            params.transition[i].reduce((sum, a, j) => sum + a * b[t + 1].probs[j] * beta[t + 1][j], 0) / scale[t + 1]
+        );
+    }
+
+    const gamma = alpha.map((a, t) => normalize(a.map((v, i) => v * beta[t][i])).normalized);
+    const xi = Array.from({ length: k }, () => new Array(k).fill(0));
+    for (let t = 0; t < T - 1; t++) {
+        for (let i = 0; i < k; i++) {
+            for (let j = 0; j < k; j++) {
+                xi[i][j] += alpha[t][i] * params.transition[i][j] * b[t + 1].probs[j] * beta[t + 1][j] / scale[t + 1];
+            }
+        }
+    }
+
+    const logLikelihood = scale.reduce((sum, c, t) => sum + Math.log(c) + b[t].offset, 0);
+    return { gamma, xi, logLikelihood };
+}
+
+/**
+ * Baum-Welch EM, starting from k-means clusters and sticky transitions
+ */
+function fitHmm(
+    rows: number[][],
+    init: { mean: number[]; variance: number[] }[],
+    iterations: number
+): HmmParams & { logLikelihood: number; weights: number[] } {
+    const k = init.length;
+    let params: HmmParams = {
+        states: init.map(s => ({ mean: [...s.mean], variance: [...s.variance] })),
+        initial: new Array(k).fill(1 / k),
+        transition: Array.from({ length: k }, (_, i) =>
+            Array.from({ length: k }, (_, j) => (i === j ? 0.9 : 0.1 / Math.max(1, k - 1)))
+        ),
+    };
+    let pass = forwardBackward(rows, params);
+
+    for (let iter = 0; iter < iterations; iter++) {
+        const { gamma, xi } = pass;
+        params = {
+            initial: gamma[0],
+            transition: xi.map(row => normalize(row).normalized),
+            states: Array.from({ length: k }, (_, j) => {
+                const { mean, variance, total } = weightedMoments(rows, gamma.map(g => g[j]));
+                return total > 1e-9 ? { mean, variance } : params.states[j];
+            }),
+        };
+
+        const previous = pass.logLikelihood;
+        pass = forwardBackward(rows, params);
+        if (Math.abs(pass.logLikelihood - previous) < 1e-4) break;
+    }
+
+    const weights = Array.from({ length: k }, (_, j) => pass.gamma.reduce((sum, g) => sum + g[j], 0) / rows.length);
+    return { ...params, logLikelihood: pass.logLikelihood, weights };
+}
+
+// ============================================================================
+// STATE LABELING
+// ============================================================================
+
+/**
+ * Map a state's standardized mean onto the MarketRegime union.
+ * Quiet, directionless states have no rule-based counterpart and stay UNKNOWN (neutral adjustments).
+ */
+export function labelRegimeState(mean: number[], features: RegimeFeatureName[]): MarketRegime {
+    const value = (name: RegimeFeatureName) => {
+        const index = features.indexOf(name);
+        return index >= 0 ? mean[index] : 0;
+    };
+    const ret = value('return');
+    const vol = value('volatility');
+    const oi = value('oiChange');
+    const hasOI = features.includes('oiChange');
+
+    if (vol > 0.75 && ret > 0.5) return 'RECOVERY_PUMP';
+    if (vol > 0.5 && Math.abs(ret) <= 0.5) return 'HIGH_VOL_CHOP';
+    if (ret > 0.25) return hasOI && oi < -0.25 ? 'DISTRIBUTION' : 'BULL_TREND';
+    if (ret < -0.25) return hasOI && oi > 0.25 ? 'ACCUMULATION' : 'BEAR_TREND';
+    return 'UNKNOWN';
+}
+
+// ============================================================================
+// FIT & CLASSIFY
+// ============================================================================
+
+/**
+ * Fit a regime model on a candle history (oldest first). Null when there are too few bars.
+ */
+export function fitRegimeModel(candles: OHLCV[], options: RegimeModelOptions = {}): RegimeModel | null {
+    const settings = { ...DEFAULT_REGIME_MODEL, ...options };
+    const series = extractRegimeFeatures(candles, settings);
+    if (series.rows.length < Math.max(MIN_TRAINING_ROWS, settings.states * 5)) return null;
+
+    const scaling = fitScaling(series.rows);
+    const rows = standardize(series.rows, scaling);
+    const clusters = fitKMeans(rows, settings.states, settings.iterations, settings.seed);
+
+    let states: { mean: number[]; variance: number[]; weight: number }[] = clusters;
+    let initial = clusters.map(c => c.weight);
+    let transition: number[][] | null = null;
+    let logLikelihood: number;
+
+    if (settings.method === 'HMM') {
+        const hmm = fitHmm(rows, clusters, settings.iterations);
+        states = hmm.states.map((s, j) => ({ ...s, weight: hmm.weights[j] }));
+        initial = hmm.initial;
+        transition = hmm.transition;
+        logLikelihood = hmm.logLikelihood;
+    } else {
+        logLikelihood = rows.reduce((sum, x) => {
+            const { probs, offset } = emissions(x, clusters);
+            return sum + Math.log(probs.reduce((s, p, j) => s + p * clusters[j].weight, 0)) + offset;
+        }, 0);
+    }
+
+    return {
+        method: settings.method,
+        features: series.names,
+        returnBars: settings.returnBars,
+        volatilityBars: settings.volatilityBars,
+        scaling,
+        states: states.map(s => ({ ...s, regime: labelRegimeState(s.mean, series.names) })),
+        initial,
+        transition,
+        logLikelihood,
+        trainedBars: rows.length,
+        trainedFrom: series.timestamps[0],
+        trainedTo: series.timestamps[series.timestamps.length - 1],
+    };
+}
+
+/**
+ * Classify every bar with full feature windows. HMM posteriors are filtered (causal);
+ * k-means posteriors weigh each cluster by its share of the training bars.
+ */
+export function classifyRegimeSeries(model: RegimeModel, candles: OHLCV[], extras: RegimeFeatureExtras = {}): RegimeClassification[] {
+    const series = extractRegimeFeatures(candles, {
+        returnBars: model.returnBars,
+        volatilityBars: model.volatilityBars,
+        funding: model.features.includes('funding') ? extras.funding ?? candles.map(() => null) : undefined,
+        oiChange: model.features.includes('oiChange') ? extras.oiChange ?? candles.map(() => null) : undefined,
+    });
+    const rows = standardize(series.rows, model.scaling);
+    const k = model.states.length;
+    const results: RegimeClassification[] = [];
+    let filtered: number[] | null = null;
+
+    rows.forEach((x, t) => {
+        const { probs } = emissions(x, model.states);
+        const prior: number[] = model.transition && filtered
+            ? Array.from({ length: k }, (_, j) => filtered!.reduce((sum, a, i) => sum + a * model.transition![i][j], 0))
+            : model.transition ? model.initial : model.states.map(s => s.weight);
+        const posterior = normalize(prior.map((p, j) => p * probs[j])).normalized;
+        if (model.transition) filtered = posterior;
+
+        const state = posterior.reduce((best, p, j) => (p > posterior[best] ? j : best), 0);
+        const regime = model.states[state].regime;
+        const confidence = posterior.reduce((sum, p, j) => sum + (model.states[j].regime === regime ? p : 0), 0);
+
+        results.push({ timestamp: series.timestamps[t], state, regime, confidence: Math.round(confidence * 1000) / 1000 });
+    });
+
+    return results;
+}
+
+/**
+ * Classification of the latest bar (null when the history is too short)
+ */
+export function classifyLatestRegime(model: RegimeModel, candles: OHLCV[], extras: RegimeFeatureExtras = {}): RegimeClassification | null {
+    const series = classifyRegimeSeries(model, candles, extras);
+    return series[series.length - 1] ?? null;
+}
+
+// ============================================================================
+// BACKTEST A/B
+// ============================================================================
+
+/**
+ * Resolver that follows a classification series (latest classified bar at or before the timestamp)
+ */
+export function modelRegimeResolver(classifications: RegimeClassification[]): RegimeResolver {
+    return (timestamp: number) => {
+        let lo = 0;
+        let hi = classifications.length - 1;
+        let found = -1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            if (classifications[mid].timestamp <= timestamp) {
+                found = mid;
+                lo = mid + 1;
+            } else {
+                hi = mid - 1;
+            }
+        }
+        return found >= 0 ? classifications[found].regime : 'UNKNOWN';
+    };
+}
+
+/**
+ * Replay detectMarketRegime bar by bar over BTC candles.
+ * Only BTC is replayed — altcoin breadth, funding and OI count as neutral.
+ */
+export function ruleRegimeResolver(btcCandles: OHLCV[], windowSize: number = 100): RegimeResolver {
+    const series: RegimeClassification[] = btcCandles.map((bar, i) => {
+        const analysis = detectMarketRegime({
+            btcData: btcCandles.slice(Math.max(0, i - windowSize + 1), i + 1),
+            altcoinChanges: [],
+            avgFunding: 0,
+            avgOIChange: 0,
+        });
+        return { timestamp: bar.timestamp, state: -1, regime: analysis.regime, confidence: analysis.confidence };
+    });
+    return modelRegimeResolver(series);
+}
+
+/**
+ * Backtest the same coins under the rule-based and the model regimes.
+ * Fit the model on bars before the backtest window so the comparison has no look-ahead.
+ */
+export function compareRegimeClassifiers(
+    coinData: { coin: string; data: OHLCV[] }[],
+    btcCandles: OHLCV[],
+    model: RegimeModel,
+    options: Omit<BacktestOptions, 'regime'> = {}
+): RegimeComparison {
+    const classifications = classifyRegimeSeries(model, btcCandles);
+    const rule = ruleRegimeResolver(btcCandles);
+    const agreed = classifications.filter(c => rule(c.timestamp) === c.regime).length;
+
+    return {
+        rule: runBacktest(coinData, { ...options, regime: rule }).summary,
+        model: runBacktest(coinData, { ...options, regime: modelRegimeResolver(classifications) }).summary,
+        agreement: classifications.length > 0 ? Math.round((agreed / classifications.length) * 1000) / 1000 : 0,
+        bars: classifications.length,
+    };
+}
@@ -0,0 +1,114 @@
+/**
+ * LISAN INTELLIGENCE — Indicator Registry Tests
+ *
+ * Tests registry consistency and learning attribution rules.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { INDICATORS, CONTEXT_VALUES, getIndicator, getCategoryDisplays } from './registry';
+import { DEFAULT_WEIGHTS, generateSignal } from './scoring';
+import { OHLCV } from './indicators';
+
+function makeData(length: number): OHLCV[] {
+    const data: OHLCV[] = [];
+    let price = 100;
+    for (let i = 0; i < length; i++) {
+        const open = price;
+        price = price * (1 + Math.sin(i / 5) * 0.01);
+        data.push({
+            open,
+            high: Math.max(open, price) * 1.004,
+            low: Math.min(open, price) * 0.996,
+            close: price,
+            volume: 1000 + (i % 9) * 100,
+            timestamp: i * 4 * 3600000,
+        });
+    }
+    return data;
+}
+
+// ============================================================================
+// CONSISTENCY
+// ============================================================================
+
+describe('INDICATORS', () => {
+    it('has unique ids', () => {
+        const ids = INDICATORS.map(def => def.id);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('DEFAULT_WEIGHTS scales the registry weights to 100 and keeps their ratios', () => {
+        const total = INDICATORS.reduce((sum, def) => sum + def.defaultWeight, 0);
+        for (const def of INDICATORS) {
+            expect(DEFAULT_WEIGHTS[def.id]).toBeCloseTo(def.defaultWeight * 100 / total, 10);
+        }
+    });
+
+    it('every snapshot key produced by generateSignal is declared in the registry', () => {
+        const signal = generateSignal(makeData(100), 'BTC');
+        const declared = new Set([
+            ...INDICATORS.flatMap(def => def.display.map(d => d.key)),
+            ...CONTEXT_VALUES.map(ctx => ctx.key),
+            'agreement',
+        ]);
+        for (const key of Object.keys(signal.indicators)) {
+            expect(declared.has(key)).toBe(true);
+        }
+    });
+
+    it('positioning indicators are unavailable without Hyperliquid context', () => {
+        const data = makeData(100);
+        const input = { data, closes: data.map(d => d.close), fearGreedIndex: null, hlContext: null, crossAsset: null };
+        for (const def of INDICATORS.filter(d => d.category === 'positioning')) {
+            expect(def.compute(input).result).toBeNull();
+        }
+    });
+
+    it('groups displays by category', () => {
+        const trend = getCategoryDisplays('trend').map(d => d.key);
+        expect(trend).toEqual([
+            'emaAlignment', 'ichimoku', 'adx', 'plusDI', 'minusDI', 'bollinger', 'anchoredVwap',
+            'relativeStrength', 'rsPercentile', 'btcCorrelation', 'btcBeta',
+        ]);
+        expect(getCategoryDisplays('sentiment')).toHaveLength(0);
+    });
+});
+
+// ============================================================================
+// LEARNING RULES
+// ============================================================================
+
+describe('learning attribution', () => {
+    it('RSI keeps its asymmetric loss/win thresholds', () => {
+        const rsi = getIndicator('rsi')!.learning!;
+        expect(rsi.wrongOnLoss('LONG', 35, {})).toBe(true);
+        expect(rsi.wrongOnLoss('LONG', 45, {})).toBe(false);
+        expect(rsi.rightOnWin('LONG', 55, {})).toBe(true);
+    });
+
+    it('ADX only attributes strong trends whose DI matched the signal', () => {
+        const adx = getIndicator('adx')!.learning!;
+        expect(adx.wrongOnLoss('LONG', 30, { plusDI: 25, minusDI: 15 })).toBe(true);
+        expect(adx.wrongOnLoss('SHORT', 30, { plusDI: 25, minusDI: 15 })).toBe(false);
+        expect(adx.wrongOnLoss('LONG', 20, { plusDI: 25, minusDI: 15 })).toBe(false);
+        expect(adx.wrongOnLoss('LONG', 30, {})).toBe(false);
+    });
+
+    it('funding is contrarian', () => {
+        const funding = getIndicator('fundingRate')!.learning!;
+        expect(funding.wrongOnLoss('LONG', -0.2, {})).toBe(true);
+        expect(funding.rightOnWin('SHORT', 0.4, {})).toBe(true);
+    });
+
+    it('divergence attributes by its net direction', () => {
+        const divergence = getIndicator('divergence')!.learning!;
+        expect(divergence.wrongOnLoss('LONG', 2, {})).toBe(true);
+        expect(divergence.rightOnWin('SHORT', -1, {})).toBe(true);
+        expect(divergence.rightOnWin('LONG', 0, {})).toBe(false);
+    });
+
+    it('indicators without a rule are never attributed', () => {
+        expect(getIndicator('stochRSI')!.learning).toBeUndefined();
+        expect(getIndicator('zScore')!.learning).toBeUndefined();
+    });
+});
@@ -0,0 +1,667 @@
+/**
+ * LISAN INTELLIGENCE — Indicator Registry
+ *
+ * Single declaration point for every weighted indicator: id, category,
+ * default weight, compute function, snapshot values, learning attribution
+ * and display metadata. Scoring, the learning cron, the learning page and
+ * SignalDetailModal are all driven from this list.
+ *
+ * Adding an indicator = adding one entry here.
+ */
+
+import {
+    OHLCV,
+    IndicatorResult,
+    RSI, StochasticRSI, MACD, WilliamsR, CCI,
+    EMAAlignment, BollingerPosition, IchimokuCloud, ADX,
+    AnchoredVWAP, interpretAnchoredVWAP,
+    OBVTrend, VolumeRatio, VolumeProfile, interpretValueArea,
+    ATR, ZScore,
+} from './indicators';
+import {
+    FundingRateSignal,
+    OIChangeSignal,
+    BasisPremiumSignal,
+    HLVolumeMomentumSignal,
+    FundingVelocityBoost,
+} from './hyperliquidData';
+import { findVWAPAnchor } from './risk';
+import { Divergence } from './divergence';
+import { analyzePatterns, PATTERN_IDS } from './patterns';
+import { RelativeStrength, CrossAssetStats } from './correlation';
+import type { HyperliquidContext } from './scoring';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type IndicatorCategory = 'momentum' | 'trend' | 'volume' | 'sentiment' | 'positioning' | 'structure' | 'volatility';
+
+export type DisplaySignal = 'bullish' | 'bearish' | 'neutral';
+
+/** Everything an indicator may read when computing */
+export interface IndicatorInput {
+    data: OHLCV[];
+    closes: number[];
+    fearGreedIndex: number | null;
+    hlContext: HyperliquidContext | null;
+    crossAsset: CrossAssetStats | null;   // This coin vs BTC and the curated basket
+}
+
+export interface IndicatorOutput {
+    result: IndicatorResult | null;      // null = unavailable, excluded from its category max
+    snapshot: Record<string, number>;    // Raw values stored in indicator_snapshot (for learning)
+}
+
+/**
+ * Learning attribution for a closed signal.
+ * `value` is the indicator's own snapshot value; `snapshot` gives access to companion values (e.g. ±DI).
+ */
+export interface LearningRule {
+    wrongOnLoss: (direction: string, value: number, snapshot: Record<string, number>) => boolean;
+    rightOnWin: (direction: string, value: number, snapshot: Record<string, number>) => boolean;
+}
+
+/** How a snapshot value is presented in SignalDetailModal */
+export interface SnapshotDisplay {
+    key: string;
+    label: string;
+    format: (v: number) => string;
+    signal: (v: number) => DisplaySignal;
+}
+
+export interface IndicatorDefinition<Id extends string = string> {
+    id: Id;
+    label: string;
+    category: IndicatorCategory;
+    defaultWeight: number;      // Relative points — DEFAULT_WEIGHTS scales the registry to 100
+    compute: (input: IndicatorInput) => IndicatorOutput;
+    learning?: LearningRule;
+    display: SnapshotDisplay[];
+}
+
+/** Unweighted values stored alongside indicators (risk sizing, context) */
+export interface ContextValue {
+    key: string;
+    category: IndicatorCategory;
+    compute: (input: IndicatorInput) => number;
+    display: SnapshotDisplay;
+}
+
+// ============================================================================
+// SHARED RULES
+// ============================================================================
+
+const isBullish = (v: number): DisplaySignal => v > 0 ? 'bullish' : v < 0 ? 'bearish' : 'neutral';
+
+const formatPrice = (v: number): string =>
+    v >= 1000 ? '$' + (v / 1000).toFixed(1) + 'K' : v >= 1 ? '$' + v.toFixed(2) : '$' + v.toFixed(4);
+
+/** Positive value backs LONG, negative backs SHORT — wrong on a loss and right on a win alike */
+const signedRule: LearningRule = {
+    wrongOnLoss: (direction, value) =>
+        (direction === 'LONG' && value > 0) || (direction === 'SHORT' && value < 0),
+    rightOnWin: (direction, value) =>
+        (direction === 'LONG' && value > 0) || (direction === 'SHORT' && value < 0),
+};
+
+/** Contrarian: negative value backs LONG, positive backs SHORT */
+const contrarianRule: LearningRule = {
+    wrongOnLoss: (direction, value) =>
+        (direction === 'LONG' && value < 0) || (direction === 'SHORT' && value > 0),
+    rightOnWin: (direction, value) =>
+        (direction === 'LONG' && value < 0) || (direction === 'SHORT' && value > 0),
+};
+
+/** Value above `pivot` backs LONG, below backs SHORT */
+function pivotRule(pivot: number): LearningRule {
+    return {
+        wrongOnLoss: (direction, value) =>
+            (direction === 'LONG' && value > pivot) || (direction === 'SHORT' && value < pivot),
+        rightOnWin: (direction, value) =>
+            (direction === 'LONG' && value > pivot) || (direction === 'SHORT' && value < pivot),
+    };
+}
+
+const PATTERN_LABELS: Record<(typeof PATTERN_IDS)[number], string> = {
+    engulfing: 'Engulfing',
+    pinBar: 'Pin Bar',
+    insideBar: 'Inside Bar',
+    doubleTopBottom: 'Double Top / Bottom',
+    swingStructure: 'HH/HL Structure',
+    rangeBreakout: 'Range Breakout',
+};
+
+/** HL-derived indicators are unavailable without Hyperliquid context */
+const NO_HL_OUTPUT = (key: string): IndicatorOutput => ({ result: null, snapshot: { [key]: 0 } });
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const INDICATOR_REGISTRY = [
+    // ── Momentum (29 points) ──
+    {
+        id: 'rsi',
+        label: 'RSI (14)',
+        category: 'momentum',
+        defaultWeight: 6,
+        compute: ({ closes }) => {
+            const result = RSI(closes);
+            return { result, snapshot: { rsi: result.value } };
+        },
+        learning: {
+            wrongOnLoss: (direction, value) =>
+                (direction === 'LONG' && value < 40) || (direction === 'SHORT' && value > 60),
+            rightOnWin: (direction, value) =>
+                (direction === 'LONG' && value > 50) || (direction === 'SHORT' && value < 50),
+        },
+        display: [{
+            key: 'rsi', label: 'RSI (14)',
+            format: v => v.toFixed(1),
+            signal: v => v < 40 ? 'bullish' : v > 60 ? 'bearish' : 'neutral',
+        }],
+    },
+    {
+        id: 'stochRSI',
+        label: 'Stochastic RSI',
+        category: 'momentum',
+        defaultWeight: 5,
+        compute: ({ closes }) => {
+            const result = StochasticRSI(closes);
+            return { result, snapshot: { stochRSI: result.value } };
+        },
+        display: [{
+            key: 'stochRSI', label: 'Stochastic RSI',
+            format: v => v.toFixed(2),
+            signal: v => v < 0.3 ? 'bullish' : v > 0.7 ? 'bearish' : 'neutral',
+        }],
+    },
+    {
+        id: 'macd',
+        label: 'MACD Histogram',
+        category: 'momentum',
+        defaultWeight: 6,
+        compute: ({ closes }) => {
+            const macd = MACD(closes);
+            return { result: macd.result, snapshot: { macd: macd.histogram } };
+        },
+        learning: signedRule,
+        display: [{
+            key: 'macd', label: 'MACD Histogram',
+            format: v => v.toFixed(4),
+            signal: isBullish,
+        }],
+    },
+    {
+        id: 'williamsR',
+        label: 'Williams %R',
+        category: 'momentum',
+        defaultWeight: 4,
+        compute: ({ data }) => {
+            const result = WilliamsR(data);
+            return { result, snapshot: { williamsR: result.value } };
+        },
+        display: [{
+            key: 'williamsR', label: 'Williams %R',
+            format: v => v.toFixed(1),
+            signal: v => v < -70 ? 'bullish' : v > -30 ? 'bearish' : 'neutral',
+        }],
+    },
+    {
+        id: 'cci',
+        label: 'CCI (20)',
+        category: 'momentum',
+        defaultWeight: 4,
+        compute: ({ data }) => {
+            const result = CCI(data);
+            return { result, snapshot: { cci: result.value } };
+        },
+        display: [{
+            key: 'cci', label: 'CCI (20)',
+            format: v => v.toFixed(1),
+            signal: v => v < -100 ? 'bullish' : v > 100 ? 'bearish' : 'neutral',
+        }],
+    },
+    {
+        id: 'divergence',
+        label: 'Divergence',
+        category: 'momentum',
+        defaultWeight: 4,
+        compute: ({ data }) => {
+            const { result } = Divergence(data);
+            return { result, snapshot: { divergence: result.value } };
+        },
+        // Net bullish (> 0) backs LONG, net bearish backs SHORT
+        learning: signedRule,
+        display: [{
+            key: 'divergence', label: 'RSI/MACD/OBV Divergence',
+            format: v => v === 0 ? 'None' : (v > 0 ? 'Bullish' : 'Bearish') + ' ×' + Math.abs(v),
+            signal: isBullish,
+        }],
+    },
+
+    // ── Trend (31 points) ──
+    {
+        id: 'emaAlignment',
+        label: 'EMA Alignment',
+        category: 'trend',
+        defaultWeight: 7,
+        compute: ({ closes }) => {
+            const result = EMAAlignment(closes);
+            return { result, snapshot: { emaAlignment: result.value } };
+        },
+        learning: pivotRule(50),
+        display: [{
+            key: 'emaAlignment', label: 'EMA Alignment',
+            format: v => v > 0 ? 'Bullish' : v < 0 ? 'Bearish' : 'Flat',
+            signal: isBullish,
+        }],
+    },
+    {
+        id: 'ichimoku',
+        label: 'Ichimoku Cloud',
+        category: 'trend',
+        defaultWeight: 8,
+        compute: ({ data }) => {
+            const ichimoku = IchimokuCloud(data);
+            return { result: ichimoku.result, snapshot: { ichimoku: ichimoku.result.value } };
+        },
+        learning: signedRule,
+        display: [{
+            key: 'ichimoku', label: 'Ichimoku Cloud',
+            format: v => v > 0 ? 'Above Cloud' : v < 0 ? 'Below Cloud' : 'In Cloud',
+            signal: isBullish,
+        }],
+    },
+    {
+        id: 'adx',
+        label: 'ADX',
+        category: 'trend',
+        defaultWeight: 6,
+        compute: ({ data }) => {
+            const adx = ADX(data);
+            return {
+                result: adx.result,
+                snapshot: { adx: adx.adx, plusDI: adx.plusDI, minusDI: adx.minusDI },
+            };
+        },
+        learning: {
+            // Only attribute a strong trend (ADX > 25) whose ±DI direction matched the signal.
+            // Legacy signals without ±DI are never attributed.
+            wrongOnLoss: (direction, value, snapshot) => adxMatched(direction, value, snapshot),
+            rightOnWin: (direction, value, snapshot) => adxMatched(direction, value, snapshot),
+        },
+        display: [
+            {
+                key: 'adx', label: 'ADX',
+                format: v => v.toFixed(1),
+                signal: v => v > 25 ? 'bullish' : 'neutral', // ADX measures trend strength, not direction
+            },
+            {
+                key: 'plusDI', label: '+DI',
+                format: v => v.toFixed(1),
+                signal: () => 'neutral', // Context indicator — shown with ADX
+            },
+            {
+                key: 'minusDI', label: '-DI',
+                format: v => v.toFixed(1),
+                signal: () => 'neutral',
+            },
+        ],
+    },
+    {
+        id: 'bollinger',
+        label: 'Bollinger %B',
+        category: 'trend',
+        defaultWeight: 4,
+        compute: ({ closes }) => {
+            const bollinger = BollingerPosition(closes);
+            return { result: bollinger.result, snapshot: { bollinger: bollinger.position } };
+        },
+        display: [{
+            key: 'bollinger', label: 'Bollinger %B',
+            format: v => v.toFixed(2),
+            signal: v => v < 0.2 ? 'bullish' : v > 0.8 ? 'bearish' : 'neutral',
+        }],
+    },
+    {
+        id: 'anchoredVwap',
+        label: 'Anchored VWAP',
+        category: 'trend',
+        defaultWeight: 3,
+        compute: ({ data, closes }) => {
+            const vwap = AnchoredVWAP(data, findVWAPAnchor(data));
+            const result = interpretAnchoredVWAP(closes[closes.length - 1] ?? 0, vwap, ATR(data));
+            return { result, snapshot: { anchoredVwap: result.value } };
+        },
+        learning: signedRule,
+        display: [{
+            key: 'anchoredVwap', label: 'Anchored VWAP',
+            format: v => (v > 0 ? 'Above +' : v < 0 ? 'Below ' : 'At ') + v.toFixed(2) + '%',
+            signal: isBullish,
+        }],
+    },
+    {
+        id: 'relativeStrength',
+        label: 'Relative Strength',
+        category: 'trend',
+        defaultWeight: 3,
+        compute: ({ crossAsset }): IndicatorOutput => {
+            // Needs the rest of the basket — unavailable for a single-coin run
+            if (!crossAsset) return { result: null, snapshot: {} };
+            const result = RelativeStrength(crossAsset);
+            return {
+                result,
+                snapshot: {
+                    relativeStrength: result.value,
+                    rsPercentile: crossAsset.percentile,
+                    btcCorrelation: crossAsset.correlationBtc,
+                    btcBeta: crossAsset.betaBtc,
+                },
+            };
+        },
+        learning: signedRule,
+        display: [
+            {
+                key: 'relativeStrength', label: 'Relative Strength',
+                format: v => (v > 0 ? '+' : '') + v.toFixed(2) + '% vs basket',
+                signal: isBullish,
+            },
+            {
+                key: 'rsPercentile', label: 'RS Percentile',
+                format: v => Math.round(v * 100) + '%',
+                signal: v => v >= 2 / 3 ? 'bullish' : v <= 1 / 3 ? 'bearish' : 'neutral',
+            },
+            { key: 'btcCorrelation', label: 'BTC Correlation', format: v => v.toFixed(2), signal: () => 'neutral' },
+            { key: 'btcBeta', label: 'BTC Beta', format: v => v.toFixed(2), signal: () => 'neutral' },
+        ],
+    },
+
+    // ── Volume (19 points) ──
+    {
+        id: 'obvTrend',
+        label: 'OBV Trend',
+        category: 'volume',
+        defaultWeight: 10,
+        compute: ({ data }) => {
+            const result = OBVTrend(data);
+            return { result, snapshot: { obvTrend: result.value } };
+        },
+        learning: pivotRule(1),
+        display: [{
+            key: 'obvTrend', label: 'OBV Trend',
+            format: v => v > 0 ? 'Rising ↑' : v < 0 ? 'Falling ↓' : 'Flat',
+            signal: isBullish,
+        }],
+    },
+    {
+        id: 'volumeRatio',
+        label: 'Volume Ratio',
+        category: 'volume',
+        defaultWeight: 6,
+        compute: ({ data }) => {
+            const result = VolumeRatio(data);
+            return { result, snapshot: { volumeRatio: result.value } };
+        },
+        learning: pivotRule(1),
+        display: [{
+            key: 'volumeRatio', label: 'Volume Ratio',
+            format: v => v.toFixed(2) + 'x',
+            signal: v => v > 1.2 ? 'bullish' : v < 0.8 ? 'bearish' : 'neutral',
+        }],
+    },
+    {
+        id: 'volumeProfile',
+        label: 'Volume Profile',
+        category: 'volume',
+        defaultWeight: 3,
+        compute: ({ data, closes }) => {
+            const profile = VolumeProfile(data);
+            const result = interpretValueArea(closes[closes.length - 1] ?? 0, profile.valueAreaHigh, profile.valueAreaLow);
+            return {
+                result,
+                snapshot: {
+                    volumeProfile: result.value,
+                    poc: profile.poc,
+                    valueAreaHigh: profile.valueAreaHigh,
+                    valueAreaLow: profile.valueAreaLow,
+                },
+            };
+        },
+        learning: {
+            // Acceptance above the value area backs LONG, below backs SHORT
+            wrongOnLoss: (direction, value) =>
+                (direction === 'LONG' && value > 1) || (direction === 'SHORT' && value < 0),
+            rightOnWin: (direction, value) =>
+                (direction === 'LONG' && value > 1) || (direction === 'SHORT' && value < 0),
+        },
+        display: [
+            {
+                key: 'volumeProfile', label: 'Value Area Position',
+                format: v => v > 1 ? 'Above VA' : v < 0 ? 'Below VA' : 'Inside VA',
+                signal: v => v > 1 ? 'bullish' : v < 0 ? 'bearish' : 'neutral',
+            },
+            { key: 'poc', label: 'Point of Control', format: formatPrice, signal: () => 'neutral' },
+            { key: 'valueAreaHigh', label: 'Value Area High', format: formatPrice, signal: () => 'neutral' },
+            { key: 'valueAreaLow', label: 'Value Area Low', format: formatPrice, signal: () => 'neutral' },
+        ],
+    },
+
+    // ── Volatility (10 points — reported, not scored) ──
+    {
+        id: 'zScore',
+        label: 'Z-Score',
+        category: 'volatility',
+        defaultWeight: 10,
+        compute: ({ closes }) => {
+            const result = ZScore(closes);
+            return { result, snapshot: { zScore: result.value } };
+        },
+        display: [{
+            key: 'zScore', label: 'Z-Score',
+            format: v => v.toFixed(2),
+            signal: v => v > 2 ? 'bearish' : v < -2 ? 'bullish' : 'neutral',
+        }],
+    },
+
+    // ── Sentiment (8 points) ──
+    {
+        id: 'fearGreed',
+        label: 'Fear & Greed',
+        category: 'sentiment',
+        defaultWeight: 8,
+        compute: ({ fearGreedIndex }) => {
+            // No reading still counts toward the sentiment max (scores 0)
+            if (fearGreedIndex === null) {
+                return { result: { value: 0, signal: 'neutral', strength: 0 }, snapshot: {} };
+            }
+            // Contrarian across the full range: fear (<50) = bullish, greed (>50) = bearish
+            if (fearGreedIndex < 50) {
+                return { result: { value: fearGreedIndex, signal: 'bullish', strength: (50 - fearGreedIndex) / 50 }, snapshot: {} };
+            }
+            if (fearGreedIndex > 50) {
+                return { result: { value: fearGreedIndex, signal: 'bearish', strength: (fearGreedIndex - 50) / 50 }, snapshot: {} };
+            }
+            return { result: { value: fearGreedIndex, signal: 'neutral', strength: 0 }, snapshot: {} };
+        },
+        learning: {
+            // Greedy LONG / fearful SHORT
+            wrongOnLoss: (direction, value) =>
+                (direction === 'LONG' && value > 60) || (direction === 'SHORT' && value < 40),
+            rightOnWin: (direction, value) =>
+                (direction === 'LONG' && value > 60) || (direction === 'SHORT' && value < 40),
+        },
+        display: [],
+    },
+
+    // ── Positioning (16 points — Hyperliquid) ──
+    {
+        id: 'fundingRate',
+        label: 'Funding Rate',
+        category: 'positioning',
+        defaultWeight: 6,
+        compute: ({ hlContext }) => {
+            if (!hlContext) return NO_HL_OUTPUT('fundingRate');
+            const result = FundingRateSignal(hlContext.annualizedFunding);
+            // Velocity boost when previous funding is known
+            if (hlContext.prevFunding !== undefined) {
+                result.strength *= FundingVelocityBoost(hlContext.annualizedFunding, hlContext.prevFunding);
+            }
+            return { result, snapshot: { fundingRate: result.value } };
+        },
+        learning: contrarianRule,
+        display: [{
+            key: 'fundingRate', label: 'Funding Rate',
+            format: v => (v * 100).toFixed(4) + '%',
+            signal: v => v > 0.3 ? 'bearish' : v < -0.1 ? 'bullish' : 'neutral', // Contrarian
+        }],
+    },
+    {
+        id: 'oiChange',
+        label: 'OI Change',
+        category: 'positioning',
+        defaultWeight: 4,
+        compute: ({ hlContext }) => {
+            if (!hlContext) return NO_HL_OUTPUT('oiChange');
+            // Without a previous OI reading the signal is neutral but still counts toward the max
+            if (hlContext.prevOpenInterest === undefined || hlContext.priceChange === undefined) {
+                return { result: { value: 0, signal: 'neutral', strength: 0 }, snapshot: { oiChange: 0 } };
+            }
+            const result = OIChangeSignal(hlContext.openInterest, hlContext.prevOpenInterest, hlContext.priceChange);
+            return { result, snapshot: { oiChange: result.value } };
+        },
+        learning: signedRule,
+        display: [{
+            key: 'oiChange', label: 'OI Change',
+            format: v => v === 0 ? 'N/A' : (v > 0 ? '+' : '') + v.toFixed(2) + '%',
+            signal: v => v === 0 ? 'neutral' : v > 0 ? 'bullish' : 'bearish',
+        }],
+    },
+    {
+        id: 'basisPremium',
+        label: 'Basis Premium',
+        category: 'positioning',
+        defaultWeight: 3,
+        compute: ({ hlContext }) => {
+            if (!hlContext || hlContext.premium === undefined) return NO_HL_OUTPUT('basisPremium');
+            const result = BasisPremiumSignal(hlContext.premium);
+            return { result, snapshot: { basisPremium: result.value } };
+        },
+        learning: contrarianRule,
+        display: [{
+            key: 'basisPremium', label: 'Basis Premium',
+            format: v => v === 0 ? 'N/A' : (v * 100).toFixed(3) + '%',
+            signal: v => v === 0 ? 'neutral' : v > 0.001 ? 'bearish' : v < -0.001 ? 'bullish' : 'neutral',
+        }],
+    },
+    {
+        id: 'hlVolume',
+        label: 'HL Volume Signal',
+        category: 'positioning',
+        defaultWeight: 3,
+        compute: ({ hlContext }) => {
+            if (!hlContext || hlContext.volume24h === undefined || hlContext.avgVolume === undefined || hlContext.priceChange === undefined) {
+                return NO_HL_OUTPUT('hlVolume');
+            }
+            const result = HLVolumeMomentumSignal(hlContext.volume24h, hlContext.avgVolume, hlContext.priceChange);
+            return { result, snapshot: { hlVolume: result.value } };
+        },
+        learning: {
+            // Volume > 1.5x confirmed the move in either direction
+            wrongOnLoss: (_direction, value) => value > 1.5,
+            rightOnWin: (_direction, value) => value > 1.5,
+        },
+        display: [{
+            key: 'hlVolume', label: 'HL Volume Signal',
+            format: v => v === 0 ? 'N/A' : v > 0 ? 'Bullish' : 'Bearish',
+            signal: isBullish,
+        }],
+    },
+
+    // ── Structure (4 points — only counted when a pattern is present) ──
+    {
+        id: 'structure',
+        label: 'Price Patterns',
+        category: 'structure',
+        defaultWeight: 4,
+        compute: ({ data }) => {
+            const { patterns, result } = analyzePatterns(data);
+            const snapshot: Record<string, number> = { structure: result?.value ?? 0 };
+            for (const id of PATTERN_IDS) {
+                snapshot[`pattern_${id}`] = patterns[id].value;
+            }
+            return { result, snapshot };
+        },
+        learning: signedRule,
+        display: [
+            {
+                key: 'structure', label: 'Net Pattern Bias',
+                format: v => v === 0 ? 'None' : (v > 0 ? '+' : '') + v.toFixed(2),
+                signal: isBullish,
+            },
+            ...PATTERN_IDS.map((id): SnapshotDisplay => ({
+                key: `pattern_${id}`,
+                label: PATTERN_LABELS[id],
+                format: v => v > 0 ? 'Bullish' : v < 0 ? 'Bearish' : '—',
+                signal: isBullish,
+            })),
+        ],
+    },
+] as const satisfies readonly IndicatorDefinition[];
+
+export type IndicatorId = (typeof INDICATOR_REGISTRY)[number]['id'];
+
+/** Registry typed for iteration */
+export const INDICATORS: readonly IndicatorDefinition<IndicatorId>[] = INDICATOR_REGISTRY;
+
+/**
+ * Unweighted snapshot values (not scored, not learned)
+ */
+export const CONTEXT_VALUES: readonly ContextValue[] = [
+    {
+        key: 'atr',
+        category: 'volatility',
+        compute: ({ data }) => ATR(data),
+        display: {
+            key: 'atr', label: 'ATR (14)',
+            format: formatPrice,
+            signal: () => 'neutral', // Volatility doesn't have direction
+        },
+    },
+];
+
+/** Categories that contribute to the signal score (volatility is used for SL/TP sizing only) */
+export const SCORED_CATEGORIES = ['momentum', 'trend', 'volume', 'sentiment', 'positioning', 'structure'] as const;
+
+export type ScoredCategory = typeof SCORED_CATEGORIES[number];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function adxMatched(direction: string, value: number, snapshot: Record<string, number>): boolean {
+    if (value <= 25) return false;
+    const plusDI = snapshot['plusDI'];
+    const minusDI = snapshot['minusDI'];
+    if (plusDI === undefined || minusDI === undefined) return false;
+    const adxDirection = plusDI > minusDI ? 'LONG' : 'SHORT';
+    return adxDirection === direction;
+}
+
+/**
+ * Look up an indicator definition by id
+ */
+export function getIndicator(id: string): IndicatorDefinition<IndicatorId> | undefined {
+    return INDICATORS.find(def => def.id === id);
+}
+
+/**
+ * Snapshot display metadata for every indicator and context value in a category
+ */
+export function getCategoryDisplays(category: IndicatorCategory): SnapshotDisplay[] {
+    return [
+        ...INDICATORS.filter(def => def.category === category).flatMap(def => def.display),
+        ...CONTEXT_VALUES.filter(ctx => ctx.category === category).map(ctx => ctx.display),
+    ];
+}
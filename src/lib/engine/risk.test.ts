@@ -10,6 +10,13 @@ import {
     validateRiskLevels,
     calculatePositionSize,
     findSupportResistance,
+    findVWAPAnchor,
+    atrMultipliersFor,
+    liquidationPrice,
+    maintenanceMarginRate,
+    recommendLeverage,
+    DEFAULT_RISK_POLICY,
+    LIQUIDATION_BUFFER,
 } from './risk';
 import { OHLCV } from './indicators';
 
@@ -94,6 +101,33 @@ describe('calculateRiskLevels', () => {
         const wideSLDist = wide.entryPrice - wide.stopLoss;
         expect(wideSLDist).toBeGreaterThanOrEqual(tightSLDist);
     });
+
+    it('measures levels from an explicit entry price', () => {
+        const levels = calculateRiskLevels(data, 'LONG', 1.5, 3, 123.45);
+        expect(levels.entryPrice).toBe(123.45);
+        expect(levels.stopLoss).toBeLessThan(123.45);
+        expect(levels.takeProfit).toBeGreaterThan(123.45);
+    });
+
+    it('keeps sub-dollar levels off the entry price', () => {
+        const cheap = calculateRiskLevels(makeBars(100, 0.05), 'LONG');
+        expect(cheap.stopLoss).toBeLessThan(cheap.entryPrice);
+        expect(cheap.takeProfit).toBeGreaterThan(cheap.entryPrice);
+    });
+});
+
+// ============================================================================
+// atrMultipliersFor
+// ============================================================================
+
+describe('atrMultipliersFor', () => {
+    it('uses the regime override when one is set', () => {
+        expect(atrMultipliersFor(DEFAULT_RISK_POLICY, 'HIGH_VOL_CHOP')).toEqual({ stopLoss: 2, takeProfit: 4 });
+    });
+
+    it('falls back to the policy default', () => {
+        expect(atrMultipliersFor(DEFAULT_RISK_POLICY, 'BULL_TREND')).toEqual({ stopLoss: 1.5, takeProfit: 3 });
+    });
 });
 
 // ============================================================================
@@ -117,9 +151,33 @@ describe('validateRiskLevels', () => {
             riskPercent: 1,
             rewardPercent: 0.5,
             atrValue: 1,
+            recommendedLeverage: 10,
+            liquidationPrice: 90.5,
+            leverageWarning: null,
         };
-        const result = validateRiskLevels(fakeLevel, 1.5);
+        const result = validateRiskLevels(fakeLevel, { ...DEFAULT_RISK_POLICY, minRiskReward: 1.5 });
+        expect(result.isValid).toBe(false);
+    });
+
+    it('rejects targets closer than the minimum reward', () => {
+        const result = validateRiskLevels({
+            entryPrice: 100, stopLoss: 99.5, takeProfit: 100.9,
+            riskRewardRatio: 1.8, riskPercent: 0.5, rewardPercent: 0.9, atrValue: 0.3,
+            recommendedLeverage: 10, liquidationPrice: 90.5, leverageWarning: null,
+        });
         expect(result.isValid).toBe(false);
+        expect(result.reason).toContain('Reward 0.9%');
+    });
+
+    it('applies custom policy limits', () => {
+        const levels = {
+            entryPrice: 100, stopLoss: 94, takeProfit: 112,
+            riskRewardRatio: 2, riskPercent: 6, rewardPercent: 12, atrValue: 4,
+            recommendedLeverage: 7, liquidationPrice: 90.05, leverageWarning: null,
+        };
+        expect(validateRiskLevels(levels).isValid).toBe(true);
+        expect(validateRiskLevels(levels, { ...DEFAULT_RISK_POLICY, maxRiskPct: 5 }).isValid).toBe(false);
+        expect(validateRiskLevels(levels, { ...DEFAULT_RISK_POLICY, minRiskReward: 2.5 }).isValid).toBe(false);
     });
 });
 
@@ -168,4 +226,86 @@ describe('findSupportResistance', () => {
             expect(typeof sr.supports[0]).toBe('number');
         }
     });
+
+    it('classifies extra levels by side of price', () => {
+        const data = makeBars(100);
+        const currentPrice = data[data.length - 1].close;
+        const sr = findSupportResistance(data, currentPrice, [currentPrice * 0.99, currentPrice * 1.01]);
+        expect(sr.nearestSupport).toBeGreaterThanOrEqual(currentPrice * 0.99);
+        expect(sr.nearestResistance).toBeLessThanOrEqual(currentPrice * 1.01);
+    });
+});
+
+// ============================================================================
+// findVWAPAnchor
+// ============================================================================
+
+describe('findVWAPAnchor', () => {
+    it('anchors at the last swing pivot', () => {
+        const closes = [
+            ...Array.from({ length: 20 }, (_, i) => 100 + i),
+            ...Array.from({ length: 20 }, (_, i) => 118 - i),
+        ];
+        const data: OHLCV[] = closes.map((close, i) => ({
+            open: close, high: close + 1, low: close - 1, close, volume: 1000, timestamp: i,
+        }));
+        expect(findVWAPAnchor(data)).toBe(19);
+    });
+
+    it('falls back to the first bar without pivots', () => {
+        expect(findVWAPAnchor(makeBars(5))).toBe(0);
+    });
+});
+
+// ============================================================================
+// LEVERAGE & LIQUIDATION
+// ============================================================================
+
+describe('liquidation-aware leverage', () => {
+    it('derives maintenance margin from the venue max leverage', () => {
+        expect(maintenanceMarginRate(50)).toBe(0.01);
+        expect(maintenanceMarginRate(10)).toBe(0.05);
+    });
+
+    it('prices isolated liquidation on both sides', () => {
+        // 10× with 1% maintenance: long liquidates ~9.1% down, short ~8.9% up
+        expect(liquidationPrice('LONG', 100, 10, 50)).toBe(90.91);
+        expect(liquidationPrice('SHORT', 100, 10, 50)).toBe(108.91);
+        // An unleveraged long can't be liquidated
+        expect(liquidationPrice('LONG', 100, 1, 50)).toBe(0);
+    });
+
+    it('keeps liquidation the buffer beyond the stop', () => {
+        for (const direction of ['LONG', 'SHORT'] as const) {
+            const stop = direction === 'LONG' ? 97 : 103;
+            const { recommendedLeverage, liquidationPrice: liq, leverageWarning } = recommendLeverage(direction, 100, stop, 50);
+
+            expect(recommendedLeverage).toBe(18);
+            expect(Math.abs(liq - 100)).toBeGreaterThanOrEqual(3 * LIQUIDATION_BUFFER);
+            // One more turn of leverage would breach the buffer
+            expect(Math.abs(liquidationPrice(direction, 100, recommendedLeverage + 1, 50) - 100)).toBeLessThan(3 * LIQUIDATION_BUFFER);
+            expect(leverageWarning).toBeNull();
+        }
+    });
+
+    it('caps at the venue max leverage for tight stops', () => {
+        expect(recommendLeverage('LONG', 100, 99.8, 3).recommendedLeverage).toBe(3);
+    });
+
+    it('warns when the stop is too wide for any sensible leverage', () => {
+        const result = recommendLeverage('SHORT', 100, 140, 50);
+        expect(result.recommendedLeverage).toBe(1);
+        expect(result.leverageWarning).toContain('Stop 40%');
+    });
+
+    it('returns no leverage for HOLD', () => {
+        expect(recommendLeverage('HOLD', 100, 100)).toEqual({ recommendedLeverage: 0, liquidationPrice: 0, leverageWarning: null });
+    });
+
+    it('fills leverage on calculated levels', () => {
+        const levels = calculateRiskLevels(makeBars(100), 'LONG', 1.5, 3, undefined, 20);
+        expect(levels.recommendedLeverage).toBeGreaterThanOrEqual(1);
+        expect(levels.recommendedLeverage).toBeLessThanOrEqual(20);
+        expect(levels.liquidationPrice).toBeLessThan(levels.stopLoss);
+    });
 });
@@ -2,10 +2,12 @@
  * LISAN INTELLIGENCE — Risk Management Module
  * 
  * Calculates stop loss, take profit, and risk/reward ratios
- * based on ATR and technical analysis.
+ * based on ATR and technical analysis, plus the leverage that keeps
+ * Hyperliquid's liquidation price safely beyond the stop.
  */
 
-import { OHLCV, ATR, EMA, SMA } from './indicators';
+import { OHLCV, ATR, EMA, SMA, VolumeProfile } from './indicators';
+import type { MarketRegime } from './regime';
 
 // ============================================================================
 // TYPES
@@ -21,8 +23,53 @@ export interface RiskLevels {
     riskPercent: number;      // % distance to stop loss
     rewardPercent: number;    // % distance to take profit
     atrValue: number;         // ATR used for calculation
+    recommendedLeverage: number;      // Max whole leverage with liquidation safely past the stop (0 for HOLD)
+    liquidationPrice: number;         // Isolated-margin liquidation price at that leverage (0 = none)
+    leverageWarning: string | null;   // Set when no sensible leverage leaves a safe liquidation buffer
 }
 
+export interface AtrMultipliers {
+    stopLoss: number;         // Stop distance in ATRs
+    takeProfit: number;       // Target distance in ATRs
+}
+
+/**
+ * Rules every issued signal's levels must satisfy.
+ * Shared by the generate cron, /api/engine-signals and backtests so all three
+ * accept and reject the same setups.
+ */
+export interface RiskPolicy {
+    minRiskReward: number;    // Reward / risk floor
+    minRiskPct: number;       // Stops tighter than this are noise (or a calculation error)
+    maxRiskPct: number;       // Stops wider than this risk too much per trade
+    minRewardPct: number;     // The monitor ignores targets within 1% of entry
+    atrMultipliers: AtrMultipliers;                               // Default SL/TP distances
+    regimeAtrMultipliers: Partial<Record<MarketRegime, AtrMultipliers>>;  // Per-regime overrides
+}
+
+export type RiskLimits = Pick<RiskPolicy, 'minRiskReward' | 'minRiskPct' | 'maxRiskPct' | 'minRewardPct'>;
+
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+    minRiskReward: 1.5,
+    minRiskPct: 0.5,
+    maxRiskPct: 10,
+    minRewardPct: 1,
+    atrMultipliers: { stopLoss: 1.5, takeProfit: 3 },
+    regimeAtrMultipliers: {
+        // Large swings without direction — give stops room, keep 2:1
+        HIGH_VOL_CHOP: { stopLoss: 2, takeProfit: 4 },
+    },
+};
+
+/** Venue max leverage assumed when Hyperliquid meta is unavailable (conservative) */
+export const DEFAULT_MAX_LEVERAGE = 10;
+
+/** Liquidation must sit at least this many stop distances from entry */
+export const LIQUIDATION_BUFFER = 1.5;
+
+/** Below this the buffer only holds at (near) spot leverage — warn */
+export const MIN_SENSIBLE_LEVERAGE = 2;
+
 export interface SupportResistance {
     supports: number[];
     resistances: number[];
@@ -46,11 +93,31 @@ export function findPivotPoints(
     leftBars: number = 5,
     rightBars: number = 2
 ): { pivotHighs: number[]; pivotLows: number[] } {
-    const pivotHighs: number[] = [];
-    const pivotLows: number[] = [];
+    const { highIndices, lowIndices } = findPivotIndices(data, leftBars, rightBars);
+
+    return {
+        pivotHighs: highIndices.map(i => data[i].high),
+        pivotLows: lowIndices.map(i => data[i].low),
+    };
+}
+
+/**
+ * Bar indices of pivot highs and lows, oldest first (used where the pivot's position matters, e.g. divergence)
+ * 
+ * @param data - OHLCV data array
+ * @param leftBars - Bars to the left for pivot detection
+ * @param rightBars - Bars to the right for pivot detection
+ */
+export function findPivotIndices(
+    data: OHLCV[],
+    leftBars: number = 5,
+    rightBars: number = 2
+): { highIndices: number[]; lowIndices: number[] } {
+    const highIndices: number[] = [];
+    const lowIndices: number[] = [];
 
     if (data.length < leftBars + rightBars + 1) {
-        return { pivotHighs, pivotLows };
+        return { highIndices, lowIndices };
     }
 
     for (let i = leftBars; i < data.length - rightBars; i++) {
@@ -74,7 +141,7 @@ export function findPivotPoints(
             }
         }
         if (isPivotHigh) {
-            pivotHighs.push(currentHigh);
+            highIndices.push(i);
         }
 
         // Check for pivot low
@@ -94,11 +161,26 @@ export function findPivotPoints(
             }
         }
         if (isPivotLow) {
-            pivotLows.push(currentLow);
+            lowIndices.push(i);
         }
     }
 
-    return { pivotHighs, pivotLows };
+    return { highIndices, lowIndices };
+}
+
+/**
+ * Bar index of the last significant pivot (swing high or low confirmed by wider windows),
+ * used as the anchor for AnchoredVWAP. Falls back to the first bar.
+ * 
+ * @param data - OHLCV data array
+ * @param leftBars - Bars to the left for pivot detection
+ * @param rightBars - Bars to the right for pivot detection
+ */
+export function findVWAPAnchor(data: OHLCV[], leftBars: number = 10, rightBars: number = 3): number {
+    const { highIndices, lowIndices } = findPivotIndices(data, leftBars, rightBars);
+    const lastHigh = highIndices[highIndices.length - 1] ?? 0;
+    const lastLow = lowIndices[lowIndices.length - 1] ?? 0;
+    return Math.max(lastHigh, lastLow);
 }
 
 /**
@@ -106,20 +188,22 @@ export function findPivotPoints(
  * 
  * @param data - OHLCV data array
  * @param currentPrice - Current price to find levels around
+ * @param extraLevels - Additional candidate levels (e.g. value-area edges), classified by side of price
  */
 export function findSupportResistance(
     data: OHLCV[],
-    currentPrice: number
+    currentPrice: number,
+    extraLevels: number[] = []
 ): SupportResistance {
     const { pivotHighs, pivotLows } = findPivotPoints(data);
 
     // Filter to levels near current price (within 20% range)
     const priceTolerance = currentPrice * 0.2;
 
-    const relevantHighs = pivotHighs.filter(
+    const relevantHighs = [...pivotHighs, ...extraLevels].filter(
         p => Math.abs(p - currentPrice) < priceTolerance
     );
-    const relevantLows = pivotLows.filter(
+    const relevantLows = [...pivotLows, ...extraLevels].filter(
         p => Math.abs(p - currentPrice) < priceTolerance
     );
 
@@ -144,6 +228,25 @@ export function findSupportResistance(
 // STOP LOSS & TAKE PROFIT CALCULATION
 // ============================================================================
 
+/**
+ * Value-area edges and POC far enough from price to act as SL/TP candidates.
+ * Levels within half an ATR would only produce noise-level stops.
+ */
+function valueAreaLevels(data: OHLCV[], currentPrice: number, atrValue: number): number[] {
+    const { poc, valueAreaHigh, valueAreaLow } = VolumeProfile(data);
+    return [valueAreaLow, poc, valueAreaHigh].filter(
+        level => level > 0 && Math.abs(level - currentPrice) >= atrValue * 0.5
+    );
+}
+
+/**
+ * Round a level for storage: cents above $1, 6 significant digits below
+ * (2 decimals would collapse the stop and target of sub-dollar coins onto entry)
+ */
+function roundPrice(price: number): number {
+    return price >= 1 ? Math.round(price * 100) / 100 : Number(price.toPrecision(6));
+}
+
 /**
  * Calculate risk levels for a trade
  * 
@@ -151,18 +254,23 @@ export function findSupportResistance(
  * - LONG: SL = entry - (1.5 × ATR), TP = entry + (3 × ATR)
  * - SHORT: SL = entry + (1.5 × ATR), TP = entry - (3 × ATR)
  * 
- * Also considers support/resistance for tighter/wider levels.
+ * Also considers support/resistance (pivots plus volume-profile value-area edges)
+ * for tighter/wider levels.
  * 
  * @param data - OHLCV data array
  * @param direction - LONG or SHORT
  * @param atrMultiplierSL - ATR multiplier for stop loss (default 1.5)
  * @param atrMultiplierTP - ATR multiplier for take profit (default 3)
+ * @param entryPrice - Price the levels are measured from (default: last close; the generate cron passes the live mark)
+ * @param maxLeverage - Venue max leverage for the asset (Hyperliquid meta), sets the maintenance margin
  */
 export function calculateRiskLevels(
     data: OHLCV[],
     direction: SignalDirection,
     atrMultiplierSL: number = 1.5,
-    atrMultiplierTP: number = 3
+    atrMultiplierTP: number = 3,
+    entryPrice?: number,
+    maxLeverage: number = DEFAULT_MAX_LEVERAGE
 ): RiskLevels {
     if (data.length === 0) {
         return {
@@ -173,12 +281,19 @@ export function calculateRiskLevels(
             riskPercent: 0,
             rewardPercent: 0,
             atrValue: 0,
+            recommendedLeverage: 0,
+            liquidationPrice: 0,
+            leverageWarning: null,
         };
     }
 
-    const currentPrice = data[data.length - 1].close;
+    const currentPrice = entryPrice ?? data[data.length - 1].close;
     const atrValue = ATR(data, 14);
-    const { nearestSupport, nearestResistance } = findSupportResistance(data, currentPrice);
+    const { nearestSupport, nearestResistance } = findSupportResistance(
+        data,
+        currentPrice,
+        valueAreaLevels(data, currentPrice, atrValue)
+    );
 
     let stopLoss: number;
     let takeProfit: number;
@@ -230,6 +345,9 @@ export function calculateRiskLevels(
             riskPercent: 0,
             rewardPercent: 0,
             atrValue,
+            recommendedLeverage: 0,
+            liquidationPrice: 0,
+            leverageWarning: null,
         };
     }
 
@@ -240,54 +358,69 @@ export function calculateRiskLevels(
 
     return {
         entryPrice: currentPrice,
-        stopLoss: Math.round(stopLoss * 100) / 100, // Round to 2 decimals
-        takeProfit: Math.round(takeProfit * 100) / 100,
+        stopLoss: roundPrice(stopLoss),
+        takeProfit: roundPrice(takeProfit),
         riskRewardRatio: Math.round(riskRewardRatio * 100) / 100,
         riskPercent: Math.round(riskPercent * 100) / 100,
         rewardPercent: Math.round(rewardPercent * 100) / 100,
         atrValue: Math.round(atrValue * 100) / 100,
+        ...recommendLeverage(direction, currentPrice, stopLoss, maxLeverage),
     };
 }
 
+/**
+ * ATR multipliers in force for a regime (the policy default when it has no override)
+ */
+export function atrMultipliersFor(policy: RiskPolicy, regime: MarketRegime): AtrMultipliers {
+    return policy.regimeAtrMultipliers[regime] ?? policy.atrMultipliers;
+}
+
 /**
  * Validate risk levels meet minimum requirements
+ * Used by signal generation, backtests and the portfolio sizer to reject unusable setups.
  * 
- * @planned Intended for future Portfolio Management feature (position sizing UI).
  * @param levels - Calculated risk levels
- * @param minRR - Minimum acceptable risk/reward ratio (default 1.5)
+ * @param limits - R:R and stop/target distance limits (default DEFAULT_RISK_POLICY)
  */
 export function validateRiskLevels(
     levels: RiskLevels,
-    minRR: number = 1.5
+    limits: RiskLimits = DEFAULT_RISK_POLICY
 ): { isValid: boolean; reason?: string } {
-    if (levels.riskRewardRatio < minRR) {
+    if (levels.riskRewardRatio < limits.minRiskReward) {
         return {
             isValid: false,
-            reason: `Risk/Reward ratio ${levels.riskRewardRatio} below minimum ${minRR}`,
+            reason: `Risk/Reward ratio ${levels.riskRewardRatio} below minimum ${limits.minRiskReward}`,
         };
     }
 
-    if (levels.riskPercent > 10) {
+    if (levels.riskPercent > limits.maxRiskPct) {
         return {
             isValid: false,
             reason: `Risk percent ${levels.riskPercent}% too high`,
         };
     }
 
-    if (levels.riskPercent < 0.5) {
+    if (levels.riskPercent < limits.minRiskPct) {
         return {
             isValid: false,
             reason: `Risk percent ${levels.riskPercent}% too low (likely calculation error)`,
         };
     }
 
+    if (levels.rewardPercent < limits.minRewardPct) {
+        return {
+            isValid: false,
+            reason: `Reward ${levels.rewardPercent}% below minimum ${limits.minRewardPct}%`,
+        };
+    }
+
     return { isValid: true };
 }
 
 /**
  * Get position size based on risk
+ * Quantity such that hitting the stop loses riskPercentOfAccount of the balance (see portfolio.ts).
  * 
- * @planned Intended for future Portfolio Management feature (position sizing UI).
  * @param accountBalance - Total account balance
  * @param riskPercent - Percentage of account to risk per trade
  * @param levels - Calculated risk levels
@@ -312,3 +445,65 @@ export function calculatePositionSize(
         quantity: Math.round(quantity * 10000) / 10000, // 4 decimal places
     };
 }
+
+// ============================================================================
+// LEVERAGE & LIQUIDATION (Hyperliquid isolated margin)
+// ============================================================================
+
+/**
+ * Maintenance margin rate — Hyperliquid sets it at half the initial margin at the asset's max leverage
+ */
+export function maintenanceMarginRate(maxLeverage: number): number {
+    return 1 / (2 * maxLeverage);
+}
+
+/**
+ * Isolated-margin liquidation price: where the margin posted at `leverage` falls to maintenance
+ * - LONG:  entry × (1 − 1/L) / (1 − mmr)
+ * - SHORT: entry × (1 + 1/L) / (1 + mmr)
+ */
+export function liquidationPrice(
+    direction: 'LONG' | 'SHORT',
+    entryPrice: number,
+    leverage: number,
+    maxLeverage: number
+): number {
+    const mmr = maintenanceMarginRate(maxLeverage);
+    const price = direction === 'LONG'
+        ? entryPrice * (1 - 1 / leverage) / (1 - mmr)
+        : entryPrice * (1 + 1 / leverage) / (1 + mmr);
+    return Math.max(0, roundPrice(price));
+}
+
+/**
+ * Highest whole leverage (capped at the venue max) that keeps liquidation at least
+ * LIQUIDATION_BUFFER stop distances from entry, and the liquidation price it implies.
+ * Warns when the buffer would only hold below MIN_SENSIBLE_LEVERAGE.
+ */
+export function recommendLeverage(
+    direction: SignalDirection,
+    entryPrice: number,
+    stopLoss: number,
+    maxLeverage: number = DEFAULT_MAX_LEVERAGE
+): Pick<RiskLevels, 'recommendedLeverage' | 'liquidationPrice' | 'leverageWarning'> {
+    if (direction === 'HOLD' || entryPrice <= 0) {
+        return { recommendedLeverage: 0, liquidationPrice: 0, leverageWarning: null };
+    }
+
+    // Solve the liquidation distance (1/L − mmr) / (1 ∓ mmr) ≥ buffer for L
+    const mmr = maintenanceMarginRate(maxLeverage);
+    const buffer = (Math.abs(entryPrice - stopLoss) / entryPrice) * LIQUIDATION_BUFFER;
+    const safeLeverage = 1 / (buffer * (direction === 'LONG' ? 1 - mmr : 1 + mmr) + mmr);
+    const recommendedLeverage = Math.max(1, Math.min(maxLeverage, Math.floor(safeLeverage)));
+
+    const stopPct = Math.round((Math.abs(entryPrice - stopLoss) / entryPrice) * 10000) / 100;
+    const leverageWarning = safeLeverage < MIN_SENSIBLE_LEVERAGE
+        ? `Stop ${stopPct}% from entry leaves too tight a liquidation buffer above 1× — trade unleveraged or skip`
+        : null;
+
+    return {
+        recommendedLeverage,
+        liquidationPrice: liquidationPrice(direction, entryPrice, recommendedLeverage, maxLeverage),
+        leverageWarning,
+    };
+}
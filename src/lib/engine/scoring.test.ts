@@ -9,6 +9,7 @@ import {
     generateSignal,
     generateSignals,
     normalizeWeights,
+    weightsForRegime,
     DEFAULT_WEIGHTS,
 } from './scoring';
 import { OHLCV, analyzeAsset } from './indicators';
@@ -213,7 +214,7 @@ describe('generateSignal', () => {
 describe('DEFAULT_WEIGHTS', () => {
     it('weights sum to 100', () => {
         const total = Object.values(DEFAULT_WEIGHTS).reduce((sum, w) => sum + w, 0);
-        expect(total).toBe(100);
+        expect(total).toBeCloseTo(100, 10);
     });
 
     it('all weights are positive', () => {
@@ -297,6 +298,23 @@ describe('normalizeWeights', () => {
     });
 });
 
+// ============================================================================
+// weightsForRegime TESTS
+// ============================================================================
+
+describe('weightsForRegime', () => {
+    const bearWeights = { ...DEFAULT_WEIGHTS, rsi: 2 };
+
+    it('uses the regime\'s own vector when one exists', () => {
+        expect(weightsForRegime('BEAR_TREND', DEFAULT_WEIGHTS, { BEAR_TREND: bearWeights })).toBe(bearWeights);
+    });
+
+    it('falls back to the global weights otherwise', () => {
+        expect(weightsForRegime('BULL_TREND', DEFAULT_WEIGHTS, { BEAR_TREND: bearWeights })).toBe(DEFAULT_WEIGHTS);
+        expect(weightsForRegime('BEAR_TREND', DEFAULT_WEIGHTS)).toBe(DEFAULT_WEIGHTS);
+    });
+});
+
 // ============================================================================
 // generateSignals BATCH TESTS (F2)
 // ============================================================================
@@ -5,53 +5,43 @@
  * Outputs LONG, SHORT, or HOLD with confidence score 0-100.
  */
 
-import { OHLCV, analyzeAsset, IndicatorResult } from './indicators';
-import { calculateRiskLevels, RiskLevels, SignalDirection } from './risk';
+import { OHLCV, IndicatorResult } from './indicators';
 import {
-    HyperliquidAssetContext,
-    FundingRateSignal,
-    OIChangeSignal,
-    BasisPremiumSignal,
-    HLVolumeMomentumSignal,
-    FundingVelocityBoost,
-    calculatePositioningScore,
-} from './hyperliquidData';
-import { MarketRegime, getRegimeAdjustments } from './regime';
+    calculateRiskLevels,
+    validateRiskLevels,
+    atrMultipliersFor,
+    DEFAULT_RISK_POLICY,
+    RiskLevels,
+    RiskPolicy,
+    SignalDirection,
+} from './risk';
+import { MarketRegime, RegimeAdjustmentTable, DEFAULT_REGIME_ADJUSTMENTS, getRegimeAdjustments } from './regime';
+import type { CrossAssetStats } from './correlation';
+import { buildTakeProfitLadder } from './outcome';
+import type { TakeProfitTarget } from '@/lib/types/database';
+import {
+    INDICATORS,
+    CONTEXT_VALUES,
+    SCORED_CATEGORIES,
+    IndicatorId,
+    IndicatorInput,
+    IndicatorOutput,
+    ScoredCategory,
+} from './registry';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export interface IndicatorWeights {
-    // Momentum (25 points total)
-    rsi: number;
-    stochRSI: number;
-    macd: number;
-    williamsR: number;
-    cci: number;
-
-    // Trend (25 points total)
-    emaAlignment: number;
-    ichimoku: number;
-    adx: number;
-    bollinger: number;
-
-    // Volume (16 points total)
-    obvTrend: number;
-    volumeRatio: number;
-
-    // Volatility (10 points — v4.1: reduced from 16 for new HL indicators)
-    zScore: number;
-
-    // Sentiment (8 points)
-    fearGreed: number;
-
-    // Positioning (16 points — v4.1: expanded with 2 new HL indicators)
-    fundingRate: number;
-    oiChange: number;
-    basisPremium: number;   // v4.1: Mark vs Index spread
-    hlVolume: number;       // v4.1: HL volume momentum
-}
+/**
+ * One weight per registered indicator (see registry.ts for categories and defaults)
+ */
+export type IndicatorWeights = Record<IndicatorId, number>;
+
+/**
+ * A separate weight vector per market regime. Regimes without one score with the global weights.
+ */
+export type RegimeWeightSet = Partial<Record<MarketRegime, IndicatorWeights>>;
 
 /**
  * Optional Hyperliquid context for enhanced signals
@@ -67,6 +57,7 @@ export interface HyperliquidContext {
     volume24h?: number;         // 24h USD volume
     avgVolume?: number;         // Rolling avg daily volume (baseline for comparison)
     prevFunding?: number;       // Previous annualized funding for velocity boost
+    maxLeverage?: number;       // Venue max leverage (meta) — sets the maintenance margin for liquidation
 }
 
 export interface SignalOutput {
@@ -81,6 +72,11 @@ export interface SignalOutput {
     stopLoss: number;
     takeProfit: number;
     riskRewardRatio: number;
+    recommendedLeverage: number;         // Max leverage with liquidation safely past the stop (0 for HOLD)
+    liquidationPrice: number;            // Liquidation price at that leverage (0 = none)
+    leverageWarning: string | null;      // Stop too wide for any sensible leverage
+    takeProfitTargets: TakeProfitTarget[];  // Scale-out ladder (TP1..TPn), empty for HOLD
+    riskCheck: { isValid: boolean; reason?: string };  // Levels vs the risk policy (always valid for HOLD)
 
     // Breakdown
     breakdown: {
@@ -89,6 +85,7 @@ export interface SignalOutput {
         volume: { score: number; max: number };
         sentiment: { score: number; max: number };
         positioning: { score: number; max: number };
+        structure: { score: number; max: number };      // max 0 when no pattern is present
     };
 
     // Raw indicator values (for learning)
@@ -101,36 +98,10 @@ export interface SignalOutput {
 // DEFAULT WEIGHTS (must sum to 100 — enforced by normalizeWeights and tests)
 // ============================================================================
 
-export const DEFAULT_WEIGHTS: IndicatorWeights = {
-    // Momentum: 25 points
-    rsi: 6,
-    stochRSI: 5,
-    macd: 6,
-    williamsR: 4,
-    cci: 4,
-
-    // Trend: 25 points
-    emaAlignment: 7,
-    ichimoku: 8,
-    adx: 6,
-    bollinger: 4,
-
-    // Volume: 16 points
-    obvTrend: 10,
-    volumeRatio: 6,
-
-    // Volatility: 10 points (v4.1: reduced from 16 — Z-Score was over-weighted)
-    zScore: 10,
-
-    // Sentiment: 8 points
-    fearGreed: 8,
-
-    // Positioning: 16 points (v4.1: expanded from 10 with 2 new HL indicators)
-    fundingRate: 6,
-    oiChange: 4,
-    basisPremium: 3,    // v4.1: Mark-index basis (contrarian)
-    hlVolume: 3,        // v4.1: HL volume momentum
-};
+/** Registry weights scaled to 100, so registering an indicator never rewrites the others' points */
+export const DEFAULT_WEIGHTS: IndicatorWeights = normalizeWeights(Object.fromEntries(
+    INDICATORS.map(def => [def.id, def.defaultWeight])
+) as IndicatorWeights);
 
 /**
  * Renormalize weights to sum to 100 while preserving ratios.
@@ -191,6 +162,17 @@ export function normalizeWeights(
     return normalized;
 }
 
+/**
+ * Weight vector that scores a regime: its own set when one exists, the global weights otherwise
+ */
+export function weightsForRegime(
+    regime: MarketRegime,
+    weights: IndicatorWeights,
+    regimeWeights: RegimeWeightSet | null = null
+): IndicatorWeights {
+    return regimeWeights?.[regime] ?? weights;
+}
+
 // ============================================================================
 // SCORING FUNCTIONS
 // ============================================================================
@@ -212,103 +194,30 @@ function indicatorToScore(result: IndicatorResult, weight: number): number {
 }
 
 /**
- * Calculate momentum score (RSI, StochRSI, MACD, Williams%R, CCI)
- */
-function calculateMomentumScore(
-    analysis: ReturnType<typeof analyzeAsset>,
-    weights: IndicatorWeights
-): { score: number; max: number; direction: number } {
-    const max = weights.rsi + weights.stochRSI + weights.macd + weights.williamsR + weights.cci;
-
-    const rsiScore = indicatorToScore(analysis.momentum.rsi, weights.rsi);
-    const stochScore = indicatorToScore(analysis.momentum.stochRSI, weights.stochRSI);
-    const macdScore = indicatorToScore(analysis.momentum.macd.result, weights.macd);
-    const williamsScore = indicatorToScore(analysis.momentum.williamsR, weights.williamsR);
-    const cciScore = indicatorToScore(analysis.momentum.cci, weights.cci);
-
-    const direction = rsiScore + stochScore + macdScore + williamsScore + cciScore;
-    const score = Math.abs(direction);
-
-    return { score: Math.min(score, max), max, direction };
-}
-
-/**
- * Calculate trend score (EMA, Ichimoku, ADX, Bollinger)
+ * Calculate a category score from the registry outputs of its indicators.
+ * Unavailable indicators (null result) are excluded from the category max.
  */
-function calculateTrendScore(
-    analysis: ReturnType<typeof analyzeAsset>,
+function calculateCategoryScore(
+    category: ScoredCategory,
+    outputs: Map<IndicatorId, IndicatorOutput>,
     weights: IndicatorWeights
 ): { score: number; max: number; direction: number } {
-    const max = weights.emaAlignment + weights.ichimoku + weights.adx + weights.bollinger;
-
-    const emaScore = indicatorToScore(analysis.trend.emaAlignment, weights.emaAlignment);
-    const ichimokuScore = indicatorToScore(analysis.trend.ichimoku.result, weights.ichimoku);
-    const adxScore = indicatorToScore(analysis.trend.adx.result, weights.adx);
-    const bollingerScore = indicatorToScore(analysis.trend.bollingerPosition.result, weights.bollinger);
-
-    const direction = emaScore + ichimokuScore + adxScore + bollingerScore;
-    const score = Math.abs(direction);
-
-    return { score: Math.min(score, max), max, direction };
-}
+    let max = 0;
+    let direction = 0;
 
-/**
- * Calculate volume score (OBV, Volume Ratio)
- */
-function calculateVolumeScore(
-    analysis: ReturnType<typeof analyzeAsset>,
-    weights: IndicatorWeights
-): { score: number; max: number; direction: number } {
-    const max = weights.obvTrend + weights.volumeRatio;
+    for (const def of INDICATORS) {
+        if (def.category !== category) continue;
+        const result = outputs.get(def.id)?.result;
+        if (!result) continue;
 
-    const obvScore = indicatorToScore(analysis.volume.obvTrend, weights.obvTrend);
-    const volumeScore = indicatorToScore(analysis.volume.volumeRatio, weights.volumeRatio);
+        max += weights[def.id];
+        direction += indicatorToScore(result, weights[def.id]);
+    }
 
-    const direction = obvScore + volumeScore;
     const score = Math.abs(direction);
-
     return { score: Math.min(score, max), max, direction };
 }
 
-/**
- * Calculate sentiment score (Fear & Greed)
- * Uses external data if available
- */
-function calculateSentimentScore(
-    fearGreedIndex: number | null,
-    weights: IndicatorWeights
-): { score: number; max: number; direction: number } {
-    const max = weights.fearGreed;
-
-    if (fearGreedIndex === null) {
-        return { score: 0, max, direction: 0 };
-    }
-
-    // Fear & Greed: 0-100
-    // Contrarian: fear = bullish, greed = bearish
-    // Scale across full range, not just extremes
-    // 0-25: Strong bullish (extreme fear)
-    // 25-50: Mild bullish (fear)
-    // 50: Neutral
-    // 50-75: Mild bearish (greed)
-    // 75-100: Strong bearish (extreme greed)
-
-    let direction = 0;
-    let strength = 0;
-
-    if (fearGreedIndex < 50) {
-        // Below 50 = contrarian bullish (fear in market)
-        strength = (50 - fearGreedIndex) / 50; // 0 at 50, 1 at 0
-        direction = max * strength;
-    } else if (fearGreedIndex > 50) {
-        // Above 50 = contrarian bearish (greed in market)
-        strength = (fearGreedIndex - 50) / 50; // 0 at 50, 1 at 100
-        direction = -max * strength;
-    }
-
-    return { score: Math.abs(direction), max, direction };
-}
-
 // ============================================================================
 // MAIN SCORING ENGINE
 // ============================================================================
@@ -321,6 +230,10 @@ function calculateSentimentScore(
  * @param fearGreedIndex - Optional Fear & Greed index value
  * @param weights - Optional custom weights
  * @param hlContext - Optional Hyperliquid context for positioning data
+ * @param crossAsset - Optional stats vs BTC and the basket (analyzeCrossAsset) for relative strength
+ * @param riskPolicy - ATR multipliers per regime and the limits the levels are checked against
+ * @param regimeAdjustments - Per-regime multipliers (learned by the learn cron, defaults otherwise)
+ * @param regimeWeights - Optional weight vector per regime; the detected regime's replaces `weights`
  */
 export function generateSignal(
     data: OHLCV[],
@@ -329,80 +242,36 @@ export function generateSignal(
     weights: IndicatorWeights = DEFAULT_WEIGHTS,
     hlContext: HyperliquidContext | null = null,
     timeframe: string = '4h',
-    regime: MarketRegime = 'UNKNOWN'
+    regime: MarketRegime = 'UNKNOWN',
+    crossAsset: CrossAssetStats | null = null,
+    riskPolicy: RiskPolicy = DEFAULT_RISK_POLICY,
+    regimeAdjustments: RegimeAdjustmentTable = DEFAULT_REGIME_ADJUSTMENTS,
+    regimeWeights: RegimeWeightSet | null = null
 ): SignalOutput {
-    // Run all indicators
-    const analysis = analyzeAsset(data);
-
-    // Calculate category scores
-    const momentum = calculateMomentumScore(analysis, weights);
-    const trend = calculateTrendScore(analysis, weights);
-    const volume = calculateVolumeScore(analysis, weights);
-    const sentiment = calculateSentimentScore(fearGreedIndex, weights);
-
-    // Calculate positioning score from Hyperliquid data
-    // When hlContext is null, max must be 0 so positioning doesn't inflate the denominator
-    let positioning = { score: 0, max: 0, direction: 0 };
-    let fundingRateValue = 0;
-    let oiChangeValue = 0;
-    let basisPremiumValue = 0;
-    let hlVolumeValue = 0;
-
-    if (hlContext) {
-        const fundingSignal = FundingRateSignal(hlContext.annualizedFunding);
-
-        // v4.1: Apply velocity boost if we have previous funding data
-        if (hlContext.prevFunding !== undefined) {
-            const velocityMultiplier = FundingVelocityBoost(
-                hlContext.annualizedFunding,
-                hlContext.prevFunding
-            );
-            fundingSignal.strength *= velocityMultiplier;
-        }
-
-        fundingRateValue = fundingSignal.value;
-
-        let oiSignal: IndicatorResult = { value: 0, signal: 'neutral', strength: 0 };
-        if (hlContext.prevOpenInterest !== undefined && hlContext.priceChange !== undefined) {
-            oiSignal = OIChangeSignal(
-                hlContext.openInterest,
-                hlContext.prevOpenInterest,
-                hlContext.priceChange
-            );
-            oiChangeValue = oiSignal.value;
-        }
-
-        // v4.1: New HL-native signals
-        let basisSignal: IndicatorResult | undefined;
-        if (hlContext.premium !== undefined) {
-            basisSignal = BasisPremiumSignal(hlContext.premium);
-            basisPremiumValue = basisSignal.value;
-        }
+    const activeWeights = weightsForRegime(regime, weights, regimeWeights);
 
-        let volumeSignal: IndicatorResult | undefined;
-        if (hlContext.volume24h !== undefined && hlContext.avgVolume !== undefined && hlContext.priceChange !== undefined) {
-            volumeSignal = HLVolumeMomentumSignal(hlContext.volume24h, hlContext.avgVolume, hlContext.priceChange);
-            hlVolumeValue = volumeSignal.value;
-        }
-
-        positioning = calculatePositioningScore(
-            fundingSignal,
-            oiSignal,
-            weights.fundingRate,
-            weights.oiChange,
-            basisSignal,
-            volumeSignal
-        );
+    // Run all registered indicators
+    const input: IndicatorInput = { data, closes: data.map(d => d.close), fearGreedIndex, hlContext, crossAsset };
+    const outputs = new Map<IndicatorId, IndicatorOutput>();
+    for (const def of INDICATORS) {
+        outputs.set(def.id, def.compute(input));
     }
 
+    // Calculate category scores
+    // When hlContext is null, positioning indicators are unavailable so its max is 0
+    // (same for structure when no price pattern is present)
+    const [momentum, trend, volume, sentiment, positioning, structure] = SCORED_CATEGORIES.map(
+        category => calculateCategoryScore(category, outputs, activeWeights)
+    );
+
     // Total directional bias (positive = bullish, negative = bearish)
     const totalDirection = momentum.direction + trend.direction + volume.direction +
-        sentiment.direction + positioning.direction;
+        sentiment.direction + positioning.direction + structure.direction;
 
     // Cluster agreement: penalize contradictory indicators
     // If momentum says LONG but trend says SHORT, the raw score is high (both have magnitude)
     // but the signal quality is low (no consensus). Agreement ratio captures this.
-    const clusterDirections = [momentum, trend, volume, sentiment, positioning]
+    const clusterDirections = [momentum, trend, volume, sentiment, positioning, structure]
         .map(c => c.direction);
     const nonZeroClusters = clusterDirections.filter(d => d !== 0);
     const agreementRatio = nonZeroClusters.length > 0
@@ -415,17 +284,18 @@ export function generateSignal(
     // indicators snapshot, but intentionally NOT used as a score multiplier.
     // Reason: In mixed markets (common during range-bound BTC), it crushes scores to ~15
     // making everything HOLD. The directional threshold already handles contradictory signals.
-    const totalMax = momentum.max + trend.max + volume.max + sentiment.max + positioning.max;
+    const totalMax = momentum.max + trend.max + volume.max + sentiment.max + positioning.max + structure.max;
 
     // F1 FIX: Apply regime weight multipliers to category scores.
     // This scales category influence based on detected market conditions without
     // changing the denominator, so regime detection actually affects signal quality.
-    const regimeAdj = getRegimeAdjustments(regime);
+    const regimeAdj = getRegimeAdjustments(regime, regimeAdjustments);
     const rawScore = (momentum.score * regimeAdj.momentumWeightMultiplier)
         + (trend.score * regimeAdj.trendWeightMultiplier)
         + volume.score
         + sentiment.score
-        + (positioning.score * regimeAdj.positioningWeightMultiplier);
+        + (positioning.score * regimeAdj.positioningWeightMultiplier)
+        + structure.score;
     const score = Math.round((rawScore / totalMax) * 100);
 
     // Determine direction based on consensus
@@ -448,36 +318,24 @@ export function generateSignal(
         direction = 'SHORT';
     }
 
-    // Calculate risk levels
-    const riskLevels = calculateRiskLevels(data, direction);
+    // Calculate risk levels with the regime's ATR multipliers, then check them against the policy.
+    // Direction is left as scored — callers decide what a failed check means (skip, demote, reject).
+    const multipliers = atrMultipliersFor(riskPolicy, regime);
+    const riskLevels = calculateRiskLevels(
+        data, direction, multipliers.stopLoss, multipliers.takeProfit, undefined, hlContext?.maxLeverage
+    );
+    const riskCheck = direction === 'HOLD' ? { isValid: true } : validateRiskLevels(riskLevels, riskPolicy);
 
     // Extract raw indicator values for learning
-    const indicators: Record<string, number> = {
-        rsi: analysis.momentum.rsi.value,
-        stochRSI: analysis.momentum.stochRSI.value,
-        macd: analysis.momentum.macd.histogram,
-        williamsR: analysis.momentum.williamsR.value,
-        cci: analysis.momentum.cci.value,
-        emaAlignment: analysis.trend.emaAlignment.value,
-        ichimoku: analysis.trend.ichimoku.result.value,
-        adx: analysis.trend.adx.adx,
-        plusDI: analysis.trend.adx.plusDI,
-        minusDI: analysis.trend.adx.minusDI,
-        bollinger: analysis.trend.bollingerPosition.position,
-        obvTrend: analysis.volume.obvTrend.value,
-        volumeRatio: analysis.volume.volumeRatio.value,
-        zScore: analysis.volatility.zScore.value,
-        atr: analysis.volatility.atr,
-        vwap: analysis.trend.vwap,
-        // Hyperliquid positioning data
-        fundingRate: fundingRateValue,
-        oiChange: oiChangeValue,
-        // v4.1: New HL indicators
-        basisPremium: basisPremiumValue,
-        hlVolume: hlVolumeValue,
-        // v4.1: Cluster agreement for learning visibility
-        agreement: agreementFactor,
-    };
+    const indicators: Record<string, number> = {};
+    for (const output of outputs.values()) {
+        Object.assign(indicators, output.snapshot);
+    }
+    for (const ctx of CONTEXT_VALUES) {
+        indicators[ctx.key] = ctx.compute(input);
+    }
+    // v4.1: Cluster agreement for learning visibility
+    indicators.agreement = agreementFactor;
 
     return {
         coin,
@@ -489,12 +347,23 @@ export function generateSignal(
         stopLoss: riskLevels.stopLoss,
         takeProfit: riskLevels.takeProfit,
         riskRewardRatio: riskLevels.riskRewardRatio,
+        recommendedLeverage: riskLevels.recommendedLeverage,
+        liquidationPrice: riskLevels.liquidationPrice,
+        leverageWarning: riskLevels.leverageWarning,
+        takeProfitTargets: direction === 'HOLD' ? [] : buildTakeProfitLadder({
+            direction,
+            entryPrice: riskLevels.entryPrice,
+            stopLoss: riskLevels.stopLoss,
+            takeProfit: riskLevels.takeProfit,
+        }),
+        riskCheck,
         breakdown: {
             momentum: { score: momentum.score, max: momentum.max },
             trend: { score: trend.score, max: trend.max },
             volume: { score: volume.score, max: volume.max },
             sentiment: { score: sentiment.score, max: sentiment.max },
             positioning: { score: positioning.score, max: positioning.max },
+            structure: { score: structure.score, max: structure.max },
         },
         indicators,
         timestamp: new Date(),
@@ -510,11 +379,16 @@ export function generateSignals(
     weights: IndicatorWeights = DEFAULT_WEIGHTS,
     hlContextMap: Map<string, HyperliquidContext> | null = null,
     timeframe: string = '4h',
-    regime: MarketRegime = 'UNKNOWN'
+    regime: MarketRegime = 'UNKNOWN',
+    crossAssetMap: Map<string, CrossAssetStats> | null = null,
+    riskPolicy: RiskPolicy = DEFAULT_RISK_POLICY,
+    regimeAdjustments: RegimeAdjustmentTable = DEFAULT_REGIME_ADJUSTMENTS,
+    regimeWeights: RegimeWeightSet | null = null
 ): SignalOutput[] {
     return coinData.map(({ coin, data }) => {
         const hlContext = hlContextMap?.get(coin.toUpperCase()) ?? null;
-        return generateSignal(data, coin, fearGreedIndex, weights, hlContext, timeframe, regime);
+        const crossAsset = crossAssetMap?.get(coin.toUpperCase()) ?? null;
+        return generateSignal(data, coin, fearGreedIndex, weights, hlContext, timeframe, regime, crossAsset, riskPolicy, regimeAdjustments, regimeWeights);
     });
 }
 
@@ -0,0 +1,116 @@
+/**
+ * LISAN INTELLIGENCE — Streaming Indicator Tests
+ *
+ * Every streaming indicator must agree with its batch counterpart
+ * after each new candle.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createEMAStream,
+    createRSIStream,
+    createStochRSIStream,
+    createMACDStream,
+    createADXStream,
+    createATRStream,
+    createOBVTrendStream,
+    createAssetStream,
+} from './streaming';
+import { OHLCV, EMA, EMASeries, RSI, StochasticRSI, MACD, ADX, ATR, OBVTrend, analyzeAsset } from './indicators';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+/** Deterministic random walk with flat closes and zero-volume bars mixed in */
+function makeData(length: number, seed = 7): OHLCV[] {
+    let state = seed;
+    const rand = () => {
+        state = (state * 16807) % 2147483647;
+        return state / 2147483647;
+    };
+
+    const data: OHLCV[] = [];
+    let price = 100;
+    for (let i = 0; i < length; i++) {
+        const open = price;
+        if (i % 13 !== 0) price = price * (1 + (rand() - 0.5) * 0.04);
+        data.push({
+            open,
+            high: Math.max(open, price) * (1 + rand() * 0.01),
+            low: Math.min(open, price) * (1 - rand() * 0.01),
+            close: price,
+            volume: i % 29 === 0 ? 0 : 1000 + rand() * 5000,
+            timestamp: i * 3600000,
+        });
+    }
+    return data;
+}
+
+const data = makeData(200);
+const closes = data.map(d => d.close);
+
+// ============================================================================
+// SINGLE INDICATORS
+// ============================================================================
+
+describe('streaming indicators match batch', () => {
+    it('EMA', () => {
+        const stream = createEMAStream(10);
+        closes.forEach((close, i) => {
+            const value = stream.update(close);
+            expect(value).toBe(EMA(closes.slice(0, i + 1), 10));
+            expect(value).toBe(EMASeries(closes.slice(0, i + 1), 10)[i]);
+        });
+    });
+
+    it('RSI and Stochastic RSI', () => {
+        const rsi = createRSIStream(9);
+        const stoch = createStochRSIStream(9, 5);
+        closes.forEach((close, i) => {
+            const slice = closes.slice(0, i + 1);
+            expect(rsi.update(close)).toEqual(RSI(slice, 9));
+            expect(stoch.update(close)).toEqual(StochasticRSI(slice, 9, 5));
+        });
+    });
+
+    it('MACD with custom periods', () => {
+        const stream = createMACDStream(5, 13, 4);
+        closes.forEach((close, i) => {
+            expect(stream.update(close)).toEqual(MACD(closes.slice(0, i + 1), 5, 13, 4));
+        });
+    });
+
+    it('ADX, ATR and OBV trend', () => {
+        const adx = createADXStream(10);
+        const atr = createATRStream(10);
+        const obv = createOBVTrendStream(5);
+        data.forEach((bar, i) => {
+            const slice = data.slice(0, i + 1);
+            expect(adx.update(bar)).toEqual(ADX(slice, 10));
+            expect(atr.update(bar)).toBe(ATR(slice, 10));
+            expect(obv.update(bar)).toEqual(OBVTrend(slice, 5));
+        });
+    });
+});
+
+// ============================================================================
+// COMPOSITE
+// ============================================================================
+
+describe('createAssetStream', () => {
+    it('equals analyzeAsset after every candle', () => {
+        const stream = createAssetStream();
+        data.forEach((bar, i) => {
+            expect(stream.update(bar)).toEqual(analyzeAsset(data.slice(0, i + 1)));
+        });
+    });
+
+    it('stays in agreement over a long history', () => {
+        const long = makeData(1500, 99);
+        const stream = createAssetStream();
+        let last = stream.update(long[0]);
+        for (let i = 1; i < long.length; i++) last = stream.update(long[i]);
+        expect(last).toEqual(analyzeAsset(long));
+    });
+});
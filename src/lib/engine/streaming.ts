@@ -0,0 +1,391 @@
+/**
+ * LISAN INTELLIGENCE — Streaming Indicators
+ *
+ * Stateful versions of the indicator library that take one new candle at a time.
+ * Each update produces exactly what the batch function returns for all candles seen so far,
+ * without rescanning history:
+ *
+ * - Recursive indicators (EMA, RSI, MACD, ADX, ATR, OBV, VWAP) update in O(1).
+ * - Window indicators (Williams %R, CCI, Bollinger, Z-Score, Ichimoku, Volume Ratio)
+ *   keep only their lookback window and reuse the batch function on it.
+ *
+ * Used for long backtests and per-candle monitoring.
+ */
+
+import {
+    OHLCV,
+    IndicatorResult,
+    analyzeAsset,
+    rsiFromAverages,
+    interpretRSI,
+    stochasticOfRSI,
+    interpretMACD,
+    interpretEMAAlignment,
+    interpretADX,
+    trueRange,
+    directionalMovement,
+    obvTrendOfWindow,
+    WilliamsR,
+    CCI,
+    BollingerPosition,
+    IchimokuCloud,
+    VolumeRatio,
+    ZScore,
+} from './indicators';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IndicatorStream<TInput, TOutput> {
+    /** Add the next value (oldest first) and return the indicator over everything seen so far */
+    update(input: TInput): TOutput;
+}
+
+export type AssetAnalysis = ReturnType<typeof analyzeAsset>;
+
+const NEUTRAL: IndicatorResult = { value: 0, signal: 'neutral', strength: 0 };
+
+/**
+ * Append to a lookback window, dropping the oldest value once it is full
+ */
+function pushWindow<T>(window: T[], value: T, size: number): void {
+    window.push(value);
+    if (window.length > size) window.shift();
+}
+
+// ============================================================================
+// AVERAGES
+// ============================================================================
+
+/**
+ * Streaming EMA — matches EMA(values, period) and the last value of EMASeries(values, period).
+ * Seeds with the running simple average until a full period has been seen.
+ */
+export function createEMAStream(period: number): IndicatorStream<number, number> {
+    const multiplier = 2 / (period + 1);
+    let count = 0;
+    let sum = 0;
+    let ema = 0;
+
+    return {
+        update(value) {
+            count++;
+            if (count <= period) {
+                sum += value;
+                ema = sum / count;
+            } else {
+                ema = (value - ema) * multiplier + ema;
+            }
+            return ema;
+        },
+    };
+}
+
+// ============================================================================
+// MOMENTUM
+// ============================================================================
+
+/**
+ * Streaming Wilder RSI value — null until `period` changes have been seen
+ */
+function createRSIValueStream(period: number): IndicatorStream<number, number | null> {
+    let prevClose: number | null = null;
+    let changes = 0;
+    let gains = 0;
+    let losses = 0;
+    let avgGain = 0;
+    let avgLoss = 0;
+
+    return {
+        update(close) {
+            if (prevClose === null) {
+                prevClose = close;
+                return null;
+            }
+
+            const change = close - prevClose;
+            prevClose = close;
+            changes++;
+
+            if (changes <= period) {
+                if (change > 0) gains += change;
+                else losses += Math.abs(change);
+                if (changes < period) return null;
+
+                avgGain = gains / period;
+                avgLoss = losses / period;
+            } else {
+                const gain = change > 0 ? change : 0;
+                const loss = change < 0 ? Math.abs(change) : 0;
+                avgGain = (avgGain * (period - 1) + gain) / period;
+                avgLoss = (avgLoss * (period - 1) + loss) / period;
+            }
+
+            return rsiFromAverages(avgGain, avgLoss);
+        },
+    };
+}
+
+/**
+ * Streaming RSI — matches RSI(closes, period)
+ */
+export function createRSIStream(period: number = 14): IndicatorStream<number, IndicatorResult> {
+    const rsi = createRSIValueStream(period);
+
+    return {
+        update(close) {
+            const value = rsi.update(close);
+            return value === null ? { value: 50, signal: 'neutral', strength: 0 } : interpretRSI(value);
+        },
+    };
+}
+
+/**
+ * Streaming Stochastic RSI — matches StochasticRSI(closes, rsiPeriod, stochPeriod)
+ */
+export function createStochRSIStream(
+    rsiPeriod: number = 14,
+    stochPeriod: number = 14
+): IndicatorStream<number, IndicatorResult> {
+    const rsi = createRSIValueStream(rsiPeriod);
+    const recentRSI: number[] = [];
+
+    return {
+        update(close) {
+            const value = rsi.update(close);
+            if (value !== null) pushWindow(recentRSI, value, stochPeriod);
+
+            if (recentRSI.length < stochPeriod) return { value: 50, signal: 'neutral', strength: 0 };
+            return stochasticOfRSI(recentRSI);
+        },
+    };
+}
+
+/**
+ * Streaming MACD — matches MACD(closes, fastPeriod, slowPeriod, signalPeriod)
+ */
+export function createMACDStream(
+    fastPeriod: number = 12,
+    slowPeriod: number = 26,
+    signalPeriod: number = 9
+): IndicatorStream<number, ReturnType<typeof interpretMACD>> {
+    const fast = createEMAStream(fastPeriod);
+    const slow = createEMAStream(slowPeriod);
+    const signalLine = createEMAStream(signalPeriod);
+    let count = 0;
+
+    return {
+        update(close) {
+            count++;
+            const macdLine = fast.update(close) - slow.update(close);
+
+            // The batch signal line starts once the slow EMA has a full period
+            if (count < slowPeriod) {
+                return { macd: 0, signal: 0, histogram: 0, result: { ...NEUTRAL } };
+            }
+            const signal = signalLine.update(macdLine);
+
+            if (count < slowPeriod + signalPeriod) {
+                return { macd: 0, signal: 0, histogram: 0, result: { ...NEUTRAL } };
+            }
+            return interpretMACD(macdLine, signal);
+        },
+    };
+}
+
+// ============================================================================
+// TREND
+// ============================================================================
+
+/**
+ * Streaming EMA 7/21/50 alignment — matches EMAAlignment(closes)
+ */
+export function createEMAAlignmentStream(): IndicatorStream<number, IndicatorResult> {
+    const ema7 = createEMAStream(7);
+    const ema21 = createEMAStream(21);
+    const ema50 = createEMAStream(50);
+    let count = 0;
+
+    return {
+        update(close) {
+            count++;
+            const e7 = ema7.update(close);
+            const e21 = ema21.update(close);
+            const e50 = ema50.update(close);
+
+            if (count < 50) return { ...NEUTRAL };
+            return interpretEMAAlignment(close, e7, e21, e50);
+        },
+    };
+}
+
+/**
+ * Streaming ADX — matches ADX(data, period)
+ */
+export function createADXStream(period: number = 14): IndicatorStream<OHLCV, ReturnType<typeof interpretADX>> {
+    const tr = createEMAStream(period);
+    const plusDM = createEMAStream(period);
+    const minusDM = createEMAStream(period);
+    let prev: OHLCV | null = null;
+    let count = 0;
+    let smoothed = { tr: 0, plusDM: 0, minusDM: 0 };
+
+    return {
+        update(bar) {
+            count++;
+            if (prev) {
+                const dm = directionalMovement(bar, prev);
+                smoothed = {
+                    tr: tr.update(trueRange(bar, prev)),
+                    plusDM: plusDM.update(dm.plusDM),
+                    minusDM: minusDM.update(dm.minusDM),
+                };
+            }
+            prev = bar;
+
+            if (count < period * 2) {
+                return { adx: 0, plusDI: 0, minusDI: 0, result: { ...NEUTRAL } };
+            }
+            return interpretADX(smoothed.tr, smoothed.plusDM, smoothed.minusDM);
+        },
+    };
+}
+
+/**
+ * Streaming VWAP over all candles seen — matches VWAPApprox(data)
+ */
+export function createVWAPStream(): IndicatorStream<OHLCV, number> {
+    let cumulativeTPV = 0;
+    let cumulativeVolume = 0;
+
+    return {
+        update(bar) {
+            const typicalPrice = (bar.high + bar.low + bar.close) / 3;
+            cumulativeTPV += typicalPrice * bar.volume;
+            cumulativeVolume += bar.volume;
+            return cumulativeVolume === 0 ? bar.close : cumulativeTPV / cumulativeVolume;
+        },
+    };
+}
+
+// ============================================================================
+// VOLUME & VOLATILITY
+// ============================================================================
+
+/**
+ * Streaming OBV trend — matches OBVTrend(data, trendPeriod)
+ */
+export function createOBVTrendStream(trendPeriod: number = 7): IndicatorStream<OHLCV, IndicatorResult> {
+    const recentOBV: number[] = [];
+    const recentVolumes: number[] = [];
+    let prev: OHLCV | null = null;
+    let obv = 0;
+    let count = 0;
+
+    return {
+        update(bar) {
+            count++;
+            if (prev) {
+                if (bar.close > prev.close) obv += bar.volume;
+                else if (bar.close < prev.close) obv -= bar.volume;
+            }
+            prev = bar;
+            pushWindow(recentOBV, obv, trendPeriod);
+            pushWindow(recentVolumes, bar.volume, trendPeriod);
+
+            if (count < 2 || count < trendPeriod) return { ...NEUTRAL };
+            return obvTrendOfWindow(recentOBV, recentVolumes);
+        },
+    };
+}
+
+/**
+ * Streaming ATR — matches ATR(data, period)
+ */
+export function createATRStream(period: number = 14): IndicatorStream<OHLCV, number> {
+    const tr = createEMAStream(period);
+    let prev: OHLCV | null = null;
+    let count = 0;
+    let atr = 0;
+
+    return {
+        update(bar) {
+            count++;
+            if (prev) atr = tr.update(trueRange(bar, prev));
+            prev = bar;
+            return count < period + 1 ? 0 : atr;
+        },
+    };
+}
+
+/**
+ * Streaming version of any indicator that only looks at its last `size` candles.
+ * Keeps that window and reuses the batch function on it.
+ */
+export function createWindowStream<TInput, TOutput>(
+    size: number,
+    compute: (window: TInput[]) => TOutput
+): IndicatorStream<TInput, TOutput> {
+    const window: TInput[] = [];
+
+    return {
+        update(input) {
+            pushWindow(window, input, size);
+            return compute(window);
+        },
+    };
+}
+
+// ============================================================================
+// COMPOSITE
+// ============================================================================
+
+/**
+ * Streaming analyzeAsset — each update returns analyzeAsset(all candles seen so far)
+ */
+export function createAssetStream(): IndicatorStream<OHLCV, AssetAnalysis> {
+    const rsi = createRSIStream();
+    const stochRSI = createStochRSIStream();
+    const macd = createMACDStream();
+    const williamsR = createWindowStream<OHLCV, IndicatorResult>(14, WilliamsR);
+    const cci = createWindowStream<OHLCV, IndicatorResult>(20, CCI);
+    const emaAlignment = createEMAAlignmentStream();
+    const bollinger = createWindowStream<number, ReturnType<typeof BollingerPosition>>(20, BollingerPosition);
+    const ichimoku = createWindowStream<OHLCV, ReturnType<typeof IchimokuCloud>>(52, IchimokuCloud);
+    const adx = createADXStream();
+    const vwap = createVWAPStream();
+    const obvTrend = createOBVTrendStream();
+    const volumeRatio = createWindowStream<OHLCV, IndicatorResult>(20, VolumeRatio);
+    const atr = createATRStream();
+    const zScore = createWindowStream<number, IndicatorResult>(20, ZScore);
+
+    return {
+        update(bar) {
+            return {
+                momentum: {
+                    rsi: rsi.update(bar.close),
+                    stochRSI: stochRSI.update(bar.close),
+                    williamsR: williamsR.update(bar),
+                    cci: cci.update(bar),
+                    macd: macd.update(bar.close),
+                },
+                trend: {
+                    emaAlignment: emaAlignment.update(bar.close),
+                    bollingerPosition: bollinger.update(bar.close),
+                    ichimoku: ichimoku.update(bar),
+                    adx: adx.update(bar),
+                    vwap: vwap.update(bar),
+                },
+                volume: {
+                    obvTrend: obvTrend.update(bar),
+                    volumeRatio: volumeRatio.update(bar),
+                },
+                volatility: {
+                    atr: atr.update(bar),
+                    zScore: zScore.update(bar.close),
+                },
+            };
+        },
+    };
+}
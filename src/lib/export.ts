@@ -8,7 +8,7 @@ export function downloadCSV(
     signals: (SignalOutput & { name?: string; image?: string })[],
     filename: string
 ): void {
-    const headers = ['Coin', 'Direction', 'Score', 'Entry', 'StopLoss', 'TakeProfit', 'R:R', 'Timestamp'];
+    const headers = ['Coin', 'Direction', 'Score', 'Entry', 'StopLoss', 'TakeProfit', 'R:R', 'Leverage', 'Liquidation', 'Timestamp'];
 
     const rows = signals.map(s => [
         s.coin,
@@ -18,6 +18,8 @@ export function downloadCSV(
         s.stopLoss.toString(),
         s.takeProfit.toString(),
         s.riskRewardRatio.toFixed(2),
+        s.recommendedLeverage.toString(),
+        s.liquidationPrice.toString(),
         new Date(s.timestamp).toISOString(),
     ]);
 
@@ -0,0 +1,162 @@
+/**
+ * LISAN INTELLIGENCE — Hyperliquid Stream Worker Tests
+ *
+ * Runs the worker against a local mock WebSocket server.
+ * Tests subscriptions, throttled snapshot writes, instant SL/TP checks and reconnects.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebSocketServer, WebSocket } from 'ws';
+import { createServer, Socket } from 'net';
+import type { AddressInfo } from 'net';
+
+// ============================================================================
+// MOCK SETUP
+// ============================================================================
+
+vi.mock('@/lib/logger', () => ({
+    logger: {
+        withContext: () => ({
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+        }),
+    },
+}));
+
+const { PENDING_BTC_LONG } = vi.hoisted(() => ({
+    PENDING_BTC_LONG: {
+        id: 'sig-1', coin: 'BTC', direction: 'LONG', entry_price: 100, stop_loss: 95, take_profit: 110,
+        outcome: 'PENDING', indicator_snapshot: {}, weights_used: {}, created_at: '2026-01-01T00:00:00Z',
+    },
+}));
+
+vi.mock('@/lib/supabaseServer', () => ({
+    getAllPendingSignals: vi.fn().mockResolvedValue([PENDING_BTC_LONG]),
+    upsertLiveMarket: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock('@/lib/signalMonitor', () => ({
+    monitorSignals: vi.fn().mockResolvedValue({ updates: [], stopMoves: [], partialFills: [], paperUpdates: 0 }),
+}));
+
+import { createHyperliquidWorker, HyperliquidWorker } from './hyperliquidWorker';
+import { upsertLiveMarket } from '@/lib/supabaseServer';
+import { monitorSignals } from '@/lib/signalMonitor';
+
+// ============================================================================
+// MOCK SERVER
+// ============================================================================
+
+let server: WebSocketServer;
+let clients: WebSocket[];
+let received: unknown[];
+let worker: HyperliquidWorker;
+
+const FAST = { reconnectBaseMs: 20, snapshotIntervalMs: 30, recheckCooldownMs: 1000 };
+
+function startWorker(config = FAST) {
+    const { port } = server.address() as AddressInfo;
+    worker = createHyperliquidWorker({ url: `ws://127.0.0.1:${port}`, coins: ['BTC', 'ETH'], config });
+    return worker.start();
+}
+
+/** Send to the newest connection once it has subscribed */
+async function push(message: object) {
+    await vi.waitFor(() => expect(received.length).toBeGreaterThanOrEqual(5));
+    clients[clients.length - 1].send(JSON.stringify(message));
+}
+
+beforeEach(async () => {
+    vi.clearAllMocks();
+    clients = [];
+    received = [];
+    server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    server.on('connection', socket => {
+        clients.push(socket);
+        socket.on('message', raw => received.push(JSON.parse(raw.toString())));
+    });
+    await new Promise(resolve => server.once('listening', resolve));
+});
+
+afterEach(async () => {
+    await worker.stop();
+    clients.forEach(client => client.terminate());
+    await new Promise(resolve => server.close(resolve));
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Hyperliquid stream worker', () => {
+    it('subscribes to all mids and to trades and asset context per coin', async () => {
+        await startWorker();
+
+        await vi.waitFor(() => expect(received).toHaveLength(5));
+        expect(received).toContainEqual({ method: 'subscribe', subscription: { type: 'allMids' } });
+        expect(received).toContainEqual({ method: 'subscribe', subscription: { type: 'trades', coin: 'BTC' } });
+        expect(received).toContainEqual({ method: 'subscribe', subscription: { type: 'activeAssetCtx', coin: 'ETH' } });
+    });
+
+    it('keeps live state and writes the coins that changed on the snapshot interval', async () => {
+        await startWorker();
+        await push({ channel: 'allMids', data: { mids: { BTC: '101', ETH: '3000' } } });
+
+        await vi.waitFor(() => expect(upsertLiveMarket).toHaveBeenCalled());
+        expect(worker.state.get('BTC')?.midPrice).toBe(101);
+        const written = vi.mocked(upsertLiveMarket).mock.calls[0][0];
+        expect(written.map(asset => asset.coin).sort()).toEqual(['BTC', 'ETH']);
+
+        // Nothing changed since → no further writes
+        const calls = vi.mocked(upsertLiveMarket).mock.calls.length;
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(vi.mocked(upsertLiveMarket).mock.calls.length).toBe(calls);
+    });
+
+    it('checks a signal the instant a trade reaches its stop, once per cooldown', async () => {
+        await startWorker();
+        await push({ channel: 'trades', data: [{ coin: 'BTC', px: '100', sz: '1', time: Date.now() }] });
+        await push({ channel: 'trades', data: [{ coin: 'BTC', px: '94.5', sz: '1', time: Date.now() }] });
+        await push({ channel: 'trades', data: [{ coin: 'BTC', px: '94', sz: '1', time: Date.now() }] });
+
+        await vi.waitFor(() => expect(monitorSignals).toHaveBeenCalled());
+        expect(monitorSignals).toHaveBeenCalledWith(
+            [PENDING_BTC_LONG], new Map([['BTC', 94.5]]), { intrabar: false }
+        );
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(monitorSignals).toHaveBeenCalledTimes(1);
+    });
+
+    it('reconnects and resubscribes after the server drops the connection', async () => {
+        await startWorker();
+        await vi.waitFor(() => expect(received).toHaveLength(5));
+
+        clients[0].terminate();
+
+        await vi.waitFor(() => expect(clients).toHaveLength(2));
+        await vi.waitFor(() => expect(received).toHaveLength(10));
+    });
+
+    it('retries a connect whose handshake never completes', async () => {
+        // Accepts TCP connections but never answers the upgrade
+        const sockets: Socket[] = [];
+        const silent = createServer(socket => sockets.push(socket));
+        await new Promise<void>(resolve => silent.listen(0, '127.0.0.1', resolve));
+        const { port } = silent.address() as AddressInfo;
+
+        worker = createHyperliquidWorker({
+            url: `ws://127.0.0.1:${port}`,
+            coins: ['BTC'],
+            config: { ...FAST, pingIntervalMs: 20, staleAfterMs: 50 },
+        });
+        await worker.start();
+
+        await vi.waitFor(() => expect(sockets.length).toBeGreaterThanOrEqual(2));
+
+        await worker.stop();
+        sockets.forEach(socket => socket.destroy());
+        await new Promise(resolve => silent.close(resolve));
+    });
+});
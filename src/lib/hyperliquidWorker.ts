@@ -0,0 +1,208 @@
+/**
+ * Hyperliquid Stream Worker
+ *
+ * Long-running WebSocket client for allMids, trades and activeAssetCtx:
+ * - Folds every message into in-memory live state per coin
+ * - Writes the coins that changed to live_market at most every snapshotIntervalMs
+ * - Runs the signal monitor for an open signal the instant a mid, trade or mark
+ *   reaches its stop, take profit or a ladder target (the 5-minute cron stays the fallback)
+ * - Pings to keep the connection alive and reconnects with backoff when it drops or goes quiet
+ *
+ * Server-side only (uses the service role client). Started by src/workers/hyperliquid.ts.
+ */
+
+import WebSocket from 'ws';
+import { logger } from '@/lib/logger';
+import { getAllPendingSignals, upsertLiveMarket, DbSignal } from '@/lib/supabaseServer';
+import { monitorSignals } from '@/lib/signalMonitor';
+import { CURATED_ASSETS } from '@/lib/constants/assets';
+import {
+    applyStreamMessage,
+    createLiveMarketState,
+    crossedLevel,
+    reconnectDelayMs,
+    subscriptionMessages,
+    watchedPosition,
+    DEFAULT_STREAM_CONFIG,
+    HYPERLIQUID_WS,
+    LiveMarketState,
+    PriceTick,
+    StreamConfig,
+    WatchedPosition,
+} from '@/lib/engine/hyperliquidStream';
+
+const log = logger.withContext('HyperliquidWorker');
+
+export interface HyperliquidWorkerOptions {
+    url?: string;
+    coins?: readonly string[];
+    config?: Partial<StreamConfig>;
+}
+
+export interface HyperliquidWorker {
+    /** Load open signals, connect and start the timers */
+    start(): Promise<void>;
+    /** Close the connection, write the last snapshot and wait for running checks */
+    stop(): Promise<void>;
+    readonly state: LiveMarketState;
+}
+
+export function createHyperliquidWorker(options: HyperliquidWorkerOptions = {}): HyperliquidWorker {
+    const url = options.url ?? HYPERLIQUID_WS;
+    const coins = options.coins ?? CURATED_ASSETS;
+    const config: StreamConfig = { ...DEFAULT_STREAM_CONFIG, ...options.config };
+    const state = createLiveMarketState(coins);
+
+    let socket: WebSocket | null = null;
+    let stopped = true;
+    let attempt = 0;
+    let lastMessageAt = 0;
+    let reconnectTimer: NodeJS.Timeout | null = null;
+    let timers: NodeJS.Timeout[] = [];
+
+    // Open signals by coin, and when each was last sent to the monitor
+    let watched = new Map<string, WatchedPosition[]>();
+    const lastChecked = new Map<string, number>();
+    // updatedAt of each coin as of its last write
+    const written = new Map<string, number>();
+    // Checks and writes run one at a time, in order
+    let queue: Promise<void> = Promise.resolve();
+
+    function enqueue(task: () => Promise<void>): void {
+        queue = queue.then(task).catch(error => log.error('Worker task failed', error));
+    }
+
+    async function refreshPositions(): Promise<DbSignal[]> {
+        const signals = await getAllPendingSignals();
+        const next = new Map<string, WatchedPosition[]>();
+        for (const signal of signals) {
+            const position = watchedPosition(signal);
+            if (position) next.set(position.coin, [...(next.get(position.coin) ?? []), position]);
+        }
+        watched = next;
+        return signals;
+    }
+
+    /**
+     * Send the signals whose levels a tick reached to the monitor. Levels are re-read first,
+     * so a stop the cron trailed in the meantime is never checked (or written) from a stale copy.
+     */
+    function onTick(tick: PriceTick): void {
+        const now = Date.now();
+        const crossed = (watched.get(tick.coin) ?? []).filter(position =>
+            crossedLevel(position, tick.price) !== null
+            && now - (lastChecked.get(position.id) ?? 0) >= config.recheckCooldownMs
+        );
+        if (crossed.length === 0) return;
+
+        const ids = new Set(crossed.map(position => position.id));
+        ids.forEach(id => lastChecked.set(id, now));
+        log.debug(`${tick.coin} ${tick.source.toLowerCase()} at ${tick.price} reached a level of ${ids.size} signal(s)`);
+
+        enqueue(async () => {
+            const signals = (await refreshPositions()).filter(signal => ids.has(signal.id));
+            if (signals.length === 0) return;
+
+            const result = await monitorSignals(signals, new Map([[tick.coin, tick.price]]), { intrabar: false });
+            for (const update of result.updates) {
+                log.info(`Closed ${update.coin} ${update.outcome} (${update.profitPct}%) on a ${tick.source.toLowerCase()} at ${tick.price}`);
+            }
+            if (result.updates.length > 0 || result.partialFills.length > 0) await refreshPositions();
+        });
+    }
+
+    function writeSnapshots(): void {
+        const changed = [...state.values()]
+            .filter(asset => asset.updatedAt > (written.get(asset.coin) ?? 0))
+            .map(asset => ({ ...asset }));
+        if (changed.length === 0) return;
+
+        enqueue(async () => {
+            if (await upsertLiveMarket(changed)) {
+                changed.forEach(asset => written.set(asset.coin, asset.updatedAt));
+            }
+        });
+    }
+
+    function connect(): void {
+        if (stopped) return;
+
+        const ws = new WebSocket(url);
+        socket = ws;
+        lastMessageAt = Date.now(); // The handshake gets the same staleness window as a silent socket
+
+        ws.on('open', () => {
+            lastMessageAt = Date.now();
+            for (const message of subscriptionMessages(coins)) ws.send(JSON.stringify(message));
+            log.info(`Connected to ${url}, subscribed to ${coins.length} coins`);
+        });
+
+        ws.on('message', raw => {
+            // Backoff resets on data, not on open, so a server that accepts and drops still backs off
+            attempt = 0;
+            lastMessageAt = Date.now();
+
+            let message: unknown;
+            try {
+                message = JSON.parse(raw.toString());
+            } catch {
+                log.warn('Ignoring a message that is not JSON');
+                return;
+            }
+
+            for (const tick of applyStreamMessage(state, message, lastMessageAt)) onTick(tick);
+        });
+
+        ws.on('error', error => log.warn(`Socket error: ${error.message}`));
+
+        ws.on('close', () => {
+            if (socket === ws) socket = null;
+            if (stopped) return;
+
+            const delay = reconnectDelayMs(attempt++, config);
+            log.warn(`Disconnected, reconnecting in ${delay}ms (attempt ${attempt})`);
+            reconnectTimer = setTimeout(connect, delay);
+        });
+    }
+
+    function heartbeat(): void {
+        if (!socket) return;
+
+        // Also covers a connect stuck in CONNECTING: terminate aborts the handshake and closes
+        if (Date.now() - lastMessageAt > config.staleAfterMs) {
+            log.warn(`No message for ${config.staleAfterMs}ms, reconnecting`);
+            socket.terminate();
+            return;
+        }
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ method: 'ping' }));
+    }
+
+    return {
+        state,
+
+        async start() {
+            if (!stopped) return;
+            stopped = false;
+
+            await refreshPositions();
+            connect();
+            timers = [
+                setInterval(heartbeat, config.pingIntervalMs),
+                setInterval(writeSnapshots, config.snapshotIntervalMs),
+                setInterval(() => enqueue(async () => { await refreshPositions(); }), config.positionRefreshMs),
+            ];
+        },
+
+        async stop() {
+            stopped = true;
+            timers.forEach(clearInterval);
+            timers = [];
+            if (reconnectTimer) clearTimeout(reconnectTimer);
+            socket?.close();
+            socket = null;
+
+            writeSnapshots();
+            await queue;
+        },
+    };
+}
@@ -0,0 +1,221 @@
+/**
+ * Paper Trading
+ *
+ * Runs the simulated accounts that follow engine signals:
+ * - opens a position per account when a signal is created (auto-follow) or followed manually
+ * - mirrors the signal's take-profit tranches and final exit from the monitor
+ * - charges Hyperliquid funding on open positions every monitor run
+ *
+ * Fills, fees and funding are computed by the engine's paper module; this
+ * module only loads and books them. Server-side only (uses the service role client).
+ */
+
+import { logger } from '@/lib/logger';
+import {
+    getAutoFollowPaperAccounts,
+    getOpenPaperPositions,
+    addPaperPosition,
+    updatePaperPosition,
+    applyPaperCashFlow,
+    DbPaperAccount,
+    DbPaperPosition,
+    DbSignal,
+    ExitReason,
+    TrancheFill,
+} from '@/lib/supabaseServer';
+import {
+    sizePaperPosition,
+    openPaperPosition,
+    closePaperTranche,
+    fundingPayment,
+    isFullyClosed,
+    PaperPositionState,
+} from '@/lib/engine/paper';
+import { remainingFraction } from '@/lib/engine/outcome';
+import { fetchHyperliquidMarketContext } from '@/lib/engine/hyperliquidData';
+
+const log = logger.withContext('Paper');
+
+const positionState = (position: DbPaperPosition): PaperPositionState => ({
+    direction: position.direction,
+    entryPrice: Number(position.entry_price),
+    quantity: Number(position.quantity),
+    closedFraction: Number(position.closed_fraction),
+});
+
+/**
+ * Open a paper position for one account at the mark price.
+ * Sized from the signal's stop at entry; null for HOLD, zero size or an already-followed signal.
+ */
+export async function followSignal(
+    account: DbPaperAccount,
+    signal: DbSignal,
+    markPrice: number
+): Promise<DbPaperPosition | null> {
+    if (signal.direction !== 'LONG' && signal.direction !== 'SHORT') return null;
+
+    const notional = sizePaperPosition(
+        Number(account.balance),
+        { riskPerTradePct: Number(account.risk_per_trade_pct), maxLeverage: Number(account.max_leverage) },
+        markPrice,
+        signal.initial_stop_loss ?? signal.stop_loss
+    );
+    if (notional <= 0) return null;
+
+    const now = new Date().toISOString();
+    const { state, fill } = openPaperPosition(signal.direction, markPrice, notional, undefined, now);
+
+    const position = await addPaperPosition({
+        user_id: account.user_id,
+        signal_id: signal.id,
+        coin: signal.coin,
+        direction: signal.direction,
+        entry_price: state.entryPrice,
+        quantity: state.quantity,
+        notional,
+        closed_fraction: 0,
+        realized_pnl: 0,
+        fees_paid: fill.fee,
+        funding_paid: 0,
+        fills: [fill],
+        opened_at: now,
+        funding_at: now,
+    });
+
+    if (position) {
+        await applyPaperCashFlow(account.user_id, { fees: fill.fee });
+    }
+
+    return position;
+}
+
+/**
+ * Open positions on every auto-follow account for a newly created signal
+ * @returns Number of positions opened
+ */
+export async function openPaperPositionsForSignal(signal: DbSignal): Promise<number> {
+    const accounts = await getAutoFollowPaperAccounts();
+    let opened = 0;
+
+    for (const account of accounts) {
+        try {
+            if (await followSignal(account, signal, signal.entry_price)) opened++;
+        } catch (error) {
+            log.error(`Failed to open paper position for ${signal.coin}`, error);
+        }
+    }
+
+    return opened;
+}
+
+/**
+ * Mirror a signal's monitor events on the positions following it.
+ *
+ * Each new tranche closes the same share of what the position still holds as it
+ * closes of what the signal still holds, so positions opened after TP1 scale out
+ * in proportion. `exit` closes whatever is left.
+ *
+ * @param previousFills - Signal tranches closed before this event
+ * @param newFills - Tranches closed by this event
+ * @returns Number of positions updated
+ */
+export async function applySignalEventToPaper(
+    signal: DbSignal,
+    previousFills: TrancheFill[],
+    newFills: TrancheFill[],
+    exit?: { price: number; reason: ExitReason }
+): Promise<number> {
+    if (newFills.length === 0 && !exit) return 0;
+
+    const positions = await getOpenPaperPositions(signal.id);
+    let updated = 0;
+
+    for (const position of positions) {
+        const state = positionState(position);
+        const fills = [...position.fills];
+        let signalOpen = remainingFraction(previousFills);
+        let pnl = 0;
+        let fees = 0;
+
+        const book = (fill: ReturnType<typeof closePaperTranche>) => {
+            if (!fill) return;
+            fills.push(fill);
+            state.closedFraction += fill.fraction;
+            pnl += fill.pnl;
+            fees += fill.fee;
+        };
+
+        for (const tranche of newFills) {
+            const share = signalOpen > 0 ? Math.min(1, tranche.fraction / signalOpen) : 1;
+            signalOpen -= tranche.fraction;
+            book(closePaperTranche(state, tranche.price, share * (1 - state.closedFraction), `TP${tranche.target + 1}`, undefined, tranche.at));
+        }
+
+        if (exit) {
+            book(closePaperTranche(state, exit.price, 1, exit.reason));
+        }
+
+        const closed = Boolean(exit) || isFullyClosed(state);
+        const saved = await updatePaperPosition(position.id, {
+            closed_fraction: Math.min(1, state.closedFraction),
+            realized_pnl: Number(position.realized_pnl) + pnl,
+            fees_paid: Number(position.fees_paid) + fees,
+            fills,
+            ...(closed ? {
+                status: 'CLOSED' as const,
+                exit_reason: exit?.reason ?? 'TAKE_PROFIT',
+                closed_at: new Date().toISOString(),
+            } : {}),
+        });
+
+        if (saved) {
+            await applyPaperCashFlow(position.user_id, { pnl, fees });
+            updated++;
+        }
+    }
+
+    return updated;
+}
+
+/**
+ * Charge (or credit) Hyperliquid funding on every open paper position since its last accrual
+ * @param prices - Current mark prices by coin
+ * @returns Net funding paid across all positions this run (USD)
+ */
+export async function accruePaperFunding(prices: Map<string, number>): Promise<number> {
+    const positions = await getOpenPaperPositions();
+    if (positions.length === 0) return 0;
+
+    const coins = [...new Set(positions.map(p => p.coin.toUpperCase()))];
+    const context = await fetchHyperliquidMarketContext(coins);
+    if (!context) {
+        // Rates unavailable — keep funding_at so the next run charges the whole interval
+        log.warn('No Hyperliquid funding rates; skipping paper funding');
+        return 0;
+    }
+
+    const now = new Date();
+    let total = 0;
+
+    for (const position of positions) {
+        const coin = position.coin.toUpperCase();
+        const rate = context.assets.get(coin)?.fundingRate;
+        const markPrice = prices.get(coin);
+        if (rate === undefined || !markPrice) continue;
+
+        const hours = (now.getTime() - new Date(position.funding_at).getTime()) / 3_600_000;
+        const payment = Math.round(fundingPayment(positionState(position), markPrice, rate, hours) * 10000) / 10000;
+
+        const saved = await updatePaperPosition(position.id, {
+            funding_paid: Number(position.funding_paid) + payment,
+            funding_at: now.toISOString(),
+        });
+
+        if (saved && payment !== 0) {
+            await applyPaperCashFlow(position.user_id, { funding: payment });
+            total += payment;
+        }
+    }
+
+    return Math.round(total * 100) / 100;
+}
@@ -0,0 +1,55 @@
+/**
+ * Regime Model Shadow Mode
+ *
+ * Classifies the current market with the statistical regime model (k-means / Gaussian HMM)
+ * so the generate cron can record it next to detectMarketRegime. The fitted model is cached
+ * and refit on stored BTC 4h candles once it is older than the configured refit interval
+ * or the method / state count changed.
+ *
+ * Server-side only (uses the service role client).
+ */
+
+import { logger } from '@/lib/logger';
+import { getRegimeModelConfig, getRegimeModel, saveRegimeModel } from '@/lib/supabaseServer';
+import { getCandles } from '@/lib/candleRepository';
+import { fitRegimeModel, classifyLatestRegime, RegimeClassification, RegimeModel } from '@/lib/engine/regimeModel';
+
+const log = logger.withContext('RegimeShadow');
+
+/**
+ * The model's regime for the latest BTC bar, or null when shadow mode is off or the fit failed
+ */
+export async function classifyShadowRegime(now: number = Date.now()): Promise<(RegimeClassification & { method: RegimeModel['method'] }) | null> {
+    try {
+        const config = await getRegimeModelConfig();
+        if (!config.shadow) return null;
+
+        const candles = await getCandles('BTC', '4h', config.trainingBars);
+        const stored = await getRegimeModel();
+
+        let model = stored?.model ?? null;
+        const stale = !stored
+            || now - stored.fittedAt >= config.refitHours * 3600000
+            || stored.model.method !== config.method
+            || stored.model.states.length !== config.states;
+
+        if (stale) {
+            model = fitRegimeModel(candles, { method: config.method, states: config.states });
+            if (model) {
+                await saveRegimeModel(model, now);
+                log.info(`Refit ${config.method} regime model on ${model.trainedBars} bars: ${model.states.map(s => s.regime).join(', ')}`);
+            }
+        }
+
+        if (!model) {
+            log.debug(`Not enough BTC history to fit the regime model (${candles.length} bars)`);
+            return null;
+        }
+
+        const latest = classifyLatestRegime(model, candles);
+        return latest ? { ...latest, method: model.method } : null;
+    } catch (error) {
+        log.error('Shadow regime classification failed', error);
+        return null;
+    }
+}
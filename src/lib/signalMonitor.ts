@@ -0,0 +1,398 @@
+/**
+ * Signal Monitor
+ *
+ * Checks pending signals against prices: tightens stops, closes take-profit ladder
+ * tranches, and closes signals on SL/TP, momentum exit or expiry.
+ * Shared by the monitor cron (polled marks, intrabar replay since its last run) and the
+ * Hyperliquid stream worker (live prices the instant a level is crossed, no replay).
+ *
+ * Server-side only (uses the service role client).
+ */
+
+import { logger } from '@/lib/logger';
+import {
+    updateSignalOutcomeServer,
+    updateSignalStop,
+    getTrailingStopConfig,
+    getExpiryConfig,
+    getIntrabarConfig,
+    getMarketSnapshots,
+    DbSignal,
+    updateSignalFills,
+    ExitReason,
+    StopMove,
+    TrancheFill,
+} from '@/lib/supabaseServer';
+import {
+    checkMomentumAligned,
+    checkPriceLevels,
+    calculateProfitPct,
+    updateTrailingStop,
+    fillTakeProfitTargets,
+    remainingFraction,
+    settleExit,
+    maxHoldingHours,
+    isExpired,
+    replayIntrabar,
+    ExpiryConfig,
+    IntrabarConfig,
+    PositionLevels,
+    TrailingStopConfig,
+} from '@/lib/engine/outcome';
+import { estimateTradeCosts, netProfitPct } from '@/lib/engine/costs';
+import { fetchCandles, INTERVAL_MS } from '@/lib/engine/candles';
+import type { OHLCV } from '@/lib/engine/indicators';
+import { getCandles } from '@/lib/candleRepository';
+import { applySignalEventToPaper } from '@/lib/paperTrading';
+
+const log = logger.withContext('SignalMonitor');
+
+export interface MonitorResult {
+    updates: { id: string; coin: string; outcome: string; profitPct: number; netProfitPct: number; intrabar: boolean }[];
+    stopMoves: { id: string; coin: string; reason: string; from: number; to: number }[];
+    partialFills: { id: string; coin: string; targets: number[]; remaining: number }[];
+    paperUpdates: number;
+}
+
+/**
+ * Get recent closes for the momentum check (at least 20 bars required)
+ */
+async function fetchRecentCloses(symbol: string, limit: number, interval: '1h' | '4h'): Promise<number[] | null> {
+    try {
+        const candles = await getCandles(symbol, interval, limit);
+        return candles.length >= 20 ? candles.map(c => c.close) : null;
+    } catch (error) {
+        log.error(`Error fetching ${interval} candles for ${symbol}`, error);
+        return null;
+    }
+}
+
+/**
+ * Candles that opened at or after `since` (a candle straddling `since` could hold a wick from before it)
+ */
+async function fetchIntrabarCandles(symbol: string, since: number, interval: IntrabarConfig['interval']): Promise<OHLCV[]> {
+    const startTime = Math.ceil(since / INTERVAL_MS[interval]) * INTERVAL_MS[interval];
+    if (startTime >= Date.now()) return [];
+
+    try {
+        const { candles } = await fetchCandles(symbol, interval, { startTime, endTime: Date.now() });
+        return candles.filter(c => c.timestamp >= startTime);
+    } catch (error) {
+        log.error(`Error fetching ${interval} candles for ${symbol}`, error);
+        return [];
+    }
+}
+
+/**
+ * v4.1: Dual-timeframe momentum check
+ * Fetches both 1h and 4h candles — exit only when BOTH show fading momentum.
+ * This prevents premature exits from short-term noise on a single timeframe.
+ */
+async function checkDualTimeframeMomentum(
+    coin: string,
+    direction: 'LONG' | 'SHORT'
+): Promise<{ shouldExit: boolean; reason: string }> {
+    // Fetch both timeframes in parallel
+    const [candles1h, candles4h] = await Promise.all([
+        fetchRecentCloses(coin, 50, '1h'),
+        fetchRecentCloses(coin, 50, '4h'),
+    ]);
+
+    // If we can't get either timeframe, don't exit (conservative)
+    if (!candles1h && !candles4h) {
+        return { shouldExit: false, reason: 'Could not fetch candle data for momentum check' };
+    }
+
+    const result1h = candles1h ? checkMomentumAligned(candles1h, direction) : { aligned: true, reason: 'No 1h data' };
+    const result4h = candles4h ? checkMomentumAligned(candles4h, direction) : { aligned: true, reason: 'No 4h data' };
+
+    // Only exit if BOTH timeframes show fading momentum (dual confirmation)
+    if (!result1h.aligned && !result4h.aligned) {
+        return {
+            shouldExit: true,
+            reason: `Dual-TF exit: 1h(${result1h.reason}) + 4h(${result4h.reason})`,
+        };
+    }
+
+    // At least one timeframe still shows momentum — let it run
+    const holdReason = result1h.aligned ? `1h: ${result1h.reason}` : `4h: ${result4h.reason}`;
+    return {
+        shouldExit: false,
+        reason: `Momentum intact on at least one TF — ${holdReason}`,
+    };
+}
+
+
+/**
+ * Check if a signal hit SL or TP
+ * Now with smart momentum re-evaluation at 3% profit
+ * and trailing stops (the stop is tightened before the price is checked against it).
+ * Scaled-out signals close tranches at each ladder target; the final profit is blended over all tranches.
+ * Candles since the last check are replayed first: a level reached between runs closes the signal
+ * at that level and time, before the stop trails to the current price, and ladder targets reached
+ * between runs fill at their level.
+ * A signal past its max holding period with no exit triggered closes at the mark as EXPIRED.
+ */
+async function checkSignalOutcome(
+    signal: DbSignal,
+    currentPrice: number,
+    trailingConfig: TrailingStopConfig,
+    expiryConfig: ExpiryConfig,
+    intrabar: { candles: OHLCV[]; tieBreak: IntrabarConfig['tieBreak'] }
+): Promise<{
+    hit: boolean;
+    outcome?: 'WON' | 'LOST' | 'EXPIRED';
+    exitReason?: ExitReason;
+    profitPct?: number;
+    stopMove?: StopMove;
+    fills?: TrancheFill[];      // Every tranche closed so far, including newFills
+    newFills?: TrancheFill[];   // Tranches closed by this check
+    exitPrice?: number;         // Intrabar hits: the level reached (otherwise the mark)
+    closedAt?: string;          // Intrabar hits: open time of the candle that reached it
+}> {
+    const { direction, entry_price, stop_loss, take_profit, coin, created_at } = signal;
+
+    if (direction !== 'LONG' && direction !== 'SHORT') {
+        return { hit: false };
+    }
+
+    const profitPct = calculateProfitPct(direction, entry_price, currentPrice);
+
+    // SAFEGUARD 1: Detect impossible instant wins (>5% in <30 min)
+    // This indicates stale entry_price data - skip processing
+    const signalAge = created_at ? (Date.now() - new Date(created_at).getTime()) / 1000 / 60 : 999; // age in minutes
+
+    if (signalAge < 30 && Math.abs(profitPct) > 5) {
+        log.info(`BLOCKED ${coin}: Suspicious ${profitPct.toFixed(1)}% in ${signalAge.toFixed(0)}m - likely stale entry price`);
+        return { hit: false }; // Don't close this signal - it has bad data
+    }
+
+    const snapshot = signal.indicator_snapshot ?? {};
+    const maxHours = maxHoldingHours(
+        expiryConfig,
+        typeof snapshot.timeframe === 'string' ? snapshot.timeframe : undefined,
+        typeof snapshot.regime === 'string' ? snapshot.regime : undefined
+    );
+    const expired = created_at ? isExpired(created_at, maxHours) : false;
+
+    // SAFEGUARD 2: Detect impossibly tight entry-TP spread
+    // If TP would be hit immediately (within 1% of entry), the TP was calculated from stale data
+    const tpSpread = direction === 'LONG'
+        ? ((take_profit - entry_price) / entry_price) * 100
+        : ((entry_price - take_profit) / entry_price) * 100;
+
+    if (tpSpread < 1) {
+        if (expired) {
+            // Bad levels would otherwise keep the signal open forever
+            const fills = signal.tp_fills ?? [];
+            const settled = settleExit(fills, profitPct, 'WON');
+            return { hit: true, outcome: 'EXPIRED', exitReason: 'EXPIRED', profitPct: settled.profitPct, fills, newFills: [] };
+        }
+        log.info(`BLOCKED ${coin}: TP spread only ${tpSpread.toFixed(2)}% - indicates stale SL/TP calculation`);
+        return { hit: false }; // Don't process - bad TP data
+    }
+
+    // Tighten the stop (never loosens) — ATR mode uses the ATR stored at signal creation
+    const position: PositionLevels = {
+        direction,
+        entryPrice: entry_price,
+        stopLoss: stop_loss,
+        takeProfit: take_profit,
+        initialStopLoss: signal.initial_stop_loss ?? stop_loss,
+    };
+
+    // A wick through SL/TP since the last check closes at that level, with the stop in force at the time;
+    // ladder targets reached on the way fill at their level first
+    const targets = signal.take_profit_targets ?? [];
+    const storedFills = signal.tp_fills ?? [];
+    const replay = replayIntrabar(position, intrabar.candles, intrabar.tieBreak, targets, storedFills);
+    const intrabarHit = replay.hit;
+    if (intrabarHit) {
+        const fills = [...storedFills, ...replay.fills];
+        const settled = settleExit(fills, intrabarHit.profitPct, intrabarHit.outcome);
+        log.debug(`${coin} ${intrabarHit.exitReason} intrabar at ${intrabarHit.exitPrice}${intrabarHit.ambiguous ? ` (${intrabar.tieBreak.toLowerCase()} tie-break)` : ''}`);
+        return {
+            hit: true,
+            outcome: settled.outcome,
+            exitReason: intrabarHit.exitReason,
+            profitPct: settled.profitPct,
+            fills,
+            newFills: replay.fills,
+            exitPrice: intrabarHit.exitPrice,
+            closedAt: new Date(intrabarHit.hitAt).toISOString(),
+        };
+    }
+
+    const atr = Number(signal.indicator_snapshot?.atr) || 0;
+    const trail = updateTrailingStop(position, currentPrice, atr, trailingConfig);
+
+    let stopMove: StopMove | undefined;
+    if (trail.reason) {
+        stopMove = { from: stop_loss, to: trail.stopLoss, reason: trail.reason, price: currentPrice, at: new Date().toISOString() };
+        position.stopLoss = trail.stopLoss;
+    }
+
+    // Close any ladder targets reached — earlier tranches count toward the remainder's exit
+    const previousFills = [...storedFills, ...replay.fills];
+    const newFills = [
+        ...replay.fills,
+        ...fillTakeProfitTargets(position, targets, previousFills, currentPrice, new Date().toISOString()),
+    ];
+    const fills = [...storedFills, ...newFills];
+
+    if (targets.length > 0 && remainingFraction(fills) === 0) {
+        const settled = settleExit(fills, profitPct, 'WON');
+        return { hit: true, outcome: settled.outcome, exitReason: 'TAKE_PROFIT', profitPct: settled.profitPct, stopMove, fills, newFills };
+    }
+
+    const levels = checkPriceLevels(position, currentPrice);
+
+    // Hit full TP, SL or trailed stop (a TP hit with negative profit is recorded as a loss)
+    if (levels.hit && levels.outcome) {
+        const settled = settleExit(fills, profitPct, levels.outcome);
+        return { hit: true, outcome: settled.outcome, exitReason: levels.exitReason, profitPct: settled.profitPct, stopMove, fills, newFills };
+    }
+
+    // Out of time with no exit triggered — close the remainder at the mark
+    if (expired) {
+        const settled = settleExit(fills, profitPct, 'WON');
+        log.debug(`${coin} ${direction} expired after ${maxHours}h at ${profitPct.toFixed(2)}%`);
+        return { hit: true, outcome: 'EXPIRED', exitReason: 'EXPIRED', profitPct: settled.profitPct, stopMove, fills, newFills };
+    }
+
+    // Hit 3% threshold - check momentum before exiting
+    // v4.1: Dual-timeframe confirmation (1h + 4h) to avoid premature exits
+    if (levels.momentumCheckDue) {
+        const { shouldExit, reason } = await checkDualTimeframeMomentum(coin, direction);
+        log.debug(`${coin} ${direction} at +${profitPct.toFixed(2)}%: ${reason}`);
+
+        if (shouldExit) {
+            // Both timeframes confirm momentum fading — take profit
+            const settled = settleExit(fills, profitPct, 'WON');
+            return { hit: true, outcome: settled.outcome, exitReason: 'MOMENTUM_EXIT', profitPct: settled.profitPct, stopMove, fills, newFills };
+        }
+        // At least one TF still shows momentum — let it run to TP
+    }
+
+    return { hit: false, stopMove, fills, newFills };
+}
+
+/**
+ * Check signals against the given prices (uppercase coin → price) and persist every
+ * stop move, partial fill and close.
+ *
+ * @param options.lastRun - Previous monitor run; candles since then are replayed for wicks through SL/TP
+ * @param options.intrabar - false for live stream prices, which see every level crossing themselves
+ */
+export async function monitorSignals(
+    signals: DbSignal[],
+    prices: Map<string, number>,
+    options: { lastRun?: number | null; intrabar?: boolean } = {}
+): Promise<MonitorResult> {
+    // Trailing-stop, expiry and intrabar rules (admin-configurable, defaults when unset)
+    const [trailingConfig, expiryConfig, intrabarConfig] = await Promise.all([
+        getTrailingStopConfig(),
+        getExpiryConfig(),
+        getIntrabarConfig(),
+    ]);
+    const replayFrom = options.intrabar !== false && intrabarConfig.enabled
+        ? Math.max(options.lastRun ?? 0, Date.now() - intrabarConfig.maxLookbackHours * 3600000)
+        : null;
+
+    // Volume and funding for the cost estimate of signals that close
+    const snapshots = await getMarketSnapshots(signals.map(s => s.coin));
+
+    const updates: MonitorResult['updates'] = [];
+    const stopMoves: MonitorResult['stopMoves'] = [];
+    const partialFills: MonitorResult['partialFills'] = [];
+    let paperUpdates = 0;
+
+    for (const signal of signals) {
+        const currentPrice = prices.get(signal.coin.toUpperCase());
+
+        if (!currentPrice) {
+            log.debug(`No price for ${signal.coin}, skipping`);
+            continue;
+        }
+
+        const intrabarCandles = replayFrom !== null
+            ? await fetchIntrabarCandles(
+                signal.coin.toUpperCase(),
+                Math.max(replayFrom, new Date(signal.created_at).getTime()),
+                intrabarConfig.interval
+            )
+            : [];
+
+        const result = await checkSignalOutcome(signal, currentPrice, trailingConfig, expiryConfig, {
+            candles: intrabarCandles,
+            tieBreak: intrabarConfig.tieBreak,
+        });
+
+        // Record the stop move before any close, so a stop tightened and hit in one check keeps its history
+        if (result.stopMove) {
+            const moved = await updateSignalStop(signal, result.stopMove);
+            if (moved) {
+                const { reason, from, to } = result.stopMove;
+                stopMoves.push({ id: signal.id, coin: signal.coin, reason, from, to });
+                log.debug(`Moved ${signal.coin} stop ${from} → ${to} (${reason})`);
+            } else if (result.hit) {
+                // Closed or re-stopped by another writer since it was read — leave the close to them
+                continue;
+            }
+        }
+
+        if (!result.hit && result.fills && result.newFills && result.newFills.length > 0) {
+            const filled = await updateSignalFills(signal, result.fills);
+            if (filled) {
+                const remaining = Math.round(remainingFraction(result.fills) * 100) / 100;
+                partialFills.push({ id: signal.id, coin: signal.coin, targets: result.newFills.map(f => f.target + 1), remaining });
+                log.debug(`Scaled out ${signal.coin} at TP${result.newFills.map(f => f.target + 1).join('/TP')} (${remaining} left)`);
+                paperUpdates += await applySignalEventToPaper(signal, signal.tp_fills ?? [], result.newFills);
+            }
+        }
+
+        if (result.hit && result.outcome && result.exitReason && result.profitPct !== undefined) {
+            const exitPrice = result.exitPrice ?? currentPrice;
+            const closedAt = result.closedAt ? new Date(result.closedAt).getTime() : Date.now();
+            const snapshot = snapshots.get(signal.coin.toUpperCase());
+            const costs = estimateTradeCosts({
+                direction: signal.direction as 'LONG' | 'SHORT',
+                holdingHours: (closedAt - new Date(signal.created_at).getTime()) / 3600000,
+                volume24h: snapshot?.volume_7d_avg || snapshot?.volume_24h || 0,
+                annualizedFunding: snapshot?.funding_rate ?? 0,
+            });
+
+            const updated = await updateSignalOutcomeServer(
+                signal.id,
+                result.outcome,
+                exitPrice,
+                result.exitReason,
+                result.profitPct,
+                result.fills,
+                costs,
+                result.closedAt,
+                signal.tp_fills ?? []
+            );
+
+            if (updated) {
+                updates.push({
+                    id: signal.id,
+                    coin: signal.coin,
+                    outcome: result.outcome,
+                    profitPct: Math.round(result.profitPct * 100) / 100,
+                    netProfitPct: Math.round(netProfitPct(result.profitPct, costs) * 100) / 100,
+                    intrabar: result.closedAt !== undefined,
+                });
+                log.debug(`Updated ${signal.coin}: ${result.outcome} (${result.profitPct.toFixed(2)}%)`);
+                paperUpdates += await applySignalEventToPaper(
+                    signal,
+                    signal.tp_fills ?? [],
+                    result.newFills ?? [],
+                    { price: exitPrice, reason: result.exitReason }
+                );
+            }
+        }
+    }
+
+    return { updates, stopMoves, partialFills, paperUpdates };
+}
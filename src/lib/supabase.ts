@@ -196,10 +196,12 @@ export async function getTrackingStats() {
     const open = signals.filter(s => s.outcome === 'PENDING');
     const wins = completed.filter(s => s.outcome === 'WON');
     const losses = completed.filter(s => s.outcome === 'LOST');
+    const expired = completed.filter(s => s.outcome === 'EXPIRED');
+    const resolved = wins.length + losses.length;
 
-    // Calculate consecutive losses
+    // Calculate consecutive losses (expired signals neither extend nor break the streak)
     let consecutiveLosses = 0;
-    const sortedCompleted = [...completed].sort(
+    const sortedCompleted = [...wins, ...losses].sort(
         (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
     );
     for (const signal of sortedCompleted) {
@@ -222,7 +224,8 @@ export async function getTrackingStats() {
         openSignals: open.length,
         wins: wins.length,
         losses: losses.length,
-        winRate: completed.length > 0 ? (wins.length / completed.length) * 100 : 0,
+        expired: expired.length,
+        winRate: resolved > 0 ? (wins.length / resolved) * 100 : 0,
         avgProfit: Math.round(avgProfit * 100) / 100,
         avgLoss: Math.round(avgLoss * 100) / 100,
         consecutiveLosses,
@@ -7,11 +7,38 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { logger } from '@/lib/logger';
-import type { DbSignal, ExitReason } from '@/lib/types/database';
-import type { IndicatorWeights } from '@/lib/engine';
+import type { DbPaperAccount, DbPaperPosition, DbRegimeLearningCycle, DbRegimeObservation, DbSignal, ExitReason, StopMove, TradeCosts, TrancheFill } from '@/lib/types/database';
+import type { IndicatorWeights, OHLCV, RegimeWeightSet } from '@/lib/engine';
+import type { WalkForwardResult } from '@/lib/engine/optimizer';
+import { DEFAULT_WEIGHTS, normalizeWeights } from '@/lib/engine/scoring';
+import {
+    DEFAULT_EXPIRY,
+    DEFAULT_INTRABAR,
+    DEFAULT_TRAILING_STOP,
+    ExpiryConfig,
+    IntrabarConfig,
+    TrailingStopConfig,
+} from '@/lib/engine/outcome';
+import { DEFAULT_RISK_POLICY, RiskPolicy } from '@/lib/engine/risk';
+import { DEFAULT_CIRCUIT_BREAKER, CircuitBreakerConfig, CircuitBreakerState } from '@/lib/engine/circuitBreaker';
+import { netProfitPct } from '@/lib/engine/costs';
+import { DEFAULT_PORTFOLIO_SETTINGS, PortfolioSettings } from '@/lib/engine/portfolio';
+import type { PaperSettings } from '@/lib/engine/paper';
+import {
+    debounceRegime,
+    DEFAULT_REGIME_ADJUSTMENTS,
+    MarketRegime,
+    RegimeAdjustments,
+    RegimeAdjustmentTable,
+    RegimeAnalysis,
+    REGIME_CONFIRM_RUNS,
+} from '@/lib/engine/regime';
+import { DEFAULT_REGIME_MODEL_CONFIG, RegimeModel, RegimeModelConfig } from '@/lib/engine/regimeModel';
+import type { RegimeOutcome, RegimeTuning } from '@/lib/engine/regimeLearning';
+import type { LiveAssetState } from '@/lib/engine/hyperliquidStream';
 
 // Re-export for convenience
-export type { DbSignal, ExitReason };
+export type { DbPaperAccount, DbPaperPosition, DbRegimeLearningCycle, DbRegimeObservation, DbSignal, ExitReason, StopMove, TradeCosts, TrancheFill };
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -50,26 +77,44 @@ export async function getAllPendingSignals(): Promise<DbSignal[]> {
 
 /**
  * Update signal outcome (server-side, no RLS)
+ * For scaled-out signals, profitPct is the blended return and fills the complete tranche list.
+ * profitPct is gross; with costs the net return is stored alongside it.
+ * closedAt is when the level was reached (intrabar replay); defaults to now.
+ * Only closes a signal that is still PENDING, so the cron and the stream worker
+ * can't both close it; returns null for one that is already closed.
+ * With previousFills the close also requires the tranches the caller read to be the
+ * ones stored, so a tranche the other writer closed in the meantime isn't booked twice.
  */
 export async function updateSignalOutcomeServer(
     signalId: string,
-    outcome: 'WON' | 'LOST',
+    outcome: 'WON' | 'LOST' | 'EXPIRED',
     exitPrice: number,
     exitReason: ExitReason,
-    profitPct: number
+    profitPct: number,
+    fills?: TrancheFill[],
+    costs?: TradeCosts,
+    closedAt?: string,
+    previousFills?: TrancheFill[]
 ): Promise<DbSignal | null> {
-    const { data, error } = await supabaseServer
+    let query = supabaseServer
         .from('signals')
         .update({
             outcome,
             exit_price: exitPrice,
             exit_reason: exitReason,
             profit_pct: profitPct,
-            closed_at: new Date().toISOString(),
+            closed_at: closedAt ?? new Date().toISOString(),
+            ...(fills && fills.length > 0 ? { tp_fills: fills } : {}),
+            ...(costs ? { trade_costs: costs, net_profit_pct: netProfitPct(profitPct, costs) } : {}),
         })
         .eq('id', signalId)
-        .select()
-        .single();
+        .eq('outcome', 'PENDING');
+
+    if (previousFills) {
+        query = query.eq('tp_fills', JSON.stringify(previousFills));
+    }
+
+    const { data, error } = await query.select().maybeSingle();
 
     if (error) {
         logger.error('Error updating signal', error);
@@ -79,6 +124,57 @@ export async function updateSignalOutcomeServer(
     return data;
 }
 
+/**
+ * Persist a trailing-stop / breakeven move and append it to the signal's stop history.
+ * initial_stop_loss is filled on the first move for rows created before it existed.
+ * Compare-and-set on the stop the caller read: false when the signal closed or its stop
+ * moved since (the cron and the stream worker both check signals).
+ */
+export async function updateSignalStop(signal: DbSignal, move: StopMove): Promise<boolean> {
+    const { data, error } = await supabaseServer
+        .from('signals')
+        .update({
+            stop_loss: move.to,
+            initial_stop_loss: signal.initial_stop_loss ?? signal.stop_loss,
+            stop_history: [...(signal.stop_history ?? []), move],
+        })
+        .eq('id', signal.id)
+        .eq('outcome', 'PENDING')
+        .eq('stop_loss', signal.stop_loss)
+        .select('id')
+        .maybeSingle();
+
+    if (error) {
+        logger.error('Error updating signal stop', error);
+        return false;
+    }
+
+    return data !== null;
+}
+
+/**
+ * Persist the tranches closed so far on a scaled-out signal that is still open.
+ * Compare-and-set on the tranches the caller read: false when another writer closed
+ * a tranche or the signal first, so the caller must not book the new tranches.
+ */
+export async function updateSignalFills(signal: DbSignal, fills: TrancheFill[]): Promise<boolean> {
+    const { data, error } = await supabaseServer
+        .from('signals')
+        .update({ tp_fills: fills })
+        .eq('id', signal.id)
+        .eq('outcome', 'PENDING')
+        .eq('tp_fills', JSON.stringify(signal.tp_fills ?? []))
+        .select('id')
+        .maybeSingle();
+
+    if (error) {
+        logger.error('Error updating signal fills', error);
+        return false;
+    }
+
+    return data !== null;
+}
+
 /**
  * Get all unique user IDs with signals
  */
@@ -193,6 +289,64 @@ export async function updateGlobalWeights(weights: IndicatorWeights | Record<str
     return true;
 }
 
+/**
+ * Get the per-regime weight vectors (only regimes that have one), each merged over the defaults and rescaled to 100
+ */
+export async function getRegimeWeights(): Promise<RegimeWeightSet> {
+    const { data, error } = await supabaseServer
+        .from('regime_weights')
+        .select('regime, weights');
+
+    if (error || !data) {
+        logger.error('Error fetching regime weights', error);
+        return {};
+    }
+
+    const set: RegimeWeightSet = {};
+    for (const row of data) {
+        set[row.regime as MarketRegime] = normalizeWeights({ ...DEFAULT_WEIGHTS, ...row.weights } as IndicatorWeights);
+    }
+
+    return set;
+}
+
+/**
+ * Update one regime's weight vector (upsert)
+ */
+export async function updateRegimeWeights(regime: MarketRegime, weights: IndicatorWeights | Record<string, number>): Promise<boolean> {
+    const { error } = await supabaseServer
+        .from('regime_weights')
+        .upsert({
+            regime,
+            weights,
+            updated_at: new Date().toISOString()
+        });
+
+    if (error) {
+        logger.error('Error updating regime weights', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Drop every per-regime weight vector (all regimes fall back to the global weights)
+ */
+export async function resetRegimeWeights(): Promise<boolean> {
+    const { error } = await supabaseServer
+        .from('regime_weights')
+        .delete()
+        .neq('regime', '');
+
+    if (error) {
+        logger.error('Error resetting regime weights', error);
+        return false;
+    }
+
+    return true;
+}
+
 /**
  * Get the ID of the last signal that triggered a learning event
  */
@@ -225,18 +379,18 @@ export async function getLastLearnedSignalId(): Promise<string | null> {
  * 
  * Logic: Scans chronologically and looks for ANY 3+ consecutive losses.
  * When a WIN is encountered, if we have a streak of 3+, return it.
- * Otherwise reset and keep looking.
+ * Otherwise reset and keep looking. Expired signals neither extend nor break a streak.
  */
 export async function findUnprocessedLossStreak(): Promise<{
     count: number;
     signalIds: string[];
     streakEndTime: string | null;  // Timestamp of the 3rd loss for chart positioning
 }> {
-    // Get all completed signals ordered by close time
+    // Get all resolved signals ordered by close time
     const { data, error } = await supabaseServer
         .from('signals')
         .select('id, outcome, closed_at')
-        .neq('outcome', 'PENDING')
+        .in('outcome', ['WON', 'LOST'])
         .order('closed_at', { ascending: true }); // Oldest first
 
     if (error || !data || data.length === 0) {
@@ -292,7 +446,7 @@ export async function findUnprocessedLossStreak(): Promise<{
 
 /**
  * v4.1: Find any streak of 3+ consecutive WINS that hasn't been processed.
- * Mirrors findUnprocessedLossStreak but for the win-boost learning path.
+ * Mirrors findUnprocessedLossStreak but for the win-boost learning path (expired signals skipped too).
  */
 export async function findUnprocessedWinStreak(): Promise<{
     count: number;
@@ -302,7 +456,7 @@ export async function findUnprocessedWinStreak(): Promise<{
     const { data, error } = await supabaseServer
         .from('signals')
         .select('id, outcome, closed_at')
-        .neq('outcome', 'PENDING')
+        .in('outcome', ['WON', 'LOST'])
         .order('closed_at', { ascending: true });
 
     if (error || !data || data.length === 0) {
@@ -497,8 +651,9 @@ export async function getDirectionalStats(limit: number = 50): Promise<{
 
 /**
  * Get signals grouped by market regime
+ * @param field - Snapshot key to group by: the rule-based regime or the shadow model's
  */
-export async function getSignalsByRegime(limit: number = 100): Promise<
+export async function getSignalsByRegime(limit: number = 100, field: 'regime' | 'shadowRegime' = 'regime'): Promise<
     Map<string, { wins: number; losses: number; total: number; winRate: number }>
 > {
     const { data, error } = await supabaseServer
@@ -517,7 +672,9 @@ export async function getSignalsByRegime(limit: number = 100): Promise<
     for (const signal of data) {
         // Cast to record with possible string values for regime
         const snapshot = signal.indicator_snapshot as Record<string, unknown> | null;
-        const regime = (snapshot?.regime as string) || 'UNKNOWN';
+        // Signals from before shadow mode have no model regime to group by
+        if (field === 'shadowRegime' && !snapshot?.shadowRegime) continue;
+        const regime = (snapshot?.[field] as string) || 'UNKNOWN';
 
         const existing = regimeStats.get(regime) || { wins: 0, losses: 0, total: 0, winRate: 0 };
         existing.total++;
@@ -532,9 +689,13 @@ export async function getSignalsByRegime(limit: number = 100): Promise<
 
 /**
  * Count how many trades have passed since an indicator last appeared in a losing signal
- * Used for weight recovery mechanism
+ * Used for weight recovery mechanism (of one regime's weight set when a regime is given)
  */
-export async function getTradesSinceIndicatorLoss(indicatorName: string, limit: number = 50): Promise<number> {
+export async function getTradesSinceIndicatorLoss(
+    indicatorName: string,
+    limit: number = 50,
+    regime: MarketRegime | null = null
+): Promise<number> {
     const { data, error } = await supabaseServer
         .from('signals')
         .select('outcome, indicator_snapshot')
@@ -549,8 +710,11 @@ export async function getTradesSinceIndicatorLoss(indicatorName: string, limit:
     let tradesSinceLoss = 0;
 
     for (const signal of data) {
+        const snapshot = signal.indicator_snapshot as Record<string, unknown> | null;
+        // A regime's weight set only counts trades generated in that regime
+        if (regime && snapshot?.regime !== regime) continue;
+
         if (signal.outcome === 'LOST') {
-            const snapshot = signal.indicator_snapshot as Record<string, unknown> | null;
             if (snapshot && snapshot[indicatorName] !== undefined) {
                 // Found a loss where this indicator was present
                 return tradesSinceLoss;
@@ -563,6 +727,263 @@ export async function getTradesSinceIndicatorLoss(indicatorName: string, limit:
     return tradesSinceLoss;
 }
 
+// ============================================================================
+// REGIME HISTORY — Debounced regime time series written by the generate cron
+// ============================================================================
+
+/**
+ * Record this run's regime, debounced against the latest rows, with the statistical
+ * model's reading when shadow mode is on. Returns the regime now on record (null when the insert failed).
+ */
+export async function recordRegimeObservation(
+    analysis: RegimeAnalysis,
+    shadowRegime: MarketRegime | null = null
+): Promise<MarketRegime | null> {
+    const { data: previous, error: readError } = await supabaseServer
+        .from('regime_history')
+        .select('regime, observed_regime')
+        .order('recorded_at', { ascending: false })
+        .limit(REGIME_CONFIRM_RUNS - 1);
+
+    if (readError) {
+        logger.error('[RegimeHistory] Failed to read latest regime:', readError.message);
+        return null;
+    }
+
+    const rows = previous ?? [];
+    const observed = [...rows].reverse().map(r => r.observed_regime as MarketRegime);
+    const regime = debounceRegime(
+        (rows[0]?.regime as MarketRegime | undefined) ?? null,
+        [...observed, analysis.regime]
+    );
+
+    const { error } = await supabaseServer
+        .from('regime_history')
+        .insert({
+            regime,
+            observed_regime: analysis.regime,
+            confidence: analysis.confidence,
+            btc_trend: analysis.btcTrend,
+            volatility_level: analysis.volatilityLevel,
+            market_bias: analysis.marketBias,
+            shadow_regime: shadowRegime,
+        });
+
+    if (error) {
+        logger.error('[RegimeHistory] Insert failed:', error.message);
+        return null;
+    }
+
+    return regime;
+}
+
+/**
+ * Regime observations since a date, oldest first
+ */
+export async function getRegimeHistory(since: Date): Promise<DbRegimeObservation[]> {
+    const { data, error } = await supabaseServer
+        .from('regime_history')
+        .select('*')
+        .gte('recorded_at', since.toISOString())
+        .order('recorded_at', { ascending: true });
+
+    if (error || !data) {
+        logger.error('[RegimeHistory] Failed to fetch:', error?.message);
+        return [];
+    }
+
+    return data as DbRegimeObservation[];
+}
+
+const REGIME_MODEL_CONFIG_KEY = 'regime_model_config';
+const REGIME_MODEL_KEY = 'regime_model';
+
+/**
+ * Get the statistical regime model config (defaults when none has been saved)
+ */
+export async function getRegimeModelConfig(): Promise<RegimeModelConfig> {
+    const stored = await getCacheValue<Partial<RegimeModelConfig>>(REGIME_MODEL_CONFIG_KEY);
+    return { ...DEFAULT_REGIME_MODEL_CONFIG, ...stored };
+}
+
+/**
+ * Save the statistical regime model config
+ */
+export async function saveRegimeModelConfig(config: RegimeModelConfig): Promise<void> {
+    await setCacheValue(REGIME_MODEL_CONFIG_KEY, config);
+}
+
+/**
+ * Get the cached fitted regime model (null before the first fit)
+ */
+export async function getRegimeModel(): Promise<{ model: RegimeModel; fittedAt: number } | null> {
+    return getCacheValue<{ model: RegimeModel; fittedAt: number }>(REGIME_MODEL_KEY);
+}
+
+/**
+ * Cache a fitted regime model
+ */
+export async function saveRegimeModel(model: RegimeModel, fittedAt: number = Date.now()): Promise<void> {
+    await setCacheValue(REGIME_MODEL_KEY, { model, fittedAt });
+}
+
+/**
+ * Creation time and outcome of resolved signals created since a date
+ * Used to attribute win rates to regime transitions
+ */
+export async function getResolvedSignalsSince(since: Date): Promise<{ createdAt: string; outcome: string }[]> {
+    const { data, error } = await supabaseServer
+        .from('signals')
+        .select('created_at, outcome')
+        .in('outcome', ['WON', 'LOST'])
+        .gte('created_at', since.toISOString());
+
+    if (error || !data) {
+        logger.error('Error fetching resolved signals', error);
+        return [];
+    }
+
+    return data.map(s => ({ createdAt: s.created_at, outcome: s.outcome }));
+}
+
+// ============================================================================
+// REGIME ADJUSTMENTS — Learned per-regime scoring multipliers
+// ============================================================================
+
+/**
+ * Get the regime adjustment table: stored rows merged over the engine defaults
+ */
+export async function getRegimeAdjustmentTable(): Promise<RegimeAdjustmentTable> {
+    const { data, error } = await supabaseServer
+        .from('regime_adjustments')
+        .select('regime, adjustments');
+
+    const table = { ...DEFAULT_REGIME_ADJUSTMENTS };
+
+    if (error || !data) {
+        logger.error('[RegimeAdjustments] Failed to fetch:', error?.message);
+        return table;
+    }
+
+    for (const row of data) {
+        const regime = row.regime as MarketRegime;
+        if (!table[regime]) continue;
+        table[regime] = { ...table[regime], ...(row.adjustments as Partial<RegimeAdjustments>) };
+    }
+
+    return table;
+}
+
+/**
+ * Store one regime's adjustments (upsert)
+ */
+export async function saveRegimeAdjustments(regime: MarketRegime, adjustments: RegimeAdjustments): Promise<boolean> {
+    const { error } = await supabaseServer
+        .from('regime_adjustments')
+        .upsert({
+            regime,
+            adjustments,
+            updated_at: new Date().toISOString(),
+        });
+
+    if (error) {
+        logger.error('[RegimeAdjustments] Upsert failed:', error.message);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Resolved signals tagged with the regime they were generated in, newest first.
+ * Signals from before regime tagging are skipped.
+ */
+export async function getRegimeOutcomes(limit: number = 300): Promise<RegimeOutcome[]> {
+    const { data, error } = await supabaseServer
+        .from('signals')
+        .select('direction, outcome, closed_at, indicator_snapshot')
+        .in('outcome', ['WON', 'LOST'])
+        .order('closed_at', { ascending: false })
+        .limit(limit);
+
+    if (error || !data) {
+        logger.error('Error fetching regime outcomes', error);
+        return [];
+    }
+
+    return data
+        .filter(s => typeof (s.indicator_snapshot as Record<string, unknown> | null)?.regime === 'string')
+        .map(s => ({
+            regime: (s.indicator_snapshot as Record<string, unknown>).regime as MarketRegime,
+            direction: s.direction as 'LONG' | 'SHORT',
+            outcome: s.outcome as 'WON' | 'LOST',
+            indicators: s.indicator_snapshot as Record<string, number>,
+            closedAt: s.closed_at,
+        }));
+}
+
+/**
+ * Time of each regime's latest tuning (regimes never tuned are absent)
+ */
+export async function getLastRegimeLearningTimes(): Promise<Map<MarketRegime, string>> {
+    const { data, error } = await supabaseServer
+        .from('regime_learning_cycles')
+        .select('regime, created_at')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+    const times = new Map<MarketRegime, string>();
+
+    if (error || !data) {
+        logger.error('[RegimeAdjustments] Failed to fetch learning cycles:', error?.message);
+        return times;
+    }
+
+    for (const row of data) {
+        if (!times.has(row.regime as MarketRegime)) times.set(row.regime as MarketRegime, row.created_at);
+    }
+
+    return times;
+}
+
+/**
+ * Record a regime tuning with the regime's adjustments after it (restore point)
+ */
+export async function recordRegimeLearningCycle(tuning: RegimeTuning): Promise<void> {
+    const { error } = await supabaseServer
+        .from('regime_learning_cycles')
+        .insert({
+            regime: tuning.regime,
+            triggered_by: 'regime_outcomes',
+            signals_analyzed: tuning.signalsAnalyzed,
+            win_rate: Math.round(tuning.winRate * 10) / 10,
+            adjustments: tuning.changes,
+            adjustments_snapshot: tuning.adjustments,
+        });
+
+    if (error) {
+        logger.error('[RegimeAdjustments] Failed to record learning cycle:', error.message);
+    }
+}
+
+/**
+ * Most recent regime tunings, newest first
+ */
+export async function getRegimeLearningCycles(limit: number = 50): Promise<DbRegimeLearningCycle[]> {
+    const { data, error } = await supabaseServer
+        .from('regime_learning_cycles')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error || !data) {
+        logger.error('[RegimeAdjustments] Failed to fetch learning cycles:', error?.message);
+        return [];
+    }
+
+    return data as DbRegimeLearningCycle[];
+}
+
 // ============================================================================
 // MARKET SNAPSHOTS — Historical OI, Volume, Funding for comparison signals
 // ============================================================================
@@ -636,6 +1057,633 @@ export async function upsertMarketSnapshot(
     }
 }
 
+// ============================================================================
+// LIVE MARKET — Latest Hyperliquid stream state per coin (WebSocket worker)
+// ============================================================================
+
+/**
+ * Upsert the live state of the coins that changed since the last write
+ */
+export async function upsertLiveMarket(assets: LiveAssetState[]): Promise<boolean> {
+    if (assets.length === 0) return true;
+
+    const { error } = await supabaseServer
+        .from('live_market')
+        .upsert(assets.map(asset => ({
+            coin: asset.coin,
+            mid_price: asset.midPrice,
+            mark_price: asset.markPrice,
+            oracle_price: asset.oraclePrice,
+            funding_rate: asset.fundingRate,
+            open_interest: asset.openInterest,
+            premium: asset.premium,
+            volume_24h: asset.volume24h,
+            last_trade_price: asset.lastTradePrice,
+            last_trade_at: asset.lastTradeAt ? new Date(asset.lastTradeAt).toISOString() : null,
+            updated_at: new Date(asset.updatedAt).toISOString(),
+        })), { onConflict: 'coin' });
+
+    if (error) {
+        logger.error('[LiveMarket] Upsert failed:', error.message);
+        return false;
+    }
+
+    return true;
+}
+
+// ============================================================================
+// CANDLES — Local OHLCV store keyed by (coin, interval, timestamp)
+// ============================================================================
+
+interface CandleRow {
+    timestamp: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+/**
+ * Get the most recent stored candles for a coin/interval, oldest first.
+ * Returns null when the store is unavailable so callers can fall back to the exchange.
+ */
+export async function getStoredCandles(
+    coin: string,
+    interval: string,
+    limit: number = 100
+): Promise<OHLCV[] | null> {
+    const { data, error } = await supabaseServer
+        .from('candles')
+        .select('timestamp, open, high, low, close, volume')
+        .eq('coin', coin.toUpperCase())
+        .eq('interval', interval)
+        .order('timestamp', { ascending: false })
+        .limit(limit);
+
+    if (error || !data) {
+        logger.error(`[Candles] Failed to fetch ${coin} ${interval}:`, error?.message);
+        return null;
+    }
+
+    return (data as CandleRow[])
+        .map(row => ({
+            timestamp: Number(row.timestamp),
+            open: row.open,
+            high: row.high,
+            low: row.low,
+            close: row.close,
+            volume: row.volume,
+        }))
+        .reverse();
+}
+
+/**
+ * Get stored candles for a coin/interval within a time range (inclusive), oldest first
+ */
+export async function getStoredCandlesInRange(
+    coin: string,
+    interval: string,
+    startTime: number,
+    endTime: number
+): Promise<OHLCV[]> {
+    const { data, error } = await supabaseServer
+        .from('candles')
+        .select('timestamp, open, high, low, close, volume')
+        .eq('coin', coin.toUpperCase())
+        .eq('interval', interval)
+        .gte('timestamp', startTime)
+        .lte('timestamp', endTime)
+        .order('timestamp', { ascending: true });
+
+    if (error || !data) {
+        logger.error(`[Candles] Failed to fetch ${coin} ${interval} range:`, error?.message);
+        return [];
+    }
+
+    return (data as CandleRow[]).map(row => ({
+        timestamp: Number(row.timestamp),
+        open: row.open,
+        high: row.high,
+        low: row.low,
+        close: row.close,
+        volume: row.volume,
+    }));
+}
+
+/**
+ * Upsert candles for a coin/interval. Existing bars are overwritten so
+ * an in-progress bar stored earlier is replaced by its final values.
+ */
+export async function upsertCandles(
+    coin: string,
+    interval: string,
+    candles: OHLCV[],
+    source: string
+): Promise<boolean> {
+    if (candles.length === 0) return true;
+
+    const rows = candles.map(c => ({
+        coin: coin.toUpperCase(),
+        interval,
+        timestamp: c.timestamp,
+        open: c.open,
+        high: c.high,
+        low: c.low,
+        close: c.close,
+        volume: c.volume,
+        source,
+        updated_at: new Date().toISOString(),
+    }));
+
+    const { error } = await supabaseServer
+        .from('candles')
+        .upsert(rows, { onConflict: 'coin,interval,timestamp' });
+
+    if (error) {
+        logger.error(`[Candles] Upsert failed for ${coin} ${interval}:`, error.message);
+        return false;
+    }
+
+    return true;
+}
+
+// ============================================================================
+// WEIGHT CANDIDATES — Optimizer output awaiting admin review
+// ============================================================================
+
+const WEIGHT_CANDIDATE_KEY_PREFIX = 'optimizer_weight_candidate:';
+
+export interface WeightCandidate {
+    id: string;
+    createdAt: string;
+    createdBy: string;
+    coins: string[];
+    weights: IndicatorWeights;
+    report: Omit<WalkForwardResult, 'candidate'>;
+}
+
+/**
+ * Get an optimizer candidate by its run id (null if no run saved one)
+ */
+export async function getWeightCandidate(id: string): Promise<WeightCandidate | null> {
+    return getCacheValue<WeightCandidate>(`${WEIGHT_CANDIDATE_KEY_PREFIX}${id}`);
+}
+
+/**
+ * Save an optimizer candidate under its run id, so concurrent or batched runs
+ * (e.g. the deferredCoins of a previous call) don't overwrite each other
+ */
+export async function saveWeightCandidate(candidate: WeightCandidate): Promise<void> {
+    await setCacheValue(`${WEIGHT_CANDIDATE_KEY_PREFIX}${candidate.id}`, candidate);
+}
+
+// ============================================================================
+// TRAILING STOP CONFIG — Breakeven / trailing rules applied by the monitor
+// ============================================================================
+
+const TRAILING_STOP_KEY = 'trailing_stop_config';
+
+/**
+ * Get the trailing-stop config (defaults when none has been saved)
+ */
+export async function getTrailingStopConfig(): Promise<TrailingStopConfig> {
+    const stored = await getCacheValue<Partial<TrailingStopConfig>>(TRAILING_STOP_KEY);
+    return { ...DEFAULT_TRAILING_STOP, ...stored };
+}
+
+/**
+ * Save the trailing-stop config
+ */
+export async function saveTrailingStopConfig(config: TrailingStopConfig): Promise<void> {
+    await setCacheValue(TRAILING_STOP_KEY, config);
+}
+
+// ============================================================================
+// SIGNAL EXPIRY — Max holding period before the monitor closes a signal at the mark
+// ============================================================================
+
+const EXPIRY_CONFIG_KEY = 'signal_expiry_config';
+
+/**
+ * Get the signal expiry config (defaults when none has been saved)
+ */
+export async function getExpiryConfig(): Promise<ExpiryConfig> {
+    const stored = await getCacheValue<Partial<ExpiryConfig>>(EXPIRY_CONFIG_KEY);
+    return { ...DEFAULT_EXPIRY, ...stored };
+}
+
+/**
+ * Save the signal expiry config
+ */
+export async function saveExpiryConfig(config: ExpiryConfig): Promise<void> {
+    await setCacheValue(EXPIRY_CONFIG_KEY, config);
+}
+
+// ============================================================================
+// INTRABAR — Candle replay of SL/TP between monitor runs
+// ============================================================================
+
+const INTRABAR_CONFIG_KEY = 'intrabar_config';
+const MONITOR_LAST_RUN_KEY = 'monitor_last_run';
+
+/**
+ * Get the intrabar replay config (defaults when none has been saved)
+ */
+export async function getIntrabarConfig(): Promise<IntrabarConfig> {
+    const stored = await getCacheValue<Partial<IntrabarConfig>>(INTRABAR_CONFIG_KEY);
+    return { ...DEFAULT_INTRABAR, ...stored };
+}
+
+/**
+ * Save the intrabar replay config
+ */
+export async function saveIntrabarConfig(config: IntrabarConfig): Promise<void> {
+    await setCacheValue(INTRABAR_CONFIG_KEY, config);
+}
+
+/**
+ * When the monitor last checked every pending signal (ms, null before the first run)
+ */
+export async function getMonitorLastRun(): Promise<number | null> {
+    const stored = await getCacheValue<{ at: number }>(MONITOR_LAST_RUN_KEY);
+    return stored?.at ?? null;
+}
+
+/**
+ * Record the start of a completed monitor run — the next run replays candles from here
+ */
+export async function saveMonitorLastRun(at: number): Promise<void> {
+    await setCacheValue(MONITOR_LAST_RUN_KEY, { at });
+}
+
+// ============================================================================
+// RISK POLICY — R:R and stop-distance limits, ATR multipliers per regime
+// ============================================================================
+
+const RISK_POLICY_KEY = 'risk_policy';
+const RISK_REJECTIONS_KEY = 'risk_rejections';
+const MAX_RISK_REJECTIONS = 50;
+
+export interface RiskRejection {
+    coin: string;
+    direction: 'LONG' | 'SHORT';
+    score: number;
+    regime: string;
+    reason: string;
+    at: string;
+}
+
+/**
+ * Get the risk policy (defaults when none has been saved)
+ */
+export async function getRiskPolicy(): Promise<RiskPolicy> {
+    const stored = await getCacheValue<Partial<RiskPolicy>>(RISK_POLICY_KEY);
+    return { ...DEFAULT_RISK_POLICY, ...stored };
+}
+
+/**
+ * Save the risk policy
+ */
+export async function saveRiskPolicy(policy: RiskPolicy): Promise<void> {
+    await setCacheValue(RISK_POLICY_KEY, policy);
+}
+
+/**
+ * Most recent signals rejected by the risk policy, newest first
+ */
+export async function getRiskRejections(): Promise<RiskRejection[]> {
+    return (await getCacheValue<RiskRejection[]>(RISK_REJECTIONS_KEY)) ?? [];
+}
+
+/**
+ * Append rejections to the log (keeps the latest MAX_RISK_REJECTIONS)
+ */
+export async function recordRiskRejections(rejections: RiskRejection[]): Promise<void> {
+    if (rejections.length === 0) return;
+    const existing = await getRiskRejections();
+    await setCacheValue(RISK_REJECTIONS_KEY, [...rejections, ...existing].slice(0, MAX_RISK_REJECTIONS));
+}
+
+// ============================================================================
+// CIRCUIT BREAKER — Drawdown / loss-streak throttle on signal generation
+// ============================================================================
+
+const CIRCUIT_BREAKER_CONFIG_KEY = 'circuit_breaker_config';
+const CIRCUIT_BREAKER_STATE_KEY = 'circuit_breaker_state';
+
+/**
+ * Get the circuit breaker thresholds (defaults when none have been saved)
+ */
+export async function getCircuitBreakerConfig(): Promise<CircuitBreakerConfig> {
+    const stored = await getCacheValue<Partial<CircuitBreakerConfig>>(CIRCUIT_BREAKER_CONFIG_KEY);
+    return { ...DEFAULT_CIRCUIT_BREAKER, ...stored };
+}
+
+/**
+ * Save the circuit breaker thresholds
+ */
+export async function saveCircuitBreakerConfig(config: CircuitBreakerConfig): Promise<void> {
+    await setCacheValue(CIRCUIT_BREAKER_CONFIG_KEY, config);
+}
+
+/**
+ * Get the last evaluated circuit breaker state (null before the first evaluation)
+ */
+export async function getCircuitBreakerState(): Promise<CircuitBreakerState | null> {
+    return getCacheValue<CircuitBreakerState>(CIRCUIT_BREAKER_STATE_KEY);
+}
+
+/**
+ * Save the circuit breaker state
+ */
+export async function saveCircuitBreakerState(state: CircuitBreakerState): Promise<void> {
+    await setCacheValue(CIRCUIT_BREAKER_STATE_KEY, state);
+}
+
+/**
+ * Returns of the last N closed signals, oldest first (net of costs when recorded).
+ * Includes expired signals — they move the equity curve like any other exit.
+ */
+export async function getRecentClosedReturns(limit: number = 30): Promise<{
+    returns: number[];
+    lastClosedAt: string | null;
+}> {
+    const { data, error } = await supabaseServer
+        .from('signals')
+        .select('profit_pct, net_profit_pct, closed_at')
+        .in('outcome', ['WON', 'LOST', 'EXPIRED'])
+        .order('closed_at', { ascending: false })
+        .limit(limit);
+
+    if (error || !data) {
+        logger.error('Error fetching recent closed returns', error);
+        return { returns: [], lastClosedAt: null };
+    }
+
+    return {
+        returns: data.map(s => s.net_profit_pct ?? s.profit_pct ?? 0).reverse(),
+        lastClosedAt: data[0]?.closed_at ?? null,
+    };
+}
+
+// ============================================================================
+// PORTFOLIO SETTINGS — Per-user account size, risk per trade and exposure caps
+// ============================================================================
+
+/**
+ * Get a user's portfolio settings (defaults for fields never saved)
+ */
+export async function getPortfolioSettings(userId: string): Promise<PortfolioSettings> {
+    const { data, error } = await supabaseServer
+        .from('portfolio_settings')
+        .select('settings')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        logger.error('Error fetching portfolio settings', error);
+    }
+
+    return { ...DEFAULT_PORTFOLIO_SETTINGS, ...(data?.settings as Partial<PortfolioSettings> | undefined) };
+}
+
+/**
+ * Save a user's portfolio settings (upserts)
+ */
+export async function savePortfolioSettings(userId: string, settings: PortfolioSettings): Promise<boolean> {
+    const { error } = await supabaseServer
+        .from('portfolio_settings')
+        .upsert({
+            user_id: userId,
+            settings,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id' });
+
+    if (error) {
+        logger.error('Error saving portfolio settings', error);
+        return false;
+    }
+
+    return true;
+}
+
+// ============================================================================
+// PAPER TRADING — Simulated accounts that follow engine signals
+// ============================================================================
+
+/**
+ * Get a user's paper account (null if they never opened one)
+ */
+export async function getPaperAccount(userId: string): Promise<DbPaperAccount | null> {
+    const { data, error } = await supabaseServer
+        .from('paper_accounts')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        logger.error('Error fetching paper account', error);
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Get every account that auto-follows new global signals
+ */
+export async function getAutoFollowPaperAccounts(): Promise<DbPaperAccount[]> {
+    const { data, error } = await supabaseServer
+        .from('paper_accounts')
+        .select('*')
+        .eq('auto_follow', true);
+
+    if (error) {
+        logger.error('Error fetching auto-follow paper accounts', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Open (or reset) a paper account — removes its positions and restores the starting balance
+ */
+export async function resetPaperAccount(userId: string, settings: PaperSettings): Promise<DbPaperAccount | null> {
+    const { error: deleteError } = await supabaseServer
+        .from('paper_positions')
+        .delete()
+        .eq('user_id', userId);
+
+    if (deleteError) {
+        logger.error('Error clearing paper positions', deleteError);
+        return null;
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseServer
+        .from('paper_accounts')
+        .upsert({
+            user_id: userId,
+            starting_balance: settings.startingBalance,
+            balance: settings.startingBalance,
+            fees_paid: 0,
+            funding_paid: 0,
+            risk_per_trade_pct: settings.riskPerTradePct,
+            max_leverage: settings.maxLeverage,
+            auto_follow: settings.autoFollow,
+            created_at: now,
+            updated_at: now,
+        }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+    if (error) {
+        logger.error('Error resetting paper account', error);
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Update a paper account's sizing rules and auto-follow flag (balance untouched)
+ */
+export async function updatePaperSettings(
+    userId: string,
+    settings: Omit<PaperSettings, 'startingBalance'>
+): Promise<boolean> {
+    const { error } = await supabaseServer
+        .from('paper_accounts')
+        .update({
+            risk_per_trade_pct: settings.riskPerTradePct,
+            max_leverage: settings.maxLeverage,
+            auto_follow: settings.autoFollow,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('user_id', userId);
+
+    if (error) {
+        logger.error('Error updating paper settings', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Book cash flows on a paper account: realized P&L, fees and funding (funding > 0 = paid).
+ * Incremented in SQL (apply_paper_cash_flow), so concurrent writers don't lose each other's updates.
+ */
+export async function applyPaperCashFlow(
+    userId: string,
+    flow: { pnl?: number; fees?: number; funding?: number }
+): Promise<boolean> {
+    const { data, error } = await supabaseServer.rpc('apply_paper_cash_flow', {
+        p_user_id: userId,
+        p_pnl: flow.pnl ?? 0,
+        p_fees: flow.fees ?? 0,
+        p_funding: flow.funding ?? 0,
+    });
+
+    if (error) {
+        logger.error('Error updating paper balance', error);
+        return false;
+    }
+
+    return data === true;
+}
+
+/**
+ * Get a user's paper positions, newest first
+ */
+export async function getPaperPositions(userId: string, limit: number = 200): Promise<DbPaperPosition[]> {
+    const { data, error } = await supabaseServer
+        .from('paper_positions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('opened_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        logger.error('Error fetching paper positions', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Get open paper positions — all of them, or only those following one signal
+ */
+export async function getOpenPaperPositions(signalId?: string): Promise<DbPaperPosition[]> {
+    let query = supabaseServer
+        .from('paper_positions')
+        .select('*')
+        .eq('status', 'OPEN');
+
+    if (signalId) {
+        query = query.eq('signal_id', signalId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        logger.error('Error fetching open paper positions', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Insert a paper position (null if the account already follows this signal)
+ */
+export async function addPaperPosition(
+    position: Omit<DbPaperPosition, 'id' | 'status' | 'closed_at' | 'exit_reason'>
+): Promise<DbPaperPosition | null> {
+    const { data, error } = await supabaseServer
+        .from('paper_positions')
+        .insert({ ...position, status: 'OPEN' })
+        .select()
+        .single();
+
+    if (error) {
+        // 23505 = unique (user_id, signal_id): already following
+        if (error.code !== '23505') {
+            logger.error('Error adding paper position', error);
+        }
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Update an open paper position (fills, funding, close).
+ * False when the position is no longer open, so the caller books no cash flow for it.
+ */
+export async function updatePaperPosition(
+    positionId: string,
+    update: Partial<Omit<DbPaperPosition, 'id' | 'user_id' | 'signal_id'>>
+): Promise<boolean> {
+    const { data, error } = await supabaseServer
+        .from('paper_positions')
+        .update(update)
+        .eq('id', positionId)
+        .eq('status', 'OPEN')
+        .select('id')
+        .maybeSingle();
+
+    if (error) {
+        logger.error('Error updating paper position', error);
+        return false;
+    }
+
+    return data !== null;
+}
+
 // ============================================================================
 // CACHE STORE — Generic key-value cache (used for F&G fallback, etc.)
 // ============================================================================
@@ -19,16 +19,63 @@ export interface DbSignal {
     entry_price: number;
     stop_loss: number;
     take_profit: number;
-    outcome: 'PENDING' | 'WON' | 'LOST';
+    outcome: 'PENDING' | 'WON' | 'LOST' | 'EXPIRED';   // EXPIRED: closed at the mark after the max holding period
     exit_price?: number;
     exit_reason?: ExitReason;
-    profit_pct?: number;
+    profit_pct?: number;                       // Gross: mark-to-mark, before costs
+    net_profit_pct?: number | null;            // profit_pct minus trade_costs (null before the cost model)
+    trade_costs?: TradeCosts | null;
+    initial_stop_loss?: number | null;  // stop_loss at creation; stop_loss itself may trail
+    stop_history?: StopMove[];
+    take_profit_targets?: TakeProfitTarget[];  // Scale-out ladder; empty = single take_profit exit
+    tp_fills?: TrancheFill[];                  // Tranches already closed
     indicator_snapshot: Record<string, number | string | boolean>;
     weights_used: Record<string, number>;
     created_at: string;
     closed_at?: string;
 }
 
+/**
+ * One trailing-stop / breakeven adjustment, appended to signals.stop_history
+ */
+export interface StopMove {
+    from: number;
+    to: number;
+    reason: StopMoveReason;
+    price: number;            // Mark price that triggered the move
+    at: string;
+}
+
+/**
+ * One rung of a take-profit ladder (TP1, TP2, ...), stored in signals.take_profit_targets
+ */
+export interface TakeProfitTarget {
+    price: number;
+    fraction: number;         // Share of the position closed at this target (ladder sums to 1)
+    rMultiple: number;        // Distance from entry in units of initial risk
+}
+
+/**
+ * A tranche closed at a ladder target, appended to signals.tp_fills
+ */
+export interface TrancheFill {
+    target: number;           // Index into take_profit_targets (0 = TP1)
+    price: number;            // Mark price the tranche closed at
+    fraction: number;
+    profitPct: number;        // Return of this tranche
+    at: string;
+}
+
+/**
+ * Estimated execution costs of a closed signal, % of entry notional (signals.trade_costs)
+ */
+export interface TradeCosts {
+    feesPct: number;          // Taker fee on entry and exit
+    spreadPct: number;        // Half the spread on each side
+    fundingPct: number;       // Funding over the holding time (negative = received)
+    totalPct: number;
+}
+
 // ============================================================================
 // WATCHLIST TYPES
 // ============================================================================
@@ -66,6 +113,138 @@ export interface DbLearningCycle {
     previous_win_rate?: number;
     consecutive_losses?: number;
     weights_snapshot?: Record<string, number>; // Weights after this learning event
+    regime?: string | null;                     // Weight set adjusted (null = global weights)
+    created_at: string;
+}
+
+// ============================================================================
+// PAPER TRADING TYPES
+// ============================================================================
+
+export interface DbPaperAccount {
+    user_id: string;
+    starting_balance: number;
+    balance: number;                  // Cash: starting balance + realized P&L − fees − funding
+    fees_paid: number;
+    funding_paid: number;             // Net funding paid (negative = received)
+    risk_per_trade_pct: number;
+    max_leverage: number;
+    auto_follow: boolean;             // Open a position on every new global signal
+    created_at: string;
+    updated_at: string;
+}
+
+export interface DbPaperPosition {
+    id: string;
+    user_id: string;
+    signal_id: string;
+    coin: string;
+    direction: 'LONG' | 'SHORT';
+    entry_price: number;              // Executed entry, after slippage
+    quantity: number;                 // Original size in coins
+    notional: number;                 // USD at entry
+    closed_fraction: number;          // Share already closed by ladder tranches / final exit
+    realized_pnl: number;             // Price P&L of closed tranches (before fees and funding)
+    fees_paid: number;
+    funding_paid: number;
+    fills: PaperFill[];
+    status: 'OPEN' | 'CLOSED';
+    exit_reason?: ExitReason | null;
+    opened_at: string;
+    funding_at: string;               // Funding accrued up to here
+    closed_at?: string | null;
+}
+
+/**
+ * One simulated execution on a paper position, appended to paper_positions.fills
+ */
+export interface PaperFill {
+    side: 'OPEN' | 'CLOSE';
+    price: number;            // Executed price, after slippage
+    fraction: number;         // Share of the original quantity
+    pnl: number;              // Price P&L of the tranche (0 for OPEN), USD
+    fee: number;              // USD
+    reason: string;           // 'ENTRY', 'TP1', 'STOP_LOSS', ...
+    at: string;
+}
+
+// ============================================================================
+// PERFORMANCE TYPES
+// ============================================================================
+
+/**
+ * One point on a cumulative-return curve.
+ * Shared by /api/proof-stats (live signals) and the backtester so both can be compared directly.
+ */
+export interface CumulativeReturn {
+    signalIndex: number;
+    coin: string;
+    direction: string;
+    score: number;
+    outcome: 'WON' | 'LOST' | 'EXPIRED';
+    profitPct: number;        // Individual trade return
+    cumulativePct: number;    // Running sum of all returns
+    closedAt: string;
+    entryPrice: number;
+    exitPrice: number;
+    exitReason: string | null;
+    durationHours: number;    // How long the trade was open
+}
+
+// ============================================================================
+// REGIME HISTORY TYPES
+// ============================================================================
+
+/**
+ * One regime observation per generate run
+ */
+export interface DbRegimeObservation {
+    id: number;
+    recorded_at: string;
+    regime: string;                   // Debounced regime (what the bands show)
+    observed_regime: string;          // Raw detectMarketRegime output for this run
+    confidence: number;               // 0-1
+    btc_trend: 'UP' | 'DOWN' | 'SIDEWAYS';
+    volatility_level: 'LOW' | 'NORMAL' | 'HIGH' | 'EXTREME';
+    market_bias: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+    shadow_regime: string | null;     // Statistical classifier's regime (null when shadow mode is off)
+}
+
+// ============================================================================
+// REGIME ADJUSTMENT TYPES
+// ============================================================================
+
+/**
+ * Learned scoring multipliers for one regime
+ */
+export interface DbRegimeAdjustment {
+    regime: string;
+    adjustments: {
+        scoreThresholdMultiplier: number;
+        trendWeightMultiplier: number;
+        momentumWeightMultiplier: number;
+        positioningWeightMultiplier: number;
+        directionBias: number;
+    };
+    updated_at: string;
+}
+
+/**
+ * One tuning of a regime's adjustments by the learn cron
+ */
+export interface DbRegimeLearningCycle {
+    id: string;
+    regime: string;
+    triggered_by: string;
+    signals_analyzed: number;
+    win_rate: number;
+    adjustments: Array<{
+        field: string;
+        oldValue: number;
+        newValue: number;
+        reason: string;
+    }>;
+    adjustments_snapshot: DbRegimeAdjustment['adjustments']; // Regime's adjustments after this event
     created_at: string;
 }
 
@@ -74,5 +253,6 @@ export interface DbLearningCycle {
 // ============================================================================
 
 export type SignalDirection = 'LONG' | 'SHORT' | 'HOLD';
-export type SignalOutcome = 'PENDING' | 'WON' | 'LOST';
-export type ExitReason = 'STOP_LOSS' | 'TAKE_PROFIT' | 'MOMENTUM_EXIT' | 'MANUAL';
+export type SignalOutcome = 'PENDING' | 'WON' | 'LOST' | 'EXPIRED';
+export type ExitReason = 'STOP_LOSS' | 'TAKE_PROFIT' | 'MOMENTUM_EXIT' | 'TRAILING_STOP' | 'EXPIRED' | 'MANUAL';
+export type StopMoveReason = 'BREAKEVEN' | 'ATR_TRAIL' | 'PERCENT_TRAIL';
@@ -0,0 +1,31 @@
+/**
+ * WORKER: Hyperliquid Stream
+ *
+ * Long-running Node process, deployed next to the Next.js app rather than in it
+ * (serverless functions can't hold a WebSocket open). Streams live marks, trades
+ * and funding into live_market and closes signals the instant SL/TP is reached.
+ *
+ * Run with `npm run worker:hyperliquid` (reads .env.local).
+ * HYPERLIQUID_WS_URL overrides the endpoint, e.g. for a local mock server.
+ */
+
+import { createHyperliquidWorker } from '@/lib/hyperliquidWorker';
+import { logger } from '@/lib/logger';
+
+const log = logger.withContext('HyperliquidWorker');
+
+const worker = createHyperliquidWorker({ url: process.env.HYPERLIQUID_WS_URL || undefined });
+
+async function shutdown(signal: string) {
+    log.info(`${signal} received, stopping`);
+    await worker.stop();
+    process.exit(0);
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+worker.start().catch(error => {
+    log.error('Worker failed to start', error);
+    process.exit(1);
+});
@@ -0,0 +1,38 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Candles Table
+--
+-- Local OHLCV store so the engine syncs only new bars instead of
+-- refetching the full window on every run. Also the history source
+-- for backtesting and analytics.
+--
+-- Keyed by (coin, interval, timestamp) where timestamp is the bar open
+-- time in epoch milliseconds (same as OHLCV.timestamp).
+--
+-- Run this migration in Supabase SQL Editor.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS candles (
+    coin TEXT NOT NULL,
+    interval TEXT NOT NULL,
+    timestamp BIGINT NOT NULL,
+    open DOUBLE PRECISION NOT NULL,
+    high DOUBLE PRECISION NOT NULL,
+    low DOUBLE PRECISION NOT NULL,
+    close DOUBLE PRECISION NOT NULL,
+    volume DOUBLE PRECISION NOT NULL DEFAULT 0,
+    source TEXT NOT NULL DEFAULT 'binance',
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (coin, interval, timestamp)
+);
+
+-- Latest-bars lookups scan backwards from the newest timestamp
+CREATE INDEX IF NOT EXISTS idx_candles_coin_interval_ts
+    ON candles(coin, interval, timestamp DESC);
+
+ALTER TABLE candles ENABLE ROW LEVEL SECURITY;
+
+-- Allow service role full access
+CREATE POLICY "Service role full access on candles"
+    ON candles FOR ALL
+    USING (true)
+    WITH CHECK (true);
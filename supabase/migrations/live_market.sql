@@ -0,0 +1,32 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Live Market State
+--
+-- Latest state per coin from the Hyperliquid WebSocket worker (allMids, trades,
+-- activeAssetCtx), written at most every few seconds. Kept apart from
+-- market_snapshots, which generate uses as its previous-run baseline for OI
+-- change and funding velocity.
+--
+-- Run this migration in Supabase SQL Editor.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS live_market (
+    coin TEXT PRIMARY KEY,
+    mid_price DOUBLE PRECISION,
+    mark_price DOUBLE PRECISION,
+    oracle_price DOUBLE PRECISION,
+    funding_rate DOUBLE PRECISION,          -- Current 1hr funding rate
+    open_interest DOUBLE PRECISION,         -- USD
+    premium DOUBLE PRECISION,
+    volume_24h DOUBLE PRECISION,
+    last_trade_price DOUBLE PRECISION,
+    last_trade_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE live_market ENABLE ROW LEVEL SECURITY;
+
+-- Allow service role full access
+CREATE POLICY "Service role full access on live_market"
+    ON live_market FOR ALL
+    USING (true)
+    WITH CHECK (true);
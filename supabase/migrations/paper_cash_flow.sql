@@ -0,0 +1,34 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Paper Cash Flow
+--
+-- apply_paper_cash_flow: books realized P&L, fees and funding on a paper
+--   account in a single UPDATE, so the monitor cron, the stream worker and
+--   /api/paper/follow never overwrite each other's balance changes.
+--   Returns false when the user has no paper account.
+--
+-- Run this migration in Supabase SQL Editor after paper_trading.sql.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION apply_paper_cash_flow(
+    p_user_id UUID,
+    p_pnl NUMERIC DEFAULT 0,
+    p_fees NUMERIC DEFAULT 0,
+    p_funding NUMERIC DEFAULT 0
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE paper_accounts
+    SET balance = balance + p_pnl - p_fees - p_funding,
+        fees_paid = fees_paid + p_fees,
+        funding_paid = funding_paid + p_funding,
+        updated_at = NOW()
+    WHERE user_id = p_user_id;
+
+    RETURN FOUND;
+END;
+$$;
+
+-- Only the service role (crons, worker, API routes) moves paper balances
+REVOKE EXECUTE ON FUNCTION apply_paper_cash_flow(UUID, NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_paper_cash_flow(UUID, NUMERIC, NUMERIC, NUMERIC) TO service_role;
@@ -0,0 +1,66 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Paper Trading
+--
+-- paper_accounts: one simulated account per user (cash balance, fees and
+--   funding paid, sizing rules, whether new global signals are followed).
+-- paper_positions: one row per followed signal. Opened by the generate cron
+--   (auto-follow) or /api/paper/follow, scaled out and closed by the monitor
+--   cron as the signal's tranches and outcome land. fills holds every
+--   simulated execution: [{ side, price, fraction, pnl, fee, reason, at }].
+--
+-- Run this migration in Supabase SQL Editor.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS paper_accounts (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    starting_balance NUMERIC NOT NULL DEFAULT 10000,
+    balance NUMERIC NOT NULL DEFAULT 10000,
+    fees_paid NUMERIC NOT NULL DEFAULT 0,
+    funding_paid NUMERIC NOT NULL DEFAULT 0,
+    risk_per_trade_pct NUMERIC NOT NULL DEFAULT 1,
+    max_leverage NUMERIC NOT NULL DEFAULT 3,
+    auto_follow BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS paper_positions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES paper_accounts(user_id) ON DELETE CASCADE,
+    signal_id UUID NOT NULL REFERENCES signals(id) ON DELETE CASCADE,
+    coin TEXT NOT NULL,
+    direction TEXT NOT NULL CHECK (direction IN ('LONG', 'SHORT')),
+    entry_price NUMERIC NOT NULL,
+    quantity NUMERIC NOT NULL,
+    notional NUMERIC NOT NULL,
+    closed_fraction NUMERIC NOT NULL DEFAULT 0,
+    realized_pnl NUMERIC NOT NULL DEFAULT 0,
+    fees_paid NUMERIC NOT NULL DEFAULT 0,
+    funding_paid NUMERIC NOT NULL DEFAULT 0,
+    fills JSONB NOT NULL DEFAULT '[]',
+    status TEXT NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'CLOSED')),
+    exit_reason TEXT,
+    opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    funding_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    closed_at TIMESTAMPTZ,
+    -- An account follows a signal at most once
+    UNIQUE (user_id, signal_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_positions_signal_open
+    ON paper_positions (signal_id) WHERE status = 'OPEN';
+
+CREATE INDEX IF NOT EXISTS idx_paper_positions_user
+    ON paper_positions (user_id, opened_at DESC);
+
+ALTER TABLE paper_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE paper_positions ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own account and positions (the crons and API use the service role)
+CREATE POLICY "Users read own paper account"
+    ON paper_accounts FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users read own paper positions"
+    ON paper_positions FOR SELECT
+    USING (auth.uid() = user_id);
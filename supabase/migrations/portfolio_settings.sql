@@ -0,0 +1,24 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Portfolio Settings
+--
+-- One row per user with the inputs /api/portfolio sizes signals against:
+-- { accountSize, riskPerTradePct, maxGrossExposurePct, maxNetExposurePct,
+--   maxCorrelatedExposurePct, correlationThreshold }.
+-- Fields missing from settings fall back to the engine defaults.
+--
+-- Run this migration in Supabase SQL Editor.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS portfolio_settings (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    settings JSONB NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE portfolio_settings ENABLE ROW LEVEL SECURITY;
+
+-- Users can only read and write their own settings (the API uses the service role)
+CREATE POLICY "Users manage own portfolio settings"
+    ON portfolio_settings FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
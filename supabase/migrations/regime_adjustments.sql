@@ -0,0 +1,46 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Learned Regime Adjustments
+--
+-- regime_adjustments holds one row per market regime with the multipliers scoring
+-- applies in that regime (score threshold, trend / momentum / positioning weight,
+-- direction bias). Regimes without a row use the engine defaults.
+-- regime_learning_cycles records every tuning the learn cron makes from regime-tagged
+-- outcomes, with the regime's adjustments after the event for one-click restore.
+--
+-- Run this migration in Supabase SQL Editor.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS regime_adjustments (
+    regime TEXT PRIMARY KEY,
+    adjustments JSONB NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS regime_learning_cycles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    regime TEXT NOT NULL,
+    triggered_by TEXT NOT NULL DEFAULT 'regime_outcomes',
+    signals_analyzed INTEGER NOT NULL DEFAULT 0,
+    win_rate DOUBLE PRECISION NOT NULL DEFAULT 0,
+    adjustments JSONB NOT NULL DEFAULT '[]',
+    adjustments_snapshot JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The learn cron reads the latest cycle per regime; the learning page lists recent ones
+CREATE INDEX IF NOT EXISTS idx_regime_learning_cycles_regime_created
+    ON regime_learning_cycles(regime, created_at DESC);
+
+ALTER TABLE regime_adjustments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE regime_learning_cycles ENABLE ROW LEVEL SECURITY;
+
+-- Allow service role full access
+CREATE POLICY "Service role full access on regime_adjustments"
+    ON regime_adjustments FOR ALL
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Service role full access on regime_learning_cycles"
+    ON regime_learning_cycles FOR ALL
+    USING (true)
+    WITH CHECK (true);
@@ -0,0 +1,33 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Regime History
+--
+-- One row per generate cron run with the detected market regime. observed_regime
+-- is what detectMarketRegime returned; regime is the debounced value that only
+-- flips after consecutive runs agree, so a single noisy run can't start a new band.
+-- Read by /api/regime-history for the regime bands and transition win rates on /proof.
+--
+-- Run this migration in Supabase SQL Editor.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS regime_history (
+    id BIGSERIAL PRIMARY KEY,
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    regime TEXT NOT NULL,
+    observed_regime TEXT NOT NULL,
+    confidence DOUBLE PRECISION NOT NULL DEFAULT 0,
+    btc_trend TEXT NOT NULL,
+    volatility_level TEXT NOT NULL,
+    market_bias TEXT NOT NULL
+);
+
+-- History reads scan a recent window; debouncing reads the latest rows
+CREATE INDEX IF NOT EXISTS idx_regime_history_recorded_at
+    ON regime_history(recorded_at DESC);
+
+ALTER TABLE regime_history ENABLE ROW LEVEL SECURITY;
+
+-- Allow service role full access
+CREATE POLICY "Service role full access on regime_history"
+    ON regime_history FOR ALL
+    USING (true)
+    WITH CHECK (true);
@@ -0,0 +1,13 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Regime Model Shadow Mode
+--
+-- The generate cron classifies each run with the statistical regime model
+-- (k-means / Gaussian HMM on BTC candles) alongside detectMarketRegime.
+-- shadow_regime records the model's reading next to the rule-based regime so the
+-- two can be compared; it never drives signal generation. NULL when shadow mode is off.
+--
+-- Run this migration in Supabase SQL Editor.
+-- =============================================================================
+
+ALTER TABLE regime_history
+    ADD COLUMN IF NOT EXISTS shadow_regime TEXT;
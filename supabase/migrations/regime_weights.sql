@@ -0,0 +1,28 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Per-Regime Indicator Weights
+--
+-- regime_weights holds a separate indicator weight vector per market regime.
+-- generateSignal scores with the detected regime's vector; regimes without a row
+-- use global_weights. The learn cron creates a regime's row (starting from the
+-- global weights) the first time it learns from signals generated in that regime.
+-- learning_cycles.regime records which weight set a learning event adjusted
+-- (NULL = global weights), so weights_snapshot restores the right vector.
+--
+-- Run this migration in Supabase SQL Editor.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS regime_weights (
+    regime TEXT PRIMARY KEY,
+    weights JSONB NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE learning_cycles ADD COLUMN IF NOT EXISTS regime TEXT;
+
+ALTER TABLE regime_weights ENABLE ROW LEVEL SECURITY;
+
+-- Allow service role full access
+CREATE POLICY "Service role full access on regime_weights"
+    ON regime_weights FOR ALL
+    USING (true)
+    WITH CHECK (true);
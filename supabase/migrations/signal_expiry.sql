@@ -0,0 +1,23 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Signal Expiry
+--
+-- A signal that hits neither SL nor TP within its max holding period (per
+-- timeframe or regime, configured via /api/admin/signal-expiry) is closed by
+-- the monitor at the mark with outcome = 'EXPIRED' and exit_reason = 'EXPIRED'.
+-- Expired signals count toward returns but not toward wins, losses or the
+-- learning streaks.
+--
+-- Run this migration in Supabase SQL Editor.
+-- =============================================================================
+
+ALTER TABLE signals DROP CONSTRAINT IF EXISTS signals_outcome_check;
+ALTER TABLE signals
+    ADD CONSTRAINT signals_outcome_check
+    CHECK (outcome IN ('PENDING', 'WON', 'LOST', 'EXPIRED'));
+
+ALTER TABLE signals DROP CONSTRAINT IF EXISTS signals_exit_reason_check;
+ALTER TABLE signals
+    ADD CONSTRAINT signals_exit_reason_check
+    CHECK (exit_reason IS NULL OR exit_reason IN (
+        'STOP_LOSS', 'TAKE_PROFIT', 'MOMENTUM_EXIT', 'TRAILING_STOP', 'EXPIRED', 'MANUAL'
+    ));
@@ -0,0 +1,18 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Take-Profit Ladders
+--
+-- Signals can scale out at several targets instead of a single take_profit.
+-- take_profit_targets holds the ladder as [{ price, fraction, rMultiple }]
+-- (TP1 first, fractions sum to 1). tp_fills records each closed tranche as
+-- { target, price, fraction, profitPct, at }.
+--
+-- A signal stays PENDING until every tranche is closed or the remainder is
+-- stopped out; profit_pct is then the fraction-weighted (blended) return.
+-- Rows with an empty ladder keep the single take_profit exit.
+--
+-- Run this migration in Supabase SQL Editor.
+-- =============================================================================
+
+ALTER TABLE signals
+    ADD COLUMN IF NOT EXISTS take_profit_targets JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS tp_fills JSONB NOT NULL DEFAULT '[]'::jsonb;
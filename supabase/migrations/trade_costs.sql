@@ -0,0 +1,17 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Net Returns After Costs
+--
+-- profit_pct stays the gross mark-to-mark return. When a signal closes the
+-- monitor also estimates what a taker would have paid — fees on both fills,
+-- the spread (from daily volume) and funding over the holding time — and
+-- stores the breakdown as trade_costs { feesPct, spreadPct, fundingPct, totalPct }
+-- with net_profit_pct = profit_pct - totalPct.
+--
+-- Rows closed before this migration keep NULL net values.
+--
+-- Run this migration in Supabase SQL Editor.
+-- =============================================================================
+
+ALTER TABLE signals
+    ADD COLUMN IF NOT EXISTS net_profit_pct NUMERIC,
+    ADD COLUMN IF NOT EXISTS trade_costs JSONB;
@@ -0,0 +1,22 @@
+-- =============================================================================
+-- LISAN INTELLIGENCE — Trailing Stops
+--
+-- The monitor can move stop_loss after entry (breakeven at +1R, ATR or
+-- percent trail). initial_stop_loss keeps the stop the signal was created
+-- with; stop_history records every move as
+-- { from, to, reason, price, at } where reason is BREAKEVEN, ATR_TRAIL
+-- or PERCENT_TRAIL.
+--
+-- Signals closed through a moved stop use exit_reason = 'TRAILING_STOP'.
+--
+-- Run this migration in Supabase SQL Editor.
+-- =============================================================================
+
+ALTER TABLE signals
+    ADD COLUMN IF NOT EXISTS initial_stop_loss DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS stop_history JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Existing rows: the current stop is the initial one
+UPDATE signals
+    SET initial_stop_loss = stop_loss
+    WHERE initial_stop_loss IS NULL;